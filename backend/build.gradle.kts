@@ -48,6 +48,7 @@ dependencies {
     implementation("io.ktor:ktor-server-double-receive:$ktorVersion")
     implementation("io.ktor:ktor-server-request-validation:$ktorVersion")
     implementation("io.ktor:ktor-server-config-yaml:$ktorVersion")
+    implementation("io.ktor:ktor-server-sse:$ktorVersion")
 
     // Ktor Client
     implementation("io.ktor:ktor-client-core:$ktorVersion")
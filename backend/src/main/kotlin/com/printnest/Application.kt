@@ -11,6 +11,8 @@ import com.printnest.plugins.configureApiLogging
 import com.printnest.routes.authRoutes
 import com.printnest.routes.categoryRoutes
 import com.printnest.routes.orderRoutes
+import com.printnest.routes.acknowledgmentRoutes
+import com.printnest.routes.customerRoutes
 import com.printnest.routes.productRoutes
 import com.printnest.routes.profileRoutes
 import com.printnest.routes.settingsRoutes
@@ -35,6 +37,7 @@ import com.printnest.routes.digitizingRoutes
 import com.printnest.routes.batchRoutes
 import com.printnest.routes.mappingRoutes
 import com.printnest.routes.interServiceRoutes
+import com.printnest.routes.eventRoutes
 import com.printnest.integrations.nestshipper.nestShipperRoutes
 import com.printnest.integrations.stripe.stripeRoutes
 import com.printnest.plugins.configureInterServiceAuth
@@ -44,6 +47,7 @@ import io.ktor.server.engine.*
 import io.ktor.server.netty.*
 import io.ktor.server.response.*
 import io.ktor.server.routing.*
+import io.ktor.server.sse.*
 import org.koin.ktor.ext.inject
 import org.koin.ktor.plugin.Koin
 import org.koin.logger.slf4jLogger
@@ -80,6 +84,7 @@ fun Application.module() {
     configureAuthentication()
     configureInterServiceAuth()
     configureApiLogging()
+    install(SSE)
 
     // Start background scheduler
     val scheduler: SchedulerService by inject()
@@ -127,6 +132,12 @@ fun Application.module() {
             // Order processing routes (Step 1-4)
             orderRoutes()
 
+            // Marketplace order acknowledgment queue
+            acknowledgmentRoutes()
+
+            // Address book for manual order entry
+            customerRoutes()
+
             // Settings routes (Announcements, Referrals, Colors, etc.)
             settingsRoutes()
 
@@ -192,6 +203,9 @@ fun Application.module() {
 
             // Inter-service authentication and webhook routes
             interServiceRoutes()
+
+            // Real-time event stream (order, sync, gangsheet and notification updates)
+            eventRoutes()
         }
     }
 
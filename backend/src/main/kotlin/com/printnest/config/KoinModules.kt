@@ -20,11 +20,18 @@ import com.printnest.domain.repository.ExportRepository
 import com.printnest.domain.repository.ApiLogRepository
 import com.printnest.domain.repository.DigitizingRepository
 import com.printnest.domain.repository.BatchRepository
+import com.printnest.domain.repository.OrderAcknowledgmentRepository
+import com.printnest.domain.repository.CustomerRepository
 import com.printnest.domain.service.AuthService
 import com.printnest.domain.service.CacheService
 import com.printnest.domain.service.MonitorService
 import com.printnest.domain.service.CategoryService
 import com.printnest.domain.service.OrderService
+import com.printnest.domain.service.OrderSlaService
+import com.printnest.domain.service.OrderNoteService
+import com.printnest.domain.service.OrderAcknowledgmentService
+import com.printnest.domain.service.CustomerService
+import com.printnest.domain.service.RealtimeEventService
 import com.printnest.domain.service.ProductService
 import com.printnest.domain.service.ProfileService
 import com.printnest.domain.service.SettingsService
@@ -161,6 +168,8 @@ fun koinModules() = module {
     single { ApiLogRepository() }
     single { DigitizingRepository(get()) }
     single { BatchRepository() }
+    single { OrderAcknowledgmentRepository() }
+    single { CustomerRepository() }
 
     // =====================================================
     // INTEGRATIONS
@@ -191,7 +200,7 @@ fun koinModules() = module {
     }
 
     single { ShipStationClient(get(), get()) }
-    single { ShipStationService(get(), get(), get(), get()) }
+    single { ShipStationService(get(), get(), get(), get(), get()) }
 
     // Etsy Integration
     single { EtsyAuthService(get(), get()) }
@@ -201,7 +210,7 @@ fun koinModules() = module {
     // Walmart Integration
     single { WalmartAuthService(get(), get(), get()) }
     single { WalmartClient(get(), get(), get()) }
-    single { WalmartService(get(), get(), get(), get(), get()) }
+    single { WalmartService(get(), get(), get(), get(), get(), get(), get()) }
 
     // Amazon Integration
     single { AmazonAuthService(get(), get(), get()) }
@@ -250,14 +259,19 @@ fun koinModules() = module {
     single { SubdealerService(get(), get(), get()) }
     single { CategoryService(get()) }
     single { ProductService(get(), get()) }
-    single { ProfileService(get(), get()) }
-    single { OrderService(get(), get(), get(), get()) }
+    single { ProfileService(get(), get(), get()) }
+    single { RealtimeEventService(get()) }
+    single { OrderSlaService(get(), get(), get()) }
+    single { OrderService(get(), get(), get(), get(), get(), get()) }
+    single { OrderNoteService(get(), get(), get()) }
+    single { OrderAcknowledgmentService(get(), get(), get()) }
+    single { CustomerService(get(), get()) }
     single { SettingsService(get()) }
     single { TicketService(get(), get()) }
     single { WalletService(get(), get()) }
     single { DesignService(get(), get()) }
-    single { GangsheetService(get(), get(), get(), get(), get()) }
-    single { ShippingService(get(), get(), get(), get(), get()) }
+    single { GangsheetService(get(), get(), get(), get(), get(), get()) }
+    single { ShippingService(get(), get(), get(), get(), get(), get(), get()) }
     single { AIService(get(), get(), get()) }
     single { ExcelService(get(), get(), get(), get(), get(), get()) }
     single { MonitorService(get(), get(), get(), get(), get()) }
@@ -135,6 +135,17 @@ data class CombineOrdersResponse(
     val message: String? = null
 )
 
+@Serializable
+data class CombineCandidateGroup(
+    val address: Address,
+    val orders: List<OrderFull>
+)
+
+@Serializable
+data class CombineCandidatesResponse(
+    val groups: List<CombineCandidateGroup>
+)
+
 @Serializable
 data class ProcessBatchRequest(
     val gangsheetSettings: GangsheetSettingsFull? = null // Optional: override tenant defaults
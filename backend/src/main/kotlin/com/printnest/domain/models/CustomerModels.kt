@@ -0,0 +1,59 @@
+package com.printnest.domain.models
+
+import kotlinx.serialization.Serializable
+
+// =====================================================
+// ADDRESS BOOK
+// =====================================================
+
+@Serializable
+data class CustomerAddress(
+    val id: Long,
+    val customerId: Long,
+    val address: Address,
+    val isDefault: Boolean = false,
+    val lastUsedAt: String? = null
+)
+
+@Serializable
+data class SavedCustomer(
+    val id: Long,
+    val name: String,
+    val company: String? = null,
+    val email: String? = null,
+    val phone: String? = null,
+    val addresses: List<CustomerAddress> = emptyList() // default address first
+)
+
+/**
+ * An address offered while typing a customer name in manual order entry,
+ * either saved in the address book ("saved") or taken from a past order ("order")
+ */
+@Serializable
+data class AddressSuggestion(
+    val source: String,
+    val customerName: String,
+    val address: Address,
+    val customerId: Long? = null,
+    val addressId: Long? = null,
+    val email: String? = null,
+    val isDefault: Boolean = false,
+    val orderId: Long? = null,
+    val lastUsedAt: String? = null
+)
+
+@Serializable
+data class AddressSuggestionsResponse(
+    val suggestions: List<AddressSuggestion>
+)
+
+@Serializable
+data class SaveCustomerAddressRequest(
+    val customerId: Long? = null, // omit to find the customer by name, or create one
+    val customerName: String,
+    val company: String? = null,
+    val email: String? = null,
+    val phone: String? = null,
+    val address: Address,
+    val makeDefault: Boolean = false
+)
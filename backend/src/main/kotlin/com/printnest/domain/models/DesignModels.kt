@@ -87,6 +87,7 @@ data class DesignListItem(
     val title: String,
     val designType: Int,
     val designTypeLabel: String,
+    val designUrl: String, // Lets pickers put a design on an order without loading it first
     val thumbnailUrl: String?,
     val width: Double?,
     val height: Double?,
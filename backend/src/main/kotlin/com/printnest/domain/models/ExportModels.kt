@@ -34,6 +34,19 @@ enum class ExportStatus(val code: Int) {
     }
 }
 
+// =====================================================
+// EXPORT FORMAT ENUM
+// =====================================================
+
+enum class ExportFormat(val code: String, val extension: String, val contentType: String) {
+    XLSX("xlsx", "xlsx", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"),
+    CSV("csv", "csv", "text/csv; charset=utf-8");
+
+    companion object {
+        fun fromCode(code: String): ExportFormat = entries.find { it.code == code.lowercase() } ?: XLSX
+    }
+}
+
 // =====================================================
 // EXPORT REQUEST/RESPONSE
 // =====================================================
@@ -72,6 +85,18 @@ data class ExportResponse(
     val message: String? = null
 )
 
+@Serializable
+data class ExportColumnOption(
+    val key: String,
+    val label: String
+)
+
+@Serializable
+data class ExportColumnsResponse(
+    val type: String,
+    val columns: List<ExportColumnOption>
+)
+
 @Serializable
 data class ExportDownloadResponse(
     val success: Boolean,
@@ -93,7 +93,10 @@ data class TenantSettings(
     val shipping: ShippingSettings? = null,
     val aws: AwsSettings? = null,
     val logoUrl: String? = null,
-    val detailedSettings: DetailedTenantSettings? = null
+    val detailedSettings: DetailedTenantSettings? = null,
+    val sla: SlaSettings? = null,
+    val tracking: TrackingSettings? = null,
+    val acknowledgment: AcknowledgmentSettings? = null
 )
 
 @Serializable
@@ -137,6 +140,25 @@ data class ShippingSettings(
     val easypostApiKey: String? = null
 )
 
+// Ship-by targets for paid orders, counted from when the order was placed
+@Serializable
+data class SlaSettings(
+    val urgentShipWithinHours: Int = 24,
+    val standardShipWithinBusinessDays: Int = 3,
+    val atRiskWithinHours: Int = 4, // Orders due within this window are flagged as at risk
+    val useShippingMethodProcessing: Boolean = true // Prefer the shipping method's max processing days for standard orders
+)
+
+@Serializable
+data class TrackingSettings(
+    val autoSendToMarketplace: Boolean = false // Push tracking to the order's marketplace as soon as a label is bought
+)
+
+@Serializable
+data class AcknowledgmentSettings(
+    val autoAcknowledgeOnImport: Boolean = false // Acknowledge marketplace orders as soon as they are imported
+)
+
 @Serializable
 data class AwsSettings(
     val accessKeyId: String? = null,
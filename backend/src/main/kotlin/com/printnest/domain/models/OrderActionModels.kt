@@ -198,6 +198,11 @@ data class SendTrackingRequest(
     val orderId: Long
 )
 
+@Serializable
+data class BulkSendTrackingRequest(
+    val orderIds: List<Long>
+)
+
 @Serializable
 data class SendTrackingResponse(
     val results: List<SendTrackingResult>
@@ -257,7 +262,52 @@ data class RefundItem(
 @Serializable
 data class GetRefundsResponse(
     val success: Boolean,
-    val refunds: List<RefundItem> = emptyList()
+    val refunds: List<RefundItem> = emptyList(),
+    val requests: List<OrderRefundRequest> = emptyList(),
+    @Serializable(with = BigDecimalSerializer::class)
+    val refundableAmount: BigDecimal = BigDecimal.ZERO
+)
+
+enum class RefundRequestStatus(val code: String) {
+    PENDING("pending"),
+    APPROVED("approved"),
+    DENIED("denied")
+}
+
+@Serializable
+data class RefundRequestItem(
+    val orderProductId: Long,
+    val quantity: Int,
+    @Serializable(with = BigDecimalSerializer::class)
+    val amount: BigDecimal = BigDecimal.ZERO // Priced by the server from the product unit price
+)
+
+// Refund requested by the order owner, stored in order_info until a producer reviews it
+@Serializable
+data class OrderRefundRequest(
+    val id: String,
+    val requestedBy: Long,
+    val items: List<RefundRequestItem> = emptyList(), // Empty = full order refund
+    @Serializable(with = BigDecimalSerializer::class)
+    val amount: BigDecimal,
+    val reason: String,
+    val status: String = RefundRequestStatus.PENDING.code,
+    val reviewedBy: Long? = null,
+    val reviewNote: String? = null,
+    val createdAt: String,
+    val reviewedAt: String? = null
+)
+
+@Serializable
+data class CreateRefundRequestRequest(
+    val items: List<RefundRequestItem> = emptyList(),
+    val reason: String
+)
+
+@Serializable
+data class ReviewRefundRequestRequest(
+    val approve: Boolean,
+    val note: String? = null
 )
 
 // =====================================================
@@ -1,6 +1,8 @@
 package com.printnest.domain.models
 
+import kotlinx.serialization.SerialName
 import kotlinx.serialization.Serializable
+import kotlinx.serialization.json.JsonElement
 import java.math.BigDecimal
 
 // =====================================================
@@ -44,6 +46,15 @@ enum class OrderMapStatus(val code: Int) {
     }
 }
 
+// =====================================================
+// ORDER FEES
+// =====================================================
+
+object OrderFees {
+    // TODO: Get urgent price from settings
+    val URGENT: BigDecimal = BigDecimal("10.00")
+}
+
 // TransactionType is defined in WalletModels.kt
 
 // =====================================================
@@ -85,6 +96,7 @@ data class OrderFull(
     val shippedAt: String? = null,
     val createdAt: String,
     val updatedAt: String,
+    val shipBy: OrderShipBy? = null, // Set on paid orders that have not shipped yet
     // Nested data
     val products: List<OrderProductFull> = emptyList(),
     val history: List<OrderHistoryItem> = emptyList()
@@ -104,7 +116,32 @@ data class OrderInfoFull(
     val shippingOptions: List<ShippingOption> = emptyList(),
     val customsInfo: CustomsInfoFull? = null,
     val orderNote: String? = null,
-    val giftNote: String? = null
+    val giftNote: String? = null,
+    val combinedOrderIds: List<Long> = emptyList(), // Set on the parent of a combine
+    val combinedIntoOrderId: Long? = null, // Set on each child of a combine
+    val refundRequests: List<OrderRefundRequest> = emptyList(),
+    val editSnapshot: OrderEditSnapshot? = null, // Set while a paid order is in EDITING
+    val draft: OrderDraft? = null, // Set on unsubmitted manual orders, which are kept in EDITING
+    val notDuplicateOfIds: List<Long> = emptyList() // Orders staff reviewed and kept next to this one
+)
+
+// Autosaved state of a manual order that has not been submitted yet
+@Serializable
+data class OrderDraft(
+    val source: String = "manual", // "manual" (new order page) or "wizard"
+    val payload: JsonElement, // Client form state, restored as-is on resume
+    val savedAt: String
+)
+
+// Pricing of a paid order before it was opened for editing, used to settle the difference on re-confirm
+@Serializable
+data class OrderEditSnapshot(
+    val previousStatus: Int,
+    @Serializable(with = BigDecimalSerializer::class)
+    val previousTotal: BigDecimal,
+    @Serializable(with = BigDecimalSerializer::class)
+    val previousUrgentAmount: BigDecimal = BigDecimal.ZERO,
+    val previousPriceDetail: List<PriceDetailItem> = emptyList()
 )
 
 @Serializable
@@ -117,7 +154,10 @@ data class ShippingSelection(
     val shippingId: Long? = null,
     val isInternational: Boolean = false,
     val labelUrl: String? = null,
-    val trackingCode: String? = null
+    val trackingCode: String? = null,
+    // Set once the tracking code was pushed to the marketplace; written by OrderRepository.updateOrderInfoFlag
+    @SerialName("sent_to_marketplace")
+    val sentToMarketplace: Boolean = false
 )
 
 @Serializable
@@ -305,6 +345,48 @@ data class OrderHistoryItem(
     val createdAt: String
 )
 
+// =====================================================
+// ORDER NOTES
+// =====================================================
+
+// Staff comment thread on an order; subdealers only see notes marked shared
+@Serializable
+data class OrderNote(
+    val id: Long,
+    val orderId: Long,
+    val userId: Long? = null,
+    val authorName: String? = null,
+    val note: String,
+    val shared: Boolean = false,
+    val mentionedUserIds: List<Long> = emptyList(),
+    val attachments: List<OrderNoteAttachment> = emptyList(),
+    val createdAt: String
+)
+
+@Serializable
+data class OrderNoteAttachment(
+    val fileName: String,
+    val fileUrl: String,
+    val fileType: String? = null,
+    val fileSize: Long? = null
+)
+
+@Serializable
+data class CreateOrderNoteRequest(
+    val note: String,
+    val shared: Boolean = false,
+    val mentionedUserIds: List<Long> = emptyList(),
+    val attachments: List<OrderNoteAttachment> = emptyList()
+)
+
+// Staff member that can be @mentioned in order notes
+@Serializable
+data class MentionableUser(
+    val id: Long,
+    val name: String,
+    val email: String
+)
+
 // =====================================================
 // STEP 1 - ORDER CREATION
 // =====================================================
@@ -319,7 +401,42 @@ data class CreateOrderRequest(
     val shippingAddress: Address? = null,
     val billingAddress: Address? = null,
     val orderNote: String? = null,
-    val products: List<CreateOrderProductRequest> = emptyList()
+    val products: List<CreateOrderProductRequest> = emptyList(),
+    val customsInfo: CustomsInfoFull? = null // International orders only, used when the label is bought
+)
+
+@Serializable
+data class SaveOrderDraftRequest(
+    val source: String = "manual",
+    val customerName: String? = null,
+    val shippingAddress: Address? = null,
+    val payload: JsonElement
+)
+
+@Serializable
+data class OrderDraftsResponse(
+    val drafts: List<OrderFull>
+)
+
+@Serializable
+data class SavedOrderView(
+    val id: Long,
+    val name: String,
+    val page: String,
+    val query: String,
+    val createdAt: String
+)
+
+@Serializable
+data class CreateSavedOrderViewRequest(
+    val name: String,
+    val page: String,
+    val query: String
+)
+
+@Serializable
+data class SavedOrderViewsResponse(
+    val views: List<SavedOrderView>
 )
 
 @Serializable
@@ -339,9 +456,24 @@ data class CreateOrderProductRequest(
 @Serializable
 data class UpdateOrderStep2Request(
     val products: List<UpdateOrderProductRequest> = emptyList(),
+    val newProducts: List<AddOrderProductRequest> = emptyList(),
+    val removedOrderProductIds: List<Long> = emptyList(),
     val shippingAddress: Address? = null,
     val orderNote: String? = null,
-    val giftNote: String? = null
+    val giftNote: String? = null,
+    val customsInfo: CustomsInfoFull? = null // Replaces the declaration when the order now ships abroad
+)
+
+@Serializable
+data class AddOrderProductRequest(
+    val productId: Long? = null,
+    val variantId: Long? = null,
+    val categoryId: Long? = null,
+    val option1Id: Long? = null,
+    val option2Id: Long? = null,
+    val quantity: Int = 1,
+    val modificationDetail: List<ModificationDetailItem> = emptyList(),
+    val stitchCount: Int = 0
 )
 
 @Serializable
@@ -409,7 +541,14 @@ data class Step4Response(
     val products: List<OrderProductFull>,
     val address: Address? = null,
     val canProceed: Boolean = true,
-    val issues: List<String> = emptyList()
+    val issues: List<String> = emptyList(),
+    // Only set when re-confirming an edited order
+    @Serializable(with = BigDecimalSerializer::class)
+    val previousTotal: BigDecimal? = null,
+    @Serializable(with = BigDecimalSerializer::class)
+    val priceDifference: BigDecimal? = null,
+    val previousPriceDetail: List<PriceDetailItem> = emptyList(),
+    val priceDetail: List<PriceDetailItem> = emptyList()
 )
 
 @Serializable
@@ -455,6 +594,12 @@ data class TransactionFull(
     val createdAt: String
 )
 
+@Serializable
+data class OrderPaymentsResponse(
+    val payments: List<Payment> = emptyList(),
+    val transactions: List<TransactionFull> = emptyList() // Wallet transactions referencing the order (charges and refunds)
+)
+
 // =====================================================
 // SHIPPING LABEL
 // =====================================================
@@ -497,12 +642,15 @@ data class OrderFiltersExtended(
     val shipstationStoreId: Long? = null,
     val userId: Long? = null,
     val search: String? = null,
+    val searchInternalNotes: Boolean = false, // on for staff; subdealers only see shared notes
     val startDate: String? = null,
     val endDate: String? = null,
     val page: Int = 1,
     val limit: Int = 50,
     val sortBy: String = "createdAt",
-    val sortOrder: String = "DESC"
+    val sortOrder: String = "DESC",
+    val cursor: String? = null, // set instead of page to read the orders after a nextCursor
+    val drafts: Boolean = false // true lists only unsubmitted drafts, which are otherwise left out
 )
 
 @Serializable
@@ -511,7 +659,117 @@ data class OrderListResponse(
     val total: Int,
     val page: Int,
     val limit: Int,
-    val totalPages: Int
+    val totalPages: Int,
+    val nextCursor: String? = null // null on the last page, or when the sort can't be paged by cursor
+)
+
+/**
+ * Position after the last order of a list page: its sort value plus id to break ties.
+ * Keyset paging stays fast deep into large lists, where offset paging scans every skipped row.
+ */
+data class OrderCursor(
+    val sortValue: String,
+    val id: Long
+) {
+    fun encode(): String =
+        java.util.Base64.getUrlEncoder().withoutPadding().encodeToString("$sortValue|$id".toByteArray())
+
+    companion object {
+        fun of(order: OrderFull, sortBy: String): OrderCursor = OrderCursor(
+            sortValue = when (sortBy) {
+                "updatedAt" -> order.updatedAt
+                "totalAmount" -> order.totalAmount.toPlainString()
+                "orderStatus" -> order.orderStatus.toString()
+                else -> order.createdAt
+            },
+            id = order.id
+        )
+
+        fun decode(cursor: String): OrderCursor? = runCatching {
+            val decoded = String(java.util.Base64.getUrlDecoder().decode(cursor))
+            OrderCursor(decoded.substringBeforeLast("|"), decoded.substringAfterLast("|").toLong())
+        }.getOrNull()
+    }
+}
+
+@Serializable
+data class OrderIdsResponse(
+    val orderIds: List<Long>,
+    val truncated: Boolean // more orders match than were returned
+)
+
+// =====================================================
+// ORDER SLA
+// =====================================================
+
+@Serializable
+data class OrderShipBy(
+    val shipByAt: String,
+    val state: String, // on_track, at_risk, overdue
+    val urgent: Boolean = false
+)
+
+@Serializable
+data class OrderSlaSummary(
+    val openOrders: Int,
+    val atRisk: Int,
+    val overdue: Int,
+    val nextShipByAt: String? = null
+)
+
+// =====================================================
+// MARKETPLACE ACKNOWLEDGMENTS
+// =====================================================
+
+// A marketplace order that hasn't been acknowledged yet; lastError is set once an attempt failed
+@Serializable
+data class UnacknowledgedOrder(
+    val orderId: Long,
+    val intOrderId: String? = null,
+    val externalOrderId: String? = null,
+    val storeId: Long,
+    val storeName: String,
+    val customerName: String? = null,
+    val orderedAt: String,
+    val ageHours: Long,
+    val attempts: Int = 0,
+    val lastError: String? = null,
+    val lastAttemptAt: String? = null
+)
+
+@Serializable
+data class AcknowledgmentStoreSummary(
+    val storeId: Long,
+    val storeName: String,
+    val pending: Int,
+    val failed: Int,
+    val oldestAgeHours: Long
+)
+
+@Serializable
+data class AcknowledgmentQueueResponse(
+    val stores: List<AcknowledgmentStoreSummary>,
+    val orders: List<UnacknowledgedOrder>,
+    val truncated: Boolean = false
+)
+
+@Serializable
+data class AcknowledgeOrdersRequest(
+    val orderIds: List<Long>
+)
+
+@Serializable
+data class AcknowledgeOrderResult(
+    val orderId: Long,
+    val success: Boolean,
+    val message: String
+)
+
+@Serializable
+data class AcknowledgeOrdersResponse(
+    val acknowledged: Int,
+    val failed: Int,
+    val results: List<AcknowledgeOrderResult>
 )
 
 // =====================================================
@@ -533,6 +791,49 @@ data class BulkActionRequest(
     val data: Map<String, String> = emptyMap()
 )
 
+// Corrected shipping address for an order held as INVALID_ADDRESS
+@Serializable
+data class OrderAddressCorrection(
+    val orderId: Long,
+    val address: Address
+)
+
+@Serializable
+data class CorrectAddressesRequest(
+    val corrections: List<OrderAddressCorrection>
+)
+
+@Serializable
+data class OrderAddressCorrectionError(
+    val orderId: Long,
+    val message: String
+)
+
+@Serializable
+data class CorrectAddressesResponse(
+    val correctedOrderIds: List<Long>,
+    val errors: List<OrderAddressCorrectionError> = emptyList()
+)
+
+// Open orders that look like the same purchase, e.g. a marketplace order also uploaded from Excel
+@Serializable
+data class DuplicateOrderGroup(
+    val reason: String, // "external_id" or "customer_address_products"
+    val orders: List<OrderFull>
+)
+
+@Serializable
+data class DuplicateOrdersResponse(
+    val groups: List<DuplicateOrderGroup>
+)
+
+@Serializable
+data class ResolveDuplicatesRequest(
+    val keepOrderId: Long,
+    val duplicateOrderIds: List<Long>,
+    val action: String // "merge", "cancel" or "keep"
+)
+
 @Serializable
 data class ShipOrderRequest(
     val trackingNumber: String? = null,
@@ -571,7 +872,9 @@ data class ProductForSelection(
     val title: String,
     val designType: Int,
     val option1Name: String? = null,
-    val option2Name: String? = null
+    val option2Name: String? = null,
+    val customsDescription: String? = null,
+    val hsTariffNumber: String? = null
 )
 
 @Serializable
@@ -654,6 +957,58 @@ data class SimpleExcelImportError(
     val errorMessage: String
 )
 
+// Raw cells of the first sheet, returned before any column is mapped
+@Serializable
+data class ExcelSheetPreview(
+    val headers: List<String>,
+    val rows: List<ExcelSheetRow>
+)
+
+@Serializable
+data class ExcelSheetRow(
+    val rowNumber: Int,
+    val cells: List<String>
+)
+
+// One spreadsheet row after the user mapped its columns to order fields
+@Serializable
+data class ImportOrderRow(
+    val rowNumber: Int,
+    val name: String = "",
+    val street1: String = "",
+    val street2: String = "",
+    val city: String = "",
+    val state: String = "",
+    val zip: String = "",
+    val country: String = "",
+    val sku: String = "",
+    val product: String = "",
+    val category: String = "",
+    val option1: String = "",
+    val option2: String = "",
+    val quantity: String = "",
+    val modification: String = "",
+    val modificationUrl: String = ""
+)
+
+@Serializable
+data class ImportOrderRowsRequest(
+    val rows: List<ImportOrderRow>
+)
+
+@Serializable
+data class ImportRowValidation(
+    val rowNumber: Int,
+    val productId: Long? = null,
+    val variantId: Long? = null,
+    val errors: List<String> = emptyList()
+)
+
+@Serializable
+data class ImportRowsValidationResponse(
+    val rows: List<ImportRowValidation>
+)
+
 // Type aliases for backward compatibility
 typealias ExcelImportResult = SimpleExcelImportResult
 typealias ExcelImportError = SimpleExcelImportError
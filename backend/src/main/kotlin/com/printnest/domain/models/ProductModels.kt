@@ -65,6 +65,8 @@ data class Product(
     val supplierId: Long? = null,
     val status: Int = 1,
     val tags: List<String> = emptyList(),
+    val customsDescription: String? = null,
+    val hsTariffNumber: String? = null,
     val createdAt: String,
     val updatedAt: String,
     // Nested data
@@ -87,7 +89,9 @@ data class CreateProductRequest(
     val option3Name: String? = null,
     val designType: Int = 1,
     val supplierId: Long? = null,
-    val tags: List<String> = emptyList()
+    val tags: List<String> = emptyList(),
+    val customsDescription: String? = null,
+    val hsTariffNumber: String? = null
 )
 
 @Serializable
@@ -103,7 +107,9 @@ data class UpdateProductRequest(
     val designType: Int? = null,
     val supplierId: Long? = null,
     val status: Int? = null,
-    val tags: List<String>? = null
+    val tags: List<String>? = null,
+    val customsDescription: String? = null,
+    val hsTariffNumber: String? = null
 )
 
 // =====================================================
@@ -315,7 +315,11 @@ data class ShippingMethodRate(
 data class PriceCalculationRequest(
     val userId: Long? = null,
     val priceProfileId: Long? = null,
-    val items: List<PriceItem>
+    val items: List<PriceItem>,
+    val shippingMethodId: Long? = null, // Prices shipping with the tenant's shipping profile
+    val destinationAddress: Address? = null,
+    val hasGiftNote: Boolean = false, // Order-level gift note, charged once
+    val isUrgent: Boolean = false
 )
 
 @Serializable
@@ -341,7 +345,16 @@ data class PriceCalculationResult(
     val totalGiftNotes: BigDecimal,
     @Serializable(with = BigDecimalSerializer::class)
     val total: BigDecimal,
-    val itemDetails: List<PriceItemDetail>
+    val itemDetails: List<PriceItemDetail>,
+    @Serializable(with = BigDecimalSerializer::class)
+    val shippingPrice: BigDecimal = BigDecimal.ZERO,
+    val shippingMethodName: String? = null,
+    @Serializable(with = BigDecimalSerializer::class)
+    val giftNotePrice: BigDecimal = BigDecimal.ZERO,
+    @Serializable(with = BigDecimalSerializer::class)
+    val urgentPrice: BigDecimal = BigDecimal.ZERO,
+    @Serializable(with = BigDecimalSerializer::class)
+    val grandTotal: BigDecimal = BigDecimal.ZERO // Products + shipping + gift note + urgent, as charged at checkout
 )
 
 @Serializable
@@ -0,0 +1,18 @@
+package com.printnest.domain.models
+
+import kotlinx.serialization.json.JsonElement
+
+// =====================================================
+// REALTIME EVENTS
+// =====================================================
+
+/**
+ * Change pushed to connected clients over /api/v1/events.
+ * Only type and data are sent; tenantId and userId decide who receives it.
+ */
+data class RealtimeEvent(
+    val type: String,
+    val tenantId: Long,
+    val userId: Long? = null, // null for everyone in the tenant
+    val data: JsonElement
+)
@@ -41,6 +41,9 @@ data class TenantSettingsResponse(
     val shipstationSettings: ShipStationSettings? = null,
     val stripeSettings: StripeSettings? = null,
     val shippingSettings: ShippingSettings? = null,
+    val slaSettings: SlaSettings = SlaSettings(),
+    val trackingSettings: TrackingSettings = TrackingSettings(),
+    val acknowledgmentSettings: AcknowledgmentSettings = AcknowledgmentSettings(),
     val status: Int = 1,
     val createdAt: String,
     val updatedAt: String
@@ -405,7 +408,10 @@ data class UpdateTenantSettingsRequest(
     val awsSettings: AwsSettings? = null,
     val shipstationSettings: ShipStationSettings? = null,
     val stripeSettings: StripeSettings? = null,
-    val shippingSettings: ShippingSettings? = null
+    val shippingSettings: ShippingSettings? = null,
+    val slaSettings: SlaSettings? = null,
+    val trackingSettings: TrackingSettings? = null,
+    val acknowledgmentSettings: AcknowledgmentSettings? = null
 )
 
 // =====================================================
@@ -337,8 +337,10 @@ data class EasyPostMessage(
 
 @Serializable
 data class RateRequest(
-    val orderId: Long,
+    val orderId: Long? = null, // Omit to quote a cart that is not saved yet
     val fromAddress: ShippingAddress? = null, // Optional, uses tenant default if not provided
+    val toAddress: ShippingAddress? = null, // Required for cart quotes
+    val items: List<ShippingItem> = emptyList(), // Cart items, weighed from their variants
     val parcel: Parcel? = null // Optional, calculated from order if not provided
 )
 
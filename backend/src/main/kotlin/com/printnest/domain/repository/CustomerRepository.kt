@@ -0,0 +1,291 @@
+package com.printnest.domain.repository
+
+import com.printnest.domain.models.*
+import com.printnest.domain.tables.CustomerAddresses
+import com.printnest.domain.tables.Customers
+import com.printnest.domain.tables.Orders
+import kotlinx.serialization.json.Json
+import org.jetbrains.exposed.sql.*
+import org.jetbrains.exposed.sql.SqlExpressionBuilder.eq
+import org.jetbrains.exposed.sql.transactions.transaction
+import org.koin.core.component.KoinComponent
+import org.koin.core.component.inject
+import java.time.Instant
+
+/**
+ * Repository for the address book: saved customers and their addresses
+ */
+class CustomerRepository : KoinComponent {
+
+    private val json: Json by inject()
+
+    // =====================================================
+    // SEARCH
+    // =====================================================
+
+    /**
+     * Find saved customers whose name, company or email contains the query.
+     * ownerId limits the search to customers saved by that user; null searches the whole tenant.
+     */
+    fun searchCustomers(tenantId: Long, ownerId: Long?, query: String, limit: Int): List<SavedCustomer> = transaction {
+        val pattern = containsPattern(query)
+
+        val customers = Customers.selectAll()
+            .where {
+                (Customers.tenantId eq tenantId) and ownedBy(ownerId) and (
+                    (Customers.name.lowerCase() like pattern) or
+                    (Customers.company.lowerCase() like pattern) or
+                    (Customers.email.lowerCase() like pattern)
+                )
+            }
+            .orderBy(Customers.updatedAt, SortOrder.DESC)
+            .limit(limit)
+            .toList()
+
+        val addresses = findAddresses(customers.map { it[Customers.id].value })
+        customers.map { it.toSavedCustomer(addresses[it[Customers.id].value].orEmpty()) }
+    }
+
+    /**
+     * Shipping addresses of recent orders whose customer name contains the query, newest first.
+     * ownerId limits the search to that user's orders; null searches the whole tenant.
+     */
+    fun findPastOrderAddresses(tenantId: Long, ownerId: Long?, query: String, limit: Int): List<AddressSuggestion> = transaction {
+        val pattern = containsPattern(query)
+
+        Orders.select(Orders.id, Orders.customerName, Orders.customerEmail, Orders.shippingAddress, Orders.orderInfo, Orders.createdAt)
+            .where {
+                var condition = (Orders.tenantId eq tenantId) and
+                    (Orders.customerName.lowerCase() like pattern) and
+                    (Orders.orderStatus neq OrderStatus.DELETED.code)
+                ownerId?.let { condition = condition and (Orders.userId eq it) }
+                condition
+            }
+            .orderBy(Orders.createdAt, SortOrder.DESC)
+            .limit(limit)
+            .mapNotNull { row ->
+                val address = decodeOrderAddress(row) ?: return@mapNotNull null
+                AddressSuggestion(
+                    source = "order",
+                    customerName = row[Orders.customerName] ?: address.name ?: "",
+                    address = address,
+                    email = row[Orders.customerEmail],
+                    orderId = row[Orders.id].value,
+                    lastUsedAt = row[Orders.createdAt].toString()
+                )
+            }
+    }
+
+    fun findCustomer(id: Long, tenantId: Long, ownerId: Long?): SavedCustomer? = transaction {
+        val row = Customers.selectAll()
+            .where { (Customers.id eq id) and (Customers.tenantId eq tenantId) and ownedBy(ownerId) }
+            .singleOrNull()
+            ?: return@transaction null
+
+        row.toSavedCustomer(findAddresses(listOf(id))[id].orEmpty())
+    }
+
+    // =====================================================
+    // SAVE
+    // =====================================================
+
+    /**
+     * Find a customer by exact name (case-insensitive) among the ones ownerId may see, or create one for userId
+     */
+    fun findOrCreateCustomer(tenantId: Long, userId: Long, ownerId: Long?, request: SaveCustomerAddressRequest): Long = transaction {
+        val name = request.customerName.trim()
+
+        val existing = Customers.selectAll()
+            .where {
+                (Customers.tenantId eq tenantId) and ownedBy(ownerId) and (Customers.name.lowerCase() eq name.lowercase())
+            }
+            .orderBy(Customers.updatedAt, SortOrder.DESC)
+            .firstOrNull()
+
+        if (existing != null) {
+            val id = existing[Customers.id].value
+            Customers.update({ Customers.id eq id }) {
+                request.company?.let { company -> it[Customers.company] = company }
+                request.email?.let { email -> it[Customers.email] = email }
+                request.phone?.let { phone -> it[Customers.phone] = phone }
+                it[updatedAt] = Instant.now()
+            }
+            return@transaction id
+        }
+
+        Customers.insertAndGetId {
+            it[this.tenantId] = tenantId
+            it[this.userId] = userId
+            it[this.name] = name
+            it[company] = request.company
+            it[email] = request.email
+            it[phone] = request.phone
+        }.value
+    }
+
+    /**
+     * Add an address to a customer, or mark it used again when the customer already has it.
+     * The customer's first address becomes the default.
+     */
+    fun saveAddress(tenantId: Long, customerId: Long, address: Address, makeDefault: Boolean): Long = transaction {
+        val now = Instant.now()
+        val street1 = address.street1.orEmpty().trim()
+        val postalCode = address.postalCode.orEmpty().trim()
+
+        val existing = CustomerAddresses.selectAll()
+            .where {
+                (CustomerAddresses.customerId eq customerId) and
+                    (CustomerAddresses.street1.lowerCase() eq street1.lowercase()) and
+                    (CustomerAddresses.postalCode eq postalCode)
+            }
+            .firstOrNull()
+
+        val addressId = if (existing != null) {
+            val id = existing[CustomerAddresses.id].value
+            CustomerAddresses.update({ CustomerAddresses.id eq id }) {
+                it[name] = address.name.orEmpty().trim()
+                it[company] = address.company
+                it[street2] = address.street2
+                it[city] = address.city.orEmpty().trim()
+                it[state] = address.state
+                it[country] = address.country ?: "US"
+                it[phone] = address.phone
+                it[lastUsedAt] = now
+                it[updatedAt] = now
+            }
+            id
+        } else {
+            CustomerAddresses.insertAndGetId {
+                it[this.tenantId] = tenantId
+                it[this.customerId] = customerId
+                it[name] = address.name.orEmpty().trim()
+                it[company] = address.company
+                it[this.street1] = street1
+                it[street2] = address.street2
+                it[city] = address.city.orEmpty().trim()
+                it[state] = address.state
+                it[this.postalCode] = postalCode
+                it[country] = address.country ?: "US"
+                it[phone] = address.phone
+                it[lastUsedAt] = now
+            }.value
+        }
+
+        val hasDefault = CustomerAddresses.selectAll()
+            .where { (CustomerAddresses.customerId eq customerId) and (CustomerAddresses.isDefault eq true) }
+            .count() > 0
+        if (makeDefault || !hasDefault) {
+            setDefaultAddress(customerId, addressId)
+        }
+
+        Customers.update({ Customers.id eq customerId }) {
+            it[updatedAt] = now
+        }
+
+        addressId
+    }
+
+    /**
+     * Make one address the customer's default; returns false when the address isn't theirs
+     */
+    fun setDefaultAddress(customerId: Long, addressId: Long): Boolean = transaction {
+        val belongs = CustomerAddresses.selectAll()
+            .where { (CustomerAddresses.id eq addressId) and (CustomerAddresses.customerId eq customerId) }
+            .count() > 0
+        if (!belongs) return@transaction false
+
+        CustomerAddresses.update({ CustomerAddresses.customerId eq customerId }) {
+            it[isDefault] = false
+        }
+        CustomerAddresses.update({ CustomerAddresses.id eq addressId }) {
+            it[isDefault] = true
+            it[updatedAt] = Instant.now()
+        }
+        true
+    }
+
+    /**
+     * Delete an address; when it was the default, the most recently used one takes over
+     */
+    fun deleteAddress(customerId: Long, addressId: Long): Boolean = transaction {
+        val address = CustomerAddresses.selectAll()
+            .where { (CustomerAddresses.id eq addressId) and (CustomerAddresses.customerId eq customerId) }
+            .singleOrNull()
+            ?: return@transaction false
+
+        CustomerAddresses.deleteWhere { CustomerAddresses.id eq addressId }
+
+        if (address[CustomerAddresses.isDefault]) {
+            CustomerAddresses.selectAll()
+                .where { CustomerAddresses.customerId eq customerId }
+                .orderBy(CustomerAddresses.lastUsedAt, SortOrder.DESC_NULLS_LAST)
+                .firstOrNull()
+                ?.let { setDefaultAddress(customerId, it[CustomerAddresses.id].value) }
+        }
+        true
+    }
+
+    // =====================================================
+    // HELPERS
+    // =====================================================
+
+    private fun ownedBy(ownerId: Long?): Op<Boolean> =
+        ownerId?.let { Customers.userId eq it } ?: Op.TRUE
+
+    // Matches the query anywhere, with % and _ in it taken literally
+    private fun containsPattern(query: String): LikePattern {
+        val escaped = query.lowercase()
+            .replace("\\", "\\\\")
+            .replace("%", "\\%")
+            .replace("_", "\\_")
+        return LikePattern("%$escaped%", escapeChar = '\\')
+    }
+
+    private fun findAddresses(customerIds: List<Long>): Map<Long, List<CustomerAddress>> {
+        if (customerIds.isEmpty()) return emptyMap()
+
+        return CustomerAddresses.selectAll()
+            .where { CustomerAddresses.customerId inList customerIds }
+            .orderBy(CustomerAddresses.isDefault to SortOrder.DESC, CustomerAddresses.lastUsedAt to SortOrder.DESC_NULLS_LAST)
+            .map { it.toCustomerAddress() }
+            .groupBy { it.customerId }
+    }
+
+    // Manual orders keep the address in shipping_address, synced ones in order_info.toAddress
+    private fun decodeOrderAddress(row: ResultRow): Address? {
+        val address = try {
+            json.decodeFromString<Address>(row[Orders.shippingAddress]).takeIf { !it.street1.isNullOrBlank() }
+                ?: json.decodeFromString<OrderInfoFull>(row[Orders.orderInfo]).toAddress
+        } catch (e: Exception) {
+            null
+        }
+        return address?.takeIf { !it.street1.isNullOrBlank() && !it.postalCode.isNullOrBlank() }
+    }
+
+    private fun ResultRow.toSavedCustomer(addresses: List<CustomerAddress>): SavedCustomer = SavedCustomer(
+        id = this[Customers.id].value,
+        name = this[Customers.name],
+        company = this[Customers.company],
+        email = this[Customers.email],
+        phone = this[Customers.phone],
+        addresses = addresses
+    )
+
+    private fun ResultRow.toCustomerAddress(): CustomerAddress = CustomerAddress(
+        id = this[CustomerAddresses.id].value,
+        customerId = this[CustomerAddresses.customerId].value,
+        address = Address(
+            name = this[CustomerAddresses.name],
+            company = this[CustomerAddresses.company],
+            street1 = this[CustomerAddresses.street1],
+            street2 = this[CustomerAddresses.street2],
+            city = this[CustomerAddresses.city],
+            state = this[CustomerAddresses.state],
+            postalCode = this[CustomerAddresses.postalCode],
+            country = this[CustomerAddresses.country],
+            phone = this[CustomerAddresses.phone]
+        ),
+        isDefault = this[CustomerAddresses.isDefault],
+        lastUsedAt = this[CustomerAddresses.lastUsedAt]?.toString()
+    )
+}
@@ -236,6 +236,7 @@ class DesignRepository(
             title = this[Designs.title],
             designType = typeCode,
             designTypeLabel = typeLabel,
+            designUrl = this[Designs.designUrl],
             thumbnailUrl = this[Designs.thumbnailUrl],
             width = this[Designs.width]?.toDouble(),
             height = this[Designs.height]?.toDouble(),
@@ -71,7 +71,7 @@ class ExportRepository {
             .leftJoin(ProductCategories, { Products.categoryId }, { id })
             .leftJoin(Variants, { OrderProducts.variantId }, { id })
             .selectAll()
-            .where { (Orders.tenantId eq tenantId) and (Orders.id inList orderIds) }
+            .where { (Orders.tenantId eq tenantId) and (Orders.id inList orderIds) and not(Orders.isDraft()) }
             .orderBy(Orders.id, SortOrder.ASC)
             .forEach { row ->
                 val modificationDetail = row[OrderProducts.modificationDetail]
@@ -106,6 +106,56 @@ class ExportRepository {
         results
     }
 
+    /**
+     * Order IDs matching export filters, used when an export is built from filters instead of a selection
+     */
+    fun getOrderIdsForExport(tenantId: Long, filters: ExportFilters?): List<Long> = transaction {
+        var query = Orders.select(Orders.id)
+            .where { (Orders.tenantId eq tenantId) and not(Orders.isDraft()) }
+
+        val statuses = filters?.statuses?.takeIf { it.isNotEmpty() } ?: filters?.status?.let { listOf(it) }
+        statuses?.let { codes ->
+            query = query.andWhere { Orders.orderStatus inList codes }
+        }
+
+        filters?.storeId?.let { storeId ->
+            query = query.andWhere { Orders.storeId eq storeId }
+        }
+
+        filters?.userId?.let { uid ->
+            query = query.andWhere { Orders.userId eq uid }
+        }
+
+        filters?.startDate?.let { start ->
+            try {
+                val startInstant = LocalDate.parse(start).atStartOfDay().toInstant(java.time.ZoneOffset.UTC)
+                query = query.andWhere { Orders.createdAt greaterEq startInstant }
+            } catch (e: Exception) {
+                logger.warn("Invalid start date format: $start")
+            }
+        }
+
+        filters?.endDate?.let { end ->
+            try {
+                val endInstant = LocalDate.parse(end).plusDays(1).atStartOfDay().toInstant(java.time.ZoneOffset.UTC)
+                query = query.andWhere { Orders.createdAt less endInstant }
+            } catch (e: Exception) {
+                logger.warn("Invalid end date format: $end")
+            }
+        }
+
+        filters?.search?.takeIf { it.isNotBlank() }?.let { search ->
+            val pattern = "%${search.trim().lowercase()}%"
+            query = query.andWhere {
+                (Orders.intOrderId.lowerCase() like pattern) or
+                    (Orders.externalOrderId.lowerCase() like pattern) or
+                    (Orders.customerName.lowerCase() like pattern)
+            }
+        }
+
+        query.orderBy(Orders.id, SortOrder.ASC).map { it[Orders.id].value }
+    }
+
     // =====================================================
     // OUT OF STOCK EXPORT DATA
     // =====================================================
@@ -465,11 +515,13 @@ class ExportRepository {
         exportId: Long,
         status: Int,
         fileUrl: String? = null,
-        errorMessage: String? = null
+        errorMessage: String? = null,
+        recordCount: Int? = null
     ): Boolean = transaction {
         ExportHistoryTable.update({ ExportHistoryTable.id eq exportId }) {
             it[this.status] = status
             fileUrl?.let { url -> it[this.fileUrl] = url }
+            recordCount?.let { count -> it[this.recordCount] = count }
             errorMessage?.let { msg -> it[this.errorMessage] = msg }
             if (status == ExportStatus.COMPLETED.code || status == ExportStatus.FAILED.code) {
                 it[completedAt] = Instant.now()
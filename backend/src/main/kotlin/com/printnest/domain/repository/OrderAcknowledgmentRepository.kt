@@ -0,0 +1,122 @@
+package com.printnest.domain.repository
+
+import com.printnest.domain.models.UnacknowledgedOrder
+import com.printnest.domain.tables.OrderAcknowledgments
+import com.printnest.domain.tables.Orders
+import com.printnest.domain.tables.Stores
+import org.jetbrains.exposed.sql.*
+import org.jetbrains.exposed.sql.SqlExpressionBuilder.eq
+import org.jetbrains.exposed.sql.statements.UpdateBuilder
+import org.jetbrains.exposed.sql.transactions.transaction
+import java.time.Duration
+import java.time.Instant
+
+/**
+ * Repository for marketplace order acknowledgments
+ */
+class OrderAcknowledgmentRepository {
+
+    /**
+     * Find open orders of a marketplace's stores that haven't been acknowledged, oldest first
+     */
+    fun findUnacknowledged(
+        tenantId: Long,
+        marketplaceId: Long,
+        statuses: List<Int>,
+        limit: Int,
+        storeId: Long? = null,
+        orderIds: List<Long>? = null
+    ): List<UnacknowledgedOrder> = transaction {
+        val now = Instant.now()
+
+        Orders
+            .join(Stores, JoinType.INNER, Orders.storeId, Stores.id)
+            .join(OrderAcknowledgments, JoinType.LEFT, Orders.id, OrderAcknowledgments.orderId)
+            .selectAll()
+            .where {
+                var condition = (Orders.tenantId eq tenantId) and
+                    (Stores.marketplaceId eq marketplaceId) and
+                    (Orders.orderStatus inList statuses) and
+                    not(Orders.isDraft()) and
+                    OrderAcknowledgments.acknowledgedAt.isNull()
+                storeId?.let { condition = condition and (Orders.storeId eq it) }
+                orderIds?.let { condition = condition and (Orders.id inList it) }
+                condition
+            }
+            .orderBy(Orders.createdAt to SortOrder.ASC)
+            .limit(limit)
+            .map { row ->
+                UnacknowledgedOrder(
+                    orderId = row[Orders.id].value,
+                    intOrderId = row[Orders.intOrderId],
+                    externalOrderId = row[Orders.externalOrderId],
+                    storeId = row[Stores.id].value,
+                    storeName = row[Stores.storeName],
+                    customerName = row[Orders.customerName],
+                    orderedAt = row[Orders.createdAt].toString(),
+                    ageHours = Duration.between(row[Orders.createdAt], now).toHours(),
+                    attempts = row.getOrNull(OrderAcknowledgments.attempts) ?: 0,
+                    lastError = row.getOrNull(OrderAcknowledgments.lastError),
+                    lastAttemptAt = row.getOrNull(OrderAcknowledgments.lastAttemptAt)?.toString()
+                )
+            }
+    }
+
+    /**
+     * Raw credentials JSON of a store
+     */
+    fun findStoreCredentials(storeId: Long, tenantId: Long): String? = transaction {
+        Stores.selectAll()
+            .where { (Stores.id eq storeId) and (Stores.tenantId eq tenantId) }
+            .singleOrNull()
+            ?.get(Stores.credentials)
+    }
+
+    /**
+     * Record an acknowledgment attempt; a null error marks the order acknowledged
+     */
+    fun recordAttempt(tenantId: Long, orderId: Long, storeId: Long, error: String?) = transaction {
+        val now = Instant.now()
+        upsert(tenantId, orderId, storeId) { statement, existing ->
+            statement[attempts] = (existing?.get(attempts) ?: 0) + 1
+            statement[lastError] = error
+            statement[lastAttemptAt] = now
+            if (error == null) statement[acknowledgedAt] = now
+        }
+    }
+
+    /**
+     * Mark an order acknowledged without an attempt, e.g. when it was acknowledged on the marketplace itself
+     */
+    fun markAcknowledged(tenantId: Long, orderId: Long, storeId: Long) = transaction {
+        upsert(tenantId, orderId, storeId) { statement, _ ->
+            statement[lastError] = null
+            statement[acknowledgedAt] = Instant.now()
+        }
+    }
+
+    private fun upsert(
+        tenantId: Long,
+        orderId: Long,
+        storeId: Long,
+        block: OrderAcknowledgments.(UpdateBuilder<*>, ResultRow?) -> Unit
+    ) {
+        val existing = OrderAcknowledgments.selectAll()
+            .where { OrderAcknowledgments.orderId eq orderId }
+            .singleOrNull()
+
+        if (existing == null) {
+            OrderAcknowledgments.insert {
+                it[this.tenantId] = tenantId
+                it[this.orderId] = orderId
+                it[this.storeId] = storeId
+                block(it, null)
+            }
+        } else {
+            OrderAcknowledgments.update({ OrderAcknowledgments.id eq existing[OrderAcknowledgments.id] }) {
+                block(it, existing)
+                it[updatedAt] = Instant.now()
+            }
+        }
+    }
+}
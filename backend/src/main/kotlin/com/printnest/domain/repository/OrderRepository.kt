@@ -1,27 +1,106 @@
 package com.printnest.domain.repository
 
 import com.printnest.domain.models.*
+import com.printnest.domain.service.RealtimeEventService
 import com.printnest.domain.tables.*
 import kotlinx.serialization.json.Json
 import org.jetbrains.exposed.sql.*
 import org.jetbrains.exposed.sql.SqlExpressionBuilder.eq
+import org.jetbrains.exposed.sql.SqlExpressionBuilder.greater
+import org.jetbrains.exposed.sql.SqlExpressionBuilder.greaterEq
+import org.jetbrains.exposed.sql.SqlExpressionBuilder.less
+import org.jetbrains.exposed.sql.json.exists
 import org.jetbrains.exposed.sql.statements.UpdateBuilder
 import org.jetbrains.exposed.sql.transactions.transaction
 import org.koin.core.component.KoinComponent
 import org.koin.core.component.inject
 import java.time.Instant
+import java.time.LocalDate
+import java.time.ZoneOffset
+
+/**
+ * Unsubmitted manual orders are kept in EDITING with a draft in order_info.
+ * Only the drafts list shows them, every other order query leaves them out.
+ */
+fun Orders.isDraft(): Op<Boolean> = orderInfo.exists(".draft")
+
+/**
+ * Roles of the tenant's own staff, the only users who read and are mentioned in internal order notes.
+ */
+val STAFF_ROLES = listOf("owner", "admin", "employee", "producer")
 
 class OrderRepository : KoinComponent {
 
     private val json: Json by inject()
+    private val realtimeEventService: RealtimeEventService by inject()
 
     // =====================================================
     // ORDERS
     // =====================================================
 
     fun findAll(tenantId: Long, filters: OrderFiltersExtended): Pair<List<OrderFull>, Int> = transaction {
-        var query = Orders.selectAll()
-            .where { Orders.tenantId eq tenantId }
+        var query = applyFilters(Orders.selectAll().where { Orders.tenantId eq tenantId }, filters)
+
+        // Get total count
+        val total = query.count().toInt()
+
+        // Apply sorting
+        val sortColumn = when (filters.sortBy) {
+            "createdAt" -> Orders.createdAt
+            "updatedAt" -> Orders.updatedAt
+            "totalAmount" -> Orders.totalAmount
+            "orderStatus" -> Orders.orderStatus
+            else -> Orders.createdAt
+        }
+
+        val sortOrder = if (filters.sortOrder.uppercase() == "ASC") SortOrder.ASC else SortOrder.DESC
+        // id breaks ties so pages never overlap or skip orders with the same sort value
+        query = query.orderBy(sortColumn to sortOrder, Orders.id to sortOrder)
+
+        // Apply pagination: after the cursor when given, by page otherwise
+        val cursor = filters.cursor?.let { OrderCursor.decode(it) }
+        query = if (cursor != null) {
+            query.andWhere { afterCursor(filters.sortBy, sortOrder == SortOrder.ASC, cursor) }.limit(filters.limit)
+        } else {
+            val offset = ((filters.page - 1) * filters.limit).toLong()
+            query.limit(filters.limit).offset(offset)
+        }
+
+        val orders = query.map { it.toOrderFull() }
+
+        Pair(orders, total)
+    }
+
+    /**
+     * Page of the orders matching the filters, sorted by a computed value instead of a column.
+     * Nulls go last ascending and first descending.
+     */
+    fun findAllSortedBy(tenantId: Long, filters: OrderFiltersExtended, sortBy: Expression<*>): Pair<List<OrderFull>, Int> = transaction {
+        val query = applyFilters(Orders.selectAll().where { Orders.tenantId eq tenantId }, filters)
+        val total = query.count().toInt()
+
+        val sortOrder = if (filters.sortOrder.uppercase() == "ASC") SortOrder.ASC else SortOrder.DESC
+        val orders = query
+            .orderBy(sortBy to sortOrder, Orders.id to sortOrder)
+            .limit(filters.limit)
+            .offset(((filters.page - 1) * filters.limit).toLong())
+            .map { it.toOrderFull() }
+
+        Pair(orders, total)
+    }
+
+    /**
+     * Ids of the orders matching the filters, newest first, for bulk actions on a whole filter
+     */
+    fun findIds(tenantId: Long, filters: OrderFiltersExtended, max: Int): List<Long> = transaction {
+        applyFilters(Orders.select(Orders.id).where { Orders.tenantId eq tenantId }, filters)
+            .orderBy(Orders.id, SortOrder.DESC)
+            .limit(max)
+            .map { it[Orders.id].value }
+    }
+
+    private fun applyFilters(baseQuery: Query, filters: OrderFiltersExtended): Query {
+        var query = baseQuery.andWhere { if (filters.drafts) Orders.isDraft() else not(Orders.isDraft()) }
 
         // Apply filters
         filters.status?.let { status ->
@@ -60,38 +139,64 @@ class OrderRepository : KoinComponent {
                     (Orders.customerEmail like "%$search%") or
                     (Orders.externalOrderId like "%$search%") or
                     (Orders.intOrderId like "%$search%") or
-                    (Orders.trackingNumber like "%$search%")
+                    (Orders.trackingNumber like "%$search%") or
+                    exists(
+                        OrderNotes.select(OrderNotes.id).where {
+                            val matchesNote = (OrderNotes.orderId eq Orders.id) and (OrderNotes.note like "%$search%")
+                            if (filters.searchInternalNotes) matchesNote else matchesNote and (OrderNotes.isInternal eq false)
+                        }
+                    )
                 }
             }
         }
 
-        // Get total count
-        val total = query.count().toInt()
+        filters.startDate?.let { startDateStr ->
+            try {
+                val startDate = LocalDate.parse(startDateStr).atStartOfDay().toInstant(ZoneOffset.UTC)
+                query = query.andWhere { Orders.createdAt greaterEq startDate }
+            } catch (e: Exception) {
+                // Invalid date format, ignore
+            }
+        }
 
-        // Apply sorting
-        val sortColumn = when (filters.sortBy) {
-            "createdAt" -> Orders.createdAt
-            "updatedAt" -> Orders.updatedAt
-            "totalAmount" -> Orders.totalAmount
-            "orderStatus" -> Orders.orderStatus
-            else -> Orders.createdAt
+        filters.endDate?.let { endDateStr ->
+            try {
+                val endDate = LocalDate.parse(endDateStr).plusDays(1).atStartOfDay().toInstant(ZoneOffset.UTC)
+                query = query.andWhere { Orders.createdAt less endDate }
+            } catch (e: Exception) {
+                // Invalid date format, ignore
+            }
         }
 
-        val sortOrder = if (filters.sortOrder.uppercase() == "ASC") SortOrder.ASC else SortOrder.DESC
-        query = query.orderBy(sortColumn, sortOrder)
+        return query
+    }
 
-        // Apply pagination
-        val offset = ((filters.page - 1) * filters.limit).toLong()
-        query = query.limit(filters.limit).offset(offset)
+    private fun afterCursor(sortBy: String, ascending: Boolean, cursor: OrderCursor): Op<Boolean> = when (sortBy) {
+        "updatedAt" -> afterValue(Orders.updatedAt, Instant.parse(cursor.sortValue), cursor.id, ascending)
+        "totalAmount" -> afterValue(Orders.totalAmount, cursor.sortValue.toBigDecimal(), cursor.id, ascending)
+        "orderStatus" -> afterValue(Orders.orderStatus, cursor.sortValue.toInt(), cursor.id, ascending)
+        else -> afterValue(Orders.createdAt, Instant.parse(cursor.sortValue), cursor.id, ascending)
+    }
 
-        val orders = query.map { it.toOrderFull() }
+    private fun <T : Comparable<T>> afterValue(column: Column<T>, value: T, id: Long, ascending: Boolean): Op<Boolean> =
+        if (ascending) {
+            (column greater value) or ((column eq value) and (Orders.id greater id))
+        } else {
+            (column less value) or ((column eq value) and (Orders.id less id))
+        }
 
-        Pair(orders, total)
+    fun findById(id: Long, tenantId: Long): OrderFull? = transaction {
+        Orders.selectAll()
+            .where { (Orders.id eq id) and (Orders.tenantId eq tenantId) }
+            .singleOrNull()
+            ?.toOrderFull()
     }
 
-    fun findById(id: Long, tenantId: Long): OrderFull? = transaction {
+    // Locks the order row until the surrounding transaction ends
+    fun findByIdForUpdate(id: Long, tenantId: Long): OrderFull? = transaction {
         Orders.selectAll()
             .where { (Orders.id eq id) and (Orders.tenantId eq tenantId) }
+            .forUpdate()
             .singleOrNull()
             ?.toOrderFull()
     }
@@ -263,12 +368,23 @@ class OrderRepository : KoinComponent {
         }
     }
 
-    fun create(tenantId: Long, userId: Long, request: CreateOrderRequest): OrderFull = transaction {
+    /**
+     * A draft is inserted straight into EDITING with its payload, so it never shows up as a new order
+     */
+    fun create(
+        tenantId: Long,
+        userId: Long,
+        request: CreateOrderRequest,
+        draft: OrderDraft? = null
+    ): OrderFull = transaction {
         val intOrderId = "MAN_${System.currentTimeMillis()}"
+        val status = if (draft != null) OrderStatus.EDITING.code else OrderStatus.NEW_ORDER.code
 
         val orderInfoJson = json.encodeToString(OrderInfoFull.serializer(), OrderInfoFull(
             toAddress = request.shippingAddress,
-            orderNote = request.orderNote
+            orderNote = request.orderNote,
+            customsInfo = request.customsInfo?.takeIf { it.customsItems.isNotEmpty() },
+            draft = draft
         ))
 
         val shippingAddressJson = request.shippingAddress?.let {
@@ -286,7 +402,7 @@ class OrderRepository : KoinComponent {
             it[storeId] = request.storeId
             it[shipstationStoreId] = request.shipstationStoreId
             it[externalOrderId] = request.externalOrderId
-            it[orderStatus] = OrderStatus.NEW_ORDER.code
+            it[orderStatus] = status
             it[orderInfo] = orderInfoJson
             it[customerEmail] = request.customerEmail
             it[customerName] = request.customerName
@@ -300,7 +416,7 @@ class OrderRepository : KoinComponent {
         }
 
         // Create history entry
-        createHistoryEntry(tenantId, id.value, userId, null, OrderStatus.NEW_ORDER.code, "created")
+        createHistoryEntry(tenantId, id.value, userId, null, status, "created")
 
         findByIdWithProducts(id.value, tenantId)!!
     }
@@ -327,6 +443,7 @@ class OrderRepository : KoinComponent {
 
         if (updated) {
             createHistoryEntry(tenantId, id, userId, previousStatus, newStatus, "status_changed", notes)
+            realtimeEventService.ordersChanged(tenantId, listOf(id), newStatus)
         }
 
         updated
@@ -367,6 +484,18 @@ class OrderRepository : KoinComponent {
             .map { it.toOrderProductFull() }
     }
 
+    /**
+     * Products of several orders in one query, keyed by order id
+     */
+    fun findOrderProductsByOrderIds(orderIds: Collection<Long>, tenantId: Long): Map<Long, List<OrderProductFull>> = transaction {
+        if (orderIds.isEmpty()) return@transaction emptyMap()
+
+        OrderProducts.selectAll()
+            .where { (OrderProducts.orderId inList orderIds) and (OrderProducts.tenantId eq tenantId) }
+            .map { it.toOrderProductFull() }
+            .groupBy { it.orderId }
+    }
+
     fun findOrderProductById(id: Long, tenantId: Long): OrderProductFull? = transaction {
         OrderProducts.selectAll()
             .where { (OrderProducts.id eq id) and (OrderProducts.tenantId eq tenantId) }
@@ -460,6 +589,92 @@ class OrderRepository : KoinComponent {
         }.value
     }
 
+    // =====================================================
+    // ORDER NOTES
+    // =====================================================
+
+    fun findOrderNotes(orderId: Long, tenantId: Long, includeInternal: Boolean): List<OrderNote> = transaction {
+        var query = (OrderNotes leftJoin Users).selectAll()
+            .where { (OrderNotes.orderId eq orderId) and (OrderNotes.tenantId eq tenantId) }
+
+        if (!includeInternal) {
+            query = query.andWhere { OrderNotes.isInternal eq false }
+        }
+
+        query.orderBy(OrderNotes.createdAt, SortOrder.ASC)
+            .map { it.toOrderNote() }
+    }
+
+    fun createOrderNote(tenantId: Long, orderId: Long, userId: Long, request: CreateOrderNoteRequest): OrderNote = transaction {
+        val id = OrderNotes.insertAndGetId {
+            it[this.tenantId] = tenantId
+            it[this.orderId] = orderId
+            it[this.userId] = userId
+            it[note] = request.note.trim()
+            it[isInternal] = !request.shared
+            it[mentionedUserIds] = json.encodeToString(request.mentionedUserIds)
+            it[attachments] = json.encodeToString(request.attachments)
+        }
+
+        (OrderNotes leftJoin Users).selectAll()
+            .where { OrderNotes.id eq id }
+            .single()
+            .toOrderNote()
+    }
+
+    // Everyone in the tenant except subdealers and customers
+    fun findMentionableUsers(tenantId: Long): List<MentionableUser> = transaction {
+        Users.selectAll()
+            .where {
+                (Users.tenantId eq tenantId) and
+                (Users.status eq 1) and
+                (Users.role inList STAFF_ROLES)
+            }
+            .orderBy(Users.firstName, SortOrder.ASC)
+            .map { row ->
+                MentionableUser(
+                    id = row[Users.id].value,
+                    name = listOfNotNull(row[Users.firstName], row[Users.lastName]).joinToString(" ")
+                        .ifBlank { row[Users.email] },
+                    email = row[Users.email]
+                )
+            }
+    }
+
+    // =====================================================
+    // SAVED VIEWS
+    // =====================================================
+
+    fun findSavedViews(tenantId: Long, userId: Long, page: String?): List<SavedOrderView> = transaction {
+        var query = SavedOrderViews.selectAll()
+            .where { (SavedOrderViews.tenantId eq tenantId) and (SavedOrderViews.userId eq userId) }
+        page?.let { query = query.andWhere { SavedOrderViews.page eq it } }
+
+        query.orderBy(SavedOrderViews.createdAt to SortOrder.ASC, SavedOrderViews.id to SortOrder.ASC)
+            .map { it.toSavedOrderView() }
+    }
+
+    fun createSavedView(tenantId: Long, userId: Long, request: CreateSavedOrderViewRequest): SavedOrderView = transaction {
+        val id = SavedOrderViews.insertAndGetId {
+            it[this.tenantId] = tenantId
+            it[this.userId] = userId
+            it[page] = request.page
+            it[name] = request.name.trim()
+            it[query] = request.query
+        }
+
+        SavedOrderViews.selectAll()
+            .where { SavedOrderViews.id eq id }
+            .single()
+            .toSavedOrderView()
+    }
+
+    fun deleteSavedView(id: Long, tenantId: Long, userId: Long): Boolean = transaction {
+        SavedOrderViews.deleteWhere {
+            (SavedOrderViews.id eq id) and (SavedOrderViews.tenantId eq tenantId) and (SavedOrderViews.userId eq userId)
+        } > 0
+    }
+
     // =====================================================
     // PAYMENTS
     // =====================================================
@@ -478,6 +693,13 @@ class OrderRepository : KoinComponent {
             ?.toPayment()
     }
 
+    fun findPaymentsByOrderId(orderId: Long, tenantId: Long): List<Payment> = transaction {
+        Payments.selectAll()
+            .where { (Payments.orderId eq orderId) and (Payments.tenantId eq tenantId) }
+            .orderBy(Payments.createdAt, SortOrder.ASC)
+            .map { it.toPayment() }
+    }
+
     fun createPayment(
         tenantId: Long,
         userId: Long,
@@ -536,13 +758,16 @@ class OrderRepository : KoinComponent {
     }
 
     fun updateOrderPaymentStatus(orderId: Long, tenantId: Long, newStatus: Int, stripePaymentIntent: String? = null): Boolean = transaction {
-        Orders.update(
+        val updated = Orders.update(
             where = { (Orders.id eq orderId) and (Orders.tenantId eq tenantId) }
         ) {
             it[orderStatus] = newStatus
             it[paymentMethod] = "stripe"
             it[updatedAt] = Instant.now()
         } > 0
+
+        if (updated) realtimeEventService.ordersChanged(tenantId, listOf(orderId), newStatus)
+        updated
     }
 
     // =====================================================
@@ -571,6 +796,13 @@ class OrderRepository : KoinComponent {
         }.value
     }
 
+    fun findTransactionsByOrderId(orderId: Long, tenantId: Long): List<TransactionFull> = transaction {
+        Transactions.selectAll()
+            .where { (Transactions.referenceId eq orderId.toString()) and (Transactions.tenantId eq tenantId) }
+            .orderBy(Transactions.createdAt, SortOrder.ASC)
+            .map { it.toTransactionFull() }
+    }
+
     // =====================================================
     // SHIPPING LABELS
     // =====================================================
@@ -732,6 +964,36 @@ class OrderRepository : KoinComponent {
         createdAt = this[OrderHistory.createdAt].toString()
     )
 
+    private fun ResultRow.toSavedOrderView(): SavedOrderView = SavedOrderView(
+        id = this[SavedOrderViews.id].value,
+        name = this[SavedOrderViews.name],
+        page = this[SavedOrderViews.page],
+        query = this[SavedOrderViews.query],
+        createdAt = this[SavedOrderViews.createdAt].toString()
+    )
+
+    private fun ResultRow.toOrderNote(): OrderNote {
+        val firstName = this.getOrNull(Users.firstName)
+        val lastName = this.getOrNull(Users.lastName)
+
+        return OrderNote(
+            id = this[OrderNotes.id].value,
+            orderId = this[OrderNotes.orderId].value,
+            userId = this[OrderNotes.userId]?.value,
+            authorName = listOfNotNull(firstName, lastName).joinToString(" ")
+                .ifBlank { this.getOrNull(Users.email) },
+            note = this[OrderNotes.note],
+            shared = !this[OrderNotes.isInternal],
+            mentionedUserIds = try {
+                json.decodeFromString<List<Long>>(this[OrderNotes.mentionedUserIds])
+            } catch (e: Exception) { emptyList() },
+            attachments = try {
+                json.decodeFromString<List<OrderNoteAttachment>>(this[OrderNotes.attachments])
+            } catch (e: Exception) { emptyList() },
+            createdAt = this[OrderNotes.createdAt].toString()
+        )
+    }
+
     private fun ResultRow.toPayment(): Payment = Payment(
         id = this[Payments.id].value,
         tenantId = this[Payments.tenantId].value,
@@ -746,6 +1008,19 @@ class OrderRepository : KoinComponent {
         completedAt = this[Payments.completedAt]?.toString()
     )
 
+    private fun ResultRow.toTransactionFull(): TransactionFull = TransactionFull(
+        id = this[Transactions.id].value,
+        tenantId = this[Transactions.tenantId].value,
+        userId = this[Transactions.userId].value,
+        type = this[Transactions.type],
+        amount = this[Transactions.amount],
+        description = this[Transactions.description],
+        referenceId = this[Transactions.referenceId],
+        balanceBefore = this[Transactions.balanceBefore],
+        balanceAfter = this[Transactions.balanceAfter],
+        createdAt = this[Transactions.createdAt].toString()
+    )
+
     private fun ResultRow.toShippingLabel(): ShippingLabel = ShippingLabel(
         id = this[ShippingLabels.id].value,
         tenantId = this[ShippingLabels.tenantId].value,
@@ -908,22 +1183,28 @@ class OrderRepository : KoinComponent {
         trackingUrl: String?,
         carrier: String?
     ): Boolean = transaction {
-        Orders.update({ (Orders.id eq orderId) and (Orders.tenantId eq tenantId) }) {
+        val updated = Orders.update({ (Orders.id eq orderId) and (Orders.tenantId eq tenantId) }) {
             it[this.trackingNumber] = trackingNumber
             trackingUrl?.let { url -> it[this.trackingUrl] = url }
             it[shippedAt] = Instant.now()
             it[updatedAt] = Instant.now()
         } > 0
+
+        if (updated) realtimeEventService.ordersChanged(tenantId, listOf(orderId))
+        updated
     }
 
     /**
      * Update order status
      */
     fun updateStatus(tenantId: Long, orderId: Long, newStatus: Int): Boolean = transaction {
-        Orders.update({ (Orders.id eq orderId) and (Orders.tenantId eq tenantId) }) {
+        val updated = Orders.update({ (Orders.id eq orderId) and (Orders.tenantId eq tenantId) }) {
             it[orderStatus] = newStatus
             it[updatedAt] = Instant.now()
         } > 0
+
+        if (updated) realtimeEventService.ordersChanged(tenantId, listOf(orderId), newStatus)
+        updated
     }
 
     // =====================================================
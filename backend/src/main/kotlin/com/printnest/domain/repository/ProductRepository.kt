@@ -42,6 +42,13 @@ class ProductRepository : KoinComponent {
             ?.toProduct()
     }
 
+    fun findByIds(ids: List<Long>, tenantId: Long): List<Product> = transaction {
+        if (ids.isEmpty()) return@transaction emptyList()
+        Products.selectAll()
+            .where { (Products.id inList ids) and (Products.tenantId eq tenantId) }
+            .map { it.toProduct() }
+    }
+
     fun findByIdWithDetails(id: Long, tenantId: Long): Product? = transaction {
         val product = findById(id, tenantId) ?: return@transaction null
 
@@ -79,6 +86,8 @@ class ProductRepository : KoinComponent {
             it[designType] = request.designType
             it[supplierId] = request.supplierId
             it[tags] = json.encodeToString(kotlinx.serialization.builtins.ListSerializer(kotlinx.serialization.serializer<String>()), request.tags)
+            it[customsDescription] = request.customsDescription
+            it[hsTariffNumber] = request.hsTariffNumber
         }
 
         findById(id.value, tenantId)!!
@@ -101,6 +110,8 @@ class ProductRepository : KoinComponent {
             request.tags?.let { tagList ->
                 it[tags] = json.encodeToString(kotlinx.serialization.builtins.ListSerializer(kotlinx.serialization.serializer<String>()), tagList)
             }
+            request.customsDescription?.let { desc -> it[customsDescription] = desc }
+            request.hsTariffNumber?.let { code -> it[hsTariffNumber] = code }
             it[updatedAt] = Instant.now()
         }
 
@@ -194,6 +205,20 @@ class ProductRepository : KoinComponent {
             .map { it.toVariant() }
     }
 
+    fun findVariantBySku(sku: String, tenantId: Long): Variant? = transaction {
+        Variants.selectAll()
+            .where { (Variants.sku.lowerCase() eq sku.trim().lowercase()) and (Variants.tenantId eq tenantId) }
+            .firstOrNull()
+            ?.toVariant()
+    }
+
+    fun findVariantsBySkus(skus: List<String>, tenantId: Long): List<Variant> = transaction {
+        if (skus.isEmpty()) return@transaction emptyList()
+        Variants.selectAll()
+            .where { (Variants.sku.lowerCase() inList skus.map { it.trim().lowercase() }) and (Variants.tenantId eq tenantId) }
+            .map { it.toVariant() }
+    }
+
     fun findVariantById(id: Long, tenantId: Long): Variant? = transaction {
         Variants.selectAll()
             .where { (Variants.id eq id) and (Variants.tenantId eq tenantId) }
@@ -427,6 +452,8 @@ class ProductRepository : KoinComponent {
             supplierId = this[Products.supplierId],
             status = this[Products.status],
             tags = tagsList,
+            customsDescription = this[Products.customsDescription],
+            hsTariffNumber = this[Products.hsTariffNumber],
             createdAt = this[Products.createdAt].toString(),
             updatedAt = this[Products.updatedAt].toString()
         )
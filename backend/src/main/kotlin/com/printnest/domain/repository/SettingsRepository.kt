@@ -154,6 +154,9 @@ class SettingsRepository : KoinComponent {
                     shipstationSettings = settings?.shipstation,
                     stripeSettings = settings?.stripe,
                     shippingSettings = settings?.shipping,
+                    slaSettings = settings?.sla ?: SlaSettings(),
+                    trackingSettings = settings?.tracking ?: TrackingSettings(),
+                    acknowledgmentSettings = settings?.acknowledgment ?: AcknowledgmentSettings(),
                     status = row[Tenants.status],
                     createdAt = row[Tenants.createdAt].toString(),
                     updatedAt = row[Tenants.updatedAt].toString()
@@ -188,7 +191,10 @@ class SettingsRepository : KoinComponent {
             shipstation = request.shipstationSettings ?: currentSettings.shipstation,
             stripe = request.stripeSettings ?: currentSettings.stripe,
             shipping = request.shippingSettings ?: currentSettings.shipping,
-            logoUrl = request.logoUrl ?: currentSettings.logoUrl
+            logoUrl = request.logoUrl ?: currentSettings.logoUrl,
+            sla = request.slaSettings ?: currentSettings.sla,
+            tracking = request.trackingSettings ?: currentSettings.tracking,
+            acknowledgment = request.acknowledgmentSettings ?: currentSettings.acknowledgment
         )
 
         val updatedJson = json.encodeToString(com.printnest.domain.models.TenantSettings.serializer(), updatedSettings)
@@ -496,12 +496,14 @@ data class ShippingLabelEntity(
         get() = voidedAt != null
 }
 
+@kotlinx.serialization.Serializable
 data class ShippingLabelHistory(
     val id: Long,
     val orderId: Long,
     val carrier: String?,
     val service: String?,
     val trackingNumber: String?,
+    @kotlinx.serialization.Serializable(with = BigDecimalSerializer::class)
     val cost: BigDecimal?,
     val createdAt: String,
     val voidedAt: String?,
@@ -0,0 +1,110 @@
+package com.printnest.domain.service
+
+import com.printnest.domain.models.*
+import com.printnest.domain.repository.AuthRepository
+import com.printnest.domain.repository.CustomerRepository
+
+/**
+ * Address book for manual order entry: saved customers and addresses from past orders
+ */
+class CustomerService(
+    private val customerRepository: CustomerRepository,
+    private val authRepository: AuthRepository
+) {
+    companion object {
+        const val MIN_QUERY_LENGTH = 2
+        const val MAX_SUGGESTIONS = 10
+
+        // Roles that see every customer and past order address of the tenant
+        private val ADMIN_ROLES = listOf("owner", "admin")
+    }
+
+    /**
+     * Addresses matching a customer name, company or email.
+     * Saved addresses come first (each customer's default on top), then past orders not already saved.
+     */
+    fun suggestAddresses(tenantId: Long, userId: Long, query: String): AddressSuggestionsResponse {
+        val search = query.trim()
+        if (search.length < MIN_QUERY_LENGTH) return AddressSuggestionsResponse(emptyList())
+
+        val ownerId = ownerScope(tenantId, userId)
+        val saved = customerRepository.searchCustomers(tenantId, ownerId, search, MAX_SUGGESTIONS).flatMap { customer ->
+            customer.addresses.map { address ->
+                AddressSuggestion(
+                    source = "saved",
+                    customerName = customer.name,
+                    address = address.address,
+                    customerId = customer.id,
+                    addressId = address.id,
+                    email = customer.email,
+                    isDefault = address.isDefault,
+                    lastUsedAt = address.lastUsedAt
+                )
+            }
+        }
+
+        // Past orders repeat the same address, so keep the newest of each
+        val seen = saved.map { addressKey(it.address) }.toMutableSet()
+        val pastOrders = customerRepository.findPastOrderAddresses(tenantId, ownerId, search, MAX_SUGGESTIONS * 5)
+            .filter { seen.add(addressKey(it.address)) }
+
+        return AddressSuggestionsResponse((saved + pastOrders).take(MAX_SUGGESTIONS))
+    }
+
+    /**
+     * Save an address to a customer's address book, creating the customer when needed
+     */
+    fun saveAddress(tenantId: Long, userId: Long, request: SaveCustomerAddressRequest): Result<SavedCustomer> {
+        val address = request.address
+        if (request.customerName.isBlank()) {
+            return Result.failure(IllegalArgumentException("Customer name is required"))
+        }
+        if (address.street1.isNullOrBlank() || address.city.isNullOrBlank() || address.postalCode.isNullOrBlank()) {
+            return Result.failure(IllegalArgumentException("Street, city and postal code are required"))
+        }
+
+        val ownerId = ownerScope(tenantId, userId)
+        val customerId = request.customerId
+            ?.also { id ->
+                customerRepository.findCustomer(id, tenantId, ownerId)
+                    ?: return Result.failure(IllegalArgumentException("Customer not found"))
+            }
+            ?: customerRepository.findOrCreateCustomer(tenantId, userId, ownerId, request)
+
+        customerRepository.saveAddress(tenantId, customerId, address, request.makeDefault)
+
+        return Result.success(customerRepository.findCustomer(customerId, tenantId, ownerId)!!)
+    }
+
+    fun setDefaultAddress(tenantId: Long, userId: Long, customerId: Long, addressId: Long): Result<SavedCustomer> {
+        val ownerId = ownerScope(tenantId, userId)
+        customerRepository.findCustomer(customerId, tenantId, ownerId)
+            ?: return Result.failure(IllegalArgumentException("Customer not found"))
+
+        if (!customerRepository.setDefaultAddress(customerId, addressId)) {
+            return Result.failure(IllegalArgumentException("Address not found"))
+        }
+        return Result.success(customerRepository.findCustomer(customerId, tenantId, ownerId)!!)
+    }
+
+    fun deleteAddress(tenantId: Long, userId: Long, customerId: Long, addressId: Long): Result<SavedCustomer> {
+        val ownerId = ownerScope(tenantId, userId)
+        customerRepository.findCustomer(customerId, tenantId, ownerId)
+            ?: return Result.failure(IllegalArgumentException("Customer not found"))
+
+        if (!customerRepository.deleteAddress(customerId, addressId)) {
+            return Result.failure(IllegalArgumentException("Address not found"))
+        }
+        return Result.success(customerRepository.findCustomer(customerId, tenantId, ownerId)!!)
+    }
+
+    // Admins see the whole tenant's address book, everyone else only what they saved or ordered
+    private fun ownerScope(tenantId: Long, userId: Long): Long? {
+        val role = authRepository.findUserByIdAndTenant(userId, tenantId)?.role?.lowercase()
+        return if (role in ADMIN_ROLES) null else userId
+    }
+
+    private fun addressKey(address: Address): String =
+        listOf(address.name, address.street1, address.postalCode)
+            .joinToString("|") { it.orEmpty().trim().lowercase() }
+}
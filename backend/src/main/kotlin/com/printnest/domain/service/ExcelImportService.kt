@@ -15,6 +15,9 @@ import java.math.BigDecimal
  *
  * Excel format:
  * name | street1 | city | state | zip | country | product | category | option_1 | option_2 | quantity | modification_1 | modification_1_url
+ *
+ * Spreadsheets in any other layout go through previewExcel, are mapped to ImportOrderRow in the UI,
+ * then checked with validateRows and imported with importRows.
  */
 class ExcelImportService(
     private val orderRepository: OrderRepository,
@@ -37,6 +40,8 @@ class ExcelImportService(
         private const val COL_QUANTITY = 10
         private const val COL_MODIFICATION1 = 11
         private const val COL_MODIFICATION1_URL = 12
+
+        private const val MAX_PREVIEW_ROWS = 5000
     }
 
     /**
@@ -120,6 +125,220 @@ class ExcelImportService(
         }
     }
 
+    /**
+     * Read the first sheet as plain text so its columns can be mapped before anything is imported
+     */
+    fun previewExcel(inputStream: InputStream): Result<ExcelSheetPreview> {
+        return try {
+            XSSFWorkbook(inputStream).use { workbook ->
+                val sheet = workbook.getSheetAt(0)
+                val headerRow = sheet.getRow(sheet.firstRowNum)
+                    ?: return Result.failure(IllegalArgumentException("The spreadsheet is empty"))
+
+                if (sheet.lastRowNum - sheet.firstRowNum > MAX_PREVIEW_ROWS) {
+                    return Result.failure(IllegalArgumentException("Spreadsheets are limited to $MAX_PREVIEW_ROWS rows"))
+                }
+
+                val width = headerRow.lastCellNum.toInt().coerceAtLeast(0)
+                val headers = (0 until width).map { getCellValue(headerRow.getCell(it)) }
+                val rows = (sheet.firstRowNum + 1..sheet.lastRowNum).mapNotNull { rowIndex ->
+                    val row = sheet.getRow(rowIndex) ?: return@mapNotNull null
+                    val cells = (0 until width).map { getCellValue(row.getCell(it)) }
+                    if (cells.all { it.isBlank() }) null else ExcelSheetRow(rowNumber = rowIndex + 1, cells = cells)
+                }
+
+                Result.success(ExcelSheetPreview(headers = headers, rows = rows))
+            }
+        } catch (e: Exception) {
+            logger.error("Failed to preview Excel file", e)
+            Result.failure(IllegalArgumentException("Failed to parse Excel file: ${e.message}"))
+        }
+    }
+
+    /**
+     * Check mapped rows without creating anything: address, quantity, SKU or product and print location
+     */
+    fun validateRows(tenantId: Long, rows: List<ImportOrderRow>): ImportRowsValidationResponse {
+        val catalog = ImportCatalog(tenantId, rows)
+        return ImportRowsValidationResponse(rows = rows.map { resolveRow(catalog, it).first })
+    }
+
+    /**
+     * Create orders from the mapped rows that pass validation, grouped by address like the plain import
+     */
+    fun importRows(tenantId: Long, userId: Long, storeId: Long?, rows: List<ImportOrderRow>): ExcelImportResult {
+        logger.info("Starting mapped import of ${rows.size} rows for tenant $tenantId, user $userId")
+
+        val errors = mutableListOf<ExcelImportError>()
+        val orderGroups = mutableMapOf<String, MutableList<ExcelOrderRow>>()
+        val catalog = ImportCatalog(tenantId, rows)
+
+        rows.forEach { row ->
+            val (validation, orderRow) = resolveRow(catalog, row)
+            if (orderRow == null) {
+                errors.add(ExcelImportError(
+                    rowNumber = row.rowNumber,
+                    customerName = row.name,
+                    errorMessage = validation.errors.joinToString("; ")
+                ))
+            } else {
+                orderGroups.getOrPut(generateAddressKey(orderRow.address)) { mutableListOf() }.add(orderRow)
+            }
+        }
+
+        var ordersCreated = 0
+        for ((_, orderRows) in orderGroups) {
+            try {
+                createOrderFromRows(tenantId, userId, storeId, orderRows)
+                ordersCreated++
+            } catch (e: Exception) {
+                val firstRow = orderRows.first()
+                errors.add(ExcelImportError(
+                    rowNumber = firstRow.rowNumber,
+                    customerName = firstRow.address.name,
+                    errorMessage = e.message ?: "Failed to create order"
+                ))
+            }
+        }
+
+        return ExcelImportResult(
+            success = ordersCreated > 0,
+            ordersCreated = ordersCreated,
+            ordersWithErrors = errors.size,
+            errors = errors,
+            message = if (errors.isEmpty()) "All orders imported successfully" else "Some rows were skipped"
+        )
+    }
+
+    /**
+     * Validate a mapped row and, when it is valid, turn it into an importable row
+     */
+    private fun resolveRow(catalog: ImportCatalog, row: ImportOrderRow): Pair<ImportRowValidation, ExcelOrderRow?> {
+        val errors = mutableListOf<String>()
+
+        if (row.name.isBlank()) errors.add("Customer name is required")
+        val missing = listOf("street" to row.street1, "city" to row.city, "state" to row.state, "ZIP code" to row.zip)
+            .filter { it.second.isBlank() }
+            .map { it.first }
+        if (missing.isNotEmpty()) errors.add("Address is missing ${missing.joinToString(", ")}")
+
+        val quantity = row.quantity.ifBlank { "1" }.toIntOrNull()
+        if (quantity == null || quantity < 1) errors.add("Quantity must be a positive number")
+
+        var productId: Long? = null
+        var variantId: Long? = null
+        when {
+            row.sku.isNotBlank() -> {
+                val variant = catalog.findVariantBySku(row.sku)
+                if (variant == null) errors.add("Unknown SKU: ${row.sku}")
+                productId = variant?.productId
+                variantId = variant?.id
+            }
+            row.product.isNotBlank() -> {
+                val found = catalog.findProductAndVariant(row.product, row.category, row.option1, row.option2)
+                productId = found.first
+                variantId = found.second
+                if (productId == null) {
+                    errors.add("Unknown product: ${row.product}")
+                } else if (variantId == null) {
+                    errors.add("No variant of ${row.product} matches ${listOf(row.option1, row.option2).filter { it.isNotBlank() }.joinToString(" / ")}")
+                }
+            }
+            else -> errors.add("SKU or product is required")
+        }
+
+        // Print locations belong to the product's category
+        val categoryId = productId?.let { catalog.findCategoryId(it) }
+        if (row.modification.isNotBlank() && categoryId != null) {
+            val exists = catalog.findModifications(categoryId)
+                .any { it.name.equals(row.modification, ignoreCase = true) }
+            if (!exists) errors.add("Unknown print location: ${row.modification}")
+        }
+
+        val validation = ImportRowValidation(
+            rowNumber = row.rowNumber,
+            productId = productId,
+            variantId = variantId,
+            errors = errors
+        )
+        if (errors.isNotEmpty()) return validation to null
+
+        return validation to ExcelOrderRow(
+            rowNumber = row.rowNumber,
+            address = Address(
+                name = row.name.trim(),
+                street1 = row.street1.trim(),
+                street2 = row.street2.trim().ifBlank { null },
+                city = row.city.trim(),
+                state = row.state.trim(),
+                postalCode = row.zip.trim(),
+                country = row.country.trim().ifBlank { "US" }
+            ),
+            productId = productId,
+            variantId = variantId,
+            categoryId = categoryId,
+            productName = row.product,
+            option1Name = row.option1,
+            option2Name = row.option2,
+            quantity = quantity ?: 1,
+            modificationName = row.modification,
+            modificationDesignUrl = row.modificationUrl
+        )
+    }
+
+    /**
+     * Catalog lookups for one batch of mapped rows. SKUs are loaded in one query and
+     * products, variants and print locations once each, instead of per row.
+     */
+    private inner class ImportCatalog(private val tenantId: Long, rows: List<ImportOrderRow>) {
+        private val variantsBySku = productRepository
+            .findVariantsBySkus(rows.map { it.sku }.filter { it.isNotBlank() }.distinct(), tenantId)
+            .associateBy { it.sku.orEmpty().lowercase() }
+        private val categories by lazy { categoryRepository.findAll(tenantId) }
+        private val products by lazy { productRepository.findAll(tenantId) }
+        private val productsById = productRepository
+            .findByIds(variantsBySku.values.map { it.productId }.distinct(), tenantId)
+            .associateBy { it.id }
+            .toMutableMap()
+        private val productVariants = mutableMapOf<Long, List<Variant>>()
+        private val option1s = mutableMapOf<Long, List<Option1>>()
+        private val option2s = mutableMapOf<Long, List<Option2>>()
+        private val modifications = mutableMapOf<Long, List<Modification>>()
+
+        fun findVariantBySku(sku: String): Variant? = variantsBySku[sku.trim().lowercase()]
+
+        fun findProductAndVariant(
+            productName: String,
+            categoryName: String,
+            option1Name: String,
+            option2Name: String
+        ): Pair<Long?, Long?> {
+            val category = categories.find { it.name.equals(categoryName, ignoreCase = true) }
+            val product = products
+                .filter { category == null || it.categoryId == category.id }
+                .find { it.title.equals(productName, ignoreCase = true) }
+                ?: return null to null
+            productsById[product.id] = product
+
+            val option1 = option1s.getOrPut(product.id) { productRepository.findOption1s(product.id, tenantId) }
+                .find { it.name.equals(option1Name, ignoreCase = true) }
+            val option2 = option2s.getOrPut(product.id) { productRepository.findOption2s(product.id, tenantId) }
+                .find { it.name.equals(option2Name, ignoreCase = true) }
+            val variant = productVariants.getOrPut(product.id) { productRepository.findVariants(product.id, tenantId) }
+                .find { v ->
+                    (option1 == null || v.option1Id == option1.id) &&
+                    (option2 == null || v.option2Id == option2.id)
+                }
+
+            return product.id to variant?.id
+        }
+
+        fun findCategoryId(productId: Long): Long? = productsById[productId]?.categoryId
+
+        fun findModifications(categoryId: Long): List<Modification> =
+            modifications.getOrPut(categoryId) { categoryRepository.findModifications(categoryId, tenantId) }
+    }
+
     /**
      * Parse a single row from the Excel file
      */
@@ -254,7 +473,7 @@ class ExcelImportService(
      * Generate a unique key for an address
      */
     private fun generateAddressKey(address: Address): String {
-        return "${address.name}|${address.street1}|${address.city}|${address.state}|${address.postalCode}|${address.country}"
+        return "${address.name}|${address.street1}|${address.street2.orEmpty()}|${address.city}|${address.state}|${address.postalCode}|${address.country}"
             .lowercase()
             .replace("\\s+".toRegex(), "")
     }
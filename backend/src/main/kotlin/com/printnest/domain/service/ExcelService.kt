@@ -6,6 +6,10 @@ import com.printnest.domain.repository.OrderRepository
 import com.printnest.domain.repository.ProductRepository
 import com.printnest.domain.repository.WalletRepository
 import com.printnest.integrations.aws.S3Service
+import kotlinx.coroutines.CoroutineScope
+import kotlinx.coroutines.Dispatchers
+import kotlinx.coroutines.SupervisorJob
+import kotlinx.coroutines.launch
 import kotlinx.serialization.json.Json
 import org.apache.poi.ss.usermodel.*
 import org.apache.poi.xssf.usermodel.XSSFCellStyle
@@ -27,6 +31,84 @@ class ExcelService(
     private val json: Json
 ) {
     private val logger = LoggerFactory.getLogger(ExcelService::class.java)
+    private val scope = CoroutineScope(Dispatchers.IO + SupervisorJob())
+
+    /**
+     * A selectable export column and how to read it from a row
+     */
+    private class ExportColumn<T>(val key: String, val label: String, val value: (T) -> Any?)
+
+    private data class ExportTable(val headers: List<String>, val rows: List<List<Any?>>)
+
+    companion object {
+        private val ORDER_COLUMNS = listOf<ExportColumn<OrderExportRow>>(
+            ExportColumn("orderId", "Order Nr") { it.orderId },
+            ExportColumn("intOrderId", "Marketplace Order ID") { it.intOrderId },
+            ExportColumn("customerName", "Customer Name") { it.customerName },
+            ExportColumn("storeName", "Store Name") { it.storeName },
+            ExportColumn("orderDate", "Order Date") { it.orderDate },
+            ExportColumn("orderStatus", "Order Status") { it.orderStatus },
+            ExportColumn("productCategory", "Product Category") { it.productCategory },
+            ExportColumn("productName", "Product Name") { it.productName },
+            ExportColumn("quantity", "Quantity") { it.quantity },
+            ExportColumn("option1", "Option 1") { it.option1 },
+            ExportColumn("option2", "Option 2") { it.option2 },
+            ExportColumn("modifications", "Modifications") { it.modifications },
+            ExportColumn("productAmount", "Product Amount") { it.productAmount },
+            ExportColumn("shippingAmount", "Shipping Amount") { it.shippingAmount },
+            ExportColumn("totalAmount", "Total Amount") { it.totalAmount },
+            ExportColumn("shippingPaid", "Shipping Paid") { it.shippingPaid },
+            ExportColumn("orderNote", "Order Note") { it.orderNote }
+        )
+
+        private val PRODUCT_COLUMNS = listOf<ExportColumn<ProductExportRow>>(
+            ExportColumn("productId", "Product ID") { it.productId },
+            ExportColumn("title", "Title") { it.title },
+            ExportColumn("categoryName", "Category") { it.categoryName },
+            ExportColumn("basePrice", "Base Price") { it.basePrice },
+            ExportColumn("option1Name", "Option 1 Name") { it.option1Name },
+            ExportColumn("option2Name", "Option 2 Name") { it.option2Name },
+            ExportColumn("variantCount", "Variant Count") { it.variantCount },
+            ExportColumn("inStockCount", "In Stock") { it.inStockCount },
+            ExportColumn("outOfStockCount", "Out of Stock") { it.outOfStockCount },
+            ExportColumn("designType", "Design Type") { it.designType },
+            ExportColumn("status", "Status") { if (it.status == 1) "Active" else "Inactive" },
+            ExportColumn("createdAt", "Created At") { it.createdAt }
+        )
+
+        private val TRANSACTION_COLUMNS = listOf<ExportColumn<TransactionExportRow>>(
+            ExportColumn("transactionId", "Transaction ID") { it.transactionId },
+            ExportColumn("userId", "User ID") { it.userId },
+            ExportColumn("customerName", "Customer Name") { it.customerName },
+            ExportColumn("type", "Type") { it.type },
+            ExportColumn("amount", "Amount") { it.amount },
+            ExportColumn("description", "Description") { it.description },
+            ExportColumn("referenceId", "Reference ID") { it.referenceId },
+            ExportColumn("balanceBefore", "Balance Before") { it.balanceBefore },
+            ExportColumn("balanceAfter", "Balance After") { it.balanceAfter },
+            ExportColumn("createdAt", "Date") { it.createdAt }
+        )
+
+        private val DESIGN_COLUMNS = listOf<ExportColumn<DesignExportRow>>(
+            ExportColumn("designId", "Design ID") { it.designId },
+            ExportColumn("title", "Title") { it.title },
+            ExportColumn("designTypeName", "Design Type") { it.designTypeName },
+            ExportColumn("designUrl", "URL") { it.designUrl },
+            ExportColumn("width", "Width (inch)") { it.width },
+            ExportColumn("height", "Height (inch)") { it.height },
+            ExportColumn("usageCount", "Usage Count") { it.usageCount },
+            ExportColumn("status", "Status") { if (it.status == 1) "Active" else "Inactive" },
+            ExportColumn("createdAt", "Created At") { it.createdAt }
+        )
+
+        private val OUT_OF_STOCK_COLUMNS = listOf<ExportColumn<OutOfStockProductRow>>(
+            ExportColumn("productTitle", "Product") { it.productTitle },
+            ExportColumn("option1", "Option 1") { it.option1 },
+            ExportColumn("option2", "Option 2") { it.option2 },
+            ExportColumn("supplierName", "Supplier") { it.supplierName },
+            ExportColumn("quantity", "Quantity") { it.quantity }
+        )
+    }
 
     // =====================================================
     // CREATE ORDERS EXPORT
@@ -765,6 +847,227 @@ class ExcelService(
         }
     }
 
+    // =====================================================
+    // CONFIGURABLE EXPORT
+    // =====================================================
+
+    fun getExportColumns(type: ExportType): List<ExportColumnOption> {
+        val columns = when (type) {
+            ExportType.ORDERS -> ORDER_COLUMNS
+            ExportType.PRODUCTS -> PRODUCT_COLUMNS
+            ExportType.TRANSACTIONS -> TRANSACTION_COLUMNS
+            ExportType.DESIGNS -> DESIGN_COLUMNS
+            ExportType.OUT_OF_STOCK -> OUT_OF_STOCK_COLUMNS
+        }
+        return columns.map { ExportColumnOption(it.key, it.label) }
+    }
+
+    /**
+     * Records a pending export and builds the file in the background.
+     * Progress is read back through the export history.
+     */
+    fun startExport(
+        tenantId: Long,
+        userId: Long,
+        request: ExportRequest
+    ): Result<ExportResponse> {
+        val type = ExportType.entries.find { it.code == request.type }
+            ?: return Result.failure(IllegalArgumentException("Unknown export type: ${request.type}"))
+        val format = ExportFormat.fromCode(request.format)
+
+        val available = getExportColumns(type).map { it.key }
+        val unknownColumns = request.columns.orEmpty().filterNot { it in available }
+        if (unknownColumns.isNotEmpty()) {
+            return Result.failure(IllegalArgumentException("Unknown columns: ${unknownColumns.joinToString()}"))
+        }
+        if (request.columns?.isEmpty() == true) {
+            return Result.failure(IllegalArgumentException("Select at least one column"))
+        }
+
+        val timestamp = DateTimeFormatter.ISO_INSTANT.format(Instant.now())
+            .replace(":", "-")
+            .substring(0, 19)
+        val fileName = "${type.code}_export_$timestamp.${format.extension}"
+
+        return try {
+            val exportId = exportRepository.createExportHistory(
+                tenantId = tenantId,
+                userId = userId,
+                exportType = type.code,
+                fileName = fileName,
+                fileUrl = null,
+                recordCount = 0,
+                status = ExportStatus.PENDING.code,
+                filters = json.encodeToString(ExportRequest.serializer(), request)
+            )
+
+            scope.launch {
+                try {
+                    runExport(exportId, tenantId, userId, type, format, fileName, request)
+                } catch (e: Exception) {
+                    logger.error("Failed to run export $exportId", e)
+                    exportRepository.updateExportStatus(
+                        exportId = exportId,
+                        status = ExportStatus.FAILED.code,
+                        errorMessage = e.message ?: "Unknown error"
+                    )
+                }
+            }
+
+            Result.success(
+                ExportResponse(
+                    success = true,
+                    exportId = exportId,
+                    fileName = fileName,
+                    message = "Export started"
+                )
+            )
+        } catch (e: Exception) {
+            logger.error("Failed to start ${type.code} export", e)
+            Result.failure(e)
+        }
+    }
+
+    private fun runExport(
+        exportId: Long,
+        tenantId: Long,
+        userId: Long,
+        type: ExportType,
+        format: ExportFormat,
+        fileName: String,
+        request: ExportRequest
+    ) {
+        exportRepository.updateExportStatus(exportId, ExportStatus.PROCESSING.code)
+
+        val table = loadExportTable(tenantId, userId, type, request)
+        if (table.rows.isEmpty()) {
+            exportRepository.updateExportStatus(
+                exportId = exportId,
+                status = ExportStatus.FAILED.code,
+                errorMessage = "No records match the selected filters",
+                recordCount = 0
+            )
+            return
+        }
+
+        val content = when (format) {
+            ExportFormat.XLSX -> tableToXlsx(type, table)
+            ExportFormat.CSV -> tableToCsv(table)
+        }
+
+        val fileUrl = s3Service.uploadExport(
+            tenantId = tenantId,
+            fileName = fileName,
+            content = content,
+            contentType = format.contentType
+        ) ?: throw IllegalStateException("Export file could not be uploaded")
+
+        exportRepository.updateExportStatus(
+            exportId = exportId,
+            status = ExportStatus.COMPLETED.code,
+            fileUrl = fileUrl,
+            recordCount = table.rows.size
+        )
+
+        logger.info("Export $exportId completed: $fileName, records: ${table.rows.size}")
+    }
+
+    private fun loadExportTable(
+        tenantId: Long,
+        userId: Long,
+        type: ExportType,
+        request: ExportRequest
+    ): ExportTable {
+        val filters = request.filters
+        // Order based exports use the explicit selection when there is one, otherwise every order matching the filters
+        val orderIds by lazy { request.orderIds ?: exportRepository.getOrderIdsForExport(tenantId, filters) }
+
+        return when (type) {
+            ExportType.ORDERS ->
+                toExportTable(exportRepository.getOrdersForExport(tenantId, orderIds), ORDER_COLUMNS, request.columns)
+            ExportType.PRODUCTS ->
+                toExportTable(exportRepository.getProductsForExport(tenantId, filters), PRODUCT_COLUMNS, request.columns)
+            ExportType.TRANSACTIONS ->
+                toExportTable(
+                    exportRepository.getTransactionsForExport(
+                        tenantId = tenantId,
+                        userId = filters?.userId ?: userId,
+                        startDate = filters?.startDate,
+                        endDate = filters?.endDate
+                    ),
+                    TRANSACTION_COLUMNS,
+                    request.columns
+                )
+            ExportType.DESIGNS ->
+                toExportTable(exportRepository.getDesignsForExport(tenantId, filters), DESIGN_COLUMNS, request.columns)
+            ExportType.OUT_OF_STOCK ->
+                toExportTable(exportRepository.getOutOfStockProducts(tenantId, orderIds), OUT_OF_STOCK_COLUMNS, request.columns)
+        }
+    }
+
+    private fun <T> toExportTable(rows: List<T>, columns: List<ExportColumn<T>>, selected: List<String>?): ExportTable {
+        // Keep the order the user picked the columns in
+        val picked = selected?.mapNotNull { key -> columns.find { it.key == key } } ?: columns
+        return ExportTable(
+            headers = picked.map { it.label },
+            rows = rows.map { row -> picked.map { it.value(row) } }
+        )
+    }
+
+    private fun tableToXlsx(type: ExportType, table: ExportTable): ByteArray {
+        val workbook = XSSFWorkbook()
+        val sheetName = type.code.split("_").joinToString(" ") { part -> part.replaceFirstChar { it.uppercase() } }
+        val sheet = workbook.createSheet(sheetName)
+        val headerStyle = createHeaderStyle(workbook)
+
+        val headerRow = sheet.createRow(0)
+        table.headers.forEachIndexed { index, header ->
+            val cell = headerRow.createCell(index)
+            cell.setCellValue(header)
+            cell.cellStyle = headerStyle
+        }
+
+        table.rows.forEachIndexed { rowIndex, values ->
+            val row = sheet.createRow(rowIndex + 1)
+            values.forEachIndexed { index, value ->
+                val cell = row.createCell(index)
+                when (value) {
+                    null -> cell.setCellValue("")
+                    is Number -> cell.setCellValue(value.toDouble())
+                    is Boolean -> cell.setCellValue(if (value) "Yes" else "No")
+                    else -> cell.setCellValue(value.toString())
+                }
+            }
+        }
+
+        autoSizeColumns(sheet, table.headers.size)
+
+        val bytes = workbookToBytes(workbook)
+        workbook.close()
+        return bytes
+    }
+
+    private fun tableToCsv(table: ExportTable): ByteArray {
+        fun escape(value: Any?): String {
+            val text = when (value) {
+                null -> ""
+                is BigDecimal -> value.toPlainString()
+                is Boolean -> if (value) "Yes" else "No"
+                else -> value.toString()
+            }
+            return if (text.any { it == ',' || it == '"' || it == '\n' || it == '\r' }) {
+                "\"" + text.replace("\"", "\"\"") + "\""
+            } else {
+                text
+            }
+        }
+
+        val lines = listOf(table.headers) + table.rows
+        val csv = lines.joinToString("\r\n") { values -> values.joinToString(",") { escape(it) } }
+        // BOM so Excel opens the file as UTF-8
+        return ("\uFEFF" + csv).toByteArray(Charsets.UTF_8)
+    }
+
     // =====================================================
     // EXPORT HISTORY
     // =====================================================
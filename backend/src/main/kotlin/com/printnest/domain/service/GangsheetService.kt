@@ -21,7 +21,8 @@ class GangsheetService(
     private val orderRepository: OrderRepository,
     private val designRepository: DesignRepository,
     private val settingsRepository: SettingsRepository,
-    private val s3Service: S3Service
+    private val s3Service: S3Service,
+    private val realtimeEventService: RealtimeEventService
 ) {
     private val logger = LoggerFactory.getLogger(GangsheetService::class.java)
     private val scope = CoroutineScope(Dispatchers.IO + SupervisorJob())
@@ -103,6 +104,7 @@ class GangsheetService(
             } catch (e: Exception) {
                 logger.error("Failed to generate gangsheet $gangsheetId", e)
                 gangsheetRepository.fail(gangsheetId, tenantId, e.message ?: "Unknown error")
+                publishProgress(gangsheetId, tenantId)
             }
         }
     }
@@ -119,10 +121,12 @@ class GangsheetService(
 
         // Step 1: Fetch designs for orders
         gangsheetRepository.updateStatus(gangsheetId, tenantId, GangsheetStatus.FETCHING_DESIGNS)
+        publishProgress(gangsheetId, tenantId)
         val designs = getOrdersForGangsheet(tenantId, request.orderIds, request.products)
 
         if (designs.isEmpty()) {
             gangsheetRepository.fail(gangsheetId, tenantId, "No designs found for the selected orders")
+            publishProgress(gangsheetId, tenantId)
             return
         }
 
@@ -130,6 +134,7 @@ class GangsheetService(
 
         // Step 2: Calculate new sizes for designs
         gangsheetRepository.updateStatus(gangsheetId, tenantId, GangsheetStatus.CALCULATING)
+        publishProgress(gangsheetId, tenantId)
         val processedDesigns = calculateNewSizes(designs, settings)
 
         // Step 3: Calculate placements (row-based packing)
@@ -146,6 +151,7 @@ class GangsheetService(
 
         // Step 4: Generate gangsheet images
         gangsheetRepository.updateStatus(gangsheetId, tenantId, GangsheetStatus.GENERATING)
+        publishProgress(gangsheetId, tenantId)
         val generatedRolls = generateGangsheetImages(
             gangsheetId,
             tenantId,
@@ -156,6 +162,7 @@ class GangsheetService(
 
         // Step 5: Upload to S3
         gangsheetRepository.updateStatus(gangsheetId, tenantId, GangsheetStatus.UPLOADING)
+        publishProgress(gangsheetId, tenantId)
         val uploadResult = uploadToS3(gangsheetId, tenantId, gangsheet.name, generatedRolls)
 
         // Step 6: Complete
@@ -166,6 +173,7 @@ class GangsheetService(
             placements.totalRolls,
             uploadResult.rollUrls
         )
+        publishProgress(gangsheetId, tenantId)
 
         logger.info("Gangsheet $gangsheetId completed successfully with ${placements.totalRolls} rolls")
     }
@@ -195,6 +203,13 @@ class GangsheetService(
         ))
     }
 
+    // Pushes the current status to connected clients so open gangsheet views update without polling
+    private fun publishProgress(gangsheetId: Long, tenantId: Long) {
+        getGangsheetStatus(gangsheetId, tenantId).onSuccess { status ->
+            realtimeEventService.gangsheetProgress(tenantId, status)
+        }
+    }
+
     private fun calculateProgress(gangsheet: Gangsheet): Int {
         return when (GangsheetStatus.fromCode(gangsheet.status)) {
             GangsheetStatus.PENDING -> 0
@@ -495,6 +510,7 @@ class GangsheetService(
 
                 processedCount += roll.placements.size
                 gangsheetRepository.updateProgress(gangsheetId, tenantId, processedCount)
+                publishProgress(gangsheetId, tenantId)
 
                 logger.info("Generated roll ${roll.rollNumber} with ${roll.placements.size} designs")
 
@@ -10,6 +10,10 @@ import com.printnest.integrations.etsy.EtsyService
 import com.printnest.integrations.shopify.ShopifyService
 import com.printnest.integrations.tiktok.TikTokService
 import com.printnest.integrations.walmart.WalmartService
+import kotlinx.coroutines.CoroutineScope
+import kotlinx.coroutines.Dispatchers
+import kotlinx.coroutines.SupervisorJob
+import kotlinx.coroutines.launch
 import kotlinx.serialization.json.Json
 import kotlinx.serialization.json.jsonObject
 import kotlinx.serialization.json.jsonPrimitive
@@ -35,6 +39,7 @@ class LabelService(
     private val json: Json
 ) {
     private val logger = LoggerFactory.getLogger(LabelService::class.java)
+    private val scope = CoroutineScope(Dispatchers.IO + SupervisorJob())
 
     // Marketplace IDs (matching TeeDropV2 reference)
     companion object {
@@ -43,6 +48,14 @@ class LabelService(
         const val MARKETPLACE_WALMART = 4
         const val MARKETPLACE_TIKTOK = 5
         const val MARKETPLACE_SHOPIFY = 6
+
+        // SendTrackingResult.status
+        const val TRACKING_SENT = "sent"
+        const val TRACKING_ALREADY_SENT = "already_sent"
+        const val TRACKING_SKIPPED = "skipped"
+        const val TRACKING_ERROR = "error"
+
+        const val MAX_BULK_TRACKING_ORDERS = 200
     }
 
     // =====================================================
@@ -260,6 +273,70 @@ class LabelService(
         ))
     }
 
+    /**
+     * Send tracking for several orders, one result per order (and per combined order)
+     *
+     * An order that cannot be sent, e.g. because it has no label yet, gets an error result
+     * instead of failing the whole batch.
+     */
+    suspend fun sendTrackingForOrders(
+        tenantId: Long,
+        orderIds: List<Long>
+    ): Result<SendTrackingResponse> {
+        if (orderIds.isEmpty()) {
+            return Result.failure(IllegalArgumentException("No orders selected"))
+        }
+        if (orderIds.size > MAX_BULK_TRACKING_ORDERS) {
+            return Result.failure(IllegalArgumentException("Too many orders (max $MAX_BULK_TRACKING_ORDERS)"))
+        }
+
+        val results = orderIds.distinct().flatMap { orderId ->
+            sendTrackingToMarketplace(tenantId, orderId).getOrElse { error ->
+                SendTrackingResponse(
+                    success = false,
+                    message = error.message ?: "Failed to send tracking",
+                    results = listOf(SendTrackingResult(
+                        orderId = orderId,
+                        success = false,
+                        status = TRACKING_ERROR,
+                        message = error.message ?: "Failed to send tracking"
+                    ))
+                )
+            }.results
+        }
+
+        val successCount = results.count { it.success }
+        val failCount = results.size - successCount
+
+        return Result.success(SendTrackingResponse(
+            success = failCount == 0,
+            message = if (failCount == 0) {
+                "Tracking sent for ${results.size} order(s)"
+            } else {
+                "$successCount succeeded, $failCount failed"
+            },
+            results = results
+        ))
+    }
+
+    /**
+     * Push tracking in the background right after a label is bought, if the tenant turned it on
+     */
+    fun autoSendTracking(tenantId: Long, orderId: Long) {
+        val settings = settingsRepository.getTenantSettings(tenantId)?.trackingSettings
+        if (settings?.autoSendToMarketplace != true) return
+
+        scope.launch {
+            sendTrackingToMarketplace(tenantId, orderId)
+                .onSuccess { response ->
+                    logger.info("Auto-sent tracking for order $orderId: ${response.message}")
+                }
+                .onFailure { error ->
+                    logger.warn("Auto-send tracking failed for order $orderId: ${error.message}")
+                }
+        }
+    }
+
     /**
      * Process tracking update for a single order
      */
@@ -274,6 +351,7 @@ class LabelService(
             ?: return SendTrackingResult(
                 orderId = orderId,
                 success = false,
+                status = TRACKING_ERROR,
                 message = "Order not found"
             )
 
@@ -284,7 +362,10 @@ class LabelService(
         if (isTrackingSentToMarketplace(order)) {
             return SendTrackingResult(
                 orderId = orderId,
-                success = false,
+                success = true,
+                warning = true,
+                status = TRACKING_ALREADY_SENT,
+                trackingCode = shipping?.trackingCode,
                 message = "Tracking has already been sent to marketplace"
             )
         }
@@ -298,6 +379,7 @@ class LabelService(
                 orderId = orderId,
                 success = true,
                 warning = true,
+                status = TRACKING_SKIPPED,
                 trackingCode = trackingCode,
                 message = "Manual order - cannot send tracking to marketplace"
             )
@@ -309,6 +391,7 @@ class LabelService(
             return SendTrackingResult(
                 orderId = orderId,
                 success = false,
+                status = TRACKING_ERROR,
                 message = "Order has no associated store"
             )
         }
@@ -324,6 +407,7 @@ class LabelService(
             return SendTrackingResult(
                 orderId = orderId,
                 success = false,
+                status = TRACKING_ERROR,
                 message = "Could not determine marketplace for store: $storeId"
             )
         }
@@ -345,6 +429,7 @@ class LabelService(
             return SendTrackingResult(
                 orderId = orderId,
                 success = true,
+                status = TRACKING_SENT,
                 trackingCode = trackingCode,
                 message = "Tracking sent to marketplace"
             )
@@ -353,6 +438,7 @@ class LabelService(
             return SendTrackingResult(
                 orderId = orderId,
                 success = false,
+                status = TRACKING_ERROR,
                 message = "Error: $errorMessage"
             )
         }
@@ -446,14 +532,8 @@ class LabelService(
      * Check if tracking has already been sent to marketplace
      */
     private fun isTrackingSentToMarketplace(order: OrderFull): Boolean {
-        // Check order_info for sent_to_marketplace flag
-        val orderInfo = order.orderInfo ?: return false
-        val shipping = orderInfo.shipping ?: return false
-
         // The flag is stored in order_info -> shipping -> sent_to_marketplace
-        // Since we're using data classes, we need to check the raw JSON or add the field
-        // For now, we'll assume it's not sent if we can't determine
-        return false
+        return order.orderInfo?.shipping?.sentToMarketplace == true
     }
 
     /**
@@ -538,6 +618,7 @@ data class SendTrackingResult(
     val orderId: Long,
     val success: Boolean,
     val warning: Boolean = false,
+    val status: String = LabelService.TRACKING_ERROR, // sent, already_sent, skipped or error
     val trackingCode: String? = null,
     val message: String
 )
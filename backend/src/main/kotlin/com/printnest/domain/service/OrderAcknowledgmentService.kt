@@ -0,0 +1,151 @@
+package com.printnest.domain.service
+
+import com.printnest.domain.models.*
+import com.printnest.domain.repository.OrderAcknowledgmentRepository
+import com.printnest.integrations.walmart.WalmartService
+import kotlinx.serialization.json.Json
+import kotlinx.serialization.json.contentOrNull
+import kotlinx.serialization.json.jsonObject
+import kotlinx.serialization.json.jsonPrimitive
+import org.slf4j.LoggerFactory
+
+/**
+ * Tracks which marketplace orders still have to be acknowledged and acknowledges them.
+ * Only Walmart needs an explicit acknowledgment; Amazon acknowledges orders on its own.
+ */
+class OrderAcknowledgmentService(
+    private val acknowledgmentRepository: OrderAcknowledgmentRepository,
+    private val walmartService: WalmartService,
+    private val json: Json
+) {
+    private val logger = LoggerFactory.getLogger(OrderAcknowledgmentService::class.java)
+
+    companion object {
+        const val MARKETPLACE_WALMART = 4L
+        const val MAX_QUEUE_ORDERS = 1000
+        const val MAX_BULK_ACKNOWLEDGE = 200
+
+        // Shipped, cancelled, combined and deleted orders no longer need acknowledging
+        val OPEN_STATUSES = listOf(
+            OrderStatus.NEW_ORDER,
+            OrderStatus.INVALID_ADDRESS,
+            OrderStatus.EDITING,
+            OrderStatus.PAYMENT_PENDING,
+            OrderStatus.PENDING,
+            OrderStatus.URGENT,
+            OrderStatus.AWAITING_RESPONSE,
+            OrderStatus.IN_PRODUCTION
+        ).map { it.code }
+    }
+
+    fun getQueue(tenantId: Long, storeId: Long? = null): AcknowledgmentQueueResponse {
+        val orders = acknowledgmentRepository.findUnacknowledged(
+            tenantId = tenantId,
+            marketplaceId = MARKETPLACE_WALMART,
+            statuses = OPEN_STATUSES,
+            limit = MAX_QUEUE_ORDERS + 1,
+            storeId = storeId
+        )
+        val shown = orders.take(MAX_QUEUE_ORDERS)
+
+        val stores = shown.groupBy { it.storeId }.map { (id, storeOrders) ->
+            AcknowledgmentStoreSummary(
+                storeId = id,
+                storeName = storeOrders.first().storeName,
+                pending = storeOrders.count { it.lastError == null },
+                failed = storeOrders.count { it.lastError != null },
+                oldestAgeHours = storeOrders.maxOf { it.ageHours }
+            )
+        }.sortedByDescending { it.oldestAgeHours }
+
+        return AcknowledgmentQueueResponse(
+            stores = stores,
+            orders = shown,
+            truncated = orders.size > MAX_QUEUE_ORDERS
+        )
+    }
+
+    /**
+     * Acknowledge orders on their marketplace; failures are kept so they can be retried
+     */
+    suspend fun acknowledgeOrders(tenantId: Long, orderIds: List<Long>): Result<AcknowledgeOrdersResponse> {
+        val ids = orderIds.distinct()
+        if (ids.isEmpty()) {
+            return Result.failure(IllegalArgumentException("No orders selected"))
+        }
+        if (ids.size > MAX_BULK_ACKNOWLEDGE) {
+            return Result.failure(IllegalArgumentException("At most $MAX_BULK_ACKNOWLEDGE orders can be acknowledged at once"))
+        }
+
+        val orders = acknowledgmentRepository.findUnacknowledged(
+            tenantId = tenantId,
+            marketplaceId = MARKETPLACE_WALMART,
+            statuses = OPEN_STATUSES,
+            limit = ids.size,
+            orderIds = ids
+        )
+        val found = orders.map { it.orderId }.toSet()
+
+        val results = ids.filterNot { it in found }.map { id ->
+            AcknowledgeOrderResult(id, success = false, message = "Order is already acknowledged or doesn't need it")
+        }.toMutableList()
+
+        orders.groupBy { it.storeId }.forEach { (storeId, storeOrders) ->
+            val credentials = walmartCredentials(storeId, tenantId)
+            storeOrders.forEach { order ->
+                results.add(acknowledgeOrder(tenantId, order, credentials))
+            }
+        }
+
+        return Result.success(AcknowledgeOrdersResponse(
+            acknowledged = results.count { it.success },
+            failed = results.count { !it.success },
+            results = results
+        ))
+    }
+
+    private suspend fun acknowledgeOrder(
+        tenantId: Long,
+        order: UnacknowledgedOrder,
+        credentials: Pair<String, String>?
+    ): AcknowledgeOrderResult {
+        val purchaseOrderId = order.externalOrderId
+        val error = when {
+            credentials == null -> "Walmart credentials not found for ${order.storeName}"
+            purchaseOrderId.isNullOrBlank() -> "Order has no Walmart purchase order ID"
+            else -> walmartService.acknowledgeOrders(
+                storeId = order.storeId,
+                clientId = credentials.first,
+                clientSecret = credentials.second,
+                purchaseOrderIds = listOf(purchaseOrderId)
+            ).fold(
+                onSuccess = { result -> if (result.acknowledged > 0) null else result.errors.firstOrNull() ?: "Walmart rejected the acknowledgment" },
+                onFailure = { it.message ?: "Acknowledgment failed" }
+            )
+        }
+
+        acknowledgmentRepository.recordAttempt(tenantId, order.orderId, order.storeId, error)
+        if (error != null) {
+            logger.warn("Failed to acknowledge order ${order.orderId}: $error")
+        }
+
+        return AcknowledgeOrderResult(
+            orderId = order.orderId,
+            success = error == null,
+            message = error ?: "Acknowledged"
+        )
+    }
+
+    private fun walmartCredentials(storeId: Long, tenantId: Long): Pair<String, String>? {
+        val raw = acknowledgmentRepository.findStoreCredentials(storeId, tenantId) ?: return null
+        return try {
+            val credentials = json.parseToJsonElement(raw).jsonObject
+            val clientId = credentials["clientId"]?.jsonPrimitive?.contentOrNull
+            val clientSecret = credentials["clientSecret"]?.jsonPrimitive?.contentOrNull
+            if (clientId.isNullOrBlank() || clientSecret.isNullOrBlank()) null else clientId to clientSecret
+        } catch (e: Exception) {
+            logger.error("Invalid credentials for store $storeId", e)
+            null
+        }
+    }
+}
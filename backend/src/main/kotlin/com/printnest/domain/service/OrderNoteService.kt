@@ -0,0 +1,125 @@
+package com.printnest.domain.service
+
+import com.printnest.domain.models.*
+import com.printnest.domain.repository.OrderRepository
+import com.printnest.integrations.aws.S3Service
+
+class OrderNoteService(
+    private val orderRepository: OrderRepository,
+    private val settingsService: SettingsService,
+    private val s3Service: S3Service
+) {
+
+    companion object {
+        const val MAX_NOTE_LENGTH = 5000
+        const val MAX_ATTACHMENTS = 10
+        const val MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024L // 10MB
+
+        // Photos of misprints and the odd PDF proof
+        val ATTACHMENT_EXTENSIONS = setOf("jpg", "jpeg", "png", "gif", "webp", "heic", "pdf")
+    }
+
+    // =====================================================
+    // NOTES
+    // =====================================================
+
+    fun getNotes(tenantId: Long, orderId: Long, isSubdealer: Boolean): Result<List<OrderNote>> {
+        orderRepository.findById(orderId, tenantId)
+            ?: return Result.failure(IllegalArgumentException("Order not found"))
+
+        return Result.success(orderRepository.findOrderNotes(orderId, tenantId, includeInternal = !isSubdealer))
+    }
+
+    fun addNote(
+        tenantId: Long,
+        userId: Long,
+        orderId: Long,
+        isSubdealer: Boolean,
+        request: CreateOrderNoteRequest
+    ): Result<OrderNote> {
+        val order = orderRepository.findById(orderId, tenantId)
+            ?: return Result.failure(IllegalArgumentException("Order not found"))
+
+        if (request.note.isBlank() && request.attachments.isEmpty()) {
+            return Result.failure(IllegalArgumentException("Note is required"))
+        }
+        if (request.note.length > MAX_NOTE_LENGTH) {
+            return Result.failure(IllegalArgumentException("Note is too long (max $MAX_NOTE_LENGTH characters)"))
+        }
+        if (request.attachments.size > MAX_ATTACHMENTS) {
+            return Result.failure(IllegalArgumentException("Too many attachments (max $MAX_ATTACHMENTS)"))
+        }
+
+        // Only staff can be mentioned; unknown ids and self-mentions are dropped
+        val mentionable = orderRepository.findMentionableUsers(tenantId).map { it.id }.toSet()
+        val mentionedUserIds = request.mentionedUserIds.distinct().filter { it in mentionable && it != userId }
+
+        // A subdealer's note is always visible to them
+        val note = orderRepository.createOrderNote(
+            tenantId = tenantId,
+            orderId = orderId,
+            userId = userId,
+            request = request.copy(
+                shared = request.shared || isSubdealer,
+                mentionedUserIds = mentionedUserIds
+            )
+        )
+
+        val orderNumber = order.externalOrderId ?: order.intOrderId ?: "#${order.id}"
+        mentionedUserIds.forEach { mentionedUserId ->
+            settingsService.notifyUser(
+                tenantId = tenantId,
+                userId = mentionedUserId,
+                title = "Mentioned on order $orderNumber",
+                message = "${note.authorName ?: "Someone"}: ${note.note.take(100)}",
+                type = NotificationType.ORDER,
+                url = "/orders/$orderId"
+            )
+        }
+
+        return Result.success(note)
+    }
+
+    fun getMentionableUsers(tenantId: Long): List<MentionableUser> {
+        return orderRepository.findMentionableUsers(tenantId)
+    }
+
+    // =====================================================
+    // ATTACHMENTS
+    // =====================================================
+
+    /**
+     * Stores a file for a note that is about to be posted; the returned attachment goes into CreateOrderNoteRequest
+     */
+    fun uploadAttachment(
+        tenantId: Long,
+        orderId: Long,
+        fileName: String,
+        contentType: String,
+        bytes: ByteArray
+    ): Result<OrderNoteAttachment> {
+        orderRepository.findById(orderId, tenantId)
+            ?: return Result.failure(IllegalArgumentException("Order not found"))
+
+        val extension = fileName.substringAfterLast(".", "").lowercase()
+        if (extension !in ATTACHMENT_EXTENSIONS) {
+            return Result.failure(IllegalArgumentException("Unsupported file type: $extension"))
+        }
+        if (bytes.size > MAX_ATTACHMENT_SIZE) {
+            return Result.failure(IllegalArgumentException("File size exceeds maximum allowed (10MB)"))
+        }
+
+        val key = s3Service.generateOrderNoteKey(tenantId, orderId, fileName)
+        val fileUrl = s3Service.uploadBytes(tenantId, bytes, key, contentType)
+            ?: return Result.failure(IllegalStateException("S3 not configured for this tenant"))
+
+        return Result.success(
+            OrderNoteAttachment(
+                fileName = fileName,
+                fileUrl = fileUrl,
+                fileType = contentType,
+                fileSize = bytes.size.toLong()
+            )
+        )
+    }
+}
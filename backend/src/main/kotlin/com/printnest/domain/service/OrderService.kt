@@ -5,6 +5,9 @@ import com.printnest.domain.repository.CategoryRepository
 import com.printnest.domain.repository.OrderRepository
 import com.printnest.domain.repository.ProductRepository
 import com.printnest.domain.repository.ProfileRepository
+import com.printnest.domain.repository.STAFF_ROLES
+import com.printnest.domain.repository.SettingsRepository
+import com.printnest.domain.repository.isDraft
 import com.printnest.domain.tables.Orders
 import com.printnest.domain.tables.Users
 import org.jetbrains.exposed.sql.*
@@ -17,38 +20,108 @@ class OrderService(
     private val orderRepository: OrderRepository,
     private val productRepository: ProductRepository,
     private val categoryRepository: CategoryRepository,
-    private val profileRepository: ProfileRepository
+    private val profileRepository: ProfileRepository,
+    private val orderSlaService: OrderSlaService,
+    private val settingsRepository: SettingsRepository
 ) {
 
+    companion object {
+        private const val DUPLICATE_LOOKBACK_DAYS = 30L
+
+        const val MAX_MATCHING_ORDER_IDS = 5000
+
+        // Paid orders are cancelled through cancelOrder so the payment is refunded
+        private val PAID_STATUSES = listOf(OrderStatus.PENDING, OrderStatus.URGENT)
+
+        // Paid orders that are not being edited; an edit settles its own price difference
+        private val REFUNDABLE_STATUSES = listOf(
+            OrderStatus.PENDING, OrderStatus.URGENT, OrderStatus.AWAITING_RESPONSE,
+            OrderStatus.IN_PRODUCTION, OrderStatus.SHIPPED, OrderStatus.COMPLETED
+        )
+
+        private val REFUND_REVIEWER_ROLES = listOf("owner", "admin", "producer")
+
+        // Order list pages a saved view can belong to
+        private val SAVED_VIEW_PAGES = setOf("new-orders", "list")
+        private const val MAX_SAVED_VIEW_NAME = 100
+    }
+
     // =====================================================
     // ORDER LISTING
     // =====================================================
 
     fun getOrders(tenantId: Long, filters: OrderFiltersExtended): OrderListResponse {
+        if (filters.sortBy == "shipBy") {
+            return getOrdersByShipBy(tenantId, filters)
+        }
+
         val (orders, total) = orderRepository.findAll(tenantId, filters)
         val totalPages = (total + filters.limit - 1) / filters.limit
 
         return OrderListResponse(
-            orders = orders,
+            orders = orderSlaService.withShipBy(tenantId, orders),
             total = total,
             page = filters.page,
             limit = filters.limit,
-            totalPages = totalPages
+            totalPages = totalPages,
+            nextCursor = orders.takeIf { it.size == filters.limit }?.last()?.let { OrderCursor.of(it, filters.sortBy).encode() }
+        )
+    }
+
+    /**
+     * Ids of every order matching the filters, so a bulk action can cover a whole filter
+     * instead of only the loaded rows. Capped at MAX_MATCHING_ORDER_IDS.
+     */
+    fun getOrderIds(tenantId: Long, filters: OrderFiltersExtended): OrderIdsResponse {
+        val ids = orderRepository.findIds(tenantId, filters, MAX_MATCHING_ORDER_IDS + 1)
+        return OrderIdsResponse(
+            orderIds = ids.take(MAX_MATCHING_ORDER_IDS),
+            truncated = ids.size > MAX_MATCHING_ORDER_IDS
+        )
+    }
+
+    /**
+     * Ship-by is not a column, so the database sorts by the same date computed from the SLA rules.
+     * Orders without a ship-by date (unpaid or already shipped) go last.
+     */
+    private fun getOrdersByShipBy(tenantId: Long, filters: OrderFiltersExtended): OrderListResponse {
+        val (orders, total) = orderRepository.findAllSortedBy(
+            tenantId,
+            filters,
+            orderSlaService.shipByAtExpression(tenantId)
+        )
+
+        return OrderListResponse(
+            orders = orderSlaService.withShipBy(tenantId, orders),
+            total = total,
+            page = filters.page,
+            limit = filters.limit,
+            totalPages = (total + filters.limit - 1) / filters.limit
         )
     }
 
     fun getOrder(id: Long, tenantId: Long, withProducts: Boolean = true): OrderFull? {
-        return if (withProducts) {
+        val order = if (withProducts) {
             orderRepository.findByIdWithProducts(id, tenantId)
         } else {
             orderRepository.findById(id, tenantId)
         }
+        return order?.let { orderSlaService.withShipBy(tenantId, it) }
     }
 
+    fun getSlaSummary(tenantId: Long): OrderSlaSummary = orderSlaService.getSummary(tenantId)
+
     fun getOrderHistory(orderId: Long): List<OrderHistoryItem> {
         return orderRepository.findOrderHistory(orderId)
     }
 
+    fun getOrderPayments(orderId: Long, tenantId: Long): OrderPaymentsResponse {
+        return OrderPaymentsResponse(
+            payments = orderRepository.findPaymentsByOrderId(orderId, tenantId),
+            transactions = orderRepository.findTransactionsByOrderId(orderId, tenantId)
+        )
+    }
+
     // =====================================================
     // STEP 1 - ORDER CREATION
     // =====================================================
@@ -64,6 +137,10 @@ class OrderService(
             }
         }
 
+        validateCustomsInfo(tenantId, request.shippingAddress, request.customsInfo)?.let { error ->
+            return Result.failure(IllegalArgumentException(error))
+        }
+
         val order = orderRepository.create(tenantId, userId, request)
 
         // Trigger mapping if applicable
@@ -72,6 +149,131 @@ class OrderService(
         return Result.success(order)
     }
 
+    /**
+     * Orders shipping to another country than the tenant's default label address need a customs
+     * declaration, the same rule the order wizard applies before it lets the address step through
+     */
+    private fun validateCustomsInfo(tenantId: Long, destination: Address?, customsInfo: CustomsInfoFull?): String? {
+        val country = destination?.country?.trim()?.uppercase()
+        val originCountry = settingsRepository.findDefaultLabelAddress(tenantId)?.countryIso
+            ?.takeIf { it.isNotBlank() } ?: "US"
+        if (!country.isNullOrEmpty() && country != originCountry.uppercase() && customsInfo?.customsItems.isNullOrEmpty()) {
+            return "Orders shipping from $originCountry to $country need a customs declaration"
+        }
+
+        customsInfo?.customsItems?.forEachIndexed { index, item ->
+            val line = "Customs item ${index + 1}"
+            when {
+                item.description.isBlank() -> return "$line needs a description"
+                item.hsTariffNumber?.replace(Regex("[.\\s]"), "")?.matches(Regex("\\d{6,10}")) != true ->
+                    return "$line needs a 6 to 10 digit HS code"
+                item.quantity <= 0 -> return "$line needs a quantity"
+                item.value <= BigDecimal.ZERO -> return "$line needs a value"
+                item.weight <= BigDecimal.ZERO -> return "$line needs a weight"
+            }
+        }
+        return null
+    }
+
+    // =====================================================
+    // DRAFTS
+    // =====================================================
+
+    fun getDrafts(tenantId: Long, userId: Long): List<OrderFull> {
+        val (orders, _) = orderRepository.findAll(
+            tenantId,
+            OrderFiltersExtended(
+                status = OrderStatus.EDITING.code,
+                userId = userId,
+                drafts = true,
+                limit = 100,
+                sortBy = "updatedAt"
+            )
+        )
+        return orders
+    }
+
+    fun saveDraft(tenantId: Long, userId: Long, id: Long?, request: SaveOrderDraftRequest): Result<OrderFull> {
+        val draft = OrderDraft(
+            source = request.source,
+            payload = request.payload,
+            savedAt = java.time.Instant.now().toString()
+        )
+
+        if (id == null) {
+            val order = orderRepository.create(
+                tenantId,
+                userId,
+                CreateOrderRequest(customerName = request.customerName, shippingAddress = request.shippingAddress),
+                draft = draft
+            )
+            return Result.success(order)
+        }
+
+        val order = findOwnDraft(tenantId, userId, id)
+            ?: return Result.failure(IllegalArgumentException("Draft not found"))
+
+        transaction {
+            orderRepository.update(id, tenantId) {
+                it[customerName] = request.customerName
+            }
+            orderRepository.updateOrderInfo(
+                id,
+                tenantId,
+                (order.orderInfo ?: OrderInfoFull()).copy(toAddress = request.shippingAddress, draft = draft)
+            )
+        }
+
+        return Result.success(orderRepository.findById(id, tenantId)!!)
+    }
+
+    fun discardDraft(tenantId: Long, userId: Long, id: Long): Result<Boolean> {
+        findOwnDraft(tenantId, userId, id)
+            ?: return Result.failure(IllegalArgumentException("Draft not found"))
+
+        return Result.success(orderRepository.delete(id, tenantId, userId))
+    }
+
+    // Drafts are private to the user who started them
+    private fun findOwnDraft(tenantId: Long, userId: Long, id: Long): OrderFull? {
+        val order = orderRepository.findById(id, tenantId) ?: return null
+        return order.takeIf {
+            it.userId == userId && it.orderStatus == OrderStatus.EDITING.code && it.orderInfo?.draft != null
+        }
+    }
+
+    // =====================================================
+    // SAVED VIEWS
+    // =====================================================
+
+    fun getSavedViews(tenantId: Long, userId: Long, page: String?): List<SavedOrderView> =
+        orderRepository.findSavedViews(tenantId, userId, page)
+
+    fun createSavedView(tenantId: Long, userId: Long, request: CreateSavedOrderViewRequest): Result<SavedOrderView> {
+        if (request.page !in SAVED_VIEW_PAGES) {
+            return Result.failure(IllegalArgumentException("Invalid page: ${request.page}"))
+        }
+        if (request.name.isBlank()) {
+            return Result.failure(IllegalArgumentException("View name is required"))
+        }
+        if (request.name.trim().length > MAX_SAVED_VIEW_NAME) {
+            return Result.failure(IllegalArgumentException("View name is too long (max $MAX_SAVED_VIEW_NAME characters)"))
+        }
+        if (request.query.isBlank()) {
+            return Result.failure(IllegalArgumentException("A view needs at least one filter"))
+        }
+
+        return Result.success(orderRepository.createSavedView(tenantId, userId, request))
+    }
+
+    // Views are private, so another user's view is reported as not found
+    fun deleteSavedView(tenantId: Long, userId: Long, id: Long): Result<Boolean> {
+        if (!orderRepository.deleteSavedView(id, tenantId, userId)) {
+            return Result.failure(IllegalArgumentException("View not found"))
+        }
+        return Result.success(true)
+    }
+
     // =====================================================
     // STEP 2 - ORDER EDITING
     // =====================================================
@@ -86,25 +288,102 @@ class OrderService(
             return Result.failure(IllegalStateException("Order cannot be edited in current status"))
         }
 
-        // If order was PENDING or URGENT, change to EDITING
-        if (status == OrderStatus.PENDING || status == OrderStatus.URGENT) {
-            orderRepository.updateStatus(id, tenantId, userId, OrderStatus.EDITING.code, "Editing order")
+        // A new destination country is checked like a new order, other edits only check a new declaration
+        val currentCountry = (order.orderInfo?.toAddress ?: order.shippingAddress)?.country?.trim()
+        val movedAddress = request.shippingAddress?.takeIf { !it.country?.trim().equals(currentCountry, ignoreCase = true) }
+        val customsInfo = request.customsInfo?.takeIf { it.customsItems.isNotEmpty() }
+            ?: order.orderInfo?.customsInfo?.takeIf { movedAddress != null }
+        validateCustomsInfo(tenantId, movedAddress, customsInfo)?.let { error ->
+            return Result.failure(IllegalArgumentException(error))
         }
 
-        // Update each product
-        request.products.forEach { productUpdate ->
-            updateOrderProduct(productUpdate, tenantId)
+        // Only lines that belong to this order can be changed or removed
+        val orderProductIds = orderRepository.findOrderProducts(id, tenantId).map { it.id }.toSet()
+        val unknownIds = (request.products.map { it.orderProductId } + request.removedOrderProductIds)
+            .filter { it !in orderProductIds }
+        if (unknownIds.isNotEmpty()) {
+            return Result.failure(IllegalArgumentException("Products ${unknownIds.joinToString(", ")} are not on this order"))
         }
 
-        // Update address if provided
-        request.shippingAddress?.let { address ->
-            val currentInfo = order.orderInfo ?: OrderInfoFull()
-            val updatedInfo = currentInfo.copy(
-                toAddress = address,
-                orderNote = request.orderNote ?: currentInfo.orderNote,
-                giftNote = request.giftNote ?: currentInfo.giftNote
-            )
-            orderRepository.updateOrderInfo(id, tenantId, updatedInfo)
+        // Changed and added lines must point at products and variants of this tenant
+        val unknownProducts = (request.products.mapNotNull { it.productId } + request.newProducts.mapNotNull { it.productId })
+            .distinct()
+            .filter { productRepository.findById(it, tenantId) == null }
+        if (unknownProducts.isNotEmpty()) {
+            return Result.failure(IllegalArgumentException("Unknown products: ${unknownProducts.joinToString(", ")}"))
+        }
+        val unknownVariants = (request.products.mapNotNull { it.variantId } + request.newProducts.mapNotNull { it.variantId })
+            .distinct()
+            .filter { productRepository.findVariantById(it, tenantId) == null }
+        if (unknownVariants.isNotEmpty()) {
+            return Result.failure(IllegalArgumentException("Unknown variants: ${unknownVariants.joinToString(", ")}"))
+        }
+
+        // The edit snapshot, status change and line changes are saved together or not at all
+        transaction {
+            var currentInfo = order.orderInfo ?: OrderInfoFull()
+
+            // If order was PENDING or URGENT, change to EDITING and remember what was paid
+            if (status == OrderStatus.PENDING || status == OrderStatus.URGENT) {
+                currentInfo = currentInfo.copy(
+                    editSnapshot = OrderEditSnapshot(
+                        previousStatus = order.orderStatus,
+                        previousTotal = order.totalAmount,
+                        previousUrgentAmount = order.urgentAmount,
+                        previousPriceDetail = order.priceDetail
+                    )
+                )
+                orderRepository.updateOrderInfo(id, tenantId, currentInfo)
+                orderRepository.updateStatus(id, tenantId, userId, OrderStatus.EDITING.code, "Editing order")
+            }
+
+            request.removedOrderProductIds.forEach { orderProductId ->
+                orderRepository.deleteOrderProduct(orderProductId, tenantId)
+            }
+
+            // Update each product
+            request.products.forEach { productUpdate ->
+                updateOrderProduct(productUpdate, tenantId)
+            }
+
+            // Add new lines, then fill in their details like an edited line
+            request.newProducts.forEach { newProduct ->
+                val created = orderRepository.createOrderProduct(
+                    orderId = id,
+                    tenantId = tenantId,
+                    request = CreateOrderProductRequest(
+                        productId = newProduct.productId,
+                        variantId = newProduct.variantId,
+                        quantity = newProduct.quantity,
+                        modificationDetail = newProduct.modificationDetail
+                    )
+                )
+                updateOrderProduct(
+                    UpdateOrderProductRequest(
+                        orderProductId = created.id,
+                        productId = newProduct.productId,
+                        variantId = newProduct.variantId,
+                        categoryId = newProduct.categoryId,
+                        option1Id = newProduct.option1Id,
+                        option2Id = newProduct.option2Id,
+                        quantity = newProduct.quantity,
+                        modificationDetail = newProduct.modificationDetail,
+                        stitchCount = newProduct.stitchCount
+                    ),
+                    tenantId
+                )
+            }
+
+            // Update address if provided
+            request.shippingAddress?.let { address ->
+                val updatedInfo = currentInfo.copy(
+                    toAddress = address,
+                    orderNote = request.orderNote ?: currentInfo.orderNote,
+                    giftNote = request.giftNote ?: currentInfo.giftNote,
+                    customsInfo = request.customsInfo?.takeIf { it.customsItems.isNotEmpty() } ?: currentInfo.customsInfo
+                )
+                orderRepository.updateOrderInfo(id, tenantId, updatedInfo)
+            }
         }
 
         return Result.success(orderRepository.findByIdWithProducts(id, tenantId)!!)
@@ -302,10 +581,7 @@ class OrderService(
         var total = order.totalAmount
 
         // Add urgent fee if requested
-        val urgentPrice = if (request.isUrgent) {
-            // TODO: Get urgent price from settings
-            BigDecimal("10.00")
-        } else BigDecimal.ZERO
+        val urgentPrice = if (request.isUrgent) OrderFees.URGENT else BigDecimal.ZERO
 
         total += urgentPrice
 
@@ -370,7 +646,7 @@ class OrderService(
             it[paymentId] = payment.id
             it[paymentMethod] = "balance"
             if (isUrgent) {
-                it[urgentAmount] = BigDecimal("10.00")
+                it[urgentAmount] = OrderFees.URGENT
             }
         }
 
@@ -414,7 +690,9 @@ class OrderService(
             ?: return Result.failure(IllegalArgumentException("Order not found"))
 
         val status = OrderStatus.fromCode(order.orderStatus)
-        if (status != OrderStatus.PENDING && status != OrderStatus.URGENT) {
+        val editSnapshot = order.orderInfo?.editSnapshot
+        val isEditing = status == OrderStatus.EDITING && editSnapshot != null
+        if (status != OrderStatus.PENDING && status != OrderStatus.URGENT && !isEditing) {
             return Result.failure(IllegalStateException("Order is not ready for confirmation"))
         }
 
@@ -449,7 +727,11 @@ class OrderService(
             products = order.products,
             address = order.shippingAddress ?: order.orderInfo?.toAddress,
             canProceed = issues.isEmpty(),
-            issues = issues
+            issues = issues,
+            previousTotal = editSnapshot?.previousTotal.takeIf { isEditing },
+            priceDifference = editSnapshot?.let { order.totalAmount - it.previousTotal }.takeIf { isEditing },
+            previousPriceDetail = if (isEditing) editSnapshot?.previousPriceDetail ?: emptyList() else emptyList(),
+            priceDetail = order.priceDetail
         ))
     }
 
@@ -458,6 +740,9 @@ class OrderService(
             ?: return Result.failure(IllegalArgumentException("Order not found"))
 
         val status = OrderStatus.fromCode(order.orderStatus)
+        if (status == OrderStatus.EDITING && order.orderInfo?.editSnapshot != null) {
+            return confirmOrderEdit(order, tenantId, userId, request)
+        }
         if (status != OrderStatus.PENDING && status != OrderStatus.URGENT) {
             return Result.failure(IllegalStateException("Order cannot be confirmed in current status"))
         }
@@ -475,6 +760,70 @@ class OrderService(
         return Result.success(orderRepository.findByIdWithProducts(id, tenantId)!!)
     }
 
+    /**
+     * Re-confirm an edited order: charge or refund the price difference against the
+     * owner's balance and move the order back to the status it had before editing.
+     */
+    private fun confirmOrderEdit(order: OrderFull, tenantId: Long, userId: Long, request: ConfirmOrderRequest): Result<OrderFull> {
+        // The charge, the balance and the status move together; the row lock keeps a second confirm waiting
+        return runCatching {
+            transaction {
+                val locked = orderRepository.findByIdForUpdate(order.id, tenantId)
+                    ?: throw IllegalArgumentException("Order not found")
+                val orderInfo = locked.orderInfo ?: throw IllegalStateException("Order info not found")
+                val snapshot = orderInfo.editSnapshot ?: throw IllegalStateException("Order has no pending edit")
+
+                val difference = locked.totalAmount - snapshot.previousTotal
+                val currentBalance = getUserBalance(locked.userId, tenantId)
+
+                if (difference > BigDecimal.ZERO) {
+                    if (currentBalance < difference) {
+                        throw IllegalStateException("Insufficient balance. Required: $difference, Available: $currentBalance")
+                    }
+                    orderRepository.createTransaction(
+                        tenantId = tenantId,
+                        userId = locked.userId,
+                        type = TransactionType.PURCHASE.code,
+                        amount = difference.negate(),
+                        description = "Order edit #${locked.id}",
+                        referenceId = locked.id.toString(),
+                        balanceBefore = currentBalance,
+                        balanceAfter = currentBalance - difference
+                    )
+                    updateUserBalance(locked.userId, tenantId, currentBalance - difference)
+                } else if (difference < BigDecimal.ZERO) {
+                    // Partial refunds approved before the edit already paid part of the difference back
+                    val refundAmount = difference.negate().min(getChargedAmount(locked))
+                    if (refundAmount > BigDecimal.ZERO) {
+                        orderRepository.createTransaction(
+                            tenantId = tenantId,
+                            userId = locked.userId,
+                            type = TransactionType.ORDER_REFUND.code,
+                            amount = refundAmount,
+                            description = "Order edit refund #${locked.id}",
+                            referenceId = locked.id.toString(),
+                            balanceBefore = currentBalance,
+                            balanceAfter = currentBalance + refundAmount
+                        )
+                        updateUserBalance(locked.userId, tenantId, currentBalance + refundAmount)
+                    }
+                }
+
+                // Step 3 recalculation clears the urgent fee, which was already paid
+                orderRepository.update(locked.id, tenantId) {
+                    it[urgentAmount] = snapshot.previousUrgentAmount
+                }
+                orderRepository.updateOrderInfo(locked.id, tenantId, orderInfo.copy(editSnapshot = null))
+                orderRepository.updateStatus(
+                    locked.id, tenantId, userId, snapshot.previousStatus,
+                    request.notes ?: "Order edit confirmed (price difference: $difference)"
+                )
+
+                orderRepository.findByIdWithProducts(locked.id, tenantId)!!
+            }
+        }
+    }
+
     // =====================================================
     // ORDER ACTIONS
     // =====================================================
@@ -483,6 +832,12 @@ class OrderService(
         val order = orderRepository.findById(id, tenantId)
             ?: return Result.failure(IllegalArgumentException("Order not found"))
 
+        // An edited paid order only leaves EDITING through confirmOrder, which charges or refunds the difference,
+        // or through cancelOrder, which refunds what was paid
+        if (order.orderInfo?.editSnapshot != null) {
+            return Result.failure(IllegalStateException("Confirm or cancel the order edit before changing its status"))
+        }
+
         orderRepository.updateStatus(id, tenantId, userId, request.newStatus, request.notes)
 
         return Result.success(orderRepository.findByIdWithProducts(id, tenantId)!!)
@@ -492,6 +847,10 @@ class OrderService(
         val order = orderRepository.findById(id, tenantId)
             ?: return Result.failure(IllegalArgumentException("Order not found"))
 
+        if (order.orderInfo?.editSnapshot != null) {
+            return Result.failure(IllegalStateException("Confirm or cancel the order edit before deleting it"))
+        }
+
         return Result.success(orderRepository.delete(id, tenantId, userId))
     }
 
@@ -662,6 +1021,15 @@ class OrderService(
         return profileRepository.findDefaultPriceProfile(tenantId)
     }
 
+    // Role as stored on the user, never taken from the request
+    fun getUserRole(tenantId: Long, userId: Long): String? = transaction {
+        Users.selectAll()
+            .where { (Users.id eq userId) and (Users.tenantId eq tenantId) }
+            .singleOrNull()
+            ?.get(Users.role)
+            ?.lowercase()
+    }
+
     private fun getUserBalance(userId: Long, tenantId: Long): BigDecimal = transaction {
         Users.selectAll()
             .where { (Users.id eq userId) and (Users.tenantId eq tenantId) }
@@ -695,9 +1063,14 @@ class OrderService(
 
         var updatedCount = 0
         orderIds.forEach { orderId ->
-            if (orderRepository.updateStatus(orderId, tenantId, userId, statusCode, "Bulk status update to $status")) {
-                updatedCount++
+            // Paid orders are cancelled through cancelOrder so the payment is refunded
+            val order = orderRepository.findById(orderId, tenantId) ?: return@forEach
+            val updated = if (statusCode == OrderStatus.CANCELLED.code && isPaid(order)) {
+                cancelOrder(tenantId, userId, orderId).isSuccess
+            } else {
+                orderRepository.updateStatus(orderId, tenantId, userId, statusCode, "Bulk status update to $status")
             }
+            if (updated) updatedCount++
         }
 
         return Result.success(updatedCount)
@@ -707,31 +1080,35 @@ class OrderService(
         val order = orderRepository.findById(orderId, tenantId)
             ?: return Result.failure(IllegalArgumentException("Order not found"))
 
-        val status = OrderStatus.fromCode(order.orderStatus)
-        val cancelableStatuses = listOf(OrderStatus.PENDING, OrderStatus.URGENT)
-
-        if (status !in cancelableStatuses) {
-            return Result.failure(IllegalStateException("Cannot cancel order in current status: ${status.name}"))
+        if (!isPaid(order)) {
+            return Result.failure(IllegalStateException("Cannot cancel order in current status: ${OrderStatus.fromCode(order.orderStatus).name}"))
         }
 
-        // Record refund transaction
-        orderRepository.createTransaction(
-            tenantId = tenantId,
-            userId = order.userId,
-            type = TransactionType.ORDER_REFUND.code,
-            amount = order.totalAmount,
-            description = "Complete refund of order: $orderId",
-            referenceId = orderId.toString(),
-            balanceBefore = getUserBalance(order.userId, tenantId),
-            balanceAfter = getUserBalance(order.userId, tenantId) + order.totalAmount
-        )
+        transaction {
+            // A paid order being edited is refunded in full, the pending edit was never charged
+            val refundAmount = if (order.orderInfo?.editSnapshot != null) getChargedAmount(order) else getRefundableAmount(order)
+            if (refundAmount > BigDecimal.ZERO) {
+                val currentBalance = getUserBalance(order.userId, tenantId)
+                orderRepository.createTransaction(
+                    tenantId = tenantId,
+                    userId = order.userId,
+                    type = TransactionType.ORDER_REFUND.code,
+                    amount = refundAmount,
+                    description = "Complete refund of order: $orderId",
+                    referenceId = orderId.toString(),
+                    balanceBefore = currentBalance,
+                    balanceAfter = currentBalance + refundAmount
+                )
+                updateUserBalance(order.userId, tenantId, currentBalance + refundAmount)
+            }
 
-        // Update user balance
-        val currentBalance = getUserBalance(order.userId, tenantId)
-        updateUserBalance(order.userId, tenantId, currentBalance + order.totalAmount)
+            order.orderInfo?.takeIf { it.editSnapshot != null }?.let {
+                orderRepository.updateOrderInfo(orderId, tenantId, it.copy(editSnapshot = null))
+            }
 
-        // Update order status to cancelled
-        orderRepository.updateStatus(orderId, tenantId, userId, OrderStatus.CANCELLED.code, "Order cancelled by user")
+            // Update order status to cancelled
+            orderRepository.updateStatus(orderId, tenantId, userId, OrderStatus.CANCELLED.code, "Order cancelled by user")
+        }
 
         // TODO: If refundLabel is true, request refund from shipping provider
 
@@ -782,8 +1159,30 @@ class OrderService(
 
             // Mark other orders as COMBINED
             orderRepository.updateStatus(otherId, tenantId, userId, OrderStatus.COMBINED.code, "Combined into order $mainOrderId")
+
+            val otherOrder = orders.first { it.id == otherId }
+            orderRepository.updateOrderInfo(
+                otherId, tenantId,
+                (otherOrder.orderInfo ?: OrderInfoFull()).copy(combinedIntoOrderId = mainOrderId)
+            )
         }
 
+        // Link the children from the parent so they can be listed on its detail page
+        val mainInfo = mainOrder.orderInfo ?: OrderInfoFull()
+        orderRepository.updateOrderInfo(
+            mainOrderId, tenantId,
+            mainInfo.copy(combinedOrderIds = (mainInfo.combinedOrderIds + otherOrderIds).distinct())
+        )
+        orderRepository.createHistoryEntry(
+            tenantId = tenantId,
+            orderId = mainOrderId,
+            userId = userId,
+            previousStatus = mainOrder.orderStatus,
+            newStatus = mainOrder.orderStatus,
+            action = "combined",
+            notes = "Combined orders ${otherOrderIds.joinToString(", ")} into this order"
+        )
+
         return Result.success(CombineOrdersResponse(
             success = true,
             combinedOrderId = mainOrderId,
@@ -792,6 +1191,269 @@ class OrderService(
         ))
     }
 
+    /**
+     * Groups NEW_ORDER orders that ship to the same address so they can be combined
+     */
+    fun getCombineCandidates(tenantId: Long, storeId: Long? = null, userId: Long? = null): CombineCandidatesResponse {
+        val (orders, _) = orderRepository.findAll(
+            tenantId,
+            OrderFiltersExtended(
+                status = OrderStatus.NEW_ORDER.code,
+                storeId = storeId,
+                userId = userId,
+                limit = 1000,
+                sortBy = "createdAt",
+                sortOrder = "ASC"
+            )
+        )
+
+        val sameAddress = orders
+            .mapNotNull { order ->
+                val address = order.orderInfo?.toAddress ?: order.shippingAddress ?: return@mapNotNull null
+                val key = addressKey(address) ?: return@mapNotNull null
+                Triple(key, address, order)
+            }
+            .groupBy { it.first }
+            .values
+            .filter { it.size > 1 }
+
+        val products = orderRepository.findOrderProductsByOrderIds(
+            sameAddress.flatten().map { it.third.id },
+            tenantId
+        )
+        val groups = sameAddress.map { entries ->
+            CombineCandidateGroup(
+                address = entries.first().second,
+                orders = entries.map { it.third.copy(products = products[it.third.id] ?: emptyList()) }
+            )
+        }
+
+        return CombineCandidatesResponse(groups = groups)
+    }
+
+    /**
+     * Saves corrected addresses for INVALID_ADDRESS orders and returns them to NEW_ORDER
+     */
+    fun correctAddresses(tenantId: Long, userId: Long, corrections: List<OrderAddressCorrection>): Result<CorrectAddressesResponse> {
+        if (corrections.isEmpty()) {
+            return Result.failure(IllegalArgumentException("No address corrections given"))
+        }
+
+        val correctedOrderIds = mutableListOf<Long>()
+        val errors = mutableListOf<OrderAddressCorrectionError>()
+
+        corrections.forEach { correction ->
+            val order = orderRepository.findById(correction.orderId, tenantId)
+            if (order == null || order.orderStatus != OrderStatus.INVALID_ADDRESS.code) {
+                val message = if (order == null) "Order not found" else "Order does not have an invalid address"
+                errors.add(OrderAddressCorrectionError(correction.orderId, message))
+                return@forEach
+            }
+            if (addressKey(correction.address) == null || correction.address.city.isNullOrBlank()) {
+                errors.add(OrderAddressCorrectionError(correction.orderId, "Street, city and ZIP code are required"))
+                return@forEach
+            }
+
+            orderRepository.updateOrderInfo(
+                order.id, tenantId,
+                (order.orderInfo ?: OrderInfoFull()).copy(toAddress = correction.address)
+            )
+            orderRepository.updateStatus(order.id, tenantId, userId, OrderStatus.NEW_ORDER.code, "Shipping address corrected")
+            correctedOrderIds.add(order.id)
+        }
+
+        return Result.success(CorrectAddressesResponse(correctedOrderIds = correctedOrderIds, errors = errors))
+    }
+
+    // Normalized address used to match orders; null when the address is too incomplete to compare
+    private fun addressKey(address: Address): String? {
+        val parts = listOf(
+            address.name, address.street1, address.street2,
+            address.city, address.state, address.postalCode, address.country
+        ).map { it?.trim()?.lowercase()?.replace(Regex("\\s+"), " ") ?: "" }
+
+        if (parts[1].isEmpty() || parts[5].isEmpty()) return null
+        return parts.joinToString("|")
+    }
+
+    // =====================================================
+    // ORDER ACTIONS - DUPLICATE DETECTION
+    // =====================================================
+
+    /**
+     * Groups open orders that look like the same purchase: the same external order ID, or the
+     * same customer, address and products created within windowHours of each other
+     */
+    fun getDuplicateOrders(tenantId: Long, windowHours: Long = 72, storeId: Long? = null): DuplicateOrdersResponse {
+        val (orders, _) = orderRepository.findAll(
+            tenantId,
+            OrderFiltersExtended(
+                statuses = (OrderStatus.ACTIVE_STATUSES + OrderStatus.INVALID_ADDRESS).map { it.code },
+                storeId = storeId,
+                startDate = java.time.LocalDate.now().minusDays(DUPLICATE_LOOKBACK_DAYS).toString(),
+                limit = 1000,
+                sortBy = "createdAt",
+                sortOrder = "DESC"
+            )
+        )
+        // The newest orders are the ones worth catching; drafts are already left out by the filters.
+        // Groups are built oldest first, so the kept order of a pair is the original one.
+        val openOrders = orders.reversed()
+        val groups = mutableListOf<DuplicateOrderGroup>()
+
+        val externalIdGroups = openOrders
+            .filter { !it.externalOrderId.isNullOrBlank() }
+            .groupBy { it.externalOrderId!!.trim().lowercase() }
+            .values
+            .map { withoutReviewedPairs(it) }
+            .filter { it.size > 1 }
+        val grouped = externalIdGroups.flatten().map { it.id }.toSet()
+
+        val sameCustomerGroups = openOrders
+            .filter { it.id !in grouped }
+            .mapNotNull { order ->
+                val address = order.orderInfo?.toAddress ?: order.shippingAddress ?: return@mapNotNull null
+                val key = addressKey(address) ?: return@mapNotNull null
+                "${order.customerName?.trim()?.lowercase()}|$key" to order
+            }
+            .groupBy({ it.first }, { it.second })
+            .values
+            .filter { it.size > 1 }
+
+        // Products are only loaded for orders that can end up in a group, in one query
+        val products = orderRepository.findOrderProductsByOrderIds(
+            (externalIdGroups.flatten() + sameCustomerGroups.flatten()).map { it.id }.toSet(),
+            tenantId
+        )
+        fun OrderFull.withProducts() = copy(products = products[id] ?: emptyList())
+
+        externalIdGroups.forEach { duplicates ->
+            groups.add(DuplicateOrderGroup(reason = "external_id", orders = duplicates.map { it.withProducts() }))
+        }
+
+        sameCustomerGroups.forEach { sameCustomer ->
+            sameCustomer
+                .map { it.withProducts() }
+                .groupBy { productsKey(it) }
+                .filterKeys { it.isNotEmpty() }
+                .values
+                .forEach { sameProducts ->
+                    splitByTimeWindow(sameProducts, windowHours)
+                        .map { withoutReviewedPairs(it) }
+                        .filter { it.size > 1 }
+                        .forEach { groups.add(DuplicateOrderGroup(reason = "customer_address_products", orders = it)) }
+                }
+        }
+
+        return DuplicateOrdersResponse(groups = groups)
+    }
+
+    /**
+     * Resolves a duplicate group: merge folds the duplicates into the kept order, cancel cancels
+     * them, keep marks the orders as reviewed so they are not flagged together again
+     */
+    fun resolveDuplicates(tenantId: Long, userId: Long, request: ResolveDuplicatesRequest): Result<Boolean> {
+        val duplicateIds = request.duplicateOrderIds.filter { it != request.keepOrderId }.distinct()
+        if (duplicateIds.isEmpty()) {
+            return Result.failure(IllegalArgumentException("No duplicate orders given"))
+        }
+
+        val keepOrder = orderRepository.findById(request.keepOrderId, tenantId)
+            ?: return Result.failure(IllegalArgumentException("Order not found"))
+        val duplicates = duplicateIds.map {
+            orderRepository.findById(it, tenantId)
+                ?: return Result.failure(IllegalArgumentException("Order $it not found"))
+        }
+
+        if (request.action !in listOf("merge", "cancel", "keep")) {
+            return Result.failure(IllegalArgumentException("Invalid action: ${request.action}"))
+        }
+        if (request.action == "merge") {
+            duplicates.forEach { duplicate ->
+                if (isPaid(duplicate)) {
+                    return Result.failure(IllegalStateException("Order ${duplicate.id} is already paid, cancel it instead"))
+                }
+            }
+        }
+
+        // The whole group is resolved together or not at all
+        return runCatching {
+            transaction {
+                when (request.action) {
+                    "merge" -> {
+                        // The products are not copied, the kept order already has the same purchase
+                        duplicates.forEach { duplicate ->
+                            orderRepository.updateOrderInfo(
+                                duplicate.id, tenantId,
+                                (duplicate.orderInfo ?: OrderInfoFull()).copy(combinedIntoOrderId = keepOrder.id)
+                            )
+                            orderRepository.updateStatus(
+                                duplicate.id, tenantId, userId, OrderStatus.COMBINED.code,
+                                "Merged as a duplicate of order ${keepOrder.id}"
+                            )
+                        }
+                        val keepInfo = keepOrder.orderInfo ?: OrderInfoFull()
+                        orderRepository.updateOrderInfo(
+                            keepOrder.id, tenantId,
+                            keepInfo.copy(combinedOrderIds = (keepInfo.combinedOrderIds + duplicateIds).distinct())
+                        )
+                    }
+                    "cancel" -> {
+                        duplicates.forEach { duplicate ->
+                            if (isPaid(duplicate)) {
+                                cancelOrder(tenantId, userId, duplicate.id).getOrThrow()
+                            } else {
+                                orderRepository.updateStatus(
+                                    duplicate.id, tenantId, userId, OrderStatus.CANCELLED.code,
+                                    "Cancelled as a duplicate of order ${keepOrder.id}"
+                                )
+                            }
+                        }
+                    }
+                    "keep" -> {
+                        val groupIds = duplicateIds + keepOrder.id
+                        (duplicates + keepOrder).forEach { order ->
+                            val info = order.orderInfo ?: OrderInfoFull()
+                            orderRepository.updateOrderInfo(
+                                order.id, tenantId,
+                                info.copy(notDuplicateOfIds = (info.notDuplicateOfIds + groupIds.filter { it != order.id }).distinct())
+                            )
+                        }
+                    }
+                }
+                true
+            }
+        }
+    }
+
+    // Sorted variant (or listing) and quantity of every line; empty when the order has no lines
+    private fun productsKey(order: OrderFull): String =
+        order.products
+            .map { "${it.variantId ?: it.listingId}x${it.quantity}" }
+            .sorted()
+            .joinToString(",")
+
+    // Splits orders sorted by creation time wherever two neighbours are further apart than the window
+    private fun splitByTimeWindow(orders: List<OrderFull>, windowHours: Long): List<List<OrderFull>> {
+        val windows = mutableListOf<MutableList<OrderFull>>()
+        var previous: java.time.Instant? = null
+        orders.sortedBy { it.createdAt }.forEach { order ->
+            val createdAt = runCatching { java.time.Instant.parse(order.createdAt) }.getOrNull()
+            val sameWindow = previous != null && createdAt != null &&
+                java.time.Duration.between(previous, createdAt).toHours() < windowHours
+            if (sameWindow) windows.last().add(order) else windows.add(mutableListOf(order))
+            previous = createdAt
+        }
+        return windows
+    }
+
+    // Drops orders that were already reviewed and kept next to every other order of the group
+    private fun withoutReviewedPairs(orders: List<OrderFull>): List<OrderFull> =
+        orders.filter { order ->
+            val reviewed = order.orderInfo?.notDuplicateOfIds.orEmpty()
+            orders.any { it.id != order.id && it.id !in reviewed }
+        }
+
     // =====================================================
     // ORDER ACTIONS - TRACKING & SHIPPING
     // =====================================================
@@ -881,6 +1543,13 @@ class OrderService(
         val order = orderRepository.findById(orderId, tenantId)
             ?: return Result.failure(IllegalArgumentException("Order not found"))
 
+        if (OrderStatus.fromCode(order.orderStatus) !in REFUNDABLE_STATUSES) {
+            return Result.failure(IllegalStateException("Only paid orders can be refunded"))
+        }
+        if (refundAmount <= BigDecimal.ZERO || refundAmount > getRefundableAmount(order)) {
+            return Result.failure(IllegalArgumentException("Refund amount exceeds what was charged for this order"))
+        }
+
         // Record refund transaction
         val currentBalance = getUserBalance(order.userId, tenantId)
         orderRepository.createTransaction(
@@ -900,6 +1569,178 @@ class OrderService(
         return Result.success(true)
     }
 
+    fun getRefunds(tenantId: Long, orderId: Long): Result<GetRefundsResponse> {
+        val order = orderRepository.findById(orderId, tenantId)
+            ?: return Result.failure(IllegalArgumentException("Order not found"))
+
+        val refunds = orderRepository.findTransactionsByOrderId(orderId, tenantId)
+            .filter { it.type == TransactionType.ORDER_REFUND.code }
+            .map { RefundItem(refundAmount = it.amount) }
+
+        return Result.success(GetRefundsResponse(
+            success = true,
+            refunds = refunds,
+            requests = order.orderInfo?.refundRequests ?: emptyList(),
+            refundableAmount = getRefundableAmount(order)
+        ))
+    }
+
+    fun requestRefund(
+        tenantId: Long,
+        userId: Long,
+        orderId: Long,
+        request: CreateRefundRequestRequest
+    ): Result<OrderRefundRequest> {
+        val order = orderRepository.findByIdWithProducts(orderId, tenantId)
+            ?: return Result.failure(IllegalArgumentException("Order not found"))
+
+        if (OrderStatus.fromCode(order.orderStatus) !in REFUNDABLE_STATUSES) {
+            return Result.failure(IllegalStateException("Only paid orders can be refunded"))
+        }
+
+        if (request.reason.isBlank()) {
+            return Result.failure(IllegalArgumentException("Refund reason is required"))
+        }
+
+        val orderInfo = order.orderInfo ?: OrderInfoFull()
+        if (orderInfo.refundRequests.any { it.status == RefundRequestStatus.PENDING.code }) {
+            return Result.failure(IllegalStateException("A refund request is already pending for this order"))
+        }
+
+        // Price item refunds from the order products instead of trusting the client
+        val items = request.items.map { item ->
+            val product = order.products.find { it.id == item.orderProductId }
+                ?: return Result.failure(IllegalArgumentException("Product ${item.orderProductId} is not on this order"))
+            if (item.quantity < 1 || item.quantity > product.quantity) {
+                return Result.failure(IllegalArgumentException("Invalid refund quantity for product ${item.orderProductId}"))
+            }
+            item.copy(amount = product.unitPrice.multiply(BigDecimal(item.quantity)).setScale(2, RoundingMode.HALF_UP))
+        }
+
+        val refundableAmount = getRefundableAmount(order)
+        val amount = if (items.isEmpty()) refundableAmount else items.sumOf { it.amount }.min(refundableAmount)
+        if (amount <= BigDecimal.ZERO) {
+            return Result.failure(IllegalStateException("Nothing left to refund on this order"))
+        }
+
+        val refundRequest = OrderRefundRequest(
+            id = java.util.UUID.randomUUID().toString(),
+            requestedBy = userId,
+            items = items,
+            amount = amount,
+            reason = request.reason.trim(),
+            createdAt = java.time.Instant.now().toString()
+        )
+
+        orderRepository.updateOrderInfo(
+            orderId, tenantId,
+            orderInfo.copy(refundRequests = orderInfo.refundRequests + refundRequest)
+        )
+        orderRepository.createHistoryEntry(
+            tenantId = tenantId,
+            orderId = orderId,
+            userId = userId,
+            previousStatus = order.orderStatus,
+            newStatus = order.orderStatus,
+            action = "refund_requested",
+            notes = "Refund of $amount requested: ${refundRequest.reason}"
+        )
+
+        return Result.success(refundRequest)
+    }
+
+    fun reviewRefundRequest(
+        tenantId: Long,
+        userId: Long,
+        orderId: Long,
+        requestId: String,
+        request: ReviewRefundRequestRequest
+    ): Result<OrderRefundRequest> {
+        val order = orderRepository.findById(orderId, tenantId)
+            ?: return Result.failure(IllegalArgumentException("Order not found"))
+
+        val orderInfo = order.orderInfo ?: OrderInfoFull()
+        val refundRequest = orderInfo.refundRequests.find { it.id == requestId }
+            ?: return Result.failure(IllegalArgumentException("Refund request not found"))
+
+        if (refundRequest.status != RefundRequestStatus.PENDING.code) {
+            return Result.failure(IllegalStateException("Refund request has already been ${refundRequest.status}"))
+        }
+
+        val status = if (request.approve) RefundRequestStatus.APPROVED else RefundRequestStatus.DENIED
+        val reviewed = refundRequest.copy(
+            status = status.code,
+            reviewedBy = userId,
+            reviewNote = request.note?.trim()?.takeIf { it.isNotEmpty() },
+            reviewedAt = java.time.Instant.now().toString()
+        )
+
+        if (request.approve) {
+            // Another refund may have been processed since the request was made
+            if (reviewed.amount > getRefundableAmount(order)) {
+                return Result.failure(IllegalStateException("Refund amount exceeds what is left to refund"))
+            }
+            updateRefundAmount(tenantId, userId, orderId, reviewed.amount).getOrElse { return Result.failure(it) }
+        }
+
+        orderRepository.updateOrderInfo(
+            orderId, tenantId,
+            orderInfo.copy(refundRequests = orderInfo.refundRequests.map { if (it.id == requestId) reviewed else it })
+        )
+        orderRepository.createHistoryEntry(
+            tenantId = tenantId,
+            orderId = orderId,
+            userId = userId,
+            previousStatus = order.orderStatus,
+            newStatus = order.orderStatus,
+            action = if (request.approve) "refund_approved" else "refund_denied",
+            notes = listOfNotNull(
+                "Refund of ${reviewed.amount} ${status.code}",
+                reviewed.reviewNote
+            ).joinToString(": ")
+        )
+
+        return Result.success(reviewed)
+    }
+
+    /**
+     * What was actually charged for the order minus refunds already credited to the wallet.
+     * Balance payments and edit charges are PURCHASE transactions; card payments only
+     * leave a completed payment record.
+     */
+    private fun getRefundableAmount(order: OrderFull): BigDecimal {
+        if (OrderStatus.fromCode(order.orderStatus) !in REFUNDABLE_STATUSES) return BigDecimal.ZERO
+        return getChargedAmount(order)
+    }
+
+    // Charged minus refunded, whatever the status; an order being edited still holds what was paid
+    private fun getChargedAmount(order: OrderFull): BigDecimal {
+        val transactions = orderRepository.findTransactionsByOrderId(order.id, order.tenantId)
+        val cardPayments = orderRepository.findPaymentsByOrderId(order.id, order.tenantId)
+            .filter { it.paymentMethod != "balance" && it.status == "completed" }
+            .sumOf { it.amount }
+        val charged = cardPayments + transactions
+            .filter { it.type == TransactionType.PURCHASE.code }
+            .sumOf { it.amount.negate() }
+        val refunded = transactions
+            .filter { it.type == TransactionType.ORDER_REFUND.code }
+            .sumOf { it.amount }
+        return (charged - refunded).max(BigDecimal.ZERO)
+    }
+
+    // Paid and not yet in production, or paid and reopened for editing
+    private fun isPaid(order: OrderFull): Boolean =
+        OrderStatus.fromCode(order.orderStatus) in PAID_STATUSES || order.orderInfo?.editSnapshot != null
+
+    fun canReviewRefunds(tenantId: Long, userId: Long): Boolean =
+        getUserRole(tenantId, userId) in REFUND_REVIEWER_ROLES
+
+    // Internal notes are for staff only, requests without a known user never see them
+    fun canSeeInternalNotes(tenantId: Long, userId: Long?): Boolean {
+        val role = userId?.let { getUserRole(tenantId, it) } ?: return false
+        return role in STAFF_ROLES
+    }
+
     // =====================================================
     // ORDER ACTIONS - PACKING SLIPS
     // =====================================================
@@ -1006,7 +1847,7 @@ class OrderService(
     ): List<OrderAnalyticsData> = transaction {
         // Build query for analytics
         var query = Orders.selectAll()
-            .where { Orders.orderStatus eq OrderStatus.SHIPPED.code }
+            .where { (Orders.orderStatus eq OrderStatus.SHIPPED.code) and not(Orders.isDraft()) }
 
         userId?.let { uid ->
             query = query.andWhere { Orders.userId eq uid }
@@ -1134,7 +1975,9 @@ class OrderService(
                     title = prod.title,
                     designType = prod.designType,
                     option1Name = prod.option1Name,
-                    option2Name = prod.option2Name
+                    option2Name = prod.option2Name,
+                    customsDescription = prod.customsDescription,
+                    hsTariffNumber = prod.hsTariffNumber
                 )
             },
             option1s = option1s,
@@ -0,0 +1,188 @@
+package com.printnest.domain.service
+
+import com.printnest.domain.models.*
+import com.printnest.domain.repository.OrderRepository
+import com.printnest.domain.repository.ProfileRepository
+import com.printnest.domain.repository.SettingsRepository
+import com.printnest.domain.tables.Orders
+import org.jetbrains.exposed.sql.Expression
+import org.jetbrains.exposed.sql.QueryBuilder
+import java.math.BigDecimal
+import java.time.DayOfWeek
+import java.time.Duration
+import java.time.Instant
+import java.time.ZoneOffset
+import java.time.temporal.ChronoUnit
+
+class OrderSlaService(
+    private val orderRepository: OrderRepository,
+    private val settingsRepository: SettingsRepository,
+    private val profileRepository: ProfileRepository
+) {
+
+    companion object {
+        const val STATE_ON_TRACK = "on_track"
+        const val STATE_AT_RISK = "at_risk"
+        const val STATE_OVERDUE = "overdue"
+
+        // Ship-by is computed in memory for the dashboard summary, which looks at this many open orders at most
+        const val SHIP_BY_SUMMARY_LIMIT = 1000
+
+        // Paid orders that still have to leave the building
+        val TRACKED_STATUSES = listOf(
+            OrderStatus.PENDING,
+            OrderStatus.URGENT,
+            OrderStatus.AWAITING_RESPONSE,
+            OrderStatus.IN_PRODUCTION
+        )
+    }
+
+    private class SlaRules(
+        val settings: SlaSettings,
+        val processingDaysByMethodId: Map<Long, Int>
+    )
+
+    // =====================================================
+    // SHIP-BY DATES
+    // =====================================================
+
+    /**
+     * Sets shipBy on every tracked order in the list
+     */
+    fun withShipBy(tenantId: Long, orders: List<OrderFull>): List<OrderFull> {
+        if (orders.none { isTracked(it) }) return orders
+
+        val rules = loadRules(tenantId)
+        val now = Instant.now()
+        return orders.map { order ->
+            if (isTracked(order)) order.copy(shipBy = calculateShipBy(order, rules, now)) else order
+        }
+    }
+
+    fun withShipBy(tenantId: Long, order: OrderFull): OrderFull = withShipBy(tenantId, listOf(order)).first()
+
+    /**
+     * Ship-by date as a SQL expression, null for orders that are not tracked, so lists can be sorted and paged by it
+     */
+    fun shipByAtExpression(tenantId: Long): Expression<Instant?> = ShipByAtExpression(loadRules(tenantId))
+
+    fun getSummary(tenantId: Long): OrderSlaSummary {
+        val (orders, total) = orderRepository.findAll(
+            tenantId,
+            OrderFiltersExtended(
+                statuses = TRACKED_STATUSES.map { it.code },
+                limit = SHIP_BY_SUMMARY_LIMIT,
+                sortBy = "createdAt",
+                sortOrder = "ASC"
+            )
+        )
+        val shipBys = withShipBy(tenantId, orders).mapNotNull { it.shipBy }
+
+        return OrderSlaSummary(
+            openOrders = total,
+            atRisk = shipBys.count { it.state == STATE_AT_RISK },
+            overdue = shipBys.count { it.state == STATE_OVERDUE },
+            nextShipByAt = shipBys
+                .filter { it.state != STATE_OVERDUE }
+                .minByOrNull { Instant.parse(it.shipByAt) }
+                ?.shipByAt
+        )
+    }
+
+    // =====================================================
+    // HELPERS
+    // =====================================================
+
+    private fun isTracked(order: OrderFull): Boolean =
+        TRACKED_STATUSES.any { it.code == order.orderStatus }
+
+    private fun loadRules(tenantId: Long): SlaRules {
+        val settings = settingsRepository.getTenantSettings(tenantId)?.slaSettings ?: SlaSettings()
+        val processingDays = if (settings.useShippingMethodProcessing) {
+            profileRepository.findAllShippingMethods(tenantId)
+                .mapNotNull { method ->
+                    method.processingInfo?.maxProcessingDays?.takeIf { it > 0 }?.let { method.id to it }
+                }
+                .toMap()
+        } else {
+            emptyMap()
+        }
+        return SlaRules(settings, processingDays)
+    }
+
+    private fun calculateShipBy(order: OrderFull, rules: SlaRules, now: Instant): OrderShipBy {
+        val placedAt = Instant.parse(order.createdAt)
+        val urgent = order.orderStatus == OrderStatus.URGENT.code || order.urgentAmount > BigDecimal.ZERO
+
+        val shipByAt = if (urgent) {
+            placedAt.plus(rules.settings.urgentShipWithinHours.toLong(), ChronoUnit.HOURS)
+        } else {
+            val methodDays = order.orderInfo?.shipping?.shippingId?.let { rules.processingDaysByMethodId[it] }
+            addBusinessDays(placedAt, methodDays ?: rules.settings.standardShipWithinBusinessDays)
+        }.truncatedTo(ChronoUnit.SECONDS)
+
+        val remaining = Duration.between(now, shipByAt)
+        val state = when {
+            remaining.isNegative -> STATE_OVERDUE
+            remaining.toHours() < rules.settings.atRiskWithinHours -> STATE_AT_RISK
+            else -> STATE_ON_TRACK
+        }
+
+        return OrderShipBy(shipByAt = shipByAt.toString(), state = state, urgent = urgent)
+    }
+
+    /**
+     * Same dates as calculateShipBy, worked out by the database. A start on a weekend counts from the Friday
+     * before it, and n business days after weekday w (1 = Monday) are n + 2 * ((w - 1 + n) / 5) days later.
+     */
+    private class ShipByAtExpression(private val rules: SlaRules) : Expression<Instant?>() {
+        override fun toQueryBuilder(queryBuilder: QueryBuilder) = queryBuilder {
+            val tracked = TRACKED_STATUSES.joinToString(", ") { it.code.toString() }
+            append("CASE WHEN ", Orders.orderStatus, " NOT IN ($tracked) THEN NULL")
+            append(" WHEN ", Orders.orderStatus, " = ${OrderStatus.URGENT.code} OR ", Orders.urgentAmount, " > 0")
+            append(" THEN ", Orders.createdAt, " + make_interval(hours => ${rules.settings.urgentShipWithinHours})")
+            append(" ELSE ", Orders.createdAt, " + make_interval(days => ")
+            // n + 2 * ((LEAST(w, 5) - 1 + n) / 5) - (w - LEAST(w, 5)) * LEAST(n, 1)
+            appendBusinessDays()
+            append(" + 2 * ((LEAST(")
+            appendWeekday()
+            append(", 5) - 1 + ")
+            appendBusinessDays()
+            append(") / 5) - (")
+            appendWeekday()
+            append(" - LEAST(")
+            appendWeekday()
+            append(", 5)) * LEAST(")
+            appendBusinessDays()
+            append(", 1)) END")
+        }
+
+        private fun QueryBuilder.appendWeekday() {
+            append("CAST(EXTRACT(ISODOW FROM ", Orders.createdAt, ") AS INT)")
+        }
+
+        private fun QueryBuilder.appendBusinessDays() {
+            val standard = rules.settings.standardShipWithinBusinessDays
+            if (rules.processingDaysByMethodId.isEmpty()) {
+                append("$standard")
+                return
+            }
+            append("CASE (", Orders.orderInfo, " #>> '{shipping,shippingId}')")
+            rules.processingDaysByMethodId.forEach { (methodId, days) -> append(" WHEN '$methodId' THEN $days") }
+            append(" ELSE $standard END")
+        }
+    }
+
+    // Weekends don't count; an order placed on Saturday with 1 business day is due Monday
+    private fun addBusinessDays(from: Instant, days: Int): Instant {
+        var date = from.atZone(ZoneOffset.UTC)
+        var remaining = days
+        while (remaining > 0) {
+            date = date.plusDays(1)
+            if (date.dayOfWeek != DayOfWeek.SATURDAY && date.dayOfWeek != DayOfWeek.SUNDAY) {
+                remaining--
+            }
+        }
+        return date.toInstant()
+    }
+}
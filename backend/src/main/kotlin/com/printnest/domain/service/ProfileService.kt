@@ -1,6 +1,7 @@
 package com.printnest.domain.service
 
 import com.printnest.domain.models.*
+import com.printnest.domain.repository.CategoryRepository
 import com.printnest.domain.repository.ProductRepository
 import com.printnest.domain.repository.ProfileRepository
 import java.math.BigDecimal
@@ -8,7 +9,8 @@ import java.math.RoundingMode
 
 class ProfileService(
     private val profileRepository: ProfileRepository,
-    private val productRepository: ProductRepository
+    private val productRepository: ProductRepository,
+    private val categoryRepository: CategoryRepository
 ) {
 
     // =====================================================
@@ -168,11 +170,42 @@ class ProfileService(
             )
         }
 
-        return when (profile.profileType) {
+        val result = when (profile.profileType) {
             0 -> calculateQuantityBasedShipping(profile, request.items)
             1 -> calculateApiBasedShipping(profile, request)
             else -> ShippingCalculationResult(totalShipping = BigDecimal.ZERO)
         }
+
+        return result.copy(
+            availableMethods = getAvailableMethodRates(tenantId, profile.id, result.totalShipping, request.destinationAddress)
+        )
+    }
+
+    /**
+     * Price each active method of the profile on top of the base shipping rate,
+     * keeping only methods that serve the destination country
+     */
+    private fun getAvailableMethodRates(
+        tenantId: Long,
+        profileId: Long,
+        baseRate: BigDecimal,
+        destination: Address
+    ): List<ShippingMethodRate> {
+        val isInternational = destination.country?.let { it.uppercase() !in setOf("US", "USA", "UNITED STATES") } ?: false
+
+        return profileRepository.findAllShippingMethods(tenantId, profileId)
+            .filter { it.isInternational == isInternational }
+            .map { method ->
+                ShippingMethodRate(
+                    methodId = method.id,
+                    methodName = method.name,
+                    carrier = method.apiMethod,
+                    rate = (baseRate + method.extraFee).setScale(2, RoundingMode.HALF_UP),
+                    estimatedDays = method.processingInfo?.let {
+                        "${it.minDeliveryDays}-${it.maxDeliveryDays} business days"
+                    }
+                )
+            }
     }
 
     private fun calculateQuantityBasedShipping(profile: ShippingProfile, items: List<ShippingItem>): ShippingCalculationResult {
@@ -260,7 +293,9 @@ class ProfileService(
             val basePrice = variant?.price ?: BigDecimal.ZERO
 
             // Calculate modification price
-            val modificationPrice = BigDecimal.ZERO // TODO: Calculate from modifications
+            val modificationPrice = item.modificationIds.sumOf { modificationId ->
+                categoryRepository.findModificationById(modificationId, tenantId)?.priceDifference ?: BigDecimal.ZERO
+            }
 
             // Calculate stitch charges
             val stitchPrice = if (item.stitchCount != null && item.stitchCount > 0 && profile != null) {
@@ -276,8 +311,8 @@ class ProfileService(
                 BigDecimal.ZERO
             }
 
-            // Calculate discount
-            val discount = calculateDiscount(profile, item.variantId, basePrice + modificationPrice)
+            // Calculate discount, on the same base as order step 3
+            val discount = calculateDiscount(profile, item.variantId, basePrice + modificationPrice + stitchPrice)
 
             // Line total
             val lineTotal = ((basePrice + modificationPrice + stitchPrice + giftNotePrice - discount) * BigDecimal(item.quantity))
@@ -303,6 +338,21 @@ class ProfileService(
 
         val total = subtotal + totalModifications + totalStitchCharges + totalGiftNotes - totalDiscount
 
+        // Order-level charges, priced the same way as order step 3 and payment
+        val shippingRate = request.shippingMethodId?.let { methodId ->
+            calculateShipping(
+                tenantId,
+                ShippingCalculationRequest(
+                    items = request.items.map { ShippingItem(variantId = it.variantId, quantity = it.quantity) },
+                    destinationAddress = request.destinationAddress ?: Address(),
+                    shippingMethodId = methodId
+                )
+            ).availableMethods.find { it.methodId == methodId }
+        }
+        val shippingPrice = shippingRate?.rate ?: BigDecimal.ZERO
+        val giftNotePrice = if (request.hasGiftNote) profile?.giftNotePrice ?: BigDecimal.ZERO else BigDecimal.ZERO
+        val urgentPrice = if (request.isUrgent) OrderFees.URGENT else BigDecimal.ZERO
+
         return PriceCalculationResult(
             subtotal = subtotal.setScale(2, RoundingMode.HALF_UP),
             totalDiscount = totalDiscount.setScale(2, RoundingMode.HALF_UP),
@@ -310,7 +360,12 @@ class ProfileService(
             totalStitchCharges = totalStitchCharges.setScale(2, RoundingMode.HALF_UP),
             totalGiftNotes = totalGiftNotes.setScale(2, RoundingMode.HALF_UP),
             total = total.setScale(2, RoundingMode.HALF_UP),
-            itemDetails = itemDetails
+            itemDetails = itemDetails,
+            shippingPrice = shippingPrice.setScale(2, RoundingMode.HALF_UP),
+            shippingMethodName = shippingRate?.methodName,
+            giftNotePrice = giftNotePrice.setScale(2, RoundingMode.HALF_UP),
+            urgentPrice = urgentPrice,
+            grandTotal = (total + shippingPrice + giftNotePrice + urgentPrice).setScale(2, RoundingMode.HALF_UP)
         )
     }
 
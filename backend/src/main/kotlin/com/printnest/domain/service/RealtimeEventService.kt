@@ -0,0 +1,119 @@
+package com.printnest.domain.service
+
+import com.printnest.domain.models.*
+import kotlinx.coroutines.channels.BufferOverflow
+import kotlinx.coroutines.flow.Flow
+import kotlinx.coroutines.flow.MutableSharedFlow
+import kotlinx.coroutines.flow.filter
+import kotlinx.serialization.json.Json
+import kotlinx.serialization.json.add
+import kotlinx.serialization.json.buildJsonObject
+import kotlinx.serialization.json.put
+import kotlinx.serialization.json.putJsonArray
+import org.jetbrains.exposed.sql.Transaction
+import org.jetbrains.exposed.sql.statements.StatementInterceptor
+import org.jetbrains.exposed.sql.transactions.TransactionManager
+
+/**
+ * Fans order, sync, gangsheet and notification changes out to the clients connected to this instance.
+ * Events only say what changed; clients refetch through the regular endpoints, which apply permissions.
+ */
+class RealtimeEventService(
+    private val json: Json
+) {
+
+    companion object {
+        const val ORDERS_CHANGED = "orders.changed"
+        const val SYNC_PROGRESS = "sync.progress"
+        const val GANGSHEET_PROGRESS = "gangsheet.progress"
+        const val NOTIFICATION_CREATED = "notification.created"
+
+        const val SYNC_RUNNING = "running"
+        const val SYNC_COMPLETED = "completed"
+        const val SYNC_FAILED = "failed"
+
+        // A slow client drops its oldest events rather than holding up publishers
+        private const val BUFFER_SIZE = 1024
+    }
+
+    private val events = MutableSharedFlow<RealtimeEvent>(
+        extraBufferCapacity = BUFFER_SIZE,
+        onBufferOverflow = BufferOverflow.DROP_OLDEST
+    )
+
+    fun subscribe(tenantId: Long, userId: Long?): Flow<RealtimeEvent> =
+        events.filter { it.tenantId == tenantId && (it.userId == null || it.userId == userId) }
+
+    /**
+     * Sends the event once the current transaction commits, so clients that refetch
+     * on it read the new data; outside a transaction it goes out right away.
+     */
+    fun publish(event: RealtimeEvent) {
+        val transaction = TransactionManager.currentOrNull()
+        if (transaction == null) {
+            events.tryEmit(event)
+            return
+        }
+        transaction.registerInterceptor(object : StatementInterceptor {
+            override fun afterCommit(transaction: Transaction) {
+                events.tryEmit(event)
+            }
+        })
+    }
+
+    // =====================================================
+    // EVENTS
+    // =====================================================
+
+    fun ordersChanged(tenantId: Long, orderIds: List<Long>, status: Int? = null) {
+        if (orderIds.isEmpty()) return
+        publish(RealtimeEvent(
+            type = ORDERS_CHANGED,
+            tenantId = tenantId,
+            data = buildJsonObject {
+                putJsonArray("orderIds") { orderIds.forEach { add(it) } }
+                status?.let { put("status", it) }
+            }
+        ))
+    }
+
+    fun syncProgress(
+        tenantId: Long,
+        userId: Long?,
+        source: String,
+        status: String,
+        processed: Int = 0,
+        total: Int = 0,
+        message: String? = null
+    ) {
+        publish(RealtimeEvent(
+            type = SYNC_PROGRESS,
+            tenantId = tenantId,
+            userId = userId,
+            data = buildJsonObject {
+                put("source", source)
+                put("status", status)
+                put("processed", processed)
+                put("total", total)
+                message?.let { put("message", it) }
+            }
+        ))
+    }
+
+    fun gangsheetProgress(tenantId: Long, status: GangsheetStatusResponse) {
+        publish(RealtimeEvent(
+            type = GANGSHEET_PROGRESS,
+            tenantId = tenantId,
+            data = json.encodeToJsonElement(GangsheetStatusResponse.serializer(), status)
+        ))
+    }
+
+    fun notificationCreated(notification: Notification) {
+        publish(RealtimeEvent(
+            type = NOTIFICATION_CREATED,
+            tenantId = notification.tenantId,
+            userId = notification.userId,
+            data = json.encodeToJsonElement(Notification.serializer(), notification)
+        ))
+    }
+}
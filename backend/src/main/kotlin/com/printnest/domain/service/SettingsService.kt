@@ -19,6 +19,7 @@ class SettingsService(
 ) : KoinComponent {
 
     private val json: Json by inject()
+    private val realtimeEventService: RealtimeEventService by inject()
 
     // =====================================================
     // TENANT SETTINGS
@@ -80,6 +81,9 @@ class SettingsService(
                     shipstationSettings = storedSettings?.shipstation,
                     stripeSettings = storedSettings?.stripe,
                     shippingSettings = storedSettings?.shipping,
+                    slaSettings = storedSettings?.sla ?: SlaSettings(),
+                    trackingSettings = storedSettings?.tracking ?: TrackingSettings(),
+                    acknowledgmentSettings = storedSettings?.acknowledgment ?: AcknowledgmentSettings(),
                     status = row[Tenants.status],
                     createdAt = row[Tenants.createdAt].toString(),
                     updatedAt = row[Tenants.updatedAt].toString()
@@ -315,7 +319,9 @@ class SettingsService(
     }
 
     fun createNotification(tenantId: Long, request: CreateNotificationRequest): Notification {
-        return settingsRepository.createNotification(tenantId, request)
+        val notification = settingsRepository.createNotification(tenantId, request)
+        realtimeEventService.notificationCreated(notification)
+        return notification
     }
 
     fun markNotificationRead(id: Long, userId: Long, tenantId: Long): Boolean {
@@ -23,8 +23,10 @@ import java.math.RoundingMode
 class ShippingService(
     private val shippingRepository: ShippingRepository,
     private val orderRepository: OrderRepository,
+    private val productRepository: ProductRepository,
     private val settingsRepository: SettingsRepository,
     private val easyPostService: EasyPostService,
+    private val labelService: LabelService,
     private val json: Json
 ) {
     private val logger = LoggerFactory.getLogger(ShippingService::class.java)
@@ -87,9 +89,10 @@ class ShippingService(
         // Create parcel
         val parcel = Parcel(weight = totalWeight)
 
-        // Create customs info for international shipments
-        val customsInfo = if (toAddress.country != "US") {
-            createCustomsInfo(order, totalWeight)
+        // Create customs info for international shipments, the declaration entered with the order wins
+        val customsInfo = if (isInternational(fromAddress, toAddress)) {
+            order.orderInfo?.customsInfo?.takeIf { it.customsItems.isNotEmpty() }?.toCustomsInfo()
+                ?: createCustomsInfo(order, totalWeight)
         } else null
 
         // Create shipment and get rates
@@ -112,6 +115,49 @@ class ShippingService(
         }
     }
 
+    /**
+     * Calculate carrier rates for a cart that has not been saved as an order yet
+     */
+    suspend fun calculateCartShippingCost(
+        tenantId: Long,
+        userId: Long,
+        toAddress: ShippingAddress,
+        items: List<ShippingItem>,
+        weight: BigDecimal? = null
+    ): Result<RateResponse> {
+        logger.info("Calculating shipping cost for cart of ${items.size} item(s)")
+
+        if (items.isEmpty() && weight == null) {
+            return Result.failure(IllegalArgumentException("Cart items or parcel weight required"))
+        }
+
+        val apiKey = getEasyPostApiKey(tenantId)
+            ?: return Result.failure(IllegalStateException("EasyPost API key not configured for tenant: $tenantId"))
+
+        val fromAddress = getFromAddress(tenantId, userId)
+        val totalWeight = weight ?: calculateCartWeight(items, tenantId)
+        val parcel = Parcel(weight = totalWeight)
+
+        val customsInfo = if (isInternational(fromAddress, toAddress)) {
+            createCartCustomsInfo(items, totalWeight, toAddress.name)
+        } else null
+
+        return easyPostService.createShipment(
+            apiKey = apiKey,
+            fromAddress = fromAddress,
+            toAddress = toAddress,
+            parcel = parcel,
+            customsInfo = customsInfo,
+            reference = "Quote-${System.currentTimeMillis()}"
+        ).map { shipment ->
+            RateResponse(
+                shipmentId = shipment.id,
+                rates = applyPricingAdjustments(shipment.rates, tenantId),
+                messages = shipment.messages.mapNotNull { it.message }
+            )
+        }
+    }
+
     /**
      * Get available shipping rates for an order
      */
@@ -230,6 +276,8 @@ class ShippingService(
 
             logger.info("Label created for order $orderId: tracking ${shipment.trackingCode}")
 
+            labelService.autoSendTracking(tenantId, orderId)
+
             ShippingLabelResponse(
                 id = label.id,
                 orderId = orderId,
@@ -459,6 +507,69 @@ class ShippingService(
         return totalWeight.setScale(2, RoundingMode.HALF_UP)
     }
 
+    /**
+     * Calculate total weight of cart items from their variant weights
+     */
+    private fun calculateCartWeight(items: List<ShippingItem>, tenantId: Long): BigDecimal {
+        var totalWeight = BigDecimal.ZERO
+
+        for (item in items) {
+            val itemWeight = item.weight
+                ?: productRepository.findVariantById(item.variantId, tenantId)?.weight
+                ?: BigDecimal("4.0")
+            totalWeight += itemWeight * BigDecimal(item.quantity)
+        }
+
+        // Minimum weight of 4 oz
+        if (totalWeight < BigDecimal("4.0")) {
+            totalWeight = BigDecimal("4.0")
+        }
+
+        return totalWeight.setScale(2, RoundingMode.HALF_UP)
+    }
+
+    /**
+     * Create customs info for an international cart quote
+     */
+    private fun createCartCustomsInfo(items: List<ShippingItem>, totalWeight: BigDecimal, signer: String): CustomsInfo {
+        return CustomsInfo(
+            eelPfc = "NOEEI 30.37(a)",
+            customsCertify = true,
+            customsSigner = signer.ifBlank { "PrintNest" },
+            contentsType = "merchandise",
+            contentsExplanation = "Printed apparel",
+            restrictionType = "none",
+            nonDeliveryOption = "return",
+            customsItems = listOf(
+                CustomsItem(
+                    description = "T-shirts",
+                    quantity = items.sumOf { it.quantity }.coerceAtLeast(1),
+                    weight = totalWeight,
+                    value = BigDecimal("5.00"),
+                    hsTariffNumber = "610910",
+                    originCountry = "US"
+                )
+            )
+        )
+    }
+
+    private fun isInternational(fromAddress: ShippingAddress, toAddress: ShippingAddress): Boolean {
+        return !toAddress.country.equals(fromAddress.country, ignoreCase = true)
+    }
+
+    private fun CustomsInfoFull.toCustomsInfo(): CustomsInfo {
+        return CustomsInfo(
+            eelPfc = eelPfc,
+            customsCertify = customsCertify,
+            customsSigner = customsSigner,
+            contentsType = contentsType,
+            contentsExplanation = contentsExplanation,
+            restrictionType = restrictionType,
+            nonDeliveryOption = nonDeliveryOption,
+            customsItems = customsItems
+        )
+    }
+
     /**
      * Create customs info for international shipments
      */
@@ -577,9 +688,11 @@ class ShippingService(
         val order = orderRepository.findById(orderId, tenantId) ?: return
         val currentOrderInfo = order.orderInfo ?: return
 
+        // A replacement label's tracking has to be pushed again
         val updatedShipping = currentOrderInfo.shipping?.copy(
             labelUrl = null,
-            trackingCode = null
+            trackingCode = null,
+            sentToMarketplace = false
         )
 
         val updatedOrderInfo = currentOrderInfo.copy(shipping = updatedShipping)
@@ -132,6 +132,9 @@ object Products : LongIdTable("products") {
     val supplierId = long("supplier_id").nullable() // V3: Supplier reference (FK in migration)
     val status = integer("status").default(1)
     val tags = jsonb<String>("tags", jsonSerializer).default("[]")
+    // Default customs declaration for international shipments
+    val customsDescription = varchar("customs_description", 255).nullable()
+    val hsTariffNumber = varchar("hs_tariff_number", 20).nullable()
     val createdAt = timestamp("created_at").clientDefault { Instant.now() }
     val updatedAt = timestamp("updated_at").clientDefault { Instant.now() }
 }
@@ -318,7 +321,32 @@ object OrderNotes : LongIdTable("order_notes") {
     val userId = reference("user_id", Users).nullable()
     val note = text("note")
     val isInternal = bool("is_internal").default(true)
+    val mentionedUserIds = jsonb<String>("mentioned_user_ids", jsonSerializer).default("[]")
+    val attachments = jsonb<String>("attachments", jsonSerializer).default("[]")
+    val createdAt = timestamp("created_at").clientDefault { Instant.now() }
+}
+
+// Named order list filters, private to the user who saved them
+object SavedOrderViews : LongIdTable("saved_order_views") {
+    val tenantId = reference("tenant_id", Tenants, onDelete = ReferenceOption.CASCADE)
+    val userId = reference("user_id", Users, onDelete = ReferenceOption.CASCADE)
+    val page = varchar("page", 50) // new-orders, list
+    val name = varchar("name", 100)
+    val query = text("query") // order filters as the query string they restore
+    val createdAt = timestamp("created_at").clientDefault { Instant.now() }
+}
+
+// Marketplace acknowledgment attempts; an order without an acknowledged_at is still unacknowledged
+object OrderAcknowledgments : LongIdTable("order_acknowledgments") {
+    val tenantId = reference("tenant_id", Tenants, onDelete = ReferenceOption.CASCADE)
+    val orderId = reference("order_id", Orders, onDelete = ReferenceOption.CASCADE).uniqueIndex()
+    val storeId = reference("store_id", Stores)
+    val attempts = integer("attempts").default(0)
+    val lastError = text("last_error").nullable()
+    val lastAttemptAt = timestamp("last_attempt_at").nullable()
+    val acknowledgedAt = timestamp("acknowledged_at").nullable()
     val createdAt = timestamp("created_at").clientDefault { Instant.now() }
+    val updatedAt = timestamp("updated_at").clientDefault { Instant.now() }
 }
 
 object OrderCustoms : LongIdTable("order_customs") {
@@ -633,6 +661,36 @@ object LabelAddresses : LongIdTable("label_addresses") {
     val updatedAt = timestamp("updated_at").clientDefault { Instant.now() }
 }
 
+// Address book - Customers saved from manual order entry
+object Customers : LongIdTable("customers") {
+    val tenantId = reference("tenant_id", Tenants, onDelete = ReferenceOption.CASCADE)
+    val userId = reference("user_id", Users).nullable() // who saved the customer
+    val name = varchar("name", 255)
+    val company = varchar("company", 255).nullable()
+    val email = varchar("email", 255).nullable()
+    val phone = varchar("phone", 50).nullable()
+    val createdAt = timestamp("created_at").clientDefault { Instant.now() }
+    val updatedAt = timestamp("updated_at").clientDefault { Instant.now() }
+}
+
+object CustomerAddresses : LongIdTable("customer_addresses") {
+    val tenantId = reference("tenant_id", Tenants, onDelete = ReferenceOption.CASCADE)
+    val customerId = reference("customer_id", Customers, onDelete = ReferenceOption.CASCADE)
+    val name = varchar("name", 255)
+    val company = varchar("company", 255).nullable()
+    val street1 = varchar("street1", 255)
+    val street2 = varchar("street2", 255).nullable()
+    val city = varchar("city", 100)
+    val state = varchar("state", 100).nullable()
+    val postalCode = varchar("postal_code", 20)
+    val country = varchar("country", 100).default("US")
+    val phone = varchar("phone", 50).nullable()
+    val isDefault = bool("is_default").default(false)
+    val lastUsedAt = timestamp("last_used_at").nullable()
+    val createdAt = timestamp("created_at").clientDefault { Instant.now() }
+    val updatedAt = timestamp("updated_at").clientDefault { Instant.now() }
+}
+
 // Notifications - In-app notifications
 object Notifications : LongIdTable("notifications") {
     val tenantId = reference("tenant_id", Tenants, onDelete = ReferenceOption.CASCADE)
@@ -38,6 +38,7 @@ class S3Service : KoinComponent {
         private const val THUMBNAIL_PREFIX = "thumbnails"
         private const val TEMP_PREFIX = "temp"
         private const val EXPORTS_PREFIX = "exports"
+        private const val ORDER_NOTES_PREFIX = "order-notes"
         private const val DEFAULT_EXPIRATION_SECONDS = 3600L // 1 hour
         private const val CLIENT_CACHE_TTL_MS = 300_000L // 5 minutes
     }
@@ -567,6 +568,17 @@ class S3Service : KoinComponent {
         return "$DESIGN_PREFIX/$tenantId/$userId/${timestamp}_${random}_$safeFileName"
     }
 
+    /**
+     * Generate a unique key for a file attached to an order note
+     * Format: order-notes/{tenant_id}/{order_id}/{timestamp}_{random}_{filename}
+     */
+    fun generateOrderNoteKey(tenantId: Long, orderId: Long, fileName: String): String {
+        val timestamp = Instant.now().toEpochMilli()
+        val random = UUID.randomUUID().toString().take(8)
+        val safeFileName = sanitizeFileName(fileName)
+        return "$ORDER_NOTES_PREFIX/$tenantId/$orderId/${timestamp}_${random}_$safeFileName"
+    }
+
     /**
      * Generate a key for thumbnail
      */
@@ -135,7 +135,16 @@ class EasyPostService(
                 )
 
                 // Create suggested address if verification succeeded with corrections
-                val suggestedAddress = if (isValid && easyPostAddress.street1 != address.street1) {
+                val corrected = listOf(
+                    easyPostAddress.street1 to address.street1,
+                    easyPostAddress.street2 to address.street2,
+                    easyPostAddress.city to address.city,
+                    easyPostAddress.state to address.state,
+                    easyPostAddress.zip to address.zip
+                ).any { (verified, original) ->
+                    !verified.isNullOrBlank() && !verified.equals(original?.trim(), ignoreCase = true)
+                }
+                val suggestedAddress = if (isValid && corrected) {
                     ShippingAddress(
                         id = easyPostAddress.id,
                         name = easyPostAddress.name ?: address.name,
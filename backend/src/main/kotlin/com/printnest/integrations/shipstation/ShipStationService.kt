@@ -3,6 +3,7 @@ package com.printnest.integrations.shipstation
 import com.printnest.domain.models.ShipStationStore
 import com.printnest.domain.repository.OrderRepository
 import com.printnest.domain.repository.ShipStationStoreRepository
+import com.printnest.domain.service.RealtimeEventService
 import kotlinx.serialization.encodeToString
 import kotlinx.serialization.json.Json
 import kotlinx.serialization.json.JsonPrimitive
@@ -12,11 +13,15 @@ import kotlinx.serialization.json.putJsonArray
 import org.slf4j.LoggerFactory
 import java.math.BigDecimal
 
+// How many saved orders between sync progress events
+private const val SYNC_PROGRESS_STEP = 25
+
 class ShipStationService(
     private val client: ShipStationClient,
     private val storeRepository: ShipStationStoreRepository,
     private val orderRepository: OrderRepository,
-    private val json: Json
+    private val json: Json,
+    private val realtimeEventService: RealtimeEventService
 ) {
     private val logger = LoggerFactory.getLogger(ShipStationService::class.java)
 
@@ -91,6 +96,7 @@ class ShipStationService(
         orderStatus: String = "awaiting_shipment"
     ): Result<SyncOrdersResult> {
         logger.info("Syncing ShipStation orders for tenant $tenantId, store $storeId, status: $orderStatus")
+        realtimeEventService.syncProgress(tenantId, userId, "shipstation", RealtimeEventService.SYNC_RUNNING)
 
         val ordersResult = client.getOrders(
             apiKey = apiKey,
@@ -105,8 +111,9 @@ class ShipStationService(
             onSuccess = { response ->
                 var savedCount = 0
                 var updatedCount = 0
+                val total = response.orders.size
 
-                response.orders.forEach { ssOrder ->
+                response.orders.forEachIndexed { index, ssOrder ->
                     try {
                         // Check if order exists
                         val existingOrder = orderRepository.findByShipstationOrderId(tenantId, ssOrder.orderId)
@@ -214,9 +221,19 @@ class ShipStationService(
                     } catch (e: Exception) {
                         logger.error("Failed to save order ${ssOrder.orderId}", e)
                     }
+
+                    if ((index + 1) % SYNC_PROGRESS_STEP == 0 && index + 1 < total) {
+                        realtimeEventService.syncProgress(
+                            tenantId, userId, "shipstation", RealtimeEventService.SYNC_RUNNING, index + 1, total
+                        )
+                    }
                 }
 
                 logger.info("Synced ${response.orders.size} orders from ShipStation: $savedCount new, $updatedCount updated")
+                realtimeEventService.syncProgress(
+                    tenantId, userId, "shipstation", RealtimeEventService.SYNC_COMPLETED, total, total,
+                    "$savedCount new, $updatedCount updated"
+                )
                 Result.success(SyncOrdersResult(
                     totalFetched = response.orders.size,
                     totalPages = response.pages,
@@ -228,6 +245,9 @@ class ShipStationService(
             },
             onFailure = { error ->
                 logger.error("Failed to sync orders for tenant $tenantId", error)
+                realtimeEventService.syncProgress(
+                    tenantId, userId, "shipstation", RealtimeEventService.SYNC_FAILED, message = error.message
+                )
                 Result.failure(error)
             }
         )
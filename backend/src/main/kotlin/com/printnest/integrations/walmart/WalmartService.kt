@@ -1,6 +1,8 @@
 package com.printnest.integrations.walmart
 
+import com.printnest.domain.repository.OrderAcknowledgmentRepository
 import com.printnest.domain.repository.OrderRepository
+import com.printnest.domain.repository.SettingsRepository
 import com.printnest.integrations.redis.RedisService
 import kotlinx.serialization.json.Json
 import kotlinx.serialization.encodeToString
@@ -22,6 +24,8 @@ class WalmartService(
     private val walmartClient: WalmartClient,
     private val authService: WalmartAuthService,
     private val orderRepository: OrderRepository,
+    private val acknowledgmentRepository: OrderAcknowledgmentRepository,
+    private val settingsRepository: SettingsRepository,
     private val redisService: RedisService,
     private val json: Json
 ) {
@@ -205,7 +209,7 @@ class WalmartService(
         val orderDetail = buildOrderDetail(walmartOrder, enrichedLines)
 
         // Insert order
-        try {
+        val orderId = try {
             orderRepository.insertWalmartOrder(
                 tenantId = tenantId,
                 storeId = storeId,
@@ -216,13 +220,49 @@ class WalmartService(
                 customerName = walmartOrder.shippingInfo.postalAddress.name,
                 orderDate = walmartOrder.orderDate
             )
-
-            logger.info("Inserted Walmart order $intOrderId for store $storeId")
-            return Result.success(true)
         } catch (e: Exception) {
             logger.error("Failed to insert Walmart order $intOrderId", e)
             return Result.failure(e)
         }
+
+        logger.info("Inserted Walmart order $intOrderId for store $storeId")
+        trackAcknowledgment(tenantId, storeId, orderId, walmartOrder, clientId, clientSecret)
+        return Result.success(true)
+    }
+
+    /**
+     * Record whether a newly imported order still needs acknowledging, and acknowledge it
+     * right away when the tenant has auto-acknowledge on import turned on
+     */
+    private suspend fun trackAcknowledgment(
+        tenantId: Long,
+        storeId: Long,
+        orderId: Long,
+        walmartOrder: WalmartOrder,
+        clientId: String,
+        clientSecret: String
+    ) {
+        try {
+            // Lines past "Created" have been acknowledged already, e.g. from Seller Center
+            val lineStatuses = walmartOrder.orderLines.orderLine.map { line ->
+                line.orderLineStatuses?.orderLineStatus.orEmpty().map { it.status }
+            }
+            if (lineStatuses.all { statuses -> statuses.isNotEmpty() && "Created" !in statuses }) {
+                acknowledgmentRepository.markAcknowledged(tenantId, orderId, storeId)
+                return
+            }
+
+            val autoAcknowledge = settingsRepository.getTenantSettings(tenantId)
+                ?.acknowledgmentSettings?.autoAcknowledgeOnImport ?: false
+            if (!autoAcknowledge) return
+
+            val error = walmartClient.acknowledgeOrder(storeId, clientId, clientSecret, walmartOrder.purchaseOrderId)
+                .exceptionOrNull()?.let { it.message ?: "Acknowledgment failed" }
+            acknowledgmentRepository.recordAttempt(tenantId, orderId, storeId, error)
+        } catch (e: Exception) {
+            // The order is imported either way; it stays in the acknowledgment queue
+            logger.error("Failed to acknowledge Walmart order ${walmartOrder.purchaseOrderId}", e)
+        }
     }
 
     /**
@@ -0,0 +1,46 @@
+package com.printnest.routes
+
+import com.printnest.domain.models.AcknowledgeOrdersRequest
+import com.printnest.domain.service.OrderAcknowledgmentService
+import io.ktor.http.*
+import io.ktor.server.request.*
+import io.ktor.server.response.*
+import io.ktor.server.routing.*
+import org.koin.core.context.GlobalContext
+
+fun Route.acknowledgmentRoutes() {
+    val acknowledgmentService: OrderAcknowledgmentService = GlobalContext.get().get()
+
+    route("/acknowledgments") {
+
+        // =====================================================
+        // GET /api/v1/acknowledgments - Marketplace orders waiting for acknowledgment
+        // =====================================================
+        get {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val storeId = call.request.queryParameters["storeId"]?.toLongOrNull()
+
+            call.respond(acknowledgmentService.getQueue(tenantId, storeId))
+        }
+
+        // =====================================================
+        // POST /api/v1/acknowledgments/acknowledge - Acknowledge orders, or retry failed ones
+        // =====================================================
+        post("/acknowledge") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val request = call.receive<AcknowledgeOrdersRequest>()
+
+            acknowledgmentService.acknowledgeOrders(tenantId, request.orderIds)
+                .onSuccess { response ->
+                    call.respond(response)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.BadRequest, mapOf("error" to (error.message ?: "Failed to acknowledge orders")))
+                }
+        }
+    }
+}
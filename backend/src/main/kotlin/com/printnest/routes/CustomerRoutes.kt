@@ -0,0 +1,100 @@
+package com.printnest.routes
+
+import com.printnest.domain.models.SaveCustomerAddressRequest
+import com.printnest.domain.service.CustomerService
+import io.ktor.http.*
+import io.ktor.server.request.*
+import io.ktor.server.response.*
+import io.ktor.server.routing.*
+import org.koin.core.context.GlobalContext
+
+fun Route.customerRoutes() {
+    val customerService: CustomerService = GlobalContext.get().get()
+
+    route("/customers") {
+
+        // =====================================================
+        // GET /api/v1/customers/address-suggestions?q= - Address book autocomplete
+        // =====================================================
+        get("/address-suggestions") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val query = call.request.queryParameters["q"].orEmpty()
+
+            call.respond(customerService.suggestAddresses(tenantId, userId, query))
+        }
+
+        // =====================================================
+        // POST /api/v1/customers/addresses - Save an address to the address book
+        // =====================================================
+        post("/addresses") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val request = call.receive<SaveCustomerAddressRequest>()
+
+            customerService.saveAddress(tenantId, userId, request)
+                .onSuccess { customer ->
+                    call.respond(HttpStatusCode.Created, customer)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.BadRequest, mapOf("error" to error.message))
+                }
+        }
+
+        // =====================================================
+        // PUT /api/v1/customers/{id}/addresses/{addressId}/default - Make an address the customer's default
+        // =====================================================
+        put("/{id}/addresses/{addressId}/default") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@put call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@put call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val id = call.parameters["id"]?.toLongOrNull()
+                ?: return@put call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid customer ID"))
+            val addressId = call.parameters["addressId"]?.toLongOrNull()
+                ?: return@put call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid address ID"))
+
+            customerService.setDefaultAddress(tenantId, userId, id, addressId)
+                .onSuccess { customer ->
+                    call.respond(customer)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.NotFound, mapOf("error" to error.message))
+                }
+        }
+
+        // =====================================================
+        // DELETE /api/v1/customers/{id}/addresses/{addressId} - Remove an address from the address book
+        // =====================================================
+        delete("/{id}/addresses/{addressId}") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@delete call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@delete call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val id = call.parameters["id"]?.toLongOrNull()
+                ?: return@delete call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid customer ID"))
+            val addressId = call.parameters["addressId"]?.toLongOrNull()
+                ?: return@delete call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid address ID"))
+
+            customerService.deleteAddress(tenantId, userId, id, addressId)
+                .onSuccess { customer ->
+                    call.respond(customer)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.NotFound, mapOf("error" to error.message))
+                }
+        }
+    }
+}
@@ -0,0 +1,40 @@
+package com.printnest.routes
+
+import com.printnest.domain.service.RealtimeEventService
+import io.ktor.server.routing.*
+import io.ktor.server.sse.*
+import io.ktor.sse.*
+import kotlinx.coroutines.delay
+import kotlinx.coroutines.launch
+import org.koin.core.context.GlobalContext
+
+// Proxies close connections that stay quiet too long, so a comment goes out regularly
+private const val HEARTBEAT_INTERVAL_MS = 25_000L
+
+fun Route.eventRoutes() {
+    val realtimeEventService: RealtimeEventService = GlobalContext.get().get()
+
+    // =====================================================
+    // GET /api/v1/events - Server-sent event stream of tenant updates
+    // =====================================================
+    sse("/events") {
+        // The stream is already open here, so a missing tenant just ends it
+        val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull() ?: return@sse
+        val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+
+        val heartbeat = launch {
+            while (true) {
+                delay(HEARTBEAT_INTERVAL_MS)
+                send(ServerSentEvent(comments = "heartbeat"))
+            }
+        }
+
+        try {
+            realtimeEventService.subscribe(tenantId, userId).collect { event ->
+                send(ServerSentEvent(data = event.data.toString(), event = event.type))
+            }
+        } finally {
+            heartbeat.cancel()
+        }
+    }
+}
@@ -175,6 +175,44 @@ fun Route.exportRoutes() {
                 }
         }
 
+        // =====================================================
+        // CONFIGURABLE EXPORT
+        // =====================================================
+
+        // GET /api/v1/export/columns?type=orders - Columns that can be picked for an export type
+        get("/columns") {
+            val type = call.request.queryParameters["type"]
+                ?.let { code -> ExportType.entries.find { it.code == code } }
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Valid export type required"))
+
+            call.respond(ExportColumnsResponse(type = type.code, columns = excelService.getExportColumns(type)))
+        }
+
+        // POST /api/v1/export/run - Start a background export with chosen filters, columns and format
+        post("/run") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val request = call.receive<ExportRequest>()
+
+            excelService.startExport(tenantId, userId, request)
+                .onSuccess { response ->
+                    call.respond(HttpStatusCode.Accepted, response)
+                }
+                .onFailure { error ->
+                    call.respond(
+                        HttpStatusCode.BadRequest,
+                        ExportResponse(
+                            success = false,
+                            message = error.message ?: "Failed to start export"
+                        )
+                    )
+                }
+        }
+
         // =====================================================
         // DOWNLOAD EXPORT
         // =====================================================
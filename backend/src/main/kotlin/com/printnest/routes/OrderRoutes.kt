@@ -2,12 +2,14 @@ package com.printnest.routes
 
 import com.printnest.domain.models.*
 import com.printnest.domain.service.OrderService
+import com.printnest.domain.service.OrderNoteService
 import com.printnest.domain.service.FetchOrderService
 import com.printnest.domain.service.OrderExportService
 import com.printnest.domain.service.LabelService
 import com.printnest.domain.service.ExcelImportService
 import io.ktor.http.*
 import io.ktor.http.content.*
+import io.ktor.server.application.*
 import io.ktor.server.request.*
 import io.ktor.server.response.*
 import io.ktor.server.routing.*
@@ -19,6 +21,7 @@ fun Route.orderRoutes() {
     val orderExportService: OrderExportService = GlobalContext.get().get()
     val labelService: LabelService = GlobalContext.get().get()
     val excelImportService: ExcelImportService = GlobalContext.get().get()
+    val orderNoteService: OrderNoteService = GlobalContext.get().get()
 
     // =====================================================
     // ORDERS - LISTING & DETAIL
@@ -76,31 +79,86 @@ fun Route.orderRoutes() {
             ))
         }
 
-        // GET /api/v1/orders - List all orders
+        // POST /api/v1/orders/import-excel/preview - Read a spreadsheet for column mapping
+        post("/import-excel/preview") {
+            call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val multipart = call.receiveMultipart()
+            var result: Result<ExcelSheetPreview>? = null
+
+            multipart.forEachPart { part ->
+                if (part is PartData.FileItem) {
+                    val fileName = part.originalFileName ?: "upload.xlsx"
+                    result = if (fileName.endsWith(".xlsx") || fileName.endsWith(".xls")) {
+                        excelImportService.previewExcel(part.streamProvider())
+                    } else {
+                        Result.failure(IllegalArgumentException("Invalid file format. Please upload an Excel file (.xlsx or .xls)"))
+                    }
+                }
+                part.dispose()
+            }
+
+            (result ?: Result.failure(IllegalArgumentException("No file provided")))
+                .onSuccess { preview ->
+                    call.respond(preview)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.BadRequest, mapOf("error" to error.message))
+                }
+        }
+
+        // POST /api/v1/orders/import-excel/validate - Check mapped rows before importing
+        post("/import-excel/validate") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val request = call.receive<ImportOrderRowsRequest>()
+
+            call.respond(excelImportService.validateRows(tenantId, request.rows))
+        }
+
+        // POST /api/v1/orders/import-excel/rows - Import mapped rows, invalid rows are skipped
+        post("/import-excel/rows") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val storeId = call.request.queryParameters["storeId"]?.toLongOrNull()
+            val request = call.receive<ImportOrderRowsRequest>()
+
+            call.respond(excelImportService.importRows(tenantId, userId, storeId, request.rows))
+        }
+
+        // GET /api/v1/orders - List all orders (by page, or after nextCursor when cursor is given)
         get {
             val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
                 ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
 
-            val filters = OrderFiltersExtended(
-                page = call.request.queryParameters["page"]?.toIntOrNull() ?: 1,
-                limit = call.request.queryParameters["limit"]?.toIntOrNull() ?: 20,
-                status = call.request.queryParameters["status"]?.toIntOrNull(),
-                statuses = call.request.queryParameters["statuses"]
-                    ?.split(",")
-                    ?.mapNotNull { it.toIntOrNull() },
-                mapStatus = call.request.queryParameters["mapStatus"]?.toIntOrNull(),
-                storeId = call.request.queryParameters["storeId"]?.toLongOrNull(),
-                shipstationStoreId = call.request.queryParameters["shipstationStoreId"]?.toLongOrNull(),
-                userId = call.request.queryParameters["userId"]?.toLongOrNull(),
-                search = call.request.queryParameters["search"],
-                sortBy = call.request.queryParameters["sortBy"] ?: "createdAt",
-                sortOrder = call.request.queryParameters["sortOrder"] ?: "DESC"
-            )
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
 
-            val response = orderService.getOrders(tenantId, filters)
+            val response = orderService.getOrders(
+                tenantId,
+                call.orderListFilters(searchInternalNotes = orderService.canSeeInternalNotes(tenantId, userId))
+            )
             call.respond(response)
         }
 
+        // GET /api/v1/orders/ids - Ids of all orders matching the list filters, for bulk actions
+        get("/ids") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+
+            call.respond(orderService.getOrderIds(
+                tenantId,
+                call.orderListFilters(searchInternalNotes = orderService.canSeeInternalNotes(tenantId, userId))
+            ))
+        }
+
         // POST /api/v1/orders - Create new order (Step 1)
         post {
             val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
@@ -154,6 +212,110 @@ fun Route.orderRoutes() {
             call.respond(mapOf("history" to history))
         }
 
+        // GET /api/v1/orders/{id}/payments - Get order payments and wallet transactions
+        get("/{id}/payments") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val id = call.parameters["id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid order ID"))
+
+            // Verify order belongs to tenant
+            orderService.getOrder(id, tenantId, false)
+                ?: return@get call.respond(HttpStatusCode.NotFound, mapOf("error" to "Order not found"))
+
+            call.respond(orderService.getOrderPayments(id, tenantId))
+        }
+
+        // =====================================================
+        // ORDER NOTES
+        // =====================================================
+
+        // GET /api/v1/orders/notes/mentionable - Staff that can be @mentioned in notes
+        get("/notes/mentionable") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            call.respond(mapOf("users" to orderNoteService.getMentionableUsers(tenantId)))
+        }
+
+        // GET /api/v1/orders/{id}/notes - Get the note thread of an order
+        get("/{id}/notes") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+            val isSubdealer = !orderService.canSeeInternalNotes(tenantId, userId)
+
+            val id = call.parameters["id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid order ID"))
+
+            orderNoteService.getNotes(tenantId, id, isSubdealer)
+                .onSuccess { notes ->
+                    call.respond(mapOf("notes" to notes))
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.NotFound, mapOf("error" to error.message))
+                }
+        }
+
+        // POST /api/v1/orders/{id}/notes - Add a note, notifying mentioned staff
+        post("/{id}/notes") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val isSubdealer = !orderService.canSeeInternalNotes(tenantId, userId)
+
+            val id = call.parameters["id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid order ID"))
+
+            val request = call.receive<CreateOrderNoteRequest>()
+
+            orderNoteService.addNote(tenantId, userId, id, isSubdealer, request)
+                .onSuccess { note ->
+                    call.respond(HttpStatusCode.Created, note)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.BadRequest, mapOf("error" to error.message))
+                }
+        }
+
+        // POST /api/v1/orders/{id}/notes/attachments - Upload a file to attach to a note
+        post("/{id}/notes/attachments") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val id = call.parameters["id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid order ID"))
+
+            val multipart = call.receiveMultipart()
+            var result: Result<OrderNoteAttachment>? = null
+
+            multipart.forEachPart { part ->
+                if (part is PartData.FileItem && result == null) {
+                    result = orderNoteService.uploadAttachment(
+                        tenantId = tenantId,
+                        orderId = id,
+                        fileName = part.originalFileName ?: "attachment",
+                        contentType = part.contentType?.toString() ?: "application/octet-stream",
+                        bytes = part.streamProvider().readBytes()
+                    )
+                }
+                part.dispose()
+            }
+
+            (result ?: Result.failure(IllegalArgumentException("No file provided")))
+                .onSuccess { attachment ->
+                    call.respond(HttpStatusCode.Created, attachment)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.BadRequest, mapOf("error" to error.message))
+                }
+        }
+
         // =====================================================
         // STEP 2 - EDIT ORDER
         // =====================================================
@@ -387,6 +549,17 @@ fun Route.orderRoutes() {
                 }
         }
 
+        // GET /api/v1/orders/combine-candidates - New orders grouped by identical shipping address
+        get("/combine-candidates") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val storeId = call.request.queryParameters["storeId"]?.toLongOrNull()
+            val userId = call.request.queryParameters["userId"]?.toLongOrNull()
+
+            call.respond(orderService.getCombineCandidates(tenantId, storeId, userId))
+        }
+
         // POST /api/v1/orders/combine - Combine multiple orders
         post("/combine") {
             val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
@@ -406,6 +579,187 @@ fun Route.orderRoutes() {
                 }
         }
 
+        // POST /api/v1/orders/correct-addresses - Fix INVALID_ADDRESS orders and return them to New Orders
+        post("/correct-addresses") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val request = call.receive<CorrectAddressesRequest>()
+
+            orderService.correctAddresses(tenantId, userId, request.corrections)
+                .onSuccess { response ->
+                    call.respond(response)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.BadRequest, mapOf("success" to false, "message" to error.message))
+                }
+        }
+
+        // GET /api/v1/orders/sla-summary - At risk and overdue counts for paid, unshipped orders
+        get("/sla-summary") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            call.respond(orderService.getSlaSummary(tenantId))
+        }
+
+        // GET /api/v1/orders/duplicates - Open orders that look like the same purchase
+        get("/duplicates") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val windowHours = call.request.queryParameters["windowHours"]?.toLongOrNull() ?: 72
+            val storeId = call.request.queryParameters["storeId"]?.toLongOrNull()
+
+            call.respond(orderService.getDuplicateOrders(tenantId, windowHours, storeId))
+        }
+
+        // POST /api/v1/orders/duplicates/resolve - Merge, cancel or keep a duplicate group
+        post("/duplicates/resolve") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val request = call.receive<ResolveDuplicatesRequest>()
+
+            orderService.resolveDuplicates(tenantId, userId, request)
+                .onSuccess {
+                    call.respond(mapOf("success" to true, "message" to "Duplicate orders resolved"))
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.BadRequest, mapOf("success" to false, "message" to error.message))
+                }
+        }
+
+        // GET /api/v1/orders/drafts - Unsubmitted manual orders of the current user
+        get("/drafts") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            call.respond(OrderDraftsResponse(drafts = orderService.getDrafts(tenantId, userId)))
+        }
+
+        // POST /api/v1/orders/drafts - Save a new draft
+        post("/drafts") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val request = call.receive<SaveOrderDraftRequest>()
+
+            orderService.saveDraft(tenantId, userId, null, request)
+                .onSuccess { order ->
+                    call.respond(HttpStatusCode.Created, order)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.BadRequest, mapOf("success" to false, "message" to error.message))
+                }
+        }
+
+        // PUT /api/v1/orders/drafts/{id} - Autosave an existing draft
+        put("/drafts/{id}") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@put call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@put call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val id = call.parameters["id"]?.toLongOrNull()
+                ?: return@put call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid draft ID"))
+
+            val request = call.receive<SaveOrderDraftRequest>()
+
+            orderService.saveDraft(tenantId, userId, id, request)
+                .onSuccess { order ->
+                    call.respond(order)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.NotFound, mapOf("success" to false, "message" to error.message))
+                }
+        }
+
+        // DELETE /api/v1/orders/drafts/{id} - Discard a draft
+        delete("/drafts/{id}") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@delete call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@delete call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val id = call.parameters["id"]?.toLongOrNull()
+                ?: return@delete call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid draft ID"))
+
+            orderService.discardDraft(tenantId, userId, id)
+                .onSuccess {
+                    call.respond(mapOf("success" to true, "message" to "Draft discarded"))
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.NotFound, mapOf("success" to false, "message" to error.message))
+                }
+        }
+
+        // GET /api/v1/orders/views - Saved filter views of the current user, optionally for one page
+        get("/views") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val page = call.request.queryParameters["page"]
+
+            call.respond(SavedOrderViewsResponse(views = orderService.getSavedViews(tenantId, userId, page)))
+        }
+
+        // POST /api/v1/orders/views - Save the current filters as a view
+        post("/views") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val request = call.receive<CreateSavedOrderViewRequest>()
+
+            orderService.createSavedView(tenantId, userId, request)
+                .onSuccess { view ->
+                    call.respond(HttpStatusCode.Created, view)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.BadRequest, mapOf("success" to false, "message" to error.message))
+                }
+        }
+
+        // DELETE /api/v1/orders/views/{id} - Remove a saved view
+        delete("/views/{id}") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@delete call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@delete call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val id = call.parameters["id"]?.toLongOrNull()
+                ?: return@delete call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid view ID"))
+
+            orderService.deleteSavedView(tenantId, userId, id)
+                .onSuccess {
+                    call.respond(mapOf("success" to true, "message" to "View removed"))
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.NotFound, mapOf("success" to false, "message" to error.message))
+                }
+        }
+
         // POST /api/v1/orders/{id}/cancel - Cancel order
         post("/{id}/cancel") {
             val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
@@ -565,6 +919,11 @@ fun Route.orderRoutes() {
             val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
                 ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
 
+            // A direct refund skips the request flow, so only refund reviewers may issue one
+            if (!orderService.canReviewRefunds(tenantId, userId)) {
+                return@post call.respond(HttpStatusCode.Forbidden, mapOf("error" to "Producer access required"))
+            }
+
             val id = call.parameters["id"]?.toLongOrNull()
                 ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid order ID"))
 
@@ -579,6 +938,75 @@ fun Route.orderRoutes() {
                 }
         }
 
+        // GET /api/v1/orders/{id}/refunds - Refunds and refund requests of an order
+        get("/{id}/refunds") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val id = call.parameters["id"]?.toLongOrNull()
+                ?: return@get call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid order ID"))
+
+            orderService.getRefunds(tenantId, id)
+                .onSuccess { response ->
+                    call.respond(response)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.NotFound, mapOf("success" to false, "message" to error.message))
+                }
+        }
+
+        // POST /api/v1/orders/{id}/refund-requests - Request an item-level or full refund
+        post("/{id}/refund-requests") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            val id = call.parameters["id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid order ID"))
+
+            val request = call.receive<CreateRefundRequestRequest>()
+
+            orderService.requestRefund(tenantId, userId, id, request)
+                .onSuccess { refundRequest ->
+                    call.respond(HttpStatusCode.Created, refundRequest)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.BadRequest, mapOf("success" to false, "message" to error.message))
+                }
+        }
+
+        // PUT /api/v1/orders/{id}/refund-requests/{requestId} - Approve or deny a refund request
+        put("/{id}/refund-requests/{requestId}") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@put call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull()
+                ?: return@put call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID required"))
+
+            // Only producers review refunds
+            if (!orderService.canReviewRefunds(tenantId, userId)) {
+                return@put call.respond(HttpStatusCode.Forbidden, mapOf("error" to "Producer access required"))
+            }
+
+            val id = call.parameters["id"]?.toLongOrNull()
+                ?: return@put call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid order ID"))
+
+            val requestId = call.parameters["requestId"]
+                ?: return@put call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid refund request ID"))
+
+            val request = call.receive<ReviewRefundRequestRequest>()
+
+            orderService.reviewRefundRequest(tenantId, userId, id, requestId, request)
+                .onSuccess { refundRequest ->
+                    call.respond(refundRequest)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.BadRequest, mapOf("success" to false, "message" to error.message))
+                }
+        }
+
         // =====================================================
         // LABEL REFUND & TRACKING
         // =====================================================
@@ -633,6 +1061,30 @@ fun Route.orderRoutes() {
                 }
         }
 
+        /**
+         * POST /api/v1/orders/send-tracking
+         *
+         * Send tracking to the marketplace for several orders at once.
+         * Responds with one result per order; orders without a label come back as errors.
+         */
+        post("/send-tracking") {
+            val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
+                ?: return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Tenant ID required"))
+
+            val request = call.receive<BulkSendTrackingRequest>()
+
+            labelService.sendTrackingForOrders(tenantId, request.orderIds)
+                .onSuccess { response ->
+                    call.respond(response)
+                }
+                .onFailure { error ->
+                    call.respond(HttpStatusCode.BadRequest, mapOf(
+                        "success" to false,
+                        "message" to (error.message ?: "Failed to send tracking")
+                    ))
+                }
+        }
+
         // =====================================================
         // ANALYTICS
         // =====================================================
@@ -815,3 +1267,26 @@ fun Route.orderRoutes() {
         }
     }
 }
+
+/**
+ * Order list filters from the query string, shared by the list and the matching-ids routes
+ */
+private fun ApplicationCall.orderListFilters(searchInternalNotes: Boolean): OrderFiltersExtended = OrderFiltersExtended(
+    page = request.queryParameters["page"]?.toIntOrNull() ?: 1,
+    limit = request.queryParameters["limit"]?.toIntOrNull() ?: 20,
+    status = request.queryParameters["status"]?.toIntOrNull(),
+    statuses = request.queryParameters["statuses"]
+        ?.split(",")
+        ?.mapNotNull { it.toIntOrNull() },
+    mapStatus = request.queryParameters["mapStatus"]?.toIntOrNull(),
+    storeId = request.queryParameters["storeId"]?.toLongOrNull(),
+    shipstationStoreId = request.queryParameters["shipstationStoreId"]?.toLongOrNull(),
+    userId = request.queryParameters["userId"]?.toLongOrNull(),
+    search = request.queryParameters["search"],
+    searchInternalNotes = searchInternalNotes,
+    startDate = request.queryParameters["startDate"],
+    endDate = request.queryParameters["endDate"],
+    sortBy = request.queryParameters["sortBy"] ?: "createdAt",
+    sortOrder = request.queryParameters["sortOrder"] ?: "DESC",
+    cursor = request.queryParameters["cursor"]
+)
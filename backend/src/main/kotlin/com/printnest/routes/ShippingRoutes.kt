@@ -61,7 +61,8 @@ fun Route.shippingRoutes() {
         /**
          * POST /api/v1/shipping/rates
          *
-         * Get available shipping rates for an order
+         * Get available shipping rates for an order, or for a cart
+         * (toAddress + items) when no orderId is given
          */
         post("/rates") {
             val tenantId = call.request.headers["X-Tenant-Id"]?.toLongOrNull()
@@ -69,15 +70,33 @@ fun Route.shippingRoutes() {
                     HttpStatusCode.BadRequest,
                     mapOf("error" to "Tenant ID required")
                 )
+            val userId = call.request.headers["X-User-Id"]?.toLongOrNull() ?: 0L
 
             val request = call.receive<RateRequest>()
 
-            shippingService.calculateShippingCost(
-                orderId = request.orderId,
-                tenantId = tenantId,
-                destination = request.fromAddress,
-                weight = request.parcel?.weight
-            )
+            val result = if (request.orderId != null) {
+                shippingService.calculateShippingCost(
+                    orderId = request.orderId,
+                    tenantId = tenantId,
+                    destination = request.toAddress ?: request.fromAddress,
+                    weight = request.parcel?.weight
+                )
+            } else {
+                val toAddress = request.toAddress
+                    ?: return@post call.respond(
+                        HttpStatusCode.BadRequest,
+                        mapOf("error" to "Order ID or destination address required")
+                    )
+                shippingService.calculateCartShippingCost(
+                    tenantId = tenantId,
+                    userId = userId,
+                    toAddress = toAddress,
+                    items = request.items,
+                    weight = request.parcel?.weight
+                )
+            }
+
+            result
                 .onSuccess { response ->
                     call.respond(response)
                 }
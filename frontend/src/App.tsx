@@ -12,6 +12,7 @@ import { lazy, Suspense } from 'react';
 const Dashboard = lazy(() => import('@/pages/Dashboard'));
 const Orders = lazy(() => import('@/pages/Orders'));
 const Analytics = lazy(() => import('@/pages/Analytics'));
+const Exports = lazy(() => import('@/pages/Exports'));
 const DesignStudio = lazy(() => import('@/pages/DesignStudio'));
 const Catalog = lazy(() => import('@/pages/Catalog'));
 const Fulfillment = lazy(() => import('@/pages/Fulfillment'));
@@ -212,6 +213,7 @@ function App() {
           <Route path="dashboard" element={<Dashboard />} />
           <Route path="orders/*" element={<Orders />} />
           <Route path="analytics" element={<Analytics />} />
+          <Route path="exports" element={<Exports />} />
 
           {/* Redirects to Settings */}
           <Route path="products/*" element={<Navigate to="/settings/products" replace />} />
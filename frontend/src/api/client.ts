@@ -4,7 +4,7 @@ import { useTenantStore } from '@/stores/tenantStore';
 
 // API base URL from environment - REQUIRED in production
 const isProduction = import.meta.env.PROD;
-const API_BASE_URL = import.meta.env.VITE_API_URL ||
+export const API_BASE_URL = import.meta.env.VITE_API_URL ||
   (isProduction ? (() => { throw new Error('VITE_API_URL is required in production'); })() : 'http://localhost:8080/api/v1');
 
 // Types for API responses
@@ -37,29 +37,40 @@ const apiClient: AxiosInstance = axios.create({
   },
 });
 
+// Auth, tenant and user headers sent with every request; also used for requests made outside axios
+export function getRequestHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  // Add auth token if available
+  const token = useAuthStore.getState().token;
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  // Add tenant header if available
+  const tenant = useTenantStore.getState().tenant;
+  if (tenant?.id) {
+    headers['X-Tenant-Id'] = tenant.id;
+  }
+  if (tenant?.slug) {
+    headers['X-Tenant-Slug'] = tenant.slug;
+  }
+
+  // Add user ID header if available
+  const user = useAuthStore.getState().user;
+  if (user?.id) {
+    headers['X-User-Id'] = user.id;
+  }
+
+  return headers;
+}
+
 // Request interceptor
 apiClient.interceptors.request.use(
   (config: InternalAxiosRequestConfig) => {
-    // Add auth token if available
-    const token = useAuthStore.getState().token;
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-
-    // Add tenant header if available
-    const tenant = useTenantStore.getState().tenant;
-    if (tenant?.id) {
-      config.headers['X-Tenant-Id'] = tenant.id;
-    }
-    if (tenant?.slug) {
-      config.headers['X-Tenant-Slug'] = tenant.slug;
-    }
-
-    // Add user ID header if available
-    const user = useAuthStore.getState().user;
-    if (user?.id) {
-      config.headers['X-User-Id'] = user.id;
-    }
+    Object.entries(getRequestHeaders()).forEach(([name, value]) => {
+      config.headers[name] = value;
+    });
 
     return config;
   },
@@ -2,14 +2,67 @@
 export {
   useOrders,
   useOrder,
+  useOrderHistory,
+  useOrderPayments,
+  useOrderLabels,
   useCreateOrder,
   useUpdateOrderStatus,
+  useBulkUpdateOrderStatus,
+  isBulkUpdatableStatus,
   useBulkOrderAction,
   useCancelOrder,
   useExportOrders,
   useOrderFulfillment,
+  useCombineCandidates,
+  useCombineOrders,
+  useCorrectOrderAddresses,
+  useDuplicateOrders,
+  useResolveDuplicateOrders,
+  useOrderSlaSummary,
+  useAcknowledgmentQueue,
+  useAcknowledgeOrders,
+  useOrderRefunds,
+  useRequestRefund,
+  useReviewRefundRequest,
+  useSendTracking,
+  useBulkSendTracking,
+  useOrderNotes,
+  useMentionableUsers,
+  useAddOrderNote,
+  useUploadOrderNoteAttachment,
+  useUpdateOrderStep2,
+  useCalculateOrderPrice,
+  useSelectOrderShipping,
+  usePayOrder,
+  useOrderConfirmation,
+  useConfirmOrder,
+  useOrderDrafts,
+  useSaveOrderDraft,
+  useDiscardOrderDraft,
+  useSavedOrderViews,
+  useCreateSavedOrderView,
+  useDeleteSavedOrderView,
+} from './useOrders';
+export type {
+  OrderFilters,
+  CombineCandidateGroup,
+  DuplicateOrderGroup,
+  DuplicateResolution,
+  OrderAddressCorrection,
+  OrderEditLine,
+  OrderSlaSummary,
+  UnacknowledgedOrder,
+  AcknowledgmentStoreSummary,
+  AcknowledgmentQueue,
+  AcknowledgeOrderResult,
+  AcknowledgeOrdersResponse,
+  SendTrackingResult,
+  SendTrackingResponse,
+  UpdateOrderStep2Input,
+  SaveOrderDraftInput,
+  OrderViewPage,
+  SavedOrderView,
 } from './useOrders';
-export type { OrderFilters } from './useOrders';
 
 // Design hooks
 export {
@@ -43,7 +96,10 @@ export type {
 // Product Selection hooks (for manual order creation)
 export {
   useProductSelectionData,
-  useImportOrdersFromExcel,
+  useSaveProductCustomsDefaults,
+  usePreviewExcelImport,
+  useValidateImportRows,
+  useImportOrderRows,
 } from './useProductSelection';
 
 // Gangsheet hooks
@@ -85,3 +141,74 @@ export {
   useDeleteModification,
 } from './useCategories';
 export type { Category, Modification } from './useCategories';
+
+// Shipping hooks
+export {
+  useCombineShippingPreview,
+  useCarrierRates,
+  useAddressValidation,
+  useAddressValidations,
+  useOriginCountry,
+} from './useShipping';
+export type {
+  AddressValidationResult,
+  CarrierAddress,
+  CarrierRate,
+  CarrierRateResult,
+  CartRateRequest,
+  ShippingCalculationItem,
+  ShippingCalculationRequest,
+  ShippingCalculationResult,
+  ShippingMethodRate,
+} from './useShipping';
+
+// Pricing hooks
+export { usePriceQuote } from './usePricing';
+export type {
+  PriceQuote,
+  PriceQuoteItem,
+  PriceQuoteItemDetail,
+  PriceQuoteRequest,
+} from './usePricing';
+
+// Export hooks
+export {
+  useExportColumns,
+  useExportHistory,
+  useRunExport,
+  useDownloadExport,
+  ExportStatusCodes,
+} from './useExports';
+export type {
+  ExportType,
+  ExportFormat,
+  ExportFilters,
+  ExportColumnOption,
+  ExportHistoryEntry,
+  RunExportRequest,
+} from './useExports';
+
+// Notification hooks
+export {
+  useUnreadNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+} from './useNotifications';
+export type { AppNotification } from './useNotifications';
+
+// Address book hooks
+export {
+  useAddressSuggestions,
+  useSaveCustomerAddress,
+  useSetDefaultCustomerAddress,
+  useDeleteCustomerAddress,
+} from './useCustomers';
+export type {
+  AddressSuggestion,
+  CustomerAddress,
+  SavedCustomer,
+  SaveCustomerAddressInput,
+} from './useCustomers';
+
+// Realtime hooks
+export { useRealtimeEvents } from './useRealtimeEvents';
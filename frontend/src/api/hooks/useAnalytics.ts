@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { api } from '@/api/client';
 import { queryKeys } from '@/api/queryKeys';
+import { useRealtimeConnected } from '@/stores/realtimeStore';
 
 // Types for analytics data
 export interface DashboardStats {
@@ -32,6 +33,8 @@ type Period = 'daily' | 'weekly' | 'monthly';
  * Hook to fetch dashboard statistics
  */
 export function useDashboardStats(period: Period = 'daily') {
+  const realtimeConnected = useRealtimeConnected();
+
   return useQuery({
     queryKey: queryKeys.analytics.dashboard(period),
     queryFn: async () => {
@@ -41,7 +44,8 @@ export function useDashboardStats(period: Period = 'daily') {
       return response.data;
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
-    refetchInterval: 5 * 60 * 1000, // Auto-refresh every 5 minutes
+    // Auto-refresh every 5 minutes; order events refresh it while connected
+    refetchInterval: realtimeConnected ? false : 5 * 60 * 1000,
   });
 }
 
@@ -0,0 +1,115 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api/client';
+import { queryKeys } from '@/api/queryKeys';
+import type { ApiAddress } from '@/types';
+
+export interface CustomerAddress {
+  id: number;
+  customerId: number;
+  address: ApiAddress;
+  isDefault: boolean;
+  lastUsedAt?: string;
+}
+
+export interface SavedCustomer {
+  id: number;
+  name: string;
+  company?: string;
+  email?: string;
+  phone?: string;
+  addresses: CustomerAddress[]; // default address first
+}
+
+// An address book entry ('saved') or the shipping address of a past order ('order')
+export interface AddressSuggestion {
+  source: 'saved' | 'order';
+  customerName: string;
+  address: ApiAddress;
+  customerId?: number;
+  addressId?: number;
+  email?: string;
+  isDefault: boolean;
+  orderId?: number;
+  lastUsedAt?: string;
+}
+
+export interface SaveCustomerAddressInput {
+  customerId?: number; // omit to find the customer by name, or create one
+  customerName: string;
+  company?: string;
+  email?: string;
+  phone?: string;
+  address: ApiAddress;
+  makeDefault?: boolean;
+}
+
+// The backend ignores shorter searches
+const MIN_SEARCH_LENGTH = 2;
+
+/**
+ * Hook to search the address book and past orders by customer name, company or email
+ */
+export function useAddressSuggestions(search: string) {
+  const query = search.trim();
+
+  return useQuery({
+    queryKey: queryKeys.customers.addressSuggestions(query),
+    queryFn: async () => {
+      const response = await api.get<{ suggestions: AddressSuggestion[] }>('/customers/address-suggestions', { q: query });
+      return (response as unknown as { suggestions: AddressSuggestion[] }).suggestions;
+    },
+    enabled: query.length >= MIN_SEARCH_LENGTH,
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * Hook to save an address to a customer's address book
+ */
+export function useSaveCustomerAddress() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: SaveCustomerAddressInput) => {
+      const response = await api.post<SavedCustomer>('/customers/addresses', data);
+      return response as unknown as SavedCustomer;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+}
+
+/**
+ * Hook to make an address the customer's default
+ */
+export function useSetDefaultCustomerAddress() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ customerId, addressId }: { customerId: number; addressId: number }) => {
+      const response = await api.put<SavedCustomer>(`/customers/${customerId}/addresses/${addressId}/default`);
+      return response as unknown as SavedCustomer;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+}
+
+/**
+ * Hook to remove an address from a customer's address book
+ */
+export function useDeleteCustomerAddress() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ customerId, addressId }: { customerId: number; addressId: number }) => {
+      const response = await api.delete<SavedCustomer>(`/customers/${customerId}/addresses/${addressId}`);
+      return response as unknown as SavedCustomer;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+}
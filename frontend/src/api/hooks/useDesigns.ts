@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api, PaginatedResponse } from '@/api/client';
+import { api } from '@/api/client';
 import { queryKeys } from '@/api/queryKeys';
 import type { Design } from '@/types';
 
@@ -45,6 +45,34 @@ interface UploadDesignResponse {
   };
 }
 
+// Matches backend DesignListItem
+interface ApiDesignListItem {
+  id: number;
+  title: string;
+  designType: number;
+  designUrl: string;
+  thumbnailUrl?: string | null;
+  width?: number | null; // inches
+  height?: number | null;
+  createdAt: string;
+}
+
+// Backend design type codes; UV prints (4) are images too
+const designTypeCodes = { image: 1, embroidery: 2, vector: 3 } as const;
+
+function toExtendedDesign(item: ApiDesignListItem): ExtendedDesign {
+  return {
+    id: String(item.id),
+    name: item.title,
+    thumbnail: item.thumbnailUrl || item.designUrl,
+    fileUrl: item.designUrl,
+    type: item.designType === 2 ? 'embroidery' : item.designType === 3 ? 'vector' : 'image',
+    data: { width: item.width ?? 0, height: item.height ?? 0, elements: [] },
+    createdAt: item.createdAt,
+    updatedAt: item.createdAt,
+  };
+}
+
 /**
  * Hook to fetch paginated designs list with filters
  */
@@ -52,11 +80,16 @@ export function useDesigns(filters: DesignFilters = {}) {
   return useQuery({
     queryKey: queryKeys.designs.list(filters),
     queryFn: async () => {
-      const response = await api.get<PaginatedResponse<ExtendedDesign>>(
-        '/designs',
-        filters
-      );
-      return response.data;
+      const { page, pageSize, type, search, sortBy, sortOrder } = filters;
+      const response = await api.get<{ designs: ApiDesignListItem[] }>('/designs', {
+        page,
+        limit: pageSize,
+        designType: type ? designTypeCodes[type] : undefined,
+        search,
+        sortBy,
+        sortOrder: sortOrder?.toUpperCase(),
+      });
+      return (response as unknown as { designs: ApiDesignListItem[] }).designs.map(toExtendedDesign);
     },
     staleTime: 60 * 1000, // 1 minute
   });
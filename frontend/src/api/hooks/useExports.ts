@@ -0,0 +1,117 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api/client';
+import { queryKeys } from '@/api/queryKeys';
+
+// Matches backend ExportType codes
+export type ExportType = 'orders' | 'products' | 'transactions' | 'designs' | 'out_of_stock';
+
+export type ExportFormat = 'xlsx' | 'csv';
+
+// Matches backend ExportStatus codes
+export const ExportStatusCodes = {
+  PENDING: 0,
+  PROCESSING: 1,
+  COMPLETED: 2,
+  FAILED: -1,
+} as const;
+
+export interface ExportFilters {
+  startDate?: string;
+  endDate?: string;
+  statuses?: number[];
+  search?: string;
+}
+
+export interface ExportColumnOption {
+  key: string;
+  label: string;
+}
+
+export interface RunExportRequest {
+  type: ExportType;
+  filters?: ExportFilters;
+  columns?: string[];
+  format: ExportFormat;
+}
+
+export interface ExportHistoryEntry {
+  id: number;
+  exportType: ExportType;
+  fileName: string;
+  fileUrl?: string;
+  recordCount: number;
+  status: number;
+  errorMessage?: string;
+  filters?: string; // JSON of the request the export was run with
+  createdAt: string;
+  completedAt?: string;
+}
+
+interface ExportHistoryResponse {
+  exports: ExportHistoryEntry[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+const isRunning = (entry: ExportHistoryEntry) =>
+  entry.status === ExportStatusCodes.PENDING || entry.status === ExportStatusCodes.PROCESSING;
+
+/**
+ * Hook to fetch the columns that can be picked for an export type
+ */
+export function useExportColumns(type: ExportType) {
+  return useQuery({
+    queryKey: queryKeys.exports.columns(type),
+    queryFn: async () => {
+      const response = await api.get<{ columns: ExportColumnOption[] }>('/export/columns', { type });
+      const data = response as unknown as { columns: ExportColumnOption[] };
+      return data.columns;
+    },
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Hook to fetch past exports, polling while any of them is still running
+ */
+export function useExportHistory(filters: { page?: number; limit?: number } = {}) {
+  return useQuery({
+    queryKey: queryKeys.exports.history(filters),
+    queryFn: async () => {
+      const response = await api.get<ExportHistoryResponse>('/export/history', filters);
+      return response as unknown as ExportHistoryResponse;
+    },
+    refetchInterval: (query) => (query.state.data?.exports.some(isRunning) ? 3000 : false),
+  });
+}
+
+/**
+ * Hook to start a background export
+ */
+export function useRunExport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: RunExportRequest) => {
+      const response = await api.post<{ exportId: number; fileName: string }>('/export/run', data);
+      return response as unknown as { exportId: number; fileName: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.exports.all });
+    },
+  });
+}
+
+/**
+ * Hook to get a fresh download link for a finished export
+ */
+export function useDownloadExport() {
+  return useMutation({
+    mutationFn: async (exportId: number) => {
+      const response = await api.get<{ downloadUrl: string; fileName: string }>(`/export/download/${exportId}`);
+      return response as unknown as { downloadUrl: string; fileName: string };
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/api/client';
+import { useRealtimeConnected } from '@/stores/realtimeStore';
 
 export interface Gangsheet {
   id: number;
@@ -64,6 +65,8 @@ export function useGangsheets(filters: GangsheetFilters = {}) {
  * Hook to fetch single gangsheet
  */
 export function useGangsheet(id: number) {
+  const realtimeConnected = useRealtimeConnected();
+
   return useQuery({
     queryKey: gangsheetKeys.detail(id),
     queryFn: async () => {
@@ -72,9 +75,9 @@ export function useGangsheet(id: number) {
     },
     enabled: !!id,
     refetchInterval: (query) => {
-      // Poll while processing
+      // Poll while processing, unless progress events are being pushed
       const data = query.state.data;
-      if (data && !['Completed', 'Failed'].includes(data.status)) {
+      if (!realtimeConnected && data && !['Completed', 'Failed'].includes(data.status)) {
         return 3000; // Poll every 3 seconds
       }
       return false;
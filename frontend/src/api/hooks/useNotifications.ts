@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api/client';
+import { queryKeys } from '@/api/queryKeys';
+
+export interface AppNotification {
+  id: number;
+  notificationType: string;
+  title: string;
+  message: string;
+  url?: string;
+  priority: 'low' | 'medium' | 'high' | 'critical';
+  isRead: boolean;
+  createdAt: string;
+}
+
+/**
+ * Hook to fetch the current user's unread notifications
+ */
+export function useUnreadNotifications() {
+  return useQuery({
+    queryKey: queryKeys.notifications.unread(),
+    queryFn: async () => {
+      const response = await api.get<{ notifications: AppNotification[] }>('/notifications', { unreadOnly: true });
+      return (response as unknown as { notifications: AppNotification[] }).notifications;
+    },
+  });
+}
+
+/**
+ * Hook to mark a notification as read
+ */
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await api.post(`/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+    },
+  });
+}
+
+/**
+ * Hook to mark all of the current user's notifications as read
+ */
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      await api.post('/notifications/read-all');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+    },
+  });
+}
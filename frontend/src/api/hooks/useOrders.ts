@@ -1,7 +1,75 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api } from '@/api/client';
+import apiClient, { api } from '@/api/client';
 import { queryKeys } from '@/api/queryKeys';
-import type { ApiOrder } from '@/types';
+import { OrderStatusCodes, RefundableCancelStatuses, assertOrderStatusTransition } from '@/types';
+import type {
+  ApiAddress,
+  ApiMentionableUser,
+  ApiOrder,
+  ApiOrderDraft,
+  ApiOrderHistoryItem,
+  ApiOrderNote,
+  ApiOrderNoteAttachment,
+  ApiOrderPayment,
+  ApiOrderRefunds,
+  ApiOrderStep3Price,
+  ApiOrderStep4,
+  ApiOrderPriceSummary,
+  ApiPayment,
+  ApiRefundRequest,
+  ApiRefundRequestItem,
+  ApiShippingLabelHistory,
+  CustomsInfo,
+  ApiTransaction,
+} from '@/types';
+
+// Matches backend UpdateOrderStep2Request
+export interface OrderEditLine {
+  productId?: number;
+  variantId?: number;
+  categoryId?: number;
+  option1Id?: number;
+  option2Id?: number;
+  quantity: number;
+  modificationDetail: {
+    modificationId: number;
+    modificationName: string;
+    modificationDesign?: string;
+    modificationUseWidth?: number;
+    priceDifference?: string;
+  }[];
+}
+
+export interface UpdateOrderStep2Input {
+  products: (OrderEditLine & { orderProductId: number })[];
+  newProducts: OrderEditLine[];
+  removedOrderProductIds: number[];
+  shippingAddress?: ApiAddress;
+  orderNote?: string;
+  giftNote?: string;
+  customsInfo?: CustomsInfo; // replaces the declaration, e.g. after the address moved abroad
+}
+
+// Matches backend SaveOrderDraftRequest
+export interface SaveOrderDraftInput {
+  id?: number; // omit to start a new draft
+  source: ApiOrderDraft['source'];
+  customerName?: string;
+  shippingAddress?: ApiAddress;
+  payload: unknown;
+}
+
+// Order list pages a saved view can belong to
+export type OrderViewPage = 'new-orders' | 'list';
+
+// Matches backend SavedOrderView, a named set of order filters stored as the query string it restores
+export interface SavedOrderView {
+  id: number;
+  name: string;
+  page: OrderViewPage;
+  query: string;
+  createdAt: string;
+}
 
 // Backend response type
 interface OrderListResponse {
@@ -20,57 +88,168 @@ export interface OrderFilters {
   statuses?: number[];
   storeId?: number;
   search?: string;
+  startDate?: string; // yyyy-MM-dd, inclusive
+  endDate?: string;   // yyyy-MM-dd, inclusive
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
 }
 
+export interface CombineCandidateGroup {
+  address: ApiAddress;
+  orders: ApiOrder[];
+}
+
+export interface DuplicateOrderGroup {
+  reason: 'external_id' | 'customer_address_products';
+  orders: ApiOrder[];
+}
+
+// merge folds the duplicates into the kept order, keep marks the group as not duplicates
+export type DuplicateResolution = 'merge' | 'cancel' | 'keep';
+
+// Paid, unshipped orders measured against the tenant's SLA settings
+export interface OrderSlaSummary {
+  openOrders: number;
+  atRisk: number;
+  overdue: number;
+  nextShipByAt?: string;
+}
+
+// Outcome of pushing tracking to the marketplace, one per order (and per combined order)
+export interface SendTrackingResult {
+  orderId: number;
+  success: boolean;
+  warning: boolean;
+  status: 'sent' | 'already_sent' | 'skipped' | 'error';
+  trackingCode?: string;
+  message: string;
+}
+
+// Most orders the backend sends tracking for in one request
+const BULK_TRACKING_BATCH_SIZE = 200;
+
+export interface SendTrackingResponse {
+  success: boolean;
+  message: string;
+  results: SendTrackingResult[];
+}
+
+// A marketplace order the marketplace hasn't been told about yet; lastError is set after a failed attempt
+export interface UnacknowledgedOrder {
+  orderId: number;
+  intOrderId?: string;
+  externalOrderId?: string;
+  storeId: number;
+  storeName: string;
+  customerName?: string;
+  orderedAt: string;
+  ageHours: number;
+  attempts: number;
+  lastError?: string;
+  lastAttemptAt?: string;
+}
+
+export interface AcknowledgmentStoreSummary {
+  storeId: number;
+  storeName: string;
+  pending: number;
+  failed: number;
+  oldestAgeHours: number;
+}
+
+export interface AcknowledgmentQueue {
+  stores: AcknowledgmentStoreSummary[];
+  orders: UnacknowledgedOrder[];
+  truncated: boolean; // only the oldest orders are returned
+}
+
+export interface AcknowledgeOrderResult {
+  orderId: number;
+  success: boolean;
+  message: string;
+}
+
+export interface AcknowledgeOrdersResponse {
+  acknowledged: number;
+  failed: number;
+  results: AcknowledgeOrderResult[];
+}
+
+// Most orders the backend acknowledges in one request
+const BULK_ACKNOWLEDGE_BATCH_SIZE = 200;
+
+interface CombineOrdersResponse {
+  success: boolean;
+  combinedOrderId: number;
+  originalOrderIds: number[];
+  message?: string;
+}
+
+export interface OrderAddressCorrection {
+  orderId: number;
+  address: ApiAddress;
+}
+
+interface CorrectAddressesResponse {
+  correctedOrderIds: number[];
+  errors: { orderId: number; message: string }[];
+}
+
 // Mutation types
+// Matches backend CreateOrderRequest
 interface CreateOrderData {
-  customerId?: string;
-  customer?: {
-    firstName: string;
-    lastName: string;
-    email: string;
-    phone?: string;
-  };
-  items: {
-    productId: string;
-    variantId?: string;
+  customerName?: string;
+  customerEmail?: string;
+  shippingAddress?: ApiAddress;
+  billingAddress?: ApiAddress;
+  orderNote?: string;
+  products?: {
+    productId?: number;
+    variantId?: number;
     quantity: number;
-    price: number;
+    modificationDetail?: OrderEditLine['modificationDetail'];
   }[];
-  shippingAddress: {
-    firstName: string;
-    lastName: string;
-    address1: string;
-    address2?: string;
-    city: string;
-    state: string;
-    postalCode: string;
-    country: string;
-    phone?: string;
-  };
-  billingAddress?: {
-    firstName: string;
-    lastName: string;
-    address1: string;
-    address2?: string;
-    city: string;
-    state: string;
-    postalCode: string;
-    country: string;
-    phone?: string;
-  };
-  shippingMethod: string;
-  paymentMethod: string;
-  notes?: string;
+  customsInfo?: CustomsInfo; // Required when shipping to another country
 }
 
 interface UpdateOrderStatusData {
   id: number;
+  currentStatus: number; // checked against the transition table before calling the API
+  status: number;
+  notes?: string;
+}
+
+interface BulkUpdateOrderStatusData {
+  orders: Pick<ApiOrder, 'id' | 'orderStatus'>[];
   status: number;
 }
 
+// Status values accepted by POST /orders/bulk-status
+const bulkStatusValues: Partial<Record<number, string>> = {
+  [OrderStatusCodes.SHIPPED]: 'shipped',
+  [OrderStatusCodes.EDITING]: 'editing',
+  [OrderStatusCodes.PENDING]: 'pending',
+  [OrderStatusCodes.URGENT]: 'urgent',
+  [OrderStatusCodes.CANCELLED]: 'cancelled',
+  [OrderStatusCodes.AWAITING_RESPONSE]: 'awaitingresponse',
+  [OrderStatusCodes.IN_PRODUCTION]: 'inproduction',
+};
+
+// Paid orders are cancelled one by one through /orders/{id}/cancel, which refunds them
+export function isBulkUpdatableStatus(status: number, fromStatuses: number[] = []): boolean {
+  if (status === OrderStatusCodes.CANCELLED && fromStatuses.some((from) => RefundableCancelStatuses.includes(from))) {
+    return false;
+  }
+  return bulkStatusValues[status] !== undefined;
+}
+
+interface OrderExportResponse {
+  success: boolean;
+  fileUrl?: string;
+  recordCount: number;
+  message?: string;
+}
+
 interface BulkOrderActionData {
   orderIds: number[];
   action: 'update_status' | 'export' | 'create_gangsheet' | 'cancel';
@@ -104,6 +283,12 @@ export function useOrders(filters: OrderFilters = {}) {
       if (filters.search) {
         params.search = filters.search;
       }
+      if (filters.startDate) {
+        params.startDate = filters.startDate;
+      }
+      if (filters.endDate) {
+        params.endDate = filters.endDate;
+      }
 
       const response = await api.get<OrderListResponse>('/orders', params);
 
@@ -132,7 +317,57 @@ export function useOrder(id: string | number) {
     queryKey: queryKeys.orders.detail(String(id)),
     queryFn: async () => {
       const response = await api.get<ApiOrder>(`/orders/${id}?withProducts=true`);
-      return response.data;
+      // Backend returns the order directly
+      return response as unknown as ApiOrder;
+    },
+    enabled: !!id,
+  });
+}
+
+/**
+ * Hook to fetch an order's status history
+ */
+export function useOrderHistory(id: string | number) {
+  return useQuery({
+    queryKey: queryKeys.orders.history(String(id)),
+    queryFn: async () => {
+      const response = await api.get<{ history: ApiOrderHistoryItem[] }>(`/orders/${id}/history`);
+      const data = response as unknown as { history: ApiOrderHistoryItem[] };
+      return data.history;
+    },
+    enabled: !!id,
+  });
+}
+
+/**
+ * Hook to fetch an order's payments and wallet transactions (charges and refunds)
+ */
+export function useOrderPayments(id: string | number) {
+  return useQuery({
+    queryKey: queryKeys.orders.payments(String(id)),
+    queryFn: async () => {
+      const response = await api.get<{
+        payments: ApiPayment[];
+        transactions: ApiTransaction[];
+      }>(`/orders/${id}/payments`);
+      return response as unknown as { payments: ApiPayment[]; transactions: ApiTransaction[] };
+    },
+    enabled: !!id,
+  });
+}
+
+/**
+ * Hook to fetch every shipping label purchased for an order, including voided ones
+ */
+export function useOrderLabels(id: string | number) {
+  return useQuery({
+    queryKey: queryKeys.orders.labels(String(id)),
+    queryFn: async () => {
+      const response = await api.get<{ history: ApiShippingLabelHistory[] }>(
+        `/shipping/labels/order/${id}/history`
+      );
+      const data = response as unknown as { history: ApiShippingLabelHistory[] };
+      return data.history;
     },
     enabled: !!id,
   });
@@ -147,7 +382,7 @@ export function useCreateOrder() {
   return useMutation({
     mutationFn: async (data: CreateOrderData) => {
       const response = await api.post<ApiOrder>('/orders', data);
-      return response.data;
+      return response as unknown as ApiOrder;
     },
     onSuccess: (newOrder) => {
       // Add to cache
@@ -161,15 +396,17 @@ export function useCreateOrder() {
 }
 
 /**
- * Hook to update an order's status
+ * Hook to update an order's status.
+ * Illegal moves (see OrderStatusTransitions) are rejected without calling the API.
  */
 export function useUpdateOrderStatus() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ id, status }: UpdateOrderStatusData) => {
-      const response = await api.patch<ApiOrder>(`/orders/${id}/status`, { status });
-      return response.data;
+    mutationFn: async ({ id, currentStatus, status, notes }: UpdateOrderStatusData) => {
+      assertOrderStatusTransition(currentStatus, status);
+      const response = await api.put<ApiOrder>(`/orders/${id}/status`, { newStatus: status, notes });
+      return response as unknown as ApiOrder;
     },
     onSuccess: (updatedOrder) => {
       // Update the specific order in cache
@@ -185,6 +422,33 @@ export function useUpdateOrderStatus() {
   });
 }
 
+/**
+ * Hook to move several orders to the same status.
+ * Every order must allow the move, otherwise nothing is sent.
+ */
+export function useBulkUpdateOrderStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orders, status }: BulkUpdateOrderStatusData) => {
+      orders.forEach((order) => assertOrderStatusTransition(order.orderStatus, status));
+      const value = bulkStatusValues[status];
+      if (!value || !isBulkUpdatableStatus(status, orders.map((order) => order.orderStatus))) {
+        throw new Error('This status cannot be set in bulk');
+      }
+      const response = await api.post<{ success: boolean; updatedCount: number }>(
+        '/orders/bulk-status',
+        { orderIds: orders.map((order) => order.id), status: value }
+      );
+      return response as unknown as { success: boolean; updatedCount: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+    },
+  });
+}
+
 /**
  * Hook for bulk order operations
  */
@@ -213,22 +477,18 @@ export function useBulkOrderAction() {
 }
 
 /**
- * Hook to cancel an order
+ * Hook to cancel an order (refunds the order total to the wallet)
  */
 export function useCancelOrder() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (id: number) => {
-      const response = await api.post<ApiOrder>(`/orders/${id}/cancel`);
-      return response.data;
+      const response = await api.post<{ success: boolean; message: string }>(`/orders/${id}/cancel`);
+      return response as unknown as { success: boolean; message: string };
     },
-    onSuccess: (cancelledOrder) => {
-      // Update the specific order in cache
-      queryClient.setQueryData(
-        queryKeys.orders.detail(String(cancelledOrder.id)),
-        cancelledOrder
-      );
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.detail(String(id)) });
       // Invalidate orders list
       queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
       // Invalidate analytics
@@ -238,16 +498,13 @@ export function useCancelOrder() {
 }
 
 /**
- * Hook to export orders
+ * Hook to export orders to an Excel file
  */
 export function useExportOrders() {
   return useMutation({
     mutationFn: async (orderIds: number[]) => {
-      const response = await api.post<{ downloadUrl: string }>(
-        '/orders/export',
-        { orderIds }
-      );
-      return response.data;
+      const response = await api.post<OrderExportResponse>('/orders/export', { orderIds });
+      return response as unknown as OrderExportResponse;
     },
   });
 }
@@ -275,3 +532,553 @@ export function useOrderFulfillment(orderId: string | number) {
     enabled: !!orderId,
   });
 }
+
+/**
+ * Hook to fetch new orders grouped by identical shipping address
+ */
+export function useCombineCandidates(filters: { storeId?: number } = {}) {
+  return useQuery({
+    queryKey: queryKeys.orders.combineCandidates(filters),
+    queryFn: async () => {
+      const response = await api.get<{ groups: CombineCandidateGroup[] }>(
+        '/orders/combine-candidates',
+        filters
+      );
+      const data = response as unknown as { groups: CombineCandidateGroup[] };
+      return data.groups;
+    },
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * Hook to combine orders into the first one of the list
+ */
+export function useCombineOrders() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (orderIds: number[]) => {
+      const response = await api.post<CombineOrdersResponse>('/orders/combine', { orderIds });
+      return response as unknown as CombineOrdersResponse;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    },
+  });
+}
+
+/**
+ * Hook to fetch open orders that look like the same purchase, e.g. synced and uploaded twice
+ */
+export function useDuplicateOrders(filters: { storeId?: number; windowHours?: number } = {}) {
+  return useQuery({
+    queryKey: queryKeys.orders.duplicates(filters),
+    queryFn: async () => {
+      const response = await api.get<{ groups: DuplicateOrderGroup[] }>('/orders/duplicates', filters);
+      const data = response as unknown as { groups: DuplicateOrderGroup[] };
+      return data.groups;
+    },
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * Hook to fetch how many open orders are at risk of missing, or have missed, their ship-by time
+ */
+export function useOrderSlaSummary() {
+  return useQuery({
+    queryKey: queryKeys.orders.slaSummary(),
+    queryFn: async () => {
+      const response = await api.get<OrderSlaSummary>('/orders/sla-summary');
+      return response as unknown as OrderSlaSummary;
+    },
+    refetchInterval: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook to fetch marketplace orders still waiting to be acknowledged, oldest first
+ */
+export function useAcknowledgmentQueue(filters: { storeId?: number } = {}) {
+  return useQuery({
+    queryKey: queryKeys.orders.acknowledgments(filters),
+    queryFn: async () => {
+      const response = await api.get<AcknowledgmentQueue>('/acknowledgments', filters);
+      return response as unknown as AcknowledgmentQueue;
+    },
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * Hook to acknowledge orders on their marketplace, or retry failed ones.
+ * Large selections are sent in batches the backend accepts and the results merged.
+ */
+export function useAcknowledgeOrders() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (orderIds: number[]) => {
+      const results: AcknowledgeOrderResult[] = [];
+      for (let i = 0; i < orderIds.length; i += BULK_ACKNOWLEDGE_BATCH_SIZE) {
+        const response = await api.post<AcknowledgeOrdersResponse>('/acknowledgments/acknowledge', {
+          orderIds: orderIds.slice(i, i + BULK_ACKNOWLEDGE_BATCH_SIZE),
+        });
+        results.push(...(response as unknown as AcknowledgeOrdersResponse).results);
+      }
+
+      const acknowledged = results.filter((result) => result.success).length;
+      return {
+        acknowledged,
+        failed: results.length - acknowledged,
+        results,
+      } satisfies AcknowledgeOrdersResponse;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    },
+  });
+}
+
+/**
+ * Hook to merge, cancel or keep the duplicates of an order
+ */
+export function useResolveDuplicateOrders() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { keepOrderId: number; duplicateOrderIds: number[]; action: DuplicateResolution }) => {
+      const response = await api.post<{ success: boolean; message: string }>('/orders/duplicates/resolve', data);
+      return response as unknown as { success: boolean; message: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    },
+  });
+}
+
+/**
+ * Hook to save corrected addresses of INVALID_ADDRESS orders and return them to New Orders
+ */
+export function useCorrectOrderAddresses() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (corrections: OrderAddressCorrection[]) => {
+      const response = await api.post<CorrectAddressesResponse>('/orders/correct-addresses', { corrections });
+      return response as unknown as CorrectAddressesResponse;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    },
+  });
+}
+
+/**
+ * Hook to fetch refund requests and the amount still refundable on an order
+ */
+export function useOrderRefunds(id: string | number) {
+  return useQuery({
+    queryKey: queryKeys.orders.refunds(String(id)),
+    queryFn: async () => {
+      const response = await api.get<ApiOrderRefunds>(`/orders/${id}/refunds`);
+      return response as unknown as ApiOrderRefunds;
+    },
+    enabled: !!id,
+  });
+}
+
+/**
+ * Hook to request a refund; leave items empty to refund the whole order
+ */
+export function useRequestRefund() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      orderId,
+      items,
+      reason,
+    }: {
+      orderId: number;
+      items: ApiRefundRequestItem[];
+      reason: string;
+    }) => {
+      const response = await api.post<ApiRefundRequest>(`/orders/${orderId}/refund-requests`, {
+        items,
+        reason,
+      });
+      return response as unknown as ApiRefundRequest;
+    },
+    onSuccess: (_, { orderId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.refunds(String(orderId)) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.history(String(orderId)) });
+    },
+  });
+}
+
+/**
+ * Hook for producers to approve or deny a refund request.
+ * Approved refunds are credited to the requester's wallet.
+ */
+export function useReviewRefundRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      orderId,
+      requestId,
+      approve,
+      note,
+    }: {
+      orderId: number;
+      requestId: string;
+      approve: boolean;
+      note?: string;
+    }) => {
+      const response = await api.put<ApiRefundRequest>(
+        `/orders/${orderId}/refund-requests/${requestId}`,
+        { approve, note }
+      );
+      return response as unknown as ApiRefundRequest;
+    },
+    onSuccess: (_, { orderId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.refunds(String(orderId)) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.history(String(orderId)) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.payments(String(orderId)) });
+    },
+  });
+}
+
+/**
+ * Hook to send an order's tracking code to the marketplace it came from
+ */
+export function useSendTracking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (orderId: number) => {
+      const response = await api.post<SendTrackingResponse>(`/orders/${orderId}/send-tracking`);
+      return response as unknown as SendTrackingResponse;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    },
+  });
+}
+
+/**
+ * Hook to send tracking to the marketplace for several orders; failures are reported per order.
+ * Large selections are sent in batches the backend accepts and the results merged.
+ */
+export function useBulkSendTracking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (orderIds: number[]) => {
+      const results: SendTrackingResult[] = [];
+      for (let i = 0; i < orderIds.length; i += BULK_TRACKING_BATCH_SIZE) {
+        const response = await api.post<SendTrackingResponse>('/orders/send-tracking', {
+          orderIds: orderIds.slice(i, i + BULK_TRACKING_BATCH_SIZE),
+        });
+        results.push(...(response as unknown as SendTrackingResponse).results);
+      }
+
+      const failed = results.filter((result) => !result.success).length;
+      return {
+        success: failed === 0,
+        message:
+          failed === 0
+            ? `Tracking sent to marketplace for ${results.length} order(s)`
+            : `${results.length - failed} succeeded, ${failed} failed`,
+        results,
+      } satisfies SendTrackingResponse;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    },
+  });
+}
+
+/**
+ * Hook to fetch an order's internal note thread
+ */
+export function useOrderNotes(orderId: number) {
+  return useQuery({
+    queryKey: queryKeys.orders.notes(String(orderId)),
+    queryFn: async () => {
+      const response = await api.get<{ notes: ApiOrderNote[] }>(`/orders/${orderId}/notes`);
+      const data = response as unknown as { notes: ApiOrderNote[] };
+      return data.notes;
+    },
+    enabled: !!orderId,
+  });
+}
+
+/**
+ * Hook to fetch the staff that can be @mentioned in order notes
+ */
+export function useMentionableUsers() {
+  return useQuery({
+    queryKey: queryKeys.orders.mentionableUsers(),
+    queryFn: async () => {
+      const response = await api.get<{ users: ApiMentionableUser[] }>('/orders/notes/mentionable');
+      const data = response as unknown as { users: ApiMentionableUser[] };
+      return data.users;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook to post a note on an order; mentioned staff get a notification
+ */
+export function useAddOrderNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      orderId,
+      ...data
+    }: {
+      orderId: number;
+      note: string;
+      shared: boolean;
+      mentionedUserIds: number[];
+      attachments: ApiOrderNoteAttachment[];
+    }) => {
+      const response = await api.post<ApiOrderNote>(`/orders/${orderId}/notes`, data);
+      return response as unknown as ApiOrderNote;
+    },
+    onSuccess: (_, { orderId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.notes(String(orderId)) });
+    },
+  });
+}
+
+/**
+ * Hook to upload a file for a note that has not been posted yet
+ */
+export function useUploadOrderNoteAttachment() {
+  return useMutation({
+    mutationFn: async ({ orderId, file }: { orderId: number; file: File }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await apiClient.post<ApiOrderNoteAttachment>(`/orders/${orderId}/notes/attachments`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      return response.data;
+    },
+  });
+}
+
+/**
+ * Hook to save edited lines and address of an existing order (step 2).
+ * Paid orders move to EDITING until the edit is re-confirmed.
+ */
+export function useUpdateOrderStep2() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: UpdateOrderStep2Input }) => {
+      const response = await api.put<ApiOrder>(`/orders/${id}/step2`, data);
+      return response as unknown as ApiOrder;
+    },
+    onSuccess: (order) => {
+      queryClient.setQueryData(queryKeys.orders.detail(String(order.id)), order);
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    },
+  });
+}
+
+/**
+ * Hook to recalculate prices and shipping options of an order (step 3)
+ */
+export function useCalculateOrderPrice() {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const response = await api.get<ApiOrderStep3Price>(`/orders/${id}/step3`);
+      return response as unknown as ApiOrderStep3Price;
+    },
+  });
+}
+
+/**
+ * Hook to pick one of the shipping options returned by step 3
+ */
+export function useSelectOrderShipping() {
+  return useMutation({
+    mutationFn: async ({ id, shippingOptionIndex }: { id: number; shippingOptionIndex: number }) => {
+      const response = await api.post<ApiOrderPriceSummary>(`/orders/${id}/step3/shipping`, {
+        shippingOptionIndex,
+      });
+      return response as unknown as ApiOrderPriceSummary;
+    },
+  });
+}
+
+/**
+ * Hook to pay for an order (step 3) from the wallet balance or by card.
+ * Card payments return a Stripe checkout URL to redirect to.
+ */
+export function usePayOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...data
+    }: {
+      id: number;
+      paymentMethod: 'balance' | 'stripe';
+      isUrgent: boolean;
+      hasGiftNote?: boolean;
+    }) => {
+      const response = await api.post<ApiOrderPayment>(`/orders/${id}/step3/pay`, data);
+      return response as unknown as ApiOrderPayment;
+    },
+    onSuccess: (payment) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.detail(String(payment.orderId)) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+    },
+  });
+}
+
+/**
+ * Hook to fetch the confirmation view of an order (step 4), including the
+ * price difference when an edit is waiting to be re-confirmed
+ */
+export function useOrderConfirmation(id: string | number, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.orders.confirmation(String(id)),
+    queryFn: async () => {
+      const response = await api.get<ApiOrderStep4>(`/orders/${id}/step4`);
+      return response as unknown as ApiOrderStep4;
+    },
+    enabled: !!id && enabled,
+  });
+}
+
+/**
+ * Hook to confirm an order (step 4). For an edited order this settles the
+ * price difference and returns it to its previous status.
+ */
+export function useConfirmOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, notes }: { id: number; notes?: string }) => {
+      const response = await api.post<ApiOrder>(`/orders/${id}/step4/confirm`, {
+        confirmProduction: true,
+        notes,
+      });
+      return response as unknown as ApiOrder;
+    },
+    onSuccess: (order) => {
+      queryClient.setQueryData(queryKeys.orders.detail(String(order.id)), order);
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    },
+  });
+}
+
+/**
+ * Hook to fetch the current user's unsubmitted order drafts
+ */
+export function useOrderDrafts() {
+  return useQuery({
+    queryKey: queryKeys.orders.drafts(),
+    queryFn: async () => {
+      const response = await api.get<{ drafts: ApiOrder[] }>('/orders/drafts');
+      return (response as unknown as { drafts: ApiOrder[] }).drafts;
+    },
+  });
+}
+
+/**
+ * Hook to autosave a manual order draft, creating it on the first save
+ */
+export function useSaveOrderDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...data }: SaveOrderDraftInput) => {
+      const response = id
+        ? await api.put<ApiOrder>(`/orders/drafts/${id}`, data)
+        : await api.post<ApiOrder>('/orders/drafts', data);
+      return response as unknown as ApiOrder;
+    },
+    onSuccess: (draft) => {
+      queryClient.setQueryData(queryKeys.orders.detail(String(draft.id)), draft);
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.drafts() });
+    },
+  });
+}
+
+/**
+ * Hook to discard an order draft
+ */
+export function useDiscardOrderDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await api.delete(`/orders/drafts/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.orders.detail(String(id)) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.drafts() });
+    },
+  });
+}
+
+/**
+ * Hook to fetch the current user's saved filter views for an order page
+ */
+export function useSavedOrderViews(page: OrderViewPage) {
+  return useQuery({
+    queryKey: queryKeys.orders.views(page),
+    queryFn: async () => {
+      const response = await api.get<{ views: SavedOrderView[] }>('/orders/views', { page });
+      return (response as unknown as { views: SavedOrderView[] }).views;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook to save the current order filters as a named view
+ */
+export function useCreateSavedOrderView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: Pick<SavedOrderView, 'name' | 'page' | 'query'>) => {
+      const response = await api.post<SavedOrderView>('/orders/views', data);
+      return response as unknown as SavedOrderView;
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.views(view.page) });
+    },
+  });
+}
+
+/**
+ * Hook to remove a saved order view
+ */
+export function useDeleteSavedOrderView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (view: SavedOrderView) => {
+      await api.delete(`/orders/views/${view.id}`);
+      return view;
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.views(view.page) });
+    },
+  });
+}
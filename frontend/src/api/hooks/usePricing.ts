@@ -0,0 +1,70 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { api } from '@/api/client';
+import type { ApiAddress } from '@/types';
+
+// Matches backend PriceItem
+export interface PriceQuoteItem {
+  variantId: number;
+  quantity: number;
+  modificationIds?: number[];
+  stitchCount?: number;
+}
+
+// Matches backend PriceCalculationRequest
+export interface PriceQuoteRequest {
+  items: PriceQuoteItem[];
+  priceProfileId?: number;
+  shippingMethodId?: number;
+  destinationAddress?: ApiAddress;
+  hasGiftNote?: boolean;
+  isUrgent?: boolean;
+}
+
+export interface PriceQuoteItemDetail {
+  variantId: number;
+  quantity: number;
+  basePrice: string;
+  modificationPrice: string;
+  stitchPrice: string;
+  giftNotePrice: string;
+  discount: string;
+  lineTotal: string;
+}
+
+// Matches backend PriceCalculationResult
+export interface PriceQuote {
+  subtotal: string;
+  totalDiscount: string;
+  totalModifications: string;
+  totalStitchCharges: string;
+  totalGiftNotes: string;
+  total: string;
+  itemDetails: PriceQuoteItemDetail[];
+  shippingPrice: string;
+  shippingMethodName?: string;
+  giftNotePrice: string;
+  urgentPrice: string;
+  grandTotal: string;
+}
+
+export const pricingKeys = {
+  all: ['pricing'] as const,
+  quote: (request: PriceQuoteRequest | null) => [...pricingKeys.all, 'quote', request] as const,
+};
+
+/**
+ * Hook to get a server-side itemized price quote for order lines
+ */
+export function usePriceQuote(request: PriceQuoteRequest | null) {
+  return useQuery({
+    queryKey: pricingKeys.quote(request),
+    queryFn: async () => {
+      const response = await api.post<PriceQuote>('/calculate/price', request);
+      return response as unknown as PriceQuote;
+    },
+    enabled: !!request && request.items.length > 0,
+    // Keep showing the last quote while lines are being edited
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000,
+  });
+}
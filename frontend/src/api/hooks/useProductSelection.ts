@@ -1,6 +1,13 @@
-import { useQuery, useMutation } from '@tanstack/react-query';
-import { api } from '@/api/client';
-import type { ProductSelectionData, ExcelImportResult } from '@/types';
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient, { api } from '@/api/client';
+import { queryKeys } from '@/api/queryKeys';
+import type {
+  ProductSelectionData,
+  ExcelImportResult,
+  ExcelSheetPreview,
+  ImportOrderRow,
+  ImportRowValidation,
+} from '@/types';
 
 /**
  * Hook to fetch product selection data for manual order creation
@@ -10,39 +17,85 @@ export function useProductSelectionData() {
     queryKey: ['orders', 'product-selection-data'],
     queryFn: async () => {
       const response = await api.get<ProductSelectionData>('/orders/product-selection-data');
-      return response.data;
+      return response as unknown as ProductSelectionData;
     },
     staleTime: 5 * 60 * 1000, // 5 minutes - this data doesn't change often
   });
 }
 
 /**
- * Hook to import orders from Excel file
+ * Hook to save a product's default customs description and HS code
  */
-export function useImportOrdersFromExcel() {
+export function useSaveProductCustomsDefaults() {
+  const queryClient = useQueryClient();
+
   return useMutation({
-    mutationFn: async ({ file, storeId }: { file: File; storeId?: string }) => {
+    mutationFn: async ({
+      productId,
+      customsDescription,
+      hsTariffNumber,
+    }: {
+      productId: number;
+      customsDescription: string;
+      hsTariffNumber: string;
+    }) => {
+      await api.put(`/products/${productId}`, { customsDescription, hsTariffNumber });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orders', 'product-selection-data'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+    },
+  });
+}
+
+/**
+ * Hook to read a spreadsheet for column mapping, nothing is imported yet
+ */
+export function usePreviewExcelImport() {
+  return useMutation({
+    mutationFn: async (file: File) => {
       const formData = new FormData();
       formData.append('file', file);
 
-      const url = storeId
-        ? `/orders/import-excel?storeId=${storeId}`
-        : '/orders/import-excel';
+      const response = await apiClient.post<ExcelSheetPreview>('/orders/import-excel/preview', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      return response.data;
+    },
+  });
+}
 
-      const response = await fetch(
-        `${import.meta.env.VITE_API_URL || 'http://localhost:8000/api/v1'}${url}`,
-        {
-          method: 'POST',
-          body: formData,
-          credentials: 'include',
-        }
-      );
+/**
+ * Hook to check mapped spreadsheet rows (address, quantity, SKU or product) before importing
+ */
+export function useValidateImportRows(rows: ImportOrderRow[] | null) {
+  return useQuery({
+    queryKey: queryKeys.orders.importValidation(rows),
+    queryFn: async () => {
+      const response = await api.post<{ rows: ImportRowValidation[] }>('/orders/import-excel/validate', { rows });
+      const data = response as unknown as { rows: ImportRowValidation[] };
+      return data.rows;
+    },
+    enabled: !!rows && rows.length > 0,
+    // Keep the previous result on screen while an edited row is re-checked
+    placeholderData: keepPreviousData,
+  });
+}
 
-      if (!response.ok) {
-        throw new Error('Failed to import Excel file');
-      }
+/**
+ * Hook to import mapped spreadsheet rows, rows that fail validation are skipped
+ */
+export function useImportOrderRows() {
+  const queryClient = useQueryClient();
 
-      return response.json() as Promise<ExcelImportResult>;
+  return useMutation({
+    mutationFn: async ({ rows, storeId }: { rows: ImportOrderRow[]; storeId?: string }) => {
+      const url = storeId ? `/orders/import-excel/rows?storeId=${storeId}` : '/orders/import-excel/rows';
+      const response = await api.post<ExcelImportResult>(url, { rows });
+      return response as unknown as ExcelImportResult;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
     },
   });
 }
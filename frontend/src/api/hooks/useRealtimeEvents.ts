@@ -0,0 +1,169 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { API_BASE_URL, getRequestHeaders } from '@/api/client';
+import { queryKeys } from '@/api/queryKeys';
+import { gangsheetKeys } from './useGangsheet';
+import { useIsAuthenticated } from '@/stores/authStore';
+import { useTenant } from '@/stores/tenantStore';
+import { useRealtimeStore, type SyncProgress } from '@/stores/realtimeStore';
+
+// Matches backend RealtimeEventService event types
+type RealtimeEventType = 'orders.changed' | 'sync.progress' | 'gangsheet.progress' | 'notification.created';
+
+const MIN_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+// Bulk actions change many orders at once; refetch once they have settled
+const ORDER_REFETCH_DELAY = 500;
+
+// How long a finished sync stays visible in the header
+const SYNC_CLEAR_DELAY = 5000;
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+// Reads a text/event-stream body, calling onEvent for every complete event until the stream ends
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (type: string, data: string) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let type = 'message';
+      const data: string[] = [];
+      block.split('\n').forEach((line) => {
+        // Lines starting with ':' are comments (heartbeats)
+        if (line.startsWith('event:')) type = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+      });
+
+      if (data.length > 0) onEvent(type, data.join('\n'));
+    }
+  }
+}
+
+/**
+ * Hook to keep the query cache current from the server's event stream.
+ * Mount once for the signed-in app; it reconnects with backoff and refetches what may have been missed.
+ */
+export function useRealtimeEvents() {
+  const queryClient = useQueryClient();
+  const isAuthenticated = useIsAuthenticated();
+  const tenantId = useTenant()?.id;
+
+  useEffect(() => {
+    if (!isAuthenticated || !tenantId) return;
+
+    const controller = new AbortController();
+    const { setConnected, setSync } = useRealtimeStore.getState();
+    let orderRefetchTimer: ReturnType<typeof setTimeout> | undefined;
+    let syncClearTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const refetchOrders = () => {
+      clearTimeout(orderRefetchTimer);
+      orderRefetchTimer = setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+        queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+      }, ORDER_REFETCH_DELAY);
+    };
+
+    const handleEvent = (type: string, data: string) => {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(data);
+      } catch {
+        return;
+      }
+
+      switch (type as RealtimeEventType) {
+        case 'orders.changed':
+          refetchOrders();
+          break;
+        case 'gangsheet.progress':
+          queryClient.invalidateQueries({ queryKey: gangsheetKeys.all });
+          break;
+        case 'notification.created':
+          queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+          break;
+        case 'sync.progress': {
+          const sync = payload as SyncProgress;
+          clearTimeout(syncClearTimer);
+          setSync(sync);
+          if (sync.status !== 'running') {
+            if (sync.status === 'completed') refetchOrders();
+            syncClearTimer = setTimeout(() => setSync(null), SYNC_CLEAR_DELAY);
+          }
+          break;
+        }
+      }
+    };
+
+    const connect = async () => {
+      let retryDelay = MIN_RETRY_DELAY;
+      let reconnecting = false;
+
+      while (!controller.signal.aborted) {
+        try {
+          const response = await fetch(`${API_BASE_URL}/events`, {
+            headers: { ...getRequestHeaders(), Accept: 'text/event-stream' },
+            signal: controller.signal,
+          });
+          if (!response.ok || !response.body) {
+            throw new Error(`Event stream failed with status ${response.status}`);
+          }
+
+          setConnected(true);
+          retryDelay = MIN_RETRY_DELAY;
+          if (reconnecting) {
+            // Events sent while disconnected are lost; refetch what they would have updated
+            refetchOrders();
+            queryClient.invalidateQueries({ queryKey: gangsheetKeys.all });
+            queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+          }
+
+          await readEventStream(response.body, handleEvent);
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error('Realtime event stream error:', error);
+        }
+
+        // Polling takes over until the stream is back
+        setConnected(false);
+        reconnecting = true;
+        await wait(retryDelay, controller.signal);
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(orderRefetchTimer);
+      clearTimeout(syncClearTimer);
+      setConnected(false);
+      setSync(null);
+    };
+  }, [isAuthenticated, tenantId, queryClient]);
+}
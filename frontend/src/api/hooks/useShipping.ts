@@ -0,0 +1,239 @@
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { api } from '@/api/client';
+import type { ApiAddress, ApiOrder } from '@/types';
+
+// Matches backend ShippingCalculationRequest
+export interface ShippingCalculationItem {
+  variantId: number;
+  quantity: number;
+  categoryId?: number;
+  isHeavy?: boolean;
+  weight?: string;
+}
+
+export interface ShippingCalculationRequest {
+  items: ShippingCalculationItem[];
+  destinationAddress: ApiAddress;
+  shippingProfileId?: number;
+  shippingMethodId?: number;
+}
+
+export interface ShippingMethodRate {
+  methodId: number;
+  methodName: string;
+  carrier?: string;
+  rate: string;
+  estimatedDays?: string;
+}
+
+export interface ShippingCalculationResult {
+  totalShipping: string;
+  breakdown?: {
+    profileType: string;
+    itemCount: number;
+    heavyItemCount: number;
+    lightItemCount: number;
+    baseRate: string;
+    markup: string;
+  };
+  availableMethods: ShippingMethodRate[];
+}
+
+// Matches backend ShippingAddress (EasyPost address)
+export interface CarrierAddress {
+  name: string;
+  company?: string;
+  street1: string;
+  street2?: string;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+  phone?: string;
+}
+
+// Matches backend RateRequest for a cart that is not saved as an order yet
+export interface CartRateRequest {
+  toAddress: CarrierAddress;
+  items: ShippingCalculationItem[];
+}
+
+// Matches backend ShippingRate
+export interface CarrierRate {
+  id: string;
+  shipmentId?: string;
+  carrier: string;
+  service: string;
+  rate: string;
+  currency: string;
+  deliveryDays?: number;
+  estDeliveryDays?: number;
+}
+
+export interface CarrierRateResult {
+  shipmentId: string;
+  rates: CarrierRate[];
+  messages: string[];
+}
+
+// Matches backend ValidateAddressResponse
+export interface AddressValidationResult {
+  isValid: boolean;
+  address: CarrierAddress;
+  suggestedAddress?: CarrierAddress;
+  messages: string[];
+  errors: string[];
+}
+
+export const shippingKeys = {
+  all: ['shipping'] as const,
+  calculation: (request: ShippingCalculationRequest | null) =>
+    [...shippingKeys.all, 'calculation', request] as const,
+  cartRates: (request: CartRateRequest | null) => [...shippingKeys.all, 'cartRates', request] as const,
+  addressValidation: (address: CarrierAddress | null) =>
+    [...shippingKeys.all, 'addressValidation', address] as const,
+  originCountry: () => [...shippingKeys.all, 'originCountry'] as const,
+};
+
+async function calculateShipping(request: ShippingCalculationRequest) {
+  const response = await api.post<ShippingCalculationResult>('/calculate/shipping', request);
+  return response as unknown as ShippingCalculationResult;
+}
+
+/**
+ * Hook to fetch live carrier rates for a cart, weighed from its variants
+ */
+export function useCarrierRates(request: CartRateRequest | null) {
+  return useQuery({
+    queryKey: shippingKeys.cartRates(request),
+    queryFn: async () => {
+      const response = await api.post<CarrierRateResult>('/shipping/rates', request);
+      return response as unknown as CarrierRateResult;
+    },
+    enabled: !!request && request.items.length > 0,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+}
+
+async function validateAddress(address: CarrierAddress) {
+  const response = await api.post<AddressValidationResult>('/shipping/validate-address', { address });
+  return response as unknown as AddressValidationResult;
+}
+
+// Carrier checks a bulk validation keeps in flight; the rest wait for a free slot
+const MAX_CONCURRENT_VALIDATIONS = 4;
+let activeValidations = 0;
+const waitingValidations: (() => void)[] = [];
+
+async function validateAddressQueued(address: CarrierAddress) {
+  if (activeValidations < MAX_CONCURRENT_VALIDATIONS) {
+    activeValidations++;
+  } else {
+    await new Promise<void>((resolve) => waitingValidations.push(resolve));
+  }
+  try {
+    return await validateAddress(address);
+  } finally {
+    // A finished check hands its slot straight to the next waiting one
+    const next = waitingValidations.shift();
+    if (next) next();
+    else activeValidations--;
+  }
+}
+
+/**
+ * Hook to verify a shipping address with the carrier and get its suggested correction
+ */
+export function useAddressValidation(address: CarrierAddress | null) {
+  return useQuery({
+    queryKey: shippingKeys.addressValidation(address),
+    queryFn: () => validateAddress(address!),
+    enabled: !!address,
+    staleTime: 30 * 60 * 1000,
+    retry: false,
+  });
+}
+
+/**
+ * Hook to verify a list of addresses, a few at a time; results are in the same order
+ */
+export function useAddressValidations(addresses: (CarrierAddress | null)[]) {
+  return useQueries({
+    queries: addresses.map((address) => ({
+      queryKey: shippingKeys.addressValidation(address),
+      queryFn: () => validateAddressQueued(address!),
+      enabled: !!address,
+      staleTime: 30 * 60 * 1000,
+      retry: false,
+    })),
+  });
+}
+
+/**
+ * Hook to get the country orders ship from (the default label address), US when none is set
+ */
+export function useOriginCountry() {
+  return useQuery({
+    queryKey: shippingKeys.originCountry(),
+    queryFn: async () => {
+      try {
+        const response = await api.get<{ countryIso?: string }>('/label-addresses/default');
+        return (response as unknown as { countryIso?: string }).countryIso || 'US';
+      } catch {
+        return 'US';
+      }
+    },
+    staleTime: 30 * 60 * 1000,
+  });
+}
+
+// Shipping items for the mapped products of an order (unmapped products have no variant to price)
+function toShippingItems(order: ApiOrder): ShippingCalculationItem[] {
+  return (order.products ?? [])
+    .filter((product) => product.variantId)
+    .map((product) => ({ variantId: product.variantId!, quantity: product.quantity }));
+}
+
+/**
+ * Hook to compare shipping for orders sent separately vs. combined into one parcel
+ */
+export function useCombineShippingPreview(orders: ApiOrder[], destinationAddress?: ApiAddress, enabled = true) {
+  const separateRequests = orders.map((order) => ({
+    items: toShippingItems(order),
+    destinationAddress: destinationAddress ?? {},
+  }));
+  const combinedRequest: ShippingCalculationRequest = {
+    items: separateRequests.flatMap((request) => request.items),
+    destinationAddress: destinationAddress ?? {},
+  };
+
+  const results = useQueries({
+    queries: [combinedRequest, ...separateRequests].map((request) => ({
+      queryKey: shippingKeys.calculation(request),
+      queryFn: () => calculateShipping(request),
+      enabled: enabled && !!destinationAddress && request.items.length > 0,
+      staleTime: 5 * 60 * 1000,
+    })),
+  });
+
+  const [combined, ...separate] = results;
+  const combinedShipping = parseFloat(combined?.data?.totalShipping ?? '') || 0;
+  const separateShipping = separate.reduce(
+    (sum, result) => sum + (parseFloat(result.data?.totalShipping ?? '') || 0),
+    0
+  );
+  const unmappedCount = orders.reduce(
+    (count, order) => count + (order.products ?? []).filter((product) => !product.variantId).length,
+    0
+  );
+
+  return {
+    combinedShipping,
+    separateShipping,
+    savings: Math.max(0, separateShipping - combinedShipping),
+    unmappedCount,
+    isLoading: results.some((result) => result.isLoading),
+    isError: results.some((result) => result.isError),
+  };
+}
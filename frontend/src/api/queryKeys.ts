@@ -33,9 +33,37 @@ export const queryKeys = {
     all: ['orders'] as const,
     list: (filters?: object) =>
       [...queryKeys.orders.all, 'list', filters] as const,
+    infinite: (filters?: object) =>
+      [...queryKeys.orders.all, 'infinite', filters] as const,
+    ids: (filters?: object) =>
+      [...queryKeys.orders.all, 'ids', filters] as const,
     detail: (id: string) => [...queryKeys.orders.all, 'detail', id] as const,
     fulfillment: (orderId: string) =>
       [...queryKeys.orders.all, orderId, 'fulfillment'] as const,
+    history: (orderId: string) =>
+      [...queryKeys.orders.all, orderId, 'history'] as const,
+    payments: (orderId: string) =>
+      [...queryKeys.orders.all, orderId, 'payments'] as const,
+    labels: (orderId: string) =>
+      [...queryKeys.orders.all, orderId, 'labels'] as const,
+    refunds: (orderId: string) =>
+      [...queryKeys.orders.all, orderId, 'refunds'] as const,
+    notes: (orderId: string) =>
+      [...queryKeys.orders.all, orderId, 'notes'] as const,
+    mentionableUsers: () => [...queryKeys.orders.all, 'mentionable-users'] as const,
+    confirmation: (orderId: string) =>
+      [...queryKeys.orders.all, orderId, 'confirmation'] as const,
+    combineCandidates: (filters?: object) =>
+      [...queryKeys.orders.all, 'combine-candidates', filters] as const,
+    drafts: () => [...queryKeys.orders.all, 'drafts'] as const,
+    views: (page: string) => [...queryKeys.orders.all, 'views', page] as const,
+    duplicates: (filters?: object) =>
+      [...queryKeys.orders.all, 'duplicates', filters] as const,
+    importValidation: (rows: object[] | null) =>
+      [...queryKeys.orders.all, 'import-validation', rows] as const,
+    slaSummary: () => [...queryKeys.orders.all, 'sla-summary'] as const,
+    acknowledgments: (filters?: object) =>
+      [...queryKeys.orders.all, 'acknowledgments', filters] as const,
   },
 
   // Customers
@@ -47,6 +75,8 @@ export const queryKeys = {
       [...queryKeys.customers.all, 'detail', id] as const,
     orders: (customerId: string) =>
       [...queryKeys.customers.all, customerId, 'orders'] as const,
+    addressSuggestions: (search: string) =>
+      [...queryKeys.customers.all, 'address-suggestions', search] as const,
   },
 
   // Analytics
@@ -69,6 +99,21 @@ export const queryKeys = {
     categories: () => [...queryKeys.catalog.all, 'categories'] as const,
   },
 
+  // Exports
+  exports: {
+    all: ['exports'] as const,
+    history: (filters?: object) =>
+      [...queryKeys.exports.all, 'history', filters] as const,
+    columns: (type: string) =>
+      [...queryKeys.exports.all, 'columns', type] as const,
+  },
+
+  // Notifications
+  notifications: {
+    all: ['notifications'] as const,
+    unread: () => [...queryKeys.notifications.all, 'unread'] as const,
+  },
+
   // Designs
   designs: {
     all: ['designs'] as const,
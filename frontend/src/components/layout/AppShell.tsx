@@ -1,10 +1,13 @@
 import { useState, useEffect } from 'react';
 import { Outlet } from 'react-router-dom';
-import { Menu, Search, Bell, Sun, Moon, User } from 'lucide-react';
+import { Menu, Search, Sun, Moon, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Sidebar } from './Sidebar';
+import { NotificationsMenu } from './NotificationsMenu';
+import { SyncStatus } from './SyncStatus';
 import { useUser } from '@/stores/authStore';
 import { useTenantBranding } from '@/hooks/useTenant';
+import { useRealtimeEvents } from '@/api/hooks';
 
 interface AppShellProps {
   children?: React.ReactNode;
@@ -19,6 +22,9 @@ export function AppShell({ children }: AppShellProps) {
   const user = useUser();
   const branding = useTenantBranding();
 
+  // Keep orders, gangsheets and notifications current while the app is open
+  useRealtimeEvents();
+
   // Initialize dark mode from localStorage or system preference
   useEffect(() => {
     const stored = localStorage.getItem('theme');
@@ -128,6 +134,8 @@ export function AppShell({ children }: AppShellProps) {
 
           {/* Right side */}
           <div className="flex items-center gap-2">
+            <SyncStatus />
+
             {/* Theme toggle */}
             <button
               onClick={() => setIsDark(!isDark)}
@@ -142,13 +150,7 @@ export function AppShell({ children }: AppShellProps) {
             </button>
 
             {/* Notifications */}
-            <button
-              className="relative p-2 rounded-lg hover:bg-accent transition-colors"
-              title="Notifications"
-            >
-              <Bell className="w-5 h-5" />
-              <span className="absolute top-1 right-1 w-2 h-2 bg-destructive rounded-full" />
-            </button>
+            <NotificationsMenu />
 
             {/* User menu */}
             <div className="flex items-center gap-3 ml-2 pl-4 border-l border-border">
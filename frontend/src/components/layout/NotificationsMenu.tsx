@@ -0,0 +1,93 @@
+import { useNavigate } from 'react-router-dom';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import { Bell } from 'lucide-react';
+import { cn, formatDate } from '@/lib/utils';
+import {
+  useUnreadNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  type AppNotification,
+} from '@/api/hooks';
+
+const priorityDot: Record<AppNotification['priority'], string> = {
+  low: 'bg-muted-foreground',
+  medium: 'bg-primary',
+  high: 'bg-orange-500',
+  critical: 'bg-destructive',
+};
+
+export function NotificationsMenu() {
+  const navigate = useNavigate();
+  const { data: notifications = [] } = useUnreadNotifications();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const handleOpen = (notification: AppNotification) => {
+    markRead.mutate(notification.id);
+    if (!notification.url) return;
+    if (notification.url.startsWith('/')) {
+      navigate(notification.url);
+    } else {
+      window.open(notification.url, '_blank', 'noopener');
+    }
+  };
+
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger asChild>
+        <button
+          className="relative p-2 rounded-lg hover:bg-accent transition-colors"
+          title="Notifications"
+        >
+          <Bell className="w-5 h-5" />
+          {notifications.length > 0 && (
+            <span className="absolute top-1 right-1 w-2 h-2 bg-destructive rounded-full" />
+          )}
+        </button>
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content
+          className="z-50 w-80 rounded-md border bg-popover shadow-md"
+          align="end"
+          sideOffset={8}
+        >
+          <div className="flex items-center justify-between border-b px-3 py-2">
+            <span className="text-sm font-medium">Notifications</span>
+            {notifications.length > 0 && (
+              <button
+                className="text-xs text-primary hover:underline disabled:opacity-50"
+                onClick={() => markAllRead.mutate()}
+                disabled={markAllRead.isPending}
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto p-1">
+              {notifications.map((notification) => (
+                <DropdownMenu.Item
+                  key={notification.id}
+                  onSelect={() => handleOpen(notification)}
+                  className="flex cursor-pointer gap-2 rounded-sm px-2 py-2 outline-none hover:bg-accent focus:bg-accent"
+                >
+                  <span
+                    className={cn('mt-1.5 h-2 w-2 flex-shrink-0 rounded-full', priorityDot[notification.priority])}
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{notification.title}</p>
+                    <p className="text-sm text-muted-foreground break-words">{notification.message}</p>
+                    <p className="text-xs text-muted-foreground">{formatDate(notification.createdAt)}</p>
+                  </div>
+                </DropdownMenu.Item>
+              ))}
+            </div>
+          )}
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
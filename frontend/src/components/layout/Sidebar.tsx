@@ -13,6 +13,7 @@ import {
   Palette,
   Truck,
   LogOut,
+  FileSpreadsheet,
   Layers,
   Link2,
 } from 'lucide-react';
@@ -62,8 +63,12 @@ function getNavigationGroups(role: UserRole | undefined): NavGroup[] {
           subItems: [
             { title: 'New Orders', href: '/orders/new-orders' },
             { title: 'Order List', href: '/orders/list' },
+            { title: 'Drafts', href: '/orders/drafts' },
+            { title: 'Invalid Addresses', href: '/orders/invalid-addresses' },
+            { title: 'Acknowledgments', href: '/orders/acknowledgments' },
           ]
         },
+        { title: 'Exports', href: '/exports', icon: FileSpreadsheet },
       ],
     },
   ];
@@ -0,0 +1,33 @@
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { useRealtimeStore } from '@/stores/realtimeStore';
+
+// Marketplace sync progress pushed over the event stream, shown in the header while it runs
+export function SyncStatus() {
+  const sync = useRealtimeStore((state) => state.sync);
+  if (!sync) return null;
+
+  return (
+    <div
+      className="hidden md:flex items-center gap-2 px-3 py-1.5 text-xs text-muted-foreground bg-muted rounded-lg"
+      title={sync.message}
+    >
+      {sync.status === 'running' ? (
+        <>
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          Syncing orders
+          {sync.total > 0 && ` ${sync.processed.toLocaleString()}/${sync.total.toLocaleString()}`}
+        </>
+      ) : sync.status === 'completed' ? (
+        <>
+          <CheckCircle2 className="w-3.5 h-3.5 text-green-600" />
+          Sync complete{sync.message && `: ${sync.message}`}
+        </>
+      ) : (
+        <>
+          <XCircle className="w-3.5 h-3.5 text-destructive" />
+          Sync failed
+        </>
+      )}
+    </div>
+  );
+}
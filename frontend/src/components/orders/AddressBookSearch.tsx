@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { BookUser, History, Loader2, Search, Star, Trash2 } from 'lucide-react';
+import {
+  useAddressSuggestions,
+  useDeleteCustomerAddress,
+  useSetDefaultCustomerAddress,
+  type AddressSuggestion,
+} from '@/api/hooks';
+import { cn } from '@/lib/utils';
+import { formatAddressLine } from './addressValidation';
+
+interface AddressBookSearchProps {
+  onSelect: (suggestion: AddressSuggestion) => void;
+  className?: string;
+}
+
+/**
+ * Customer autocomplete that fills an order address from the address book or a past order
+ */
+export function AddressBookSearch({ onSelect, className }: AddressBookSearchProps) {
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Search once typing settles
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(search), 250);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const { data: suggestions = [], isFetching } = useAddressSuggestions(query);
+  const setDefaultAddress = useSetDefaultCustomerAddress();
+  const deleteAddress = useDeleteCustomerAddress();
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [suggestions]);
+
+  const showList = isOpen && query.trim().length >= 2;
+
+  const handleSelect = (suggestion: AddressSuggestion) => {
+    onSelect(suggestion);
+    setSearch('');
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showList || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((index) => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSelect(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const handleSetDefault = async (suggestion: AddressSuggestion) => {
+    try {
+      await setDefaultAddress.mutateAsync({ customerId: suggestion.customerId!, addressId: suggestion.addressId! });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to set default address');
+    }
+  };
+
+  const handleDelete = async (suggestion: AddressSuggestion) => {
+    if (!confirm(`Remove this address from ${suggestion.customerName}'s address book?`)) return;
+    try {
+      await deleteAddress.mutateAsync({ customerId: suggestion.customerId!, addressId: suggestion.addressId! });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to remove address');
+    }
+  };
+
+  return (
+    <div className={cn('relative', className)}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search customers and past orders..."
+          className="w-full pl-9 pr-9 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+          role="combobox"
+          aria-expanded={showList}
+          aria-autocomplete="list"
+        />
+        {isFetching && (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {showList && (
+        <div
+          role="listbox"
+          // Keep focus in the input so clicking a suggestion doesn't close the list first
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute z-20 mt-1 w-full max-h-80 overflow-y-auto rounded-lg border border-border bg-popover shadow-md"
+        >
+          {suggestions.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-muted-foreground">
+              {isFetching ? 'Searching...' : 'No saved customers or past orders match'}
+            </p>
+          ) : (
+            suggestions.map((suggestion, index) => {
+              const saved = suggestion.source === 'saved';
+              return (
+                <div
+                  key={saved ? `address-${suggestion.addressId}` : `order-${suggestion.orderId}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onClick={() => handleSelect(suggestion)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={cn(
+                    'group flex items-start gap-3 px-3 py-2 text-sm cursor-pointer',
+                    index === activeIndex && 'bg-muted'
+                  )}
+                >
+                  {saved ? (
+                    <BookUser className="w-4 h-4 mt-0.5 flex-shrink-0 text-primary" />
+                  ) : (
+                    <History className="w-4 h-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{suggestion.customerName}</span>
+                      {suggestion.isDefault && (
+                        <span className="rounded-full bg-primary/10 px-2 py-0.5 text-xs text-primary">Default</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[suggestion.address.company, formatAddressLine(suggestion.address)].filter(Boolean).join(' · ')}
+                    </p>
+                    {!saved && <p className="text-xs text-muted-foreground">From a past order</p>}
+                  </div>
+                  {saved && (
+                    <div className="flex gap-1 opacity-0 group-hover:opacity-100">
+                      {!suggestion.isDefault && (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleSetDefault(suggestion);
+                          }}
+                          className="p-1 rounded hover:bg-background text-muted-foreground hover:text-foreground"
+                          title="Make default address"
+                        >
+                          <Star className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(suggestion);
+                        }}
+                        className="p-1 rounded hover:bg-background text-muted-foreground hover:text-destructive"
+                        title="Remove from address book"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { useAddressValidation, type CarrierAddress } from '@/api/hooks';
+import type { ApiAddress } from '@/types';
+import { cn } from '@/lib/utils';
+import { formatAddressLine, toCarrierAddress } from './addressValidation';
+
+interface AddressValidationNoticeProps {
+  address: ApiAddress;
+  onUseSuggestion?: (suggested: CarrierAddress) => void;
+  className?: string;
+}
+
+export function AddressValidationNotice({ address, onUseSuggestion, className }: AddressValidationNoticeProps) {
+  // Verify once typing settles, every check is a carrier API call
+  const [carrierAddress, setCarrierAddress] = useState<CarrierAddress | null>(null);
+  const addressKey = JSON.stringify(toCarrierAddress(address));
+  useEffect(() => {
+    const timeout = setTimeout(() => setCarrierAddress(JSON.parse(addressKey) as CarrierAddress | null), 800);
+    return () => clearTimeout(timeout);
+  }, [addressKey]);
+
+  const { data: result, isFetching, isError } = useAddressValidation(carrierAddress);
+
+  if (!carrierAddress) return null;
+
+  if (isFetching) {
+    return (
+      <p className={cn('flex items-center gap-2 text-sm text-muted-foreground', className)}>
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Verifying address...
+      </p>
+    );
+  }
+
+  if (isError || !result) {
+    return <p className={cn('text-sm text-muted-foreground', className)}>Address could not be verified</p>;
+  }
+
+  if (result.isValid && !result.suggestedAddress) {
+    return (
+      <p className={cn('flex items-center gap-2 text-sm text-green-600', className)}>
+        <CheckCircle className="h-4 w-4" />
+        Address verified
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn('rounded-lg border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800 dark:border-yellow-900/50 dark:bg-yellow-900/20 dark:text-yellow-400', className)}>
+      <p className="flex items-center gap-2 font-medium">
+        <AlertTriangle className="h-4 w-4" />
+        {result.suggestedAddress ? 'The carrier suggests a corrected address' : 'The carrier could not verify this address'}
+      </p>
+      {result.errors.length > 0 && (
+        <ul className="mt-1 list-disc pl-6">
+          {result.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      {result.suggestedAddress && (
+        <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+          <span>{formatAddressLine(result.suggestedAddress)}</span>
+          {onUseSuggestion && (
+            <button
+              type="button"
+              onClick={() => onUseSuggestion(result.suggestedAddress!)}
+              className="px-3 py-1 text-xs font-medium bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
+            >
+              Use suggested address
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
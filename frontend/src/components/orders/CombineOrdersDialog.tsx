@@ -0,0 +1,254 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import * as Dialog from '@radix-ui/react-dialog';
+import { XIcon, ChevronLeftIcon, ChevronRightIcon, Loader2, MapPin, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { cn, formatCurrency } from '@/lib/utils';
+import { useCombineOrders, useCombineShippingPreview, type CombineCandidateGroup } from '@/api/hooks';
+
+interface CombineOrdersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  groups: CombineCandidateGroup[];
+}
+
+export function CombineOrdersDialog({ open, onOpenChange, groups }: CombineOrdersDialogProps) {
+  const navigate = useNavigate();
+  const combineOrders = useCombineOrders();
+  const [groupIndex, setGroupIndex] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [parentId, setParentId] = useState<number | null>(null);
+  const [wasOpen, setWasOpen] = useState(false);
+
+  const group = groups[Math.min(groupIndex, groups.length - 1)];
+
+  // Default to every order in the group, with the oldest one as the parent
+  const selectGroup = (index: number) => {
+    const orders = groups[index]?.orders ?? [];
+    setGroupIndex(index);
+    setSelectedIds(orders.map((order) => order.id));
+    setParentId(orders[0]?.id ?? null);
+  };
+
+  // Reset the selection when the dialog opens, not when the candidates refetch while it is open
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) selectGroup(Math.max(0, Math.min(groupIndex, groups.length - 1)));
+  }
+
+  const selectedOrders = useMemo(
+    () => (group?.orders ?? []).filter((order) => selectedIds.includes(order.id)),
+    [group, selectedIds]
+  );
+  const mergedProducts = selectedOrders.flatMap((order) =>
+    (order.products ?? []).map((product) => ({ order, product }))
+  );
+
+  const preview = useCombineShippingPreview(selectedOrders, group?.address, open && selectedOrders.length > 1);
+
+  const toggleOrder = (orderId: number) => {
+    setSelectedIds((current) => {
+      const next = current.includes(orderId)
+        ? current.filter((id) => id !== orderId)
+        : [...current, orderId];
+      if (orderId === parentId && !next.includes(orderId)) {
+        setParentId(next[0] ?? null);
+      }
+      return next;
+    });
+  };
+
+  const handleCombine = async () => {
+    if (parentId === null || selectedIds.length < 2) return;
+    try {
+      const result = await combineOrders.mutateAsync([
+        parentId,
+        ...selectedIds.filter((id) => id !== parentId),
+      ]);
+      onOpenChange(false);
+      navigate(`/orders/${result.combinedOrderId}`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to combine orders');
+    }
+  };
+
+  if (!group) return null;
+
+  const address = group.address;
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-black/50 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 flex max-h-[90vh] w-full max-w-3xl -translate-x-1/2 -translate-y-1/2 flex-col rounded-lg border bg-background shadow-lg">
+          {/* Header */}
+          <div className="flex items-center justify-between border-b p-4">
+            <div>
+              <Dialog.Title className="text-lg font-semibold">Combine Orders</Dialog.Title>
+              <Dialog.Description className="text-sm text-muted-foreground">
+                These orders ship to the same address and can go out as one parcel
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <Button variant="ghost" size="icon">
+                <XIcon className="h-4 w-4" />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {/* Group navigation */}
+            {groups.length > 1 && (
+              <div className="flex items-center justify-between">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => selectGroup(groupIndex - 1)}
+                  disabled={groupIndex === 0}
+                >
+                  <ChevronLeftIcon className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Group {groupIndex + 1} of {groups.length}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => selectGroup(groupIndex + 1)}
+                  disabled={groupIndex === groups.length - 1}
+                >
+                  <ChevronRightIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {/* Address */}
+            <div className="flex items-start gap-2 p-3 bg-muted/50 rounded-lg text-sm">
+              <MapPin className="w-4 h-4 mt-0.5 text-muted-foreground" />
+              <div>
+                <p className="font-medium">{address.name}</p>
+                <p>
+                  {address.street1}
+                  {address.street2 && `, ${address.street2}`}
+                </p>
+                <p>
+                  {address.city}, {address.state} {address.postalCode} {address.country}
+                </p>
+              </div>
+            </div>
+
+            {/* Orders */}
+            <div>
+              <h3 className="text-sm font-medium mb-2">Orders</h3>
+              <div className="space-y-2">
+                {group.orders.map((order) => {
+                  const isSelected = selectedIds.includes(order.id);
+                  return (
+                    <div
+                      key={order.id}
+                      className={cn(
+                        'flex items-center justify-between p-3 border rounded-lg',
+                        isSelected ? 'border-primary/50' : 'border-border opacity-60'
+                      )}
+                    >
+                      <label className="flex items-center gap-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          onChange={() => toggleOrder(order.id)}
+                          className="h-4 w-4"
+                        />
+                        <span>
+                          <span className="font-medium">
+                            {order.externalOrderId || order.intOrderId || `#${order.id}`}
+                          </span>
+                          <span className="text-sm text-muted-foreground ml-2">
+                            {order.products?.length ?? 0} item(s)
+                          </span>
+                        </span>
+                      </label>
+                      <label className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input
+                          type="radio"
+                          name="combine-parent"
+                          checked={parentId === order.id}
+                          disabled={!isSelected}
+                          onChange={() => setParentId(order.id)}
+                        />
+                        Keep as parent
+                      </label>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Merged products */}
+            <div>
+              <h3 className="text-sm font-medium mb-2">Merged products ({mergedProducts.length})</h3>
+              <div className="border border-border rounded-lg divide-y divide-border">
+                {mergedProducts.map(({ order, product }) => (
+                  <div key={`${order.id}-${product.id}`} className="flex items-center justify-between p-2 text-sm">
+                    <span>
+                      {product.productDetail?.product || product.productTitle || `Product #${product.productId ?? product.id}`}
+                      {product.productDetail?.option1 && ` · ${product.productDetail.option1}`}
+                      {product.productDetail?.option2 && ` · ${product.productDetail.option2}`}
+                    </span>
+                    <span className="text-muted-foreground">× {product.quantity}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Shipping preview */}
+            <div className="p-3 border border-border rounded-lg text-sm space-y-1">
+              {preview.isLoading ? (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Calculating shipping...
+                </div>
+              ) : preview.isError ? (
+                <p className="text-destructive">Could not calculate shipping for this group</p>
+              ) : (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Shipped separately</span>
+                    <span>{formatCurrency(preview.separateShipping)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Shipped combined</span>
+                    <span>{formatCurrency(preview.combinedShipping)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold text-green-600 pt-1 border-t border-border">
+                    <span>Estimated savings</span>
+                    <span>{formatCurrency(preview.savings)}</span>
+                  </div>
+                </>
+              )}
+              {preview.unmappedCount > 0 && (
+                <p className="flex items-center gap-1 text-xs text-yellow-600 pt-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  {preview.unmappedCount} unmapped product(s) are not included in the estimate
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end gap-3 border-t p-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCombine}
+              disabled={selectedIds.length < 2 || parentId === null || combineOrders.isPending}
+            >
+              {combineOrders.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Combine {selectedIds.length} Orders
+            </Button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,147 @@
+import { Globe, Loader2, Save } from 'lucide-react';
+import { useSaveProductCustomsDefaults } from '@/api/hooks';
+import { cn, formatCurrency } from '@/lib/utils';
+import { isValidHsCode, normalizeHsCode, type CustomsLineValues } from './customs';
+import type { ProductSelectionData } from '@/types';
+
+interface CustomsItemsEditorProps {
+  lines: CustomsLineValues[];
+  onChange: (lines: CustomsLineValues[]) => void;
+  selectionData: ProductSelectionData | undefined;
+  destinationCountry: string;
+  originCountry: string;
+  error?: string;
+}
+
+const inputClassName =
+  'w-full px-2 py-1.5 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * Customs declaration for an order shipping abroad, one line per product.
+ * Description and HS code can be kept as the product's default for later orders.
+ */
+export function CustomsItemsEditor({
+  lines,
+  onChange,
+  selectionData,
+  destinationCountry,
+  originCountry,
+  error,
+}: CustomsItemsEditorProps) {
+  const saveDefaults = useSaveProductCustomsDefaults();
+
+  const updateLine = (productId: number, changes: Partial<CustomsLineValues>) => {
+    onChange(lines.map((line) => (line.productId === productId ? { ...line, ...changes } : line)));
+  };
+
+  const handleSaveDefaults = async (line: CustomsLineValues) => {
+    try {
+      await saveDefaults.mutateAsync({
+        productId: line.productId,
+        customsDescription: line.description.trim(),
+        hsTariffNumber: normalizeHsCode(line.hsTariffNumber),
+      });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save customs defaults');
+    }
+  };
+
+  const totalValue = lines.reduce((sum, line) => sum + line.value, 0);
+
+  return (
+    <div className="space-y-3">
+      <p className="flex items-start gap-2 text-sm text-muted-foreground">
+        <Globe className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        Shipping from {originCountry} to {destinationCountry.toUpperCase()} needs a customs declaration. It is
+        printed on the label.
+      </p>
+
+      {lines.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Add products to declare them for customs.</p>
+      ) : (
+        lines.map((line) => {
+          const product = selectionData?.products.find((p) => p.id === line.productId);
+          const canSaveDefaults =
+            line.description.trim() !== '' &&
+            isValidHsCode(line.hsTariffNumber) &&
+            (line.description.trim() !== (product?.customsDescription ?? '') ||
+              normalizeHsCode(line.hsTariffNumber) !== (product?.hsTariffNumber ?? ''));
+          const isSaving = saveDefaults.isPending && saveDefaults.variables?.productId === line.productId;
+
+          return (
+            <div key={line.productId} className="space-y-2 rounded-lg border border-border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">
+                  {line.label} × {line.quantity}
+                </span>
+                {canSaveDefaults && (
+                  <button
+                    type="button"
+                    onClick={() => handleSaveDefaults(line)}
+                    disabled={saveDefaults.isPending}
+                    className="inline-flex items-center gap-1 text-xs text-primary hover:underline disabled:opacity-50"
+                  >
+                    {isSaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+                    Save as product default
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="col-span-2">
+                  <label className="text-xs text-muted-foreground">Description</label>
+                  <input
+                    type="text"
+                    value={line.description}
+                    onChange={(e) => updateLine(line.productId, { description: e.target.value })}
+                    placeholder="e.g. Cotton t-shirt"
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="text-xs text-muted-foreground">HS Code</label>
+                  <input
+                    type="text"
+                    value={line.hsTariffNumber}
+                    onChange={(e) => updateLine(line.productId, { hsTariffNumber: e.target.value })}
+                    placeholder="e.g. 6109.10"
+                    className={cn(
+                      inputClassName,
+                      line.hsTariffNumber && !isValidHsCode(line.hsTariffNumber) && 'border-destructive'
+                    )}
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-muted-foreground">Value (USD)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.value || ''}
+                    onChange={(e) => updateLine(line.productId, { value: parseFloat(e.target.value) || 0 })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-muted-foreground">Weight (oz)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={line.weight || ''}
+                    onChange={(e) => updateLine(line.productId, { weight: parseFloat(e.target.value) || 0 })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      {lines.length > 0 && (
+        <p className="text-sm text-muted-foreground">Declared value: {formatCurrency(totalValue)}</p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
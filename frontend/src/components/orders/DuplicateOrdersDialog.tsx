@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import * as Dialog from '@radix-ui/react-dialog';
+import { XIcon, ChevronLeftIcon, ChevronRightIcon, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { useResolveDuplicateOrders, type DuplicateOrderGroup, type DuplicateResolution } from '@/api/hooks';
+import { getOrderStatusLabel, type ApiOrder } from '@/types';
+import { formatAddressLine } from './addressValidation';
+
+interface DuplicateOrdersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  groups: DuplicateOrderGroup[];
+}
+
+const reasonLabels: Record<DuplicateOrderGroup['reason'], string> = {
+  external_id: 'These orders have the same marketplace order ID',
+  customer_address_products: 'Same customer, address and products, placed close together',
+};
+
+const resolutionLabels: Record<DuplicateResolution, string> = {
+  merge: 'Merge',
+  cancel: 'Cancel Duplicates',
+  keep: 'Keep All',
+};
+
+// Rows of the side-by-side compare; values that differ between the orders are highlighted
+const compareFields: { label: string; value: (order: ApiOrder) => string }[] = [
+  { label: 'External ID', value: (order) => order.externalOrderId || '—' },
+  { label: 'Status', value: (order) => getOrderStatusLabel(order.orderStatus) },
+  { label: 'Created', value: (order) => formatDate(order.createdAt, { hour: 'numeric', minute: '2-digit' }) },
+  { label: 'Customer', value: (order) => order.customerName || '—' },
+  {
+    label: 'Address',
+    value: (order) => formatAddressLine(order.orderInfo?.toAddress || order.shippingAddress || {}) || '—',
+  },
+  {
+    label: 'Products',
+    value: (order) =>
+      (order.products ?? [])
+        .map((product) => `${product.productDetail?.product || product.productTitle || product.listingId} × ${product.quantity}`)
+        .join(', ') || '—',
+  },
+  { label: 'Total', value: (order) => formatCurrency(parseFloat(order.totalAmount) || 0) },
+];
+
+export function DuplicateOrdersDialog({ open, onOpenChange, groups }: DuplicateOrdersDialogProps) {
+  const resolveDuplicates = useResolveDuplicateOrders();
+  const [groupIndex, setGroupIndex] = useState(0);
+  const [keepOrderId, setKeepOrderId] = useState<number | null>(null);
+
+  const group = groups[Math.min(groupIndex, groups.length - 1)];
+
+  // Keep the oldest order by default, later copies are usually the re-import
+  useEffect(() => {
+    setKeepOrderId(group?.orders[0]?.id ?? null);
+  }, [group]);
+
+  const handleResolve = async (action: DuplicateResolution) => {
+    if (!group || keepOrderId === null) return;
+    const duplicateOrderIds = group.orders.map((order) => order.id).filter((id) => id !== keepOrderId);
+    if (action === 'cancel' && !confirm(`Cancel ${duplicateOrderIds.length} duplicate order(s)?`)) return;
+    try {
+      await resolveDuplicates.mutateAsync({ keepOrderId, duplicateOrderIds, action });
+      if (groups.length <= 1) onOpenChange(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to resolve duplicate orders');
+    }
+  };
+
+  if (!group) return null;
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-black/50 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 flex max-h-[90vh] w-full max-w-5xl -translate-x-1/2 -translate-y-1/2 flex-col rounded-lg border bg-background shadow-lg">
+          {/* Header */}
+          <div className="flex items-center justify-between border-b p-4">
+            <div>
+              <Dialog.Title className="text-lg font-semibold">Possible Duplicate Orders</Dialog.Title>
+              <Dialog.Description className="text-sm text-muted-foreground">
+                {reasonLabels[group.reason]}
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <Button variant="ghost" size="icon">
+                <XIcon className="h-4 w-4" />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {/* Group navigation */}
+            {groups.length > 1 && (
+              <div className="flex items-center justify-between">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setGroupIndex((i) => Math.max(0, i - 1))}
+                  disabled={groupIndex === 0}
+                >
+                  <ChevronLeftIcon className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Group {groupIndex + 1} of {groups.length}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setGroupIndex((i) => Math.min(groups.length - 1, i + 1))}
+                  disabled={groupIndex === groups.length - 1}
+                >
+                  <ChevronRightIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {/* Side-by-side compare */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="w-28" />
+                    {group.orders.map((order) => (
+                      <th
+                        key={order.id}
+                        className={cn(
+                          'p-3 text-left align-top border-b-2',
+                          keepOrderId === order.id ? 'border-primary' : 'border-border'
+                        )}
+                      >
+                        <Link to={`/orders/${order.id}`} className="font-semibold hover:underline">
+                          #{order.intOrderId || order.id}
+                        </Link>
+                        <label className="mt-1 flex items-center gap-2 font-normal cursor-pointer">
+                          <input
+                            type="radio"
+                            name="duplicate-keep"
+                            checked={keepOrderId === order.id}
+                            onChange={() => setKeepOrderId(order.id)}
+                          />
+                          Keep this order
+                        </label>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {compareFields.map((field) => {
+                    const values = group.orders.map(field.value);
+                    const differs = new Set(values).size > 1;
+                    return (
+                      <tr key={field.label}>
+                        <td className="p-3 align-top text-muted-foreground">{field.label}</td>
+                        {values.map((value, index) => (
+                          <td
+                            key={group.orders[index].id}
+                            className={cn('p-3 align-top', differs && 'text-yellow-600 font-medium')}
+                          >
+                            {value}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Merge archives the other orders under the kept one without copying their products. Cancel refunds
+              paid duplicates. Keep All stops flagging these orders together.
+            </p>
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end gap-3 border-t p-4">
+            {(['keep', 'cancel', 'merge'] as const).map((action) => (
+              <Button
+                key={action}
+                variant={action === 'merge' ? 'default' : 'outline'}
+                onClick={() => handleResolve(action)}
+                disabled={keepOrderId === null || resolveDuplicates.isPending}
+              >
+                {resolveDuplicates.isPending && resolveDuplicates.variables?.action === action && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                {resolutionLabels[action]}
+              </Button>
+            ))}
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
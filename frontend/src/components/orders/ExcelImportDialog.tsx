@@ -0,0 +1,411 @@
+import { useMemo, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { XIcon, Loader2, CheckCircle, AlertCircle, Pencil } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { cn } from '@/lib/utils';
+import { usePreviewExcelImport, useValidateImportRows, useImportOrderRows } from '@/api/hooks';
+import { useUser } from '@/stores/authStore';
+import { useImportMappings, useImportMappingStore, type ImportColumnMapping } from '@/stores/importMappingStore';
+import type { ExcelImportResult, ExcelSheetPreview, ImportOrderRow } from '@/types';
+import {
+  applySavedMapping,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  importOrderFields,
+  toImportRows,
+} from './excelImport';
+
+type ImportStep = 'upload' | 'map' | 'review' | 'done';
+
+interface ExcelImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: (result: ExcelImportResult) => void;
+}
+
+const inputClassName =
+  'w-full px-2 py-1 text-sm bg-background border border-border rounded focus:outline-none focus:ring-2 focus:ring-ring';
+
+// Fields that can be fixed inline on a rejected row
+const editableFields = importOrderFields.filter(({ field }) => field !== 'modificationUrl');
+
+interface RowEditorProps {
+  row: ImportOrderRow;
+  onSave: (row: ImportOrderRow) => void;
+  onCancel: () => void;
+}
+
+function RowEditor({ row, onSave, onCancel }: RowEditorProps) {
+  const [value, setValue] = useState(row);
+
+  return (
+    <div className="space-y-3 p-3 bg-muted/50">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {editableFields.map(({ field, label }) => (
+          <label key={field} className="text-xs text-muted-foreground">
+            {label}
+            <input
+              value={value[field]}
+              onChange={(e) => setValue({ ...value, [field]: e.target.value })}
+              className={cn(inputClassName, 'mt-1 text-foreground')}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={() => onSave(value)}>
+          Save Row
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ExcelImportDialog({ open, onOpenChange, onImported }: ExcelImportDialogProps) {
+  const userId = useUser()?.id;
+  const savedMappings = useImportMappings();
+  const saveMapping = useImportMappingStore((state) => state.saveMapping);
+  const previewExcel = usePreviewExcelImport();
+  const importRows = useImportOrderRows();
+
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [preview, setPreview] = useState<ExcelSheetPreview | null>(null);
+  const [source, setSource] = useState('');
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [rememberMapping, setRememberMapping] = useState(true);
+  const [edits, setEdits] = useState<Record<number, ImportOrderRow>>({});
+  const [editingRow, setEditingRow] = useState<number | null>(null);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [result, setResult] = useState<ExcelImportResult | null>(null);
+
+  const rows = useMemo(
+    () =>
+      step === 'review' && preview
+        ? toImportRows(preview, mapping).map((row) => edits[row.rowNumber] ?? row)
+        : null,
+    [step, preview, mapping, edits]
+  );
+  const validation = useValidateImportRows(rows);
+  const errorsByRow = new Map((validation.data ?? []).map((row) => [row.rowNumber, row.errors]));
+  const validRows = (rows ?? []).filter((row) => errorsByRow.get(row.rowNumber)?.length === 0);
+  const invalidCount = (rows ?? []).length - validRows.length;
+  const missingFields = getMissingRequiredFields(mapping);
+
+  const reset = () => {
+    setStep('upload');
+    setPreview(null);
+    setSource('');
+    setMapping({});
+    setEdits({});
+    setEditingRow(null);
+    setProblemsOnly(false);
+    setResult(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const sheet = await previewExcel.mutateAsync(file);
+      setPreview(sheet);
+      const saved = savedMappings[source];
+      setMapping(saved ? applySavedMapping(sheet.headers, saved) : guessColumnMapping(sheet.headers));
+      setStep('map');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to read Excel file');
+    }
+  };
+
+  const handleSourceChange = (value: string) => {
+    setSource(value);
+    const saved = savedMappings[value];
+    if (saved && preview) setMapping(applySavedMapping(preview.headers, saved));
+  };
+
+  const handleReview = () => {
+    if (rememberMapping && userId && source.trim()) {
+      saveMapping(userId, source.trim(), mapping);
+    }
+    setEdits({});
+    setStep('review');
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+    try {
+      const imported = await importRows.mutateAsync({ rows: validRows });
+      setResult(imported);
+      setStep('done');
+      onImported?.(imported);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to import orders');
+    }
+  };
+
+  const visibleRows = (rows ?? []).filter((row) => !problemsOnly || errorsByRow.get(row.rowNumber)?.length);
+
+  return (
+    <Dialog.Root open={open} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-black/50 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 flex max-h-[90vh] w-full max-w-5xl -translate-x-1/2 -translate-y-1/2 flex-col rounded-lg border bg-background shadow-lg">
+          {/* Header */}
+          <div className="flex items-center justify-between border-b p-4">
+            <div>
+              <Dialog.Title className="text-lg font-semibold">Import Orders from Excel</Dialog.Title>
+              <Dialog.Description className="text-sm text-muted-foreground">
+                {step === 'upload' && 'Upload a spreadsheet in any layout'}
+                {step === 'map' && 'Match the spreadsheet columns to order fields'}
+                {step === 'review' && 'Fix the flagged rows or import only the valid ones'}
+                {step === 'done' && 'Import finished'}
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <Button variant="ghost" size="icon">
+                <XIcon className="h-4 w-4" />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {/* Source, used to remember the column mapping */}
+            {(step === 'upload' || step === 'map') && (
+              <div>
+                <label className="text-sm font-medium">Source</label>
+                <input
+                  list="excel-import-sources"
+                  value={source}
+                  onChange={(e) => handleSourceChange(e.target.value)}
+                  placeholder="e.g. the wholesale customer who sent the file"
+                  className={cn(inputClassName, 'mt-1 py-2')}
+                />
+                <datalist id="excel-import-sources">
+                  {Object.keys(savedMappings).map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+            )}
+
+            {step === 'upload' && (
+              <div className="p-4 border border-dashed border-border rounded-lg">
+                <input
+                  type="file"
+                  accept=".xlsx,.xls"
+                  disabled={previewExcel.isPending}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                  }}
+                  className="block w-full text-sm text-muted-foreground
+                    file:mr-4 file:py-2 file:px-4
+                    file:rounded-lg file:border-0
+                    file:text-sm file:font-medium
+                    file:bg-primary file:text-primary-foreground
+                    hover:file:bg-primary/90"
+                />
+                {previewExcel.isPending && (
+                  <p className="mt-2 flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Reading spreadsheet...
+                  </p>
+                )}
+              </div>
+            )}
+
+            {step === 'map' && preview && (
+              <>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="py-2 font-medium">Order field</th>
+                      <th className="py-2 font-medium">Spreadsheet column</th>
+                      <th className="py-2 font-medium">First row</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {importOrderFields.map(({ field, label, required }) => {
+                      const columnIndex = mapping[field] ? preview.headers.indexOf(mapping[field]!) : -1;
+                      return (
+                        <tr key={field}>
+                          <td className="py-2">
+                            {label}
+                            {required && ' *'}
+                          </td>
+                          <td className="py-2 pr-4">
+                            <select
+                              value={mapping[field] ?? ''}
+                              onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                              className={inputClassName}
+                            >
+                              <option value="">Not in file</option>
+                              {preview.headers.map((header, index) => (
+                                <option key={index} value={header}>
+                                  {header || `Column ${index + 1}`}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="py-2 text-muted-foreground truncate max-w-[200px]">
+                            {columnIndex >= 0 ? preview.rows[0]?.cells[columnIndex] : ''}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={rememberMapping}
+                    onChange={(e) => setRememberMapping(e.target.checked)}
+                    disabled={!source.trim()}
+                  />
+                  Remember this mapping for {source.trim() || 'this source'}
+                </label>
+                {missingFields.length > 0 && (
+                  <p className="text-sm text-destructive">Map these fields to continue: {missingFields.join(', ')}</p>
+                )}
+              </>
+            )}
+
+            {step === 'review' && (
+              <>
+                <div className="flex items-center justify-between text-sm">
+                  <p>
+                    {validation.isLoading ? (
+                      <span className="flex items-center gap-2 text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Checking rows...
+                      </span>
+                    ) : (
+                      <>
+                        <span className="text-green-600">{validRows.length} ready</span>
+                        {invalidCount > 0 && <span className="text-destructive"> · {invalidCount} with problems</span>}
+                        {validation.isFetching && <Loader2 className="inline ml-2 h-3 w-3 animate-spin" />}
+                      </>
+                    )}
+                  </p>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={problemsOnly} onChange={(e) => setProblemsOnly(e.target.checked)} />
+                    Only rows with problems
+                  </label>
+                </div>
+
+                <div className="border border-border rounded-lg divide-y divide-border text-sm">
+                  {visibleRows.map((row) => {
+                    const errors = errorsByRow.get(row.rowNumber);
+                    const isInvalid = !!errors?.length;
+                    return (
+                      <div key={row.rowNumber}>
+                        <div className={cn('flex items-start gap-3 p-2', isInvalid && 'bg-destructive/5')}>
+                          <span className="w-10 text-muted-foreground">{row.rowNumber}</span>
+                          {errors === undefined ? (
+                            <Loader2 className="h-4 w-4 mt-0.5 animate-spin text-muted-foreground" />
+                          ) : isInvalid ? (
+                            <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+                          ) : (
+                            <CheckCircle className="h-4 w-4 mt-0.5 text-green-600" />
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <p className="truncate">
+                              <span className="font-medium">{row.name || 'No name'}</span>
+                              <span className="text-muted-foreground">
+                                {' · '}
+                                {[row.street1, row.city, row.state, row.zip].filter(Boolean).join(', ')}
+                              </span>
+                            </p>
+                            <p className="text-muted-foreground truncate">
+                              {row.sku || [row.product, row.option1, row.option2].filter(Boolean).join(' / ')} ×{' '}
+                              {row.quantity || 1}
+                            </p>
+                            {errors?.map((error) => (
+                              <p key={error} className="text-xs text-destructive">
+                                {error}
+                              </p>
+                            ))}
+                          </div>
+                          {isInvalid && editingRow !== row.rowNumber && (
+                            <button
+                              onClick={() => setEditingRow(row.rowNumber)}
+                              className="inline-flex items-center gap-1 px-2 py-1 text-xs border border-border rounded hover:bg-muted"
+                            >
+                              <Pencil className="h-3 w-3" />
+                              Fix
+                            </button>
+                          )}
+                        </div>
+                        {editingRow === row.rowNumber && (
+                          <RowEditor
+                            row={row}
+                            onCancel={() => setEditingRow(null)}
+                            onSave={(edited) => {
+                              setEdits({ ...edits, [row.rowNumber]: edited });
+                              setEditingRow(null);
+                            }}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                  {visibleRows.length === 0 && (
+                    <p className="p-4 text-center text-muted-foreground">No rows to show</p>
+                  )}
+                </div>
+              </>
+            )}
+
+            {step === 'done' && result && (
+              <div className="space-y-2 text-sm">
+                <p className="flex items-center gap-2 font-medium">
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  {result.ordersCreated} order{result.ordersCreated !== 1 ? 's' : ''} imported
+                </p>
+                {result.errors.map((error) => (
+                  <p key={error.rowNumber} className="text-destructive">
+                    Row {error.rowNumber}: {error.errorMessage}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end gap-3 border-t p-4">
+            {step === 'map' && (
+              <>
+                <Button variant="outline" onClick={reset}>
+                  Choose Another File
+                </Button>
+                <Button onClick={handleReview} disabled={missingFields.length > 0}>
+                  Preview Rows
+                </Button>
+              </>
+            )}
+            {step === 'review' && (
+              <>
+                <Button variant="outline" onClick={() => setStep('map')}>
+                  Back to Mapping
+                </Button>
+                <Button
+                  onClick={handleImport}
+                  disabled={validRows.length === 0 || validation.isFetching || importRows.isPending}
+                >
+                  {importRows.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Import {validRows.length} Valid Row{validRows.length !== 1 ? 's' : ''}
+                </Button>
+              </>
+            )}
+            {step === 'done' && <Button onClick={() => handleOpenChange(false)}>Done</Button>}
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,93 @@
+export interface OrderAddressValues {
+  name: string;
+  street1: string;
+  street2: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+}
+
+interface OrderAddressFieldsProps {
+  value: OrderAddressValues;
+  onChange: (value: OrderAddressValues) => void;
+}
+
+export function OrderAddressFields({ value: address, onChange }: OrderAddressFieldsProps) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="text-sm text-muted-foreground">Customer Name *</label>
+        <input
+          type="text"
+          value={address.name}
+          onChange={(e) => onChange({ ...address, name: e.target.value })}
+          className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+          placeholder="John Doe"
+        />
+      </div>
+      <div>
+        <label className="text-sm text-muted-foreground">Street Address *</label>
+        <input
+          type="text"
+          value={address.street1}
+          onChange={(e) => onChange({ ...address, street1: e.target.value })}
+          className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+          placeholder="123 Main St"
+        />
+      </div>
+      <div>
+        <label className="text-sm text-muted-foreground">Apt, Suite, etc.</label>
+        <input
+          type="text"
+          value={address.street2}
+          onChange={(e) => onChange({ ...address, street2: e.target.value })}
+          className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+          placeholder="Apt 4B"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-sm text-muted-foreground">City *</label>
+          <input
+            type="text"
+            value={address.city}
+            onChange={(e) => onChange({ ...address, city: e.target.value })}
+            className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+        <div>
+          <label className="text-sm text-muted-foreground">State *</label>
+          <input
+            type="text"
+            value={address.state}
+            onChange={(e) => onChange({ ...address, state: e.target.value })}
+            className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-sm text-muted-foreground">ZIP Code *</label>
+          <input
+            type="text"
+            value={address.postalCode}
+            onChange={(e) => onChange({ ...address, postalCode: e.target.value })}
+            className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+        <div>
+          <label className="text-sm text-muted-foreground">Country</label>
+          <select
+            value={address.country}
+            onChange={(e) => onChange({ ...address, country: e.target.value })}
+            className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            <option value="US">United States</option>
+            <option value="CA">Canada</option>
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import * as Popover from '@radix-ui/react-popover';
 import * as Select from '@radix-ui/react-select';
 import { Button, Input } from '@/components/ui';
@@ -11,14 +11,16 @@ import {
   CheckIcon,
   FilterIcon,
 } from 'lucide-react';
-import { OrderStatusType } from './OrderStatusBadge';
+import { OrderStatusCodes, getOrderStatusLabel } from '@/types';
 
 export interface OrderFilterValues {
   search?: string;
-  statuses?: OrderStatusType[];
+  statuses?: number[]; // backend status codes
   storeId?: string;
   startDate?: string;
   endDate?: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
 }
 
 interface Store {
@@ -30,40 +32,65 @@ interface OrderFiltersProps {
   filters: OrderFilterValues;
   onFiltersChange: (filters: OrderFilterValues) => void;
   stores?: Store[];
+  statusOptions?: number[]; // status codes offered in the status filter
   className?: string;
 }
 
-const statusOptions: { value: OrderStatusType; label: string }[] = [
-  { value: 'draft', label: 'Draft' },
-  { value: 'payment_pending', label: 'Payment Pending' },
-  { value: 'pending', label: 'Pending' },
-  { value: 'in_production', label: 'In Production' },
-  { value: 'shipped', label: 'Shipped' },
-  { value: 'cancelled', label: 'Cancelled' },
+const defaultStatusOptions: number[] = [
+  OrderStatusCodes.NEW_ORDER,
+  OrderStatusCodes.INVALID_ADDRESS,
+  OrderStatusCodes.EDITING,
+  OrderStatusCodes.PAYMENT_PENDING,
+  OrderStatusCodes.PENDING,
+  OrderStatusCodes.URGENT,
+  OrderStatusCodes.AWAITING_RESPONSE,
+  OrderStatusCodes.IN_PRODUCTION,
+  OrderStatusCodes.SHIPPED,
+  OrderStatusCodes.COMPLETED,
+  OrderStatusCodes.CANCELLED,
+];
+
+const sortOptions: { value: string; label: string }[] = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'shipBy:asc', label: 'Ship by (soonest)' },
+  { value: 'updatedAt:desc', label: 'Recently updated' },
+  { value: 'totalAmount:desc', label: 'Highest total' },
+  { value: 'totalAmount:asc', label: 'Lowest total' },
+  { value: 'orderStatus:asc', label: 'Status' },
 ];
 
 export function OrderFilters({
   filters,
   onFiltersChange,
   stores = [],
+  statusOptions = defaultStatusOptions,
   className,
 }: OrderFiltersProps) {
   const [searchValue, setSearchValue] = useState(filters.search || '');
+  const searchTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  // Keep the input in sync when filters change from outside (e.g. a saved view or back button)
+  useEffect(() => {
+    setSearchValue(filters.search || '');
+  }, [filters.search]);
+
+  useEffect(() => () => clearTimeout(searchTimeout.current), []);
 
   const handleSearchChange = useCallback(
     (value: string) => {
       setSearchValue(value);
       // Debounce search input
-      const timeoutId = setTimeout(() => {
+      clearTimeout(searchTimeout.current);
+      searchTimeout.current = setTimeout(() => {
         onFiltersChange({ ...filters, search: value || undefined });
       }, 300);
-      return () => clearTimeout(timeoutId);
     },
     [filters, onFiltersChange]
   );
 
   const handleStatusToggle = useCallback(
-    (status: OrderStatusType) => {
+    (status: number) => {
       const currentStatuses = filters.statuses || [];
       const newStatuses = currentStatuses.includes(status)
         ? currentStatuses.filter((s) => s !== status)
@@ -96,17 +123,35 @@ export function OrderFilters({
     [filters, onFiltersChange]
   );
 
+  const handleSortChange = useCallback(
+    (value: string) => {
+      const [sortBy, sortOrder] = value.split(':') as [string, 'asc' | 'desc'];
+      // Newest first is the backend default, so keep it out of the URL
+      const isDefault = value === sortOptions[0].value;
+      onFiltersChange({
+        ...filters,
+        sortBy: isDefault ? undefined : sortBy,
+        sortOrder: isDefault ? undefined : sortOrder,
+      });
+    },
+    [filters, onFiltersChange]
+  );
+
   const handleClearFilters = useCallback(() => {
+    clearTimeout(searchTimeout.current);
     setSearchValue('');
     onFiltersChange({});
   }, [onFiltersChange]);
 
+  const sortValue = `${filters.sortBy || 'createdAt'}:${filters.sortOrder || 'desc'}`;
+
   const hasActiveFilters =
     filters.search ||
     (filters.statuses && filters.statuses.length > 0) ||
     filters.storeId ||
     filters.startDate ||
-    filters.endDate;
+    filters.endDate ||
+    filters.sortBy;
 
   return (
     <div className={cn('space-y-4', className)}>
@@ -115,7 +160,7 @@ export function OrderFilters({
         <div className="relative flex-1 min-w-[200px] max-w-sm">
           <SearchIcon className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
           <Input
-            placeholder="Search orders..."
+            placeholder="Search orders and notes..."
             value={searchValue}
             onChange={(e) => handleSearchChange(e.target.value)}
             className="pl-9"
@@ -142,25 +187,25 @@ export function OrderFilters({
               sideOffset={4}
             >
               <div className="space-y-1">
-                {statusOptions.map((option) => (
+                {statusOptions.map((status) => (
                   <button
-                    key={option.value}
-                    onClick={() => handleStatusToggle(option.value)}
+                    key={status}
+                    onClick={() => handleStatusToggle(status)}
                     className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-accent"
                   >
                     <div
                       className={cn(
                         'flex h-4 w-4 items-center justify-center rounded border',
-                        filters.statuses?.includes(option.value)
+                        filters.statuses?.includes(status)
                           ? 'border-primary bg-primary text-primary-foreground'
                           : 'border-input'
                       )}
                     >
-                      {filters.statuses?.includes(option.value) && (
+                      {filters.statuses?.includes(status) && (
                         <CheckIcon className="h-3 w-3" />
                       )}
                     </div>
-                    {option.label}
+                    {getOrderStatusLabel(status)}
                   </button>
                 ))}
               </div>
@@ -235,6 +280,34 @@ export function OrderFilters({
           </div>
         </div>
 
+        {/* Sort */}
+        <Select.Root value={sortValue} onValueChange={handleSortChange}>
+          <Select.Trigger className="inline-flex h-10 items-center justify-between gap-2 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 min-w-[160px]">
+            <Select.Value />
+            <Select.Icon>
+              <ChevronDownIcon className="h-4 w-4 opacity-50" />
+            </Select.Icon>
+          </Select.Trigger>
+          <Select.Portal>
+            <Select.Content className="z-50 overflow-hidden rounded-md border bg-popover shadow-md">
+              <Select.Viewport className="p-1">
+                {sortOptions.map((option) => (
+                  <Select.Item
+                    key={option.value}
+                    value={option.value}
+                    className="relative flex cursor-pointer select-none items-center rounded-sm py-1.5 pl-8 pr-2 text-sm outline-none hover:bg-accent focus:bg-accent"
+                  >
+                    <Select.ItemIndicator className="absolute left-2 flex h-3.5 w-3.5 items-center justify-center">
+                      <CheckIcon className="h-4 w-4" />
+                    </Select.ItemIndicator>
+                    <Select.ItemText>{option.label}</Select.ItemText>
+                  </Select.Item>
+                ))}
+              </Select.Viewport>
+            </Select.Content>
+          </Select.Portal>
+        </Select.Root>
+
         {/* Clear Filters */}
         {hasActiveFilters && (
           <Button
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { Check, XIcon } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { cn, formatCurrency } from '@/lib/utils';
+import { findVariant, getOrderProductItemPrice, type OrderProductItem } from './orderProductItem';
+import type { Option1ForSelection, Option2ForSelection, ProductSelectionData } from '@/types';
+
+interface OrderMatrixDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectionData: ProductSelectionData | undefined;
+  onAdd: (items: OrderProductItem[]) => void;
+}
+
+// Products without sizes or colors get a single column or row
+type MatrixOption = Pick<Option1ForSelection, 'id' | 'name'> | null;
+
+const cellKey = (option1Id: number | null, option2Id: number | null) => `${option1Id ?? 0}:${option2Id ?? 0}`;
+
+/**
+ * Quantity grid for one product: sizes as columns, colors as rows, one order line per filled cell.
+ * The print locations and design URLs picked here go on every line.
+ */
+export function OrderMatrixDialog({ open, onOpenChange, selectionData, onAdd }: OrderMatrixDialogProps) {
+  const [categoryId, setCategoryId] = useState<number | null>(null);
+  const [productId, setProductId] = useState<number | null>(null);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [modifications, setModifications] = useState<OrderProductItem['modifications']>([]);
+
+  const reset = () => {
+    setCategoryId(null);
+    setProductId(null);
+    setQuantities({});
+    setModifications([]);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const products = selectionData?.products.filter((p) => p.categoryId === categoryId) ?? [];
+  const option1s = selectionData?.option1s.filter((o) => o.productId === productId) ?? [];
+  const option2s: Option2ForSelection[] = selectionData?.option2s.filter((o) => o.productId === productId) ?? [];
+  const columns: MatrixOption[] = option1s.length > 0 ? option1s : [null];
+  const rows: (Option2ForSelection | null)[] = option2s.length > 0 ? option2s : [null];
+  const availableModifications = selectionData?.modifications.filter((m) => m.categoryId === categoryId) ?? [];
+
+  // One line per cell that has a quantity and an in-stock variant
+  const lines: OrderProductItem[] = rows.flatMap((row) =>
+    columns.flatMap((column) => {
+      const quantity = quantities[cellKey(column?.id ?? null, row?.id ?? null)] ?? 0;
+      const variant = findVariant(selectionData, productId, column?.id ?? null, row?.id ?? null);
+      if (quantity <= 0 || !variant?.inStock) return [];
+      return [
+        {
+          id: `matrix-${variant.id}-${Date.now()}`,
+          categoryId,
+          productId,
+          option1Id: column?.id ?? null,
+          option2Id: row?.id ?? null,
+          variantId: variant.id,
+          quantity,
+          modifications: modifications.map((m) => ({ ...m })),
+        },
+      ];
+    })
+  );
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const totalPrice = lines.reduce((sum, line) => sum + getOrderProductItemPrice(line, selectionData) * line.quantity, 0);
+
+  const setQuantity = (key: string, value: string) => {
+    setQuantities((current) => ({ ...current, [key]: Math.max(0, parseInt(value) || 0) }));
+  };
+
+  const toggleModification = (modificationId: number) => {
+    setModifications((current) =>
+      current.some((m) => m.modificationId === modificationId)
+        ? current.filter((m) => m.modificationId !== modificationId)
+        : [...current, { modificationId, designUrl: '' }]
+    );
+  };
+
+  const handleAdd = () => {
+    if (lines.length === 0) return;
+    onAdd(lines);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-black/50 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 flex max-h-[90vh] w-full max-w-5xl -translate-x-1/2 -translate-y-1/2 flex-col rounded-lg border bg-background shadow-lg">
+          {/* Header */}
+          <div className="flex items-center justify-between border-b p-4">
+            <div>
+              <Dialog.Title className="text-lg font-semibold">Size & Color Matrix</Dialog.Title>
+              <Dialog.Description className="text-sm text-muted-foreground">
+                Enter quantities for every size and color of one product at once
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <Button variant="ghost" size="icon">
+                <XIcon className="h-4 w-4" />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm text-muted-foreground">Category</label>
+                <select
+                  value={categoryId || ''}
+                  onChange={(e) => {
+                    setCategoryId(e.target.value ? Number(e.target.value) : null);
+                    setProductId(null);
+                    setQuantities({});
+                    setModifications([]);
+                  }}
+                  className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  <option value="">Select category</option>
+                  {selectionData?.categories.map((cat) => (
+                    <option key={cat.id} value={cat.id}>
+                      {cat.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm text-muted-foreground">Product</label>
+                <select
+                  value={productId || ''}
+                  onChange={(e) => {
+                    setProductId(e.target.value ? Number(e.target.value) : null);
+                    setQuantities({});
+                  }}
+                  disabled={!categoryId}
+                  className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+                >
+                  <option value="">Select product</option>
+                  {products.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.title}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {productId && (
+              <div className="overflow-x-auto rounded-lg border border-border">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border bg-muted/50">
+                      <th className="p-2 text-left font-medium text-muted-foreground">Color / Size</th>
+                      {columns.map((column) => (
+                        <th key={column?.id ?? 0} className="p-2 text-center font-medium">
+                          {column?.name ?? 'Qty'}
+                        </th>
+                      ))}
+                      <th className="p-2 text-right font-medium text-muted-foreground">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => {
+                      const rowTotal = columns.reduce(
+                        (sum, column) => sum + (quantities[cellKey(column?.id ?? null, row?.id ?? null)] ?? 0),
+                        0
+                      );
+                      return (
+                        <tr key={row?.id ?? 0} className="border-b border-border last:border-0">
+                          <td className="p-2 font-medium whitespace-nowrap">
+                            {row ? `${row.name}${row.isDark ? ' (Dark)' : ''}` : 'Qty'}
+                          </td>
+                          {columns.map((column) => {
+                            const key = cellKey(column?.id ?? null, row?.id ?? null);
+                            const variant = findVariant(selectionData, productId, column?.id ?? null, row?.id ?? null);
+                            const unavailable = !variant || !variant.inStock;
+                            return (
+                              <td key={key} className="p-1 text-center">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  value={unavailable ? '' : quantities[key] || ''}
+                                  onChange={(e) => setQuantity(key, e.target.value)}
+                                  disabled={unavailable}
+                                  placeholder={!variant ? '—' : !variant.inStock ? 'Out' : '0'}
+                                  title={
+                                    !variant
+                                      ? 'Not offered'
+                                      : !variant.inStock
+                                        ? 'Out of stock'
+                                        : formatCurrency(variant.price)
+                                  }
+                                  className={cn(
+                                    'w-16 px-2 py-1 text-center bg-background border border-border rounded focus:outline-none focus:ring-2 focus:ring-ring',
+                                    unavailable && 'bg-muted cursor-not-allowed placeholder:text-muted-foreground'
+                                  )}
+                                />
+                              </td>
+                            );
+                          })}
+                          <td className="p-2 text-right text-muted-foreground">{rowTotal || ''}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Print locations shared by every line */}
+            {productId && availableModifications.length > 0 && (
+              <div className="space-y-3">
+                <label className="text-sm text-muted-foreground">Print Locations (applied to every size and color)</label>
+                <div className="flex flex-wrap gap-2">
+                  {availableModifications.map((mod) => {
+                    const isSelected = modifications.some((m) => m.modificationId === mod.id);
+                    return (
+                      <button
+                        key={mod.id}
+                        onClick={() => toggleModification(mod.id)}
+                        className={cn(
+                          'px-3 py-1 text-sm rounded-full border transition-colors',
+                          isSelected ? 'bg-primary text-primary-foreground border-primary' : 'border-border hover:bg-muted'
+                        )}
+                      >
+                        {mod.name}
+                        {mod.priceDifference > 0 && ` (+$${mod.priceDifference})`}
+                        {isSelected && <Check className="w-3 h-3 ml-1 inline" />}
+                      </button>
+                    );
+                  })}
+                </div>
+                {modifications.map((mod) => (
+                  <div key={mod.modificationId} className="flex gap-2 items-center">
+                    <span className="text-sm w-20">
+                      {availableModifications.find((m) => m.id === mod.modificationId)?.name}:
+                    </span>
+                    <input
+                      type="text"
+                      placeholder="Design URL"
+                      value={mod.designUrl}
+                      onChange={(e) =>
+                        setModifications((current) =>
+                          current.map((m) =>
+                            m.modificationId === mod.modificationId ? { ...m, designUrl: e.target.value } : m
+                          )
+                        )
+                      }
+                      className="flex-1 px-3 py-1.5 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center justify-between gap-3 border-t p-4">
+            <span className="text-sm text-muted-foreground">
+              {totalQuantity} piece{totalQuantity !== 1 ? 's' : ''} · {formatCurrency(totalPrice)}
+            </span>
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleAdd} disabled={lines.length === 0}>
+                Add {lines.length} Line{lines.length !== 1 ? 's' : ''}
+              </Button>
+            </div>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
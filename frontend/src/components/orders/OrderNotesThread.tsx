@@ -0,0 +1,293 @@
+import { useMemo, useRef, useState } from 'react';
+import { Loader2, Paperclip, Send, X, FileText, Users } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { cn, formatDate } from '@/lib/utils';
+import {
+  useAddOrderNote,
+  useMentionableUsers,
+  useOrderNotes,
+  useUploadOrderNoteAttachment,
+} from '@/api/hooks';
+import { useIsSubdealer } from '@/stores/authStore';
+import type { ApiMentionableUser, ApiOrderNote, ApiOrderNoteAttachment } from '@/types';
+
+interface OrderNotesThreadProps {
+  orderId: number;
+}
+
+const ATTACHMENT_ACCEPT = 'image/*,.pdf';
+
+// "@" followed by the partial name being typed, up to the caret
+const MENTION_QUERY = /(?:^|\s)@([^\s@]*)$/;
+
+function isImage(attachment: ApiOrderNoteAttachment): boolean {
+  return attachment.fileType?.startsWith('image/') || /\.(jpe?g|png|gif|webp)$/i.test(attachment.fileName);
+}
+
+function NoteBody({ note, users }: { note: ApiOrderNote; users: ApiMentionableUser[] }) {
+  const names = users
+    .filter((user) => note.mentionedUserIds.includes(user.id))
+    .map((user) => `@${user.name}`);
+
+  if (names.length === 0) {
+    return <p className="text-sm whitespace-pre-wrap break-words">{note.note}</p>;
+  }
+
+  const escaped = names.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = note.note.split(new RegExp(`(${escaped.join('|')})`, 'g'));
+
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {parts.map((part, i) =>
+        names.includes(part) ? (
+          <span key={i} className="font-medium text-primary">
+            {part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
+}
+
+function AttachmentList({ attachments, onRemove }: { attachments: ApiOrderNoteAttachment[]; onRemove?: (index: number) => void }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment, index) => (
+        <div key={`${attachment.fileUrl}-${index}`} className="relative group">
+          <a
+            href={attachment.fileUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={attachment.fileName}
+            className="block w-16 h-16 rounded-lg border border-border bg-muted overflow-hidden"
+          >
+            {isImage(attachment) ? (
+              <img src={attachment.fileUrl} alt={attachment.fileName} className="w-full h-full object-cover" />
+            ) : (
+              <div className="w-full h-full flex flex-col items-center justify-center gap-1 p-1">
+                <FileText className="w-5 h-5 text-muted-foreground" />
+                <span className="text-[10px] text-muted-foreground truncate w-full text-center">
+                  {attachment.fileName}
+                </span>
+              </div>
+            )}
+          </a>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(index)}
+              className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-background border border-border flex items-center justify-center"
+              aria-label={`Remove ${attachment.fileName}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Internal comment thread of an order with @mentions and photo attachments.
+ * Staff notes stay internal unless shared; subdealers only see shared notes.
+ */
+export function OrderNotesThread({ orderId }: OrderNotesThreadProps) {
+  const isSubdealer = useIsSubdealer();
+  const { data: notes = [], isLoading } = useOrderNotes(orderId);
+  const { data: users = [] } = useMentionableUsers();
+  const addNote = useAddOrderNote();
+  const uploadAttachment = useUploadOrderNoteAttachment();
+
+  const [text, setText] = useState('');
+  const [shared, setShared] = useState(false);
+  const [mentioned, setMentioned] = useState<ApiMentionableUser[]>([]);
+  const [attachments, setAttachments] = useState<ApiOrderNoteAttachment[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const suggestions = useMemo(() => {
+    if (mentionQuery === null) return [];
+    const query = mentionQuery.toLowerCase();
+    return users
+      .filter((user) => user.name.toLowerCase().includes(query) || user.email.toLowerCase().includes(query))
+      .slice(0, 6);
+  }, [users, mentionQuery]);
+
+  const handleTextChange = (value: string, caret: number) => {
+    setText(value);
+    const match = value.slice(0, caret).match(MENTION_QUERY);
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const handleMention = (user: ApiMentionableUser) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? text.length;
+    const before = text.slice(0, caret).replace(/@[^\s@]*$/, `@${user.name} `);
+    setText(before + text.slice(caret));
+    setMentioned((current) => (current.some((u) => u.id === user.id) ? current : [...current, user]));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+    for (const file of Array.from(files)) {
+      try {
+        const attachment = await uploadAttachment.mutateAsync({ orderId, file });
+        setAttachments((current) => [...current, attachment]);
+      } catch (error) {
+        alert(error instanceof Error ? error.message : `Failed to upload ${file.name}`);
+      }
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleSubmit = async () => {
+    try {
+      await addNote.mutateAsync({
+        orderId,
+        note: text.trim(),
+        shared,
+        // Mentions whose name was edited out of the text are dropped
+        mentionedUserIds: mentioned.filter((user) => text.includes(`@${user.name}`)).map((user) => user.id),
+        attachments,
+      });
+      setText('');
+      setMentioned([]);
+      setAttachments([]);
+      setShared(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to add note');
+    }
+  };
+
+  const canSubmit = (text.trim().length > 0 || attachments.length > 0) && !addNote.isPending && !uploadAttachment.isPending;
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <h2 className="text-lg font-semibold mb-4">Notes ({notes.length})</h2>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : notes.length === 0 ? (
+        <p className="text-sm text-muted-foreground mb-4">No notes yet</p>
+      ) : (
+        <div className="divide-y divide-border mb-4">
+          {notes.map((note) => (
+            <div key={note.id} className="py-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">{note.authorName || 'Unknown user'}</p>
+                <div className="flex items-center gap-2">
+                  {note.shared && !isSubdealer && (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400">
+                      <Users className="w-3 h-3" />
+                      Shared
+                    </span>
+                  )}
+                  <span className="text-xs text-muted-foreground">
+                    {formatDate(note.createdAt, { hour: 'numeric', minute: '2-digit' })}
+                  </span>
+                </div>
+              </div>
+              {note.note && <NoteBody note={note} users={users} />}
+              {note.attachments.length > 0 && <AttachmentList attachments={note.attachments} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="relative">
+          <textarea
+            ref={textareaRef}
+            value={text}
+            onChange={(e) => handleTextChange(e.target.value, e.target.selectionStart)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setMentionQuery(null);
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && canSubmit) handleSubmit();
+            }}
+            rows={3}
+            placeholder={isSubdealer ? 'Write a note for the production team...' : 'Write a note, use @ to mention a teammate...'}
+            className="w-full px-3 py-2 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring resize-none"
+          />
+          {suggestions.length > 0 && (
+            <div className="absolute left-0 right-0 top-full mt-1 z-10 bg-card border border-border rounded-lg shadow-lg overflow-hidden">
+              {suggestions.map((user) => (
+                <button
+                  key={user.id}
+                  type="button"
+                  onMouseDown={(e) => {
+                    // Keep focus in the textarea so the caret position is still known
+                    e.preventDefault();
+                    handleMention(user);
+                  }}
+                  className="w-full px-3 py-2 text-left hover:bg-muted"
+                >
+                  <p className="text-sm font-medium">{user.name}</p>
+                  <p className="text-xs text-muted-foreground">{user.email}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {attachments.length > 0 && (
+          <AttachmentList
+            attachments={attachments}
+            onRemove={(index) => setAttachments((current) => current.filter((_, i) => i !== index))}
+          />
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadAttachment.isPending}
+            >
+              {uploadAttachment.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Paperclip className="mr-2 h-4 w-4" />
+              )}
+              Attach
+            </Button>
+            {!isSubdealer && (
+              <label className={cn('flex items-center gap-2 text-sm', shared ? 'text-foreground' : 'text-muted-foreground')}>
+                <input
+                  type="checkbox"
+                  checked={shared}
+                  onChange={(e) => setShared(e.target.checked)}
+                  className="rounded border-border"
+                />
+                Share with sub-dealer
+              </label>
+            )}
+          </div>
+          <Button size="sm" onClick={handleSubmit} disabled={!canSubmit}>
+            {addNote.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            Post
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
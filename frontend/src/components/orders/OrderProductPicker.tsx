@@ -0,0 +1,305 @@
+import { Trash2, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { findVariant, getOrderProductItemPrice, type OrderProductItem } from './orderProductItem';
+import type {
+  ProductSelectionData,
+  ProductForSelection,
+  Option1ForSelection,
+  Option2ForSelection,
+  ModificationForSelection,
+} from '@/types';
+
+interface OrderProductPickerProps {
+  selectionData: ProductSelectionData | undefined;
+  products: OrderProductItem[];
+  onChange: (products: OrderProductItem[]) => void;
+  showDesignUrls?: boolean; // off when designs are assigned in a later step
+}
+
+export function OrderProductPicker({
+  selectionData,
+  products,
+  onChange,
+  showDesignUrls = true,
+}: OrderProductPickerProps) {
+  // Get filtered options based on selections
+  const getFilteredProducts = (categoryId: number | null): ProductForSelection[] => {
+    if (!selectionData || !categoryId) return [];
+    return selectionData.products.filter((p) => p.categoryId === categoryId);
+  };
+
+  const getOption1s = (productId: number | null): Option1ForSelection[] => {
+    if (!selectionData || !productId) return [];
+    return selectionData.option1s.filter((o) => o.productId === productId);
+  };
+
+  const getOption2s = (productId: number | null): Option2ForSelection[] => {
+    if (!selectionData || !productId) return [];
+    return selectionData.option2s.filter((o) => o.productId === productId);
+  };
+
+  const getModifications = (categoryId: number | null): ModificationForSelection[] => {
+    if (!selectionData || !categoryId) return [];
+    return selectionData.modifications.filter((m) => m.categoryId === categoryId);
+  };
+
+  const updateItem = (id: string, update: (item: OrderProductItem) => OrderProductItem) => {
+    onChange(products.map((p) => (p.id === id ? update(p) : p)));
+  };
+
+  const updateProduct = (id: string, updates: Partial<OrderProductItem>) => {
+    updateItem(id, (p) => {
+      const updated = { ...p, ...updates };
+
+      // Reset dependent fields when parent changes
+      if ('categoryId' in updates) {
+        updated.productId = null;
+        updated.option1Id = null;
+        updated.option2Id = null;
+        updated.variantId = null;
+        updated.modifications = [];
+      }
+      if ('productId' in updates) {
+        updated.option1Id = null;
+        updated.option2Id = null;
+        updated.variantId = null;
+      }
+      if ('option1Id' in updates || 'option2Id' in updates) {
+        const variant = findVariant(selectionData, updated.productId, updated.option1Id, updated.option2Id);
+        updated.variantId = variant?.id || null;
+      }
+
+      return updated;
+    });
+  };
+
+  const removeProduct = (id: string) => {
+    onChange(products.filter((p) => p.id !== id));
+  };
+
+  const addModification = (productId: string, modificationId: number) => {
+    updateItem(productId, (p) => {
+      if (p.modifications.some((m) => m.modificationId === modificationId)) return p;
+      return {
+        ...p,
+        modifications: [...p.modifications, { modificationId, designUrl: '' }],
+      };
+    });
+  };
+
+  const updateModificationUrl = (productId: string, modificationId: number, designUrl: string) => {
+    updateItem(productId, (p) => ({
+      ...p,
+      modifications: p.modifications.map((m) =>
+        m.modificationId === modificationId ? { ...m, designUrl } : m
+      ),
+    }));
+  };
+
+  const removeModification = (productId: string, modificationId: number) => {
+    updateItem(productId, (p) => ({
+      ...p,
+      modifications: p.modifications.filter((m) => m.modificationId !== modificationId),
+    }));
+  };
+
+  return (
+    <div className="space-y-4">
+      {products.map((product, index) => (
+        <div
+          key={product.id}
+          className="p-4 border border-border rounded-lg space-y-3"
+        >
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Product {index + 1}</span>
+            {products.length > 1 && (
+              <button
+                onClick={() => removeProduct(product.id)}
+                className="p-1 text-destructive hover:bg-destructive/10 rounded transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {/* Category */}
+            <div>
+              <label className="text-sm text-muted-foreground">Category</label>
+              <select
+                value={product.categoryId || ''}
+                onChange={(e) =>
+                  updateProduct(product.id, {
+                    categoryId: e.target.value ? Number(e.target.value) : null,
+                  })
+                }
+                className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                <option value="">Select category</option>
+                {selectionData?.categories.map((cat) => (
+                  <option key={cat.id} value={cat.id}>
+                    {cat.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Product */}
+            <div>
+              <label className="text-sm text-muted-foreground">Product</label>
+              <select
+                value={product.productId || ''}
+                onChange={(e) =>
+                  updateProduct(product.id, {
+                    productId: e.target.value ? Number(e.target.value) : null,
+                  })
+                }
+                disabled={!product.categoryId}
+                className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+              >
+                <option value="">Select product</option>
+                {getFilteredProducts(product.categoryId).map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Option 1 */}
+            {getOption1s(product.productId).length > 0 && (
+              <div>
+                <label className="text-sm text-muted-foreground">Size</label>
+                <select
+                  value={product.option1Id || ''}
+                  onChange={(e) =>
+                    updateProduct(product.id, {
+                      option1Id: e.target.value ? Number(e.target.value) : null,
+                    })
+                  }
+                  className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  <option value="">Select size</option>
+                  {getOption1s(product.productId).map((o) => (
+                    <option key={o.id} value={o.id}>
+                      {o.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Option 2 */}
+            {getOption2s(product.productId).length > 0 && (
+              <div>
+                <label className="text-sm text-muted-foreground">Color</label>
+                <select
+                  value={product.option2Id || ''}
+                  onChange={(e) =>
+                    updateProduct(product.id, {
+                      option2Id: e.target.value ? Number(e.target.value) : null,
+                    })
+                  }
+                  className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  <option value="">Select color</option>
+                  {getOption2s(product.productId).map((o) => (
+                    <option key={o.id} value={o.id}>
+                      {o.name} {o.isDark && '(Dark)'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Quantity */}
+            <div>
+              <label className="text-sm text-muted-foreground">Quantity</label>
+              <input
+                type="number"
+                min="1"
+                value={product.quantity}
+                onChange={(e) =>
+                  updateProduct(product.id, {
+                    quantity: Math.max(1, parseInt(e.target.value) || 1),
+                  })
+                }
+                className="w-full mt-1 px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            </div>
+          </div>
+
+          {/* Modifications */}
+          {product.categoryId && getModifications(product.categoryId).length > 0 && (
+            <div className="pt-2 border-t border-border">
+              <label className="text-sm text-muted-foreground">Print Locations</label>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {getModifications(product.categoryId).map((mod) => {
+                  const isSelected = product.modifications.some(
+                    (m) => m.modificationId === mod.id
+                  );
+                  return (
+                    <button
+                      key={mod.id}
+                      onClick={() =>
+                        isSelected
+                          ? removeModification(product.id, mod.id)
+                          : addModification(product.id, mod.id)
+                      }
+                      className={cn(
+                        'px-3 py-1 text-sm rounded-full border transition-colors',
+                        isSelected
+                          ? 'bg-primary text-primary-foreground border-primary'
+                          : 'border-border hover:bg-muted'
+                      )}
+                    >
+                      {mod.name}
+                      {mod.priceDifference > 0 && ` (+$${mod.priceDifference})`}
+                      {isSelected && <Check className="w-3 h-3 ml-1 inline" />}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {/* Design URLs for selected modifications */}
+              {showDesignUrls && product.modifications.length > 0 && (
+                <div className="mt-3 space-y-2">
+                  {product.modifications.map((mod) => {
+                    const modification = selectionData?.modifications.find(
+                      (m) => m.id === mod.modificationId
+                    );
+                    return (
+                      <div key={mod.modificationId} className="flex gap-2 items-center">
+                        <span className="text-sm w-20">{modification?.name}:</span>
+                        <input
+                          type="text"
+                          placeholder="Design URL"
+                          value={mod.designUrl}
+                          onChange={(e) =>
+                            updateModificationUrl(
+                              product.id,
+                              mod.modificationId,
+                              e.target.value
+                            )
+                          }
+                          className="flex-1 px-3 py-1.5 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Variant Price */}
+          {product.variantId && (
+            <div className="text-right text-sm">
+              Price: ${getOrderProductItemPrice(product, selectionData).toFixed(2)} x {product.quantity}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
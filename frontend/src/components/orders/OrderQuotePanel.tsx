@@ -0,0 +1,142 @@
+import { Loader2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/utils';
+import { usePriceQuote } from '@/api/hooks';
+import type { ApiAddress } from '@/types';
+
+export interface OrderQuoteLine {
+  label: string;
+  variantId: number;
+  quantity: number;
+  modificationIds?: number[];
+}
+
+interface OrderQuotePanelProps {
+  lines: OrderQuoteLine[];
+  destinationAddress?: ApiAddress;
+  shippingMethodId?: number;
+  // Shipping priced outside the tenant's shipping profile, e.g. a live carrier rate
+  externalShipping?: { name: string; price: number };
+  hasGiftNote?: boolean;
+  isUrgent?: boolean;
+}
+
+const amount = (value: string | undefined) => parseFloat(value ?? '') || 0;
+
+function QuoteRow({ label, value, muted = false }: { label: string; value: string; muted?: boolean }) {
+  return (
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span className={muted ? 'text-muted-foreground' : undefined}>{value}</span>
+    </div>
+  );
+}
+
+export function OrderQuotePanel({
+  lines,
+  destinationAddress,
+  shippingMethodId,
+  externalShipping,
+  hasGiftNote = false,
+  isUrgent = false,
+}: OrderQuotePanelProps) {
+  const { data: quote, isLoading, isFetching, isError } = usePriceQuote(
+    lines.length > 0
+      ? {
+          items: lines.map(({ variantId, quantity, modificationIds }) => ({
+            variantId,
+            quantity,
+            modificationIds,
+          })),
+          shippingMethodId,
+          destinationAddress,
+          hasGiftNote,
+          isUrgent,
+        }
+      : null
+  );
+
+  if (lines.length === 0) {
+    return <p className="text-sm text-muted-foreground">Add a product to see the price.</p>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Calculating price...
+      </div>
+    );
+  }
+
+  if (isError || !quote) {
+    return <p className="text-sm text-destructive">Could not calculate the price for this order</p>;
+  }
+
+  const discount = amount(quote.totalDiscount);
+  const stitchCharges = amount(quote.totalStitchCharges);
+  const giftNote = amount(quote.giftNotePrice) + amount(quote.totalGiftNotes);
+  const urgent = amount(quote.urgentPrice);
+  const shipping = externalShipping ? externalShipping.price : amount(quote.shippingPrice);
+  const shippingName = externalShipping?.name ?? quote.shippingMethodName;
+  const hasShipping = !!externalShipping || shippingMethodId !== undefined;
+  const total = amount(quote.grandTotal) + (externalShipping?.price ?? 0);
+
+  return (
+    <div className="space-y-3 text-sm">
+      {/* Lines */}
+      <div className="space-y-2">
+        {lines.map((line, index) => {
+          const detail = quote.itemDetails[index];
+          if (!detail) return null;
+          const modifications = amount(detail.modificationPrice);
+          const lineDiscount = amount(detail.discount);
+          return (
+            <div key={index}>
+              <div className="flex justify-between">
+                <span>
+                  {line.label} × {detail.quantity}
+                </span>
+                <span>{formatCurrency(amount(detail.lineTotal))}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {formatCurrency(amount(detail.basePrice))} each
+                {modifications > 0 && ` · print locations +${formatCurrency(modifications)}`}
+                {amount(detail.stitchPrice) > 0 && ` · stitches +${formatCurrency(amount(detail.stitchPrice))}`}
+                {lineDiscount > 0 && ` · discount -${formatCurrency(lineDiscount)}`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Summary */}
+      <div className="space-y-1 border-t border-border pt-3">
+        <QuoteRow label="Products" value={formatCurrency(amount(quote.subtotal))} />
+        {amount(quote.totalModifications) > 0 && (
+          <QuoteRow label="Print locations" value={formatCurrency(amount(quote.totalModifications))} />
+        )}
+        {stitchCharges > 0 && <QuoteRow label="Stitch charges" value={formatCurrency(stitchCharges)} />}
+        {discount > 0 && <QuoteRow label="Price profile discount" value={`-${formatCurrency(discount)}`} />}
+        {hasShipping ? (
+          <QuoteRow
+            label={shippingName ? `Shipping (${shippingName})` : 'Shipping'}
+            value={formatCurrency(shipping)}
+          />
+        ) : (
+          <QuoteRow label="Shipping" value="Select a method" muted />
+        )}
+        {giftNote > 0 && <QuoteRow label="Gift note" value={formatCurrency(giftNote)} />}
+        {urgent > 0 && <QuoteRow label="Urgent fee" value={formatCurrency(urgent)} />}
+        <QuoteRow label="Tax" value="Not charged" muted />
+      </div>
+
+      <div className="flex items-center justify-between border-t border-border pt-3 font-semibold">
+        <span className="flex items-center gap-2">
+          Total
+          {isFetching && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+        </span>
+        <span className="text-lg">{formatCurrency(total)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { Loader2, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { useOrderRefunds, useRequestRefund, useReviewRefundRequest } from '@/api/hooks';
+import { useIsProducer, useIsSubdealer } from '@/stores/authStore';
+import { RefundRequestOrderStatuses, type ApiOrder, type ApiRefundRequest, type RefundRequestStatus } from '@/types';
+
+const statusStyles: Record<RefundRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+  approved: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+  denied: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+};
+
+interface OrderRefundPanelProps {
+  order: ApiOrder;
+}
+
+function RefundRequestRow({
+  order,
+  request,
+  canReview,
+}: {
+  order: ApiOrder;
+  request: ApiRefundRequest;
+  canReview: boolean;
+}) {
+  const reviewRefund = useReviewRefundRequest();
+  const [note, setNote] = useState('');
+
+  const productTitle = (orderProductId: number) => {
+    const product = order.products?.find((p) => p.id === orderProductId);
+    return product?.productDetail?.product || product?.productTitle || `Product #${orderProductId}`;
+  };
+
+  const handleReview = async (approve: boolean) => {
+    try {
+      await reviewRefund.mutateAsync({
+        orderId: order.id,
+        requestId: request.id,
+        approve,
+        note: note.trim() || undefined,
+      });
+      setNote('');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to review refund request');
+    }
+  };
+
+  return (
+    <div className="py-3 space-y-2">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-medium">
+            {request.items.length === 0 ? 'Full refund' : `Refund of ${request.items.length} item(s)`}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {formatDate(request.createdAt)} · {request.reason}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="font-semibold">{formatCurrency(parseFloat(request.amount) || 0)}</p>
+          <span className={cn('inline-block px-2 py-0.5 text-xs font-medium rounded-full capitalize', statusStyles[request.status])}>
+            {request.status}
+          </span>
+        </div>
+      </div>
+
+      {request.items.length > 0 && (
+        <ul className="text-sm text-muted-foreground list-disc pl-5">
+          {request.items.map((item) => (
+            <li key={item.orderProductId}>
+              {productTitle(item.orderProductId)} × {item.quantity}
+              {item.amount && ` · ${formatCurrency(parseFloat(item.amount) || 0)}`}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {request.reviewNote && (
+        <p className="text-sm">
+          <span className="text-muted-foreground">Review note:</span> {request.reviewNote}
+        </p>
+      )}
+
+      {canReview && request.status === 'pending' && (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for the requester (optional)"
+            className="flex-1 px-3 py-1.5 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => handleReview(true)} disabled={reviewRefund.isPending}>
+              {reviewRefund.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Check className="mr-2 h-4 w-4" />
+              )}
+              Approve
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleReview(false)} disabled={reviewRefund.isPending}>
+              <X className="mr-2 h-4 w-4" />
+              Deny
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function OrderRefundPanel({ order }: OrderRefundPanelProps) {
+  const isProducer = useIsProducer();
+  const isSubdealer = useIsSubdealer();
+  const { data, isLoading } = useOrderRefunds(order.id);
+  const requestRefund = useRequestRefund();
+
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [isFullRefund, setIsFullRefund] = useState(true);
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [reason, setReason] = useState('');
+
+  const requests = data?.requests ?? [];
+  const refundableAmount = parseFloat(data?.refundableAmount ?? '') || 0;
+  const hasPending = requests.some((request) => request.status === 'pending');
+  const canRequest =
+    isSubdealer && RefundRequestOrderStatuses.includes(order.orderStatus) && !hasPending && refundableAmount > 0;
+
+  const products = order.products ?? [];
+  const selectedItems = Object.entries(quantities)
+    .map(([orderProductId, quantity]) => ({ orderProductId: Number(orderProductId), quantity }))
+    .filter((item) => item.quantity > 0);
+
+  // Estimate only; the backend prices items from the order
+  const estimatedAmount = isFullRefund
+    ? refundableAmount
+    : Math.min(
+        refundableAmount,
+        selectedItems.reduce((sum, item) => {
+          const product = products.find((p) => p.id === item.orderProductId);
+          const unitPrice = parseFloat(product?.unitPrice ?? product?.price ?? '') || 0;
+          return sum + unitPrice * item.quantity;
+        }, 0)
+      );
+
+  const resetForm = () => {
+    setIsRequesting(false);
+    setIsFullRefund(true);
+    setQuantities({});
+    setReason('');
+  };
+
+  const handleSubmit = async () => {
+    try {
+      await requestRefund.mutateAsync({
+        orderId: order.id,
+        items: isFullRefund ? [] : selectedItems,
+        reason: reason.trim(),
+      });
+      resetForm();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to request refund');
+    }
+  };
+
+  if (!isLoading && requests.length === 0 && !canRequest) return null;
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Refund Requests</h2>
+        {canRequest && !isRequesting && (
+          <Button size="sm" variant="outline" onClick={() => setIsRequesting(true)}>
+            Request Refund
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          {isRequesting && (
+            <div className="space-y-4 p-4 mb-4 bg-muted/50 rounded-lg">
+              <div className="flex gap-4 text-sm">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" checked={isFullRefund} onChange={() => setIsFullRefund(true)} />
+                  Full order
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" checked={!isFullRefund} onChange={() => setIsFullRefund(false)} />
+                  Specific items
+                </label>
+              </div>
+
+              {!isFullRefund && (
+                <div className="space-y-2">
+                  {products.map((product) => (
+                    <div key={product.id} className="flex items-center justify-between gap-4 text-sm">
+                      <span className="truncate">
+                        {product.productDetail?.product || product.productTitle || `Product #${product.id}`}
+                        {product.productDetail?.option1 && ` · ${product.productDetail.option1}`}
+                        {product.productDetail?.option2 && ` · ${product.productDetail.option2}`}
+                      </span>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <input
+                          type="number"
+                          min={0}
+                          max={product.quantity}
+                          value={quantities[product.id] ?? 0}
+                          onChange={(e) =>
+                            setQuantities((current) => ({
+                              ...current,
+                              [product.id]: Math.min(product.quantity, Math.max(0, Number(e.target.value) || 0)),
+                            }))
+                          }
+                          className="w-16 px-2 py-1 bg-background border border-border rounded-lg"
+                        />
+                        <span className="text-muted-foreground">of {product.quantity}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason for the refund"
+                rows={3}
+                className="w-full px-3 py-2 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+
+              <div className="flex items-center justify-between">
+                <span className="text-sm">
+                  Estimated refund: <span className="font-semibold">{formatCurrency(estimatedAmount)}</span>
+                </span>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleSubmit}
+                    disabled={
+                      !reason.trim() ||
+                      (!isFullRefund && selectedItems.length === 0) ||
+                      requestRefund.isPending
+                    }
+                  >
+                    {requestRefund.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Submit Request
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {requests.length === 0 ? (
+            !isRequesting && <p className="text-sm text-muted-foreground">No refund requests</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {[...requests].reverse().map((request) => (
+                <RefundRequestRow key={request.id} order={order} request={request} canReview={isProducer} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
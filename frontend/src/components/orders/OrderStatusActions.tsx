@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import { ChevronDownIcon, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { ConfirmDialog } from '@/components/common';
+import { useUpdateOrderStatus, useCancelOrder } from '@/api/hooks';
+import {
+  OrderStatusCodes,
+  RefundableCancelStatuses,
+  getAllowedStatusTransitions,
+  getOrderStatusActionLabel,
+  getOrderStatusLabel,
+  type ApiOrder,
+} from '@/types';
+
+// Moves that are hard to undo ask for confirmation first
+const confirmStatuses: number[] = [
+  OrderStatusCodes.SHIPPED,
+  OrderStatusCodes.CANCELLED,
+  OrderStatusCodes.DELETED,
+];
+
+interface OrderStatusActionsProps {
+  order: Pick<ApiOrder, 'id' | 'orderStatus' | 'orderInfo'>;
+  size?: 'default' | 'sm';
+  className?: string;
+}
+
+export function OrderStatusActions({ order, size = 'sm', className }: OrderStatusActionsProps) {
+  const [pendingStatus, setPendingStatus] = useState<number | null>(null);
+  const updateStatus = useUpdateOrderStatus();
+  const cancelOrder = useCancelOrder();
+
+  // A paid order with an unconfirmed edit is confirmed from the edit page or cancelled with a refund
+  const hasPendingEdit = !!order.orderInfo?.editSnapshot;
+  const transitions = hasPendingEdit
+    ? [OrderStatusCodes.CANCELLED]
+    : getAllowedStatusTransitions(order.orderStatus);
+  const refundsOnCancel = hasPendingEdit || RefundableCancelStatuses.includes(order.orderStatus);
+  const isWorking = updateStatus.isPending || cancelOrder.isPending;
+
+  if (transitions.length === 0) return null;
+
+  const applyStatus = async (status: number) => {
+    try {
+      if (status === OrderStatusCodes.CANCELLED && refundsOnCancel) {
+        await cancelOrder.mutateAsync(order.id);
+      } else {
+        await updateStatus.mutateAsync({
+          id: order.id,
+          currentStatus: order.orderStatus,
+          status,
+        });
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update order status');
+    } finally {
+      setPendingStatus(null);
+    }
+  };
+
+  const handleSelect = (status: number) => {
+    if (confirmStatuses.includes(status)) {
+      setPendingStatus(status);
+    } else {
+      applyStatus(status);
+    }
+  };
+
+  return (
+    // Stop clicks from reaching a surrounding link (e.g. OrderCard)
+    <div className={className} onClick={(e) => { e.preventDefault(); e.stopPropagation(); }}>
+      <DropdownMenu.Root>
+        <DropdownMenu.Trigger asChild>
+          <Button variant="outline" size={size} disabled={isWorking}>
+            {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Actions
+            <ChevronDownIcon className="ml-2 h-4 w-4" />
+          </Button>
+        </DropdownMenu.Trigger>
+        <DropdownMenu.Portal>
+          <DropdownMenu.Content
+            className="z-50 min-w-[180px] rounded-md border bg-popover p-1 shadow-md"
+            align="end"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {transitions.map((status) => (
+              <DropdownMenu.Item
+                key={status}
+                className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-accent"
+                onClick={() => handleSelect(status)}
+              >
+                {getOrderStatusActionLabel(status)}
+              </DropdownMenu.Item>
+            ))}
+          </DropdownMenu.Content>
+        </DropdownMenu.Portal>
+      </DropdownMenu.Root>
+
+      <ConfirmDialog
+        open={pendingStatus !== null}
+        onOpenChange={(open) => !open && setPendingStatus(null)}
+        title={pendingStatus !== null ? `${getOrderStatusActionLabel(pendingStatus)}?` : ''}
+        description={
+          pendingStatus !== null
+            ? pendingStatus === OrderStatusCodes.CANCELLED && refundsOnCancel
+              ? 'The order total will be refunded to the wallet. This cannot be undone.'
+              : `The order will move from ${getOrderStatusLabel(order.orderStatus)} to ${getOrderStatusLabel(pendingStatus)}. This cannot be undone.`
+            : undefined
+        }
+        confirmLabel={pendingStatus !== null ? getOrderStatusActionLabel(pendingStatus) : 'Confirm'}
+        variant={pendingStatus === OrderStatusCodes.SHIPPED ? 'default' : 'destructive'}
+        loading={isWorking}
+        onConfirm={() => pendingStatus !== null && applyStatus(pendingStatus)}
+      />
+    </div>
+  );
+}
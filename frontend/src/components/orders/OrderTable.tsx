@@ -1,28 +1,27 @@
-import { useState, useMemo, useCallback } from 'react';
-import {
-  ColumnDef,
-  PaginationState,
-  RowSelectionState,
-  SortingState,
-} from '@tanstack/react-table';
-import { DataTable } from '@/components/common';
-import { Button } from '@/components/ui';
-import { OrderStatusBadge, mapApiStatusToBadgeStatus } from './OrderStatusBadge';
-import { OrderFilters, OrderFilterValues } from './OrderFilters';
-import { formatCurrency, formatDate } from '@/lib/utils';
-import type { Order } from '@/types';
+import { useEffect, useMemo, type ReactNode } from 'react';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import * as Checkbox from '@radix-ui/react-checkbox';
 import {
-  MoreHorizontalIcon,
-  EyeIcon,
-  EditIcon,
-  TruckIcon,
-  FileSpreadsheetIcon,
+  CheckIcon,
   CheckSquareIcon,
   ChevronDownIcon,
+  Columns3Icon,
+  FileSpreadsheetIcon,
+  Loader2,
+  MinusIcon,
+  Rows3Icon,
+  Rows4Icon,
+  SendIcon,
 } from 'lucide-react';
-import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
-import * as Checkbox from '@radix-ui/react-checkbox';
-import { CheckIcon } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { EmptyState } from '@/components/common';
+import { ShipByBadge } from './ShipByBadge';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { isBulkUpdatableStatus } from '@/api/hooks';
+import { useVirtualRows } from '@/hooks/useVirtualRows';
+import type { OrderSelectionState } from '@/hooks/useOrderSelection';
+import { useOrderTableStore, type OrderTableColumnId } from '@/stores/orderTableStore';
+import { getCommonStatusTransitions, getOrderStatusColor, getOrderStatusLabel, type ApiOrder } from '@/types';
 
 interface Store {
   id: string;
@@ -30,307 +29,349 @@ interface Store {
 }
 
 interface OrderTableProps {
-  orders: Order[];
-  loading?: boolean;
+  orders: ApiOrder[];
   totalCount: number;
-  pageCount: number;
-  pagination: PaginationState;
-  onPaginationChange: (pagination: PaginationState) => void;
-  sorting?: SortingState;
-  onSortingChange?: (sorting: SortingState) => void;
-  filters: OrderFilterValues;
-  onFiltersChange: (filters: OrderFilterValues) => void;
+  loading?: boolean;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  selection: OrderSelectionState;
   stores?: Store[];
-  onViewOrder: (order: Order) => void;
-  onEditOrder?: (order: Order) => void;
-  onBulkStatusChange?: (orderIds: string[], status: string) => void;
-  onBulkExport?: (orderIds: string[]) => void;
-  onCreateGangsheet?: (orderIds: string[]) => void;
+  onViewOrder: (order: ApiOrder) => void;
+  onBulkStatusChange?: (orders: ApiOrder[], status: number) => void;
+  onBulkExport?: () => void;
+  onCreateGangsheet?: () => void;
+  bulkActionPending?: boolean;
+  toolbar?: ReactNode; // extra bulk actions, shown while orders are selected
+}
+
+interface OrderTableColumn {
+  id: OrderTableColumnId;
+  label: string;
+  width: string; // grid track
+  cell: (order: ApiOrder, dense: boolean, stores: Store[]) => ReactNode;
 }
 
+const ROW_HEIGHT = { comfortable: 56, dense: 36 };
+
+// Start loading the next page this many rows before the end of the loaded ones
+const LOAD_MORE_THRESHOLD = 20;
+
+const columns: OrderTableColumn[] = [
+  {
+    id: 'externalId',
+    label: 'External ID',
+    width: 'minmax(120px, 1fr)',
+    cell: (order) => <span className="text-muted-foreground truncate">{order.externalOrderId || '-'}</span>,
+  },
+  {
+    id: 'customer',
+    label: 'Customer',
+    width: 'minmax(160px, 2fr)',
+    cell: (order, dense) => (
+      <div className="min-w-0">
+        <div className="font-medium truncate">{order.customerName || '-'}</div>
+        {!dense && order.customerEmail && (
+          <div className="text-xs text-muted-foreground truncate">{order.customerEmail}</div>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: 'store',
+    label: 'Store',
+    width: 'minmax(120px, 1fr)',
+    cell: (order, _dense, stores) => {
+      const store = stores.find((s) => s.id === String(order.storeId));
+      return <span className="truncate">{store?.name || '-'}</span>;
+    },
+  },
+  {
+    id: 'total',
+    label: 'Total',
+    width: '96px',
+    cell: (order) => <span className="font-medium">{formatCurrency(parseFloat(order.totalAmount) || 0)}</span>,
+  },
+  {
+    id: 'status',
+    label: 'Status',
+    width: '140px',
+    cell: (order) => (
+      <span
+        className={cn(
+          'inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium truncate',
+          getOrderStatusColor(order.orderStatus)
+        )}
+      >
+        {getOrderStatusLabel(order.orderStatus)}
+      </span>
+    ),
+  },
+  {
+    id: 'shipBy',
+    label: 'Ship By',
+    width: '150px',
+    cell: (order) =>
+      order.shipBy ? <ShipByBadge shipBy={order.shipBy} /> : <span className="text-muted-foreground">-</span>,
+  },
+  {
+    id: 'tracking',
+    label: 'Tracking',
+    width: 'minmax(140px, 1fr)',
+    cell: (order) => (
+      <span className="inline-flex items-center gap-1 min-w-0 font-mono text-xs text-muted-foreground">
+        <span className="truncate">{order.orderInfo?.shipping?.trackingCode || order.trackingNumber || '-'}</span>
+        {order.orderInfo?.shipping?.sent_to_marketplace && (
+          <SendIcon className="h-3 w-3 flex-shrink-0 text-green-600" aria-label="Sent to marketplace" />
+        )}
+      </span>
+    ),
+  },
+  {
+    id: 'createdAt',
+    label: 'Date',
+    width: '110px',
+    cell: (order) => <span className="text-muted-foreground">{formatDate(order.createdAt)}</span>,
+  },
+];
+
+const checkboxClassName =
+  'flex h-4 w-4 items-center justify-center rounded border border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground data-[state=indeterminate]:bg-primary data-[state=indeterminate]:text-primary-foreground';
+
+/**
+ * Virtualized order table that loads more orders as it is scrolled.
+ * Only the rows in view are rendered, so tens of thousands of loaded orders scroll smoothly.
+ */
 export function OrderTable({
   orders,
-  loading = false,
   totalCount,
-  pageCount,
-  pagination,
-  onPaginationChange,
-  sorting,
-  onSortingChange,
-  filters,
-  onFiltersChange,
+  loading = false,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  selection,
   stores = [],
   onViewOrder,
-  onEditOrder,
   onBulkStatusChange,
   onBulkExport,
   onCreateGangsheet,
+  bulkActionPending = false,
+  toolbar,
 }: OrderTableProps) {
-  const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+  const { dense, hiddenColumns, setDense, toggleColumn } = useOrderTableStore();
+  const rowHeight = dense ? ROW_HEIGHT.dense : ROW_HEIGHT.comfortable;
+  const { scrollRef, start, end, paddingTop, paddingBottom } = useVirtualRows({ count: orders.length, rowHeight });
 
-  const selectedOrderIds = useMemo(() => {
-    return Object.keys(rowSelection)
-      .filter((key) => rowSelection[key])
-      .map((index) => orders[parseInt(index)]?.id)
-      .filter(Boolean);
-  }, [rowSelection, orders]);
+  const visibleColumns = columns.filter((column) => !hiddenColumns.includes(column.id));
+  const gridTemplateColumns = ['40px', 'minmax(100px, 1fr)', ...visibleColumns.map((column) => column.width)].join(' ');
 
-  const columns: ColumnDef<Order>[] = useMemo(
-    () => [
-      {
-        id: 'select',
-        header: ({ table }) => (
-          <Checkbox.Root
-            checked={
-              table.getIsAllPageRowsSelected() ||
-              (table.getIsSomePageRowsSelected() && 'indeterminate')
-            }
-            onCheckedChange={(value) =>
-              table.toggleAllPageRowsSelected(!!value)
-            }
-            className="flex h-4 w-4 items-center justify-center rounded border border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
-          >
-            <Checkbox.Indicator>
-              <CheckIcon className="h-3 w-3" />
-            </Checkbox.Indicator>
-          </Checkbox.Root>
-        ),
-        cell: ({ row }) => (
-          <Checkbox.Root
-            checked={row.getIsSelected()}
-            onCheckedChange={(value) => row.toggleSelected(!!value)}
-            className="flex h-4 w-4 items-center justify-center rounded border border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
-          >
-            <Checkbox.Indicator>
-              <CheckIcon className="h-3 w-3" />
-            </Checkbox.Indicator>
-          </Checkbox.Root>
-        ),
-        enableSorting: false,
-        size: 40,
-      },
-      {
-        accessorKey: 'orderNumber',
-        header: 'Order ID',
-        cell: ({ row }) => (
-          <button
-            onClick={() => onViewOrder(row.original)}
-            className="font-medium text-primary hover:underline"
-          >
-            #{row.original.orderNumber}
-          </button>
-        ),
-      },
-      {
-        id: 'externalId',
-        header: 'External ID',
-        cell: ({ row }) => (
-          <span className="text-muted-foreground">
-            {(row.original as Order & { externalId?: string }).externalId || '-'}
-          </span>
-        ),
-      },
-      {
-        id: 'customer',
-        header: 'Customer',
-        cell: ({ row }) => (
-          <div>
-            <div className="font-medium">
-              {row.original.customer.firstName} {row.original.customer.lastName}
-            </div>
-            <div className="text-sm text-muted-foreground">
-              {row.original.customer.email}
-            </div>
-          </div>
-        ),
-      },
-      {
-        id: 'store',
-        header: 'Store',
-        cell: ({ row }) => {
-          const store = stores.find(
-            (s) => s.id === (row.original as Order & { storeId?: string }).storeId
-          );
-          return <span>{store?.name || '-'}</span>;
-        },
-      },
-      {
-        accessorKey: 'total',
-        header: 'Total',
-        cell: ({ row }) => (
-          <span className="font-medium">
-            {formatCurrency(row.original.total)}
-          </span>
-        ),
-      },
-      {
-        accessorKey: 'status',
-        header: 'Status',
-        cell: ({ row }) => (
-          <OrderStatusBadge
-            status={mapApiStatusToBadgeStatus(
-              row.original.status,
-              row.original.paymentStatus
-            )}
-          />
-        ),
-      },
-      {
-        accessorKey: 'createdAt',
-        header: 'Date',
-        cell: ({ row }) => (
-          <span className="text-muted-foreground">
-            {formatDate(row.original.createdAt)}
+  const selectedOnPage = orders.filter((order) => selection.isSelected(order.id)).length;
+  const headerChecked = orders.length > 0 && selectedOnPage === orders.length ? true : selectedOnPage > 0 ? 'indeterminate' : false;
+
+  const selectedOrders = useMemo(
+    () => orders.filter((order) => selection.isSelected(order.id)),
+    [orders, selection]
+  );
+
+  // Only offer moves that are legal for every selected order, and no bulk cancel of paid orders.
+  // Orders picked through "all matching" may not be loaded, so their statuses are unknown and no move is offered.
+  const bulkStatusOptions = useMemo(() => {
+    if (selection.isMatching) return [];
+    const statuses = selectedOrders.map((order) => order.orderStatus);
+    return getCommonStatusTransitions(statuses).filter((status) => isBulkUpdatableStatus(status, statuses));
+  }, [selection.isMatching, selectedOrders]);
+
+  useEffect(() => {
+    if (hasMore && !loadingMore && end >= orders.length - LOAD_MORE_THRESHOLD) {
+      onLoadMore?.();
+    }
+  }, [end, orders.length, hasMore, loadingMore, onLoadMore]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          {selection.count > 0 && (
+            <>
+              <span className="text-sm font-medium">{selection.count.toLocaleString()} selected</span>
+              {!selection.isMatching && selection.count >= orders.length && orders.length < totalCount && (
+                <button onClick={selection.selectMatching} className="text-sm text-primary hover:underline">
+                  Select all {totalCount.toLocaleString()} matching orders
+                </button>
+              )}
+              <div className="h-4 w-px bg-border" />
+
+              {onBulkStatusChange && bulkStatusOptions.length > 0 && (
+                <DropdownMenu.Root>
+                  <DropdownMenu.Trigger asChild>
+                    <Button variant="outline" size="sm" disabled={bulkActionPending}>
+                      <CheckSquareIcon className="mr-2 h-4 w-4" />
+                      Change Status
+                      <ChevronDownIcon className="ml-2 h-4 w-4" />
+                    </Button>
+                  </DropdownMenu.Trigger>
+                  <DropdownMenu.Portal>
+                    <DropdownMenu.Content className="z-50 min-w-[160px] rounded-md border bg-popover p-1 shadow-md">
+                      {bulkStatusOptions.map((status) => (
+                        <DropdownMenu.Item
+                          key={status}
+                          className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-accent"
+                          onClick={() => onBulkStatusChange(selectedOrders, status)}
+                        >
+                          {getOrderStatusLabel(status)}
+                        </DropdownMenu.Item>
+                      ))}
+                    </DropdownMenu.Content>
+                  </DropdownMenu.Portal>
+                </DropdownMenu.Root>
+              )}
+
+              {onBulkExport && (
+                <Button variant="outline" size="sm" onClick={onBulkExport} disabled={bulkActionPending}>
+                  <FileSpreadsheetIcon className="mr-2 h-4 w-4" />
+                  Export
+                </Button>
+              )}
+
+              {onCreateGangsheet && (
+                <Button variant="outline" size="sm" onClick={onCreateGangsheet} disabled={bulkActionPending}>
+                  Create Gangsheet
+                </Button>
+              )}
+
+              {toolbar}
+
+              <Button variant="ghost" size="sm" onClick={selection.clear}>
+                Clear
+              </Button>
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">
+            {orders.length.toLocaleString()} of {totalCount.toLocaleString()} loaded
           </span>
-        ),
-      },
-      {
-        id: 'actions',
-        header: '',
-        cell: ({ row }) => (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDense(!dense)}
+            title={dense ? 'Comfortable rows' : 'Dense rows'}
+          >
+            {dense ? <Rows3Icon className="h-4 w-4" /> : <Rows4Icon className="h-4 w-4" />}
+          </Button>
           <DropdownMenu.Root>
             <DropdownMenu.Trigger asChild>
-              <Button variant="ghost" size="icon" className="h-8 w-8">
-                <MoreHorizontalIcon className="h-4 w-4" />
+              <Button variant="outline" size="sm">
+                <Columns3Icon className="mr-2 h-4 w-4" />
+                Columns
               </Button>
             </DropdownMenu.Trigger>
             <DropdownMenu.Portal>
               <DropdownMenu.Content
-                className="z-50 min-w-[160px] rounded-md border bg-popover p-1 shadow-md"
+                className="z-50 min-w-[180px] rounded-md border bg-popover p-1 shadow-md"
                 align="end"
               >
-                <DropdownMenu.Item
-                  className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-accent"
-                  onClick={() => onViewOrder(row.original)}
-                >
-                  <EyeIcon className="h-4 w-4" />
-                  View Details
-                </DropdownMenu.Item>
-                {onEditOrder && (
-                  <DropdownMenu.Item
+                {columns.map((column) => (
+                  <DropdownMenu.CheckboxItem
+                    key={column.id}
+                    checked={!hiddenColumns.includes(column.id)}
+                    onCheckedChange={() => toggleColumn(column.id)}
+                    onSelect={(e) => e.preventDefault()}
                     className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-accent"
-                    onClick={() => onEditOrder(row.original)}
                   >
-                    <EditIcon className="h-4 w-4" />
-                    Edit Order
-                  </DropdownMenu.Item>
-                )}
-                <DropdownMenu.Separator className="my-1 h-px bg-muted" />
-                <DropdownMenu.Item className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-accent">
-                  <TruckIcon className="h-4 w-4" />
-                  Print Label
-                </DropdownMenu.Item>
+                    <span className="flex h-4 w-4 items-center justify-center">
+                      <DropdownMenu.ItemIndicator>
+                        <CheckIcon className="h-4 w-4" />
+                      </DropdownMenu.ItemIndicator>
+                    </span>
+                    {column.label}
+                  </DropdownMenu.CheckboxItem>
+                ))}
               </DropdownMenu.Content>
             </DropdownMenu.Portal>
           </DropdownMenu.Root>
-        ),
-        size: 50,
-      },
-    ],
-    [onViewOrder, onEditOrder, stores]
-  );
-
-  const handleClearSelection = useCallback(() => {
-    setRowSelection({});
-  }, []);
+        </div>
+      </div>
 
-  // Batch Actions Toolbar
-  const toolbar = selectedOrderIds.length > 0 && (
-    <div className="flex items-center gap-2 rounded-lg border bg-muted/50 p-2">
-      <span className="text-sm font-medium">
-        {selectedOrderIds.length} selected
-      </span>
-      <div className="h-4 w-px bg-border" />
+      <div
+        ref={scrollRef}
+        className="h-[calc(100vh-22rem)] min-h-[400px] overflow-auto rounded-lg border border-border bg-card"
+      >
+        <div className="min-w-max">
+          {/* Header */}
+          <div
+            className="sticky top-0 z-10 grid items-center gap-3 border-b border-border bg-muted/80 px-3 py-2 text-xs font-medium text-muted-foreground backdrop-blur"
+            style={{ gridTemplateColumns }}
+          >
+            <Checkbox.Root
+              checked={headerChecked}
+              onCheckedChange={(value) => selection.setMany(orders.map((order) => order.id), value === true)}
+              disabled={orders.length === 0}
+              className={checkboxClassName}
+              aria-label="Select loaded orders"
+            >
+              <Checkbox.Indicator>
+                {headerChecked === 'indeterminate' ? <MinusIcon className="h-3 w-3" /> : <CheckIcon className="h-3 w-3" />}
+              </Checkbox.Indicator>
+            </Checkbox.Root>
+            <span>Order</span>
+            {visibleColumns.map((column) => (
+              <span key={column.id}>{column.label}</span>
+            ))}
+          </div>
 
-      {onBulkStatusChange && (
-        <DropdownMenu.Root>
-          <DropdownMenu.Trigger asChild>
-            <Button variant="outline" size="sm">
-              <CheckSquareIcon className="mr-2 h-4 w-4" />
-              Change Status
-              <ChevronDownIcon className="ml-2 h-4 w-4" />
-            </Button>
-          </DropdownMenu.Trigger>
-          <DropdownMenu.Portal>
-            <DropdownMenu.Content className="z-50 min-w-[160px] rounded-md border bg-popover p-1 shadow-md">
-              {['pending', 'in_production', 'shipped', 'cancelled'].map(
-                (status) => (
-                  <DropdownMenu.Item
-                    key={status}
-                    className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-accent"
-                    onClick={() => onBulkStatusChange(selectedOrderIds, status)}
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : orders.length === 0 ? (
+            <EmptyState title="No orders found" description="Try adjusting your filters." />
+          ) : (
+            <div style={{ paddingTop, paddingBottom }}>
+              {orders.slice(start, end).map((order) => {
+                const selected = selection.isSelected(order.id);
+                return (
+                  <div
+                    key={order.id}
+                    onClick={() => onViewOrder(order)}
+                    className={cn(
+                      'grid cursor-pointer items-center gap-3 border-b border-border px-3 text-sm hover:bg-muted/50',
+                      selected && 'bg-primary/5'
+                    )}
+                    style={{ gridTemplateColumns, height: rowHeight }}
                   >
-                    {status.replace('_', ' ').replace(/\b\w/g, (c) => c.toUpperCase())}
-                  </DropdownMenu.Item>
-                )
-              )}
-            </DropdownMenu.Content>
-          </DropdownMenu.Portal>
-        </DropdownMenu.Root>
-      )}
-
-      {onBulkExport && (
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => onBulkExport(selectedOrderIds)}
-        >
-          <FileSpreadsheetIcon className="mr-2 h-4 w-4" />
-          Export
-        </Button>
-      )}
-
-      {onCreateGangsheet && (
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => onCreateGangsheet(selectedOrderIds)}
-        >
-          Create Gangsheet
-        </Button>
-      )}
-
-      <Button variant="ghost" size="sm" onClick={handleClearSelection}>
-        Clear
-      </Button>
-    </div>
-  );
-
-  return (
-    <div className="space-y-4">
-      <OrderFilters
-        filters={filters}
-        onFiltersChange={onFiltersChange}
-        stores={stores}
-      />
+                    <div onClick={(e) => e.stopPropagation()}>
+                      <Checkbox.Root
+                        checked={selected}
+                        onCheckedChange={(value) => selection.toggle(order.id, value === true)}
+                        className={checkboxClassName}
+                        aria-label={`Select order ${order.intOrderId || order.id}`}
+                      >
+                        <Checkbox.Indicator>
+                          <CheckIcon className="h-3 w-3" />
+                        </Checkbox.Indicator>
+                      </Checkbox.Root>
+                    </div>
+                    <span className="font-medium text-primary truncate">#{order.intOrderId || order.id}</span>
+                    {visibleColumns.map((column) => (
+                      <div key={column.id} className="flex min-w-0 items-center overflow-hidden">
+                        {column.cell(order, dense, stores)}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
 
-      <DataTable
-        columns={columns}
-        data={orders}
-        loading={loading}
-        pagination={pagination}
-        onPaginationChange={(updater) => {
-          const newPagination =
-            typeof updater === 'function' ? updater(pagination) : updater;
-          onPaginationChange(newPagination);
-        }}
-        pageCount={pageCount}
-        totalCount={totalCount}
-        rowSelection={rowSelection}
-        onRowSelectionChange={setRowSelection}
-        enableRowSelection
-        sorting={sorting}
-        onSortingChange={onSortingChange ? (updater) => {
-          const newSorting =
-            typeof updater === 'function' ? updater(sorting || []) : updater;
-          onSortingChange(newSorting);
-        } : undefined}
-        toolbar={toolbar}
-        emptyState={{
-          title: 'No orders found',
-          description: 'Try adjusting your filters or create a new order.',
-        }}
-      />
+          {loadingMore && (
+            <div className="flex items-center justify-center gap-2 py-3 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading more orders...
+            </div>
+          )}
+        </div>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,68 @@
+import { CircleDot, CreditCard, RotateCcw, Tag, MessageSquare } from 'lucide-react';
+import { cn, formatDate } from '@/lib/utils';
+
+export type OrderTimelineEventKind = 'status' | 'payment' | 'refund' | 'label' | 'note';
+
+export interface OrderTimelineEvent {
+  id: string;
+  kind: OrderTimelineEventKind;
+  title: string;
+  description?: string;
+  createdAt: string;
+}
+
+const kindStyles: Record<OrderTimelineEventKind, { icon: typeof CircleDot; className: string }> = {
+  status: { icon: CircleDot, className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400' },
+  payment: { icon: CreditCard, className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  refund: { icon: RotateCcw, className: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400' },
+  label: { icon: Tag, className: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400' },
+  note: { icon: MessageSquare, className: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300' },
+};
+
+interface OrderTimelineProps {
+  events: OrderTimelineEvent[];
+  className?: string;
+}
+
+export function OrderTimeline({ events, className }: OrderTimelineProps) {
+  // Oldest first so the timeline reads top to bottom
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  if (sorted.length === 0) {
+    return <p className="text-sm text-muted-foreground">No activity recorded yet</p>;
+  }
+
+  return (
+    <ol className={cn('relative space-y-4', className)}>
+      {sorted.map((event, index) => {
+        const { icon: Icon, className: iconClassName } = kindStyles[event.kind];
+        return (
+          <li key={event.id} className="relative flex gap-3">
+            {index < sorted.length - 1 && (
+              <span className="absolute left-4 top-8 -bottom-4 w-px bg-border" aria-hidden />
+            )}
+            <div
+              className={cn(
+                'relative z-10 w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0',
+                iconClassName
+              )}
+            >
+              <Icon className="w-4 h-4" />
+            </div>
+            <div className="min-w-0 pt-1">
+              <p className="text-sm font-medium">{event.title}</p>
+              {event.description && (
+                <p className="text-sm text-muted-foreground break-words">{event.description}</p>
+              )}
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {formatDate(event.createdAt, { hour: 'numeric', minute: '2-digit' })}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BookmarkPlus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  useCreateSavedOrderView,
+  useDeleteSavedOrderView,
+  useSavedOrderViews,
+  type OrderViewPage,
+  type SavedOrderView,
+} from '@/api/hooks';
+
+interface OrderViewTabsProps {
+  page: OrderViewPage;
+  basePath: string; // e.g. /orders/new-orders
+  filterQuery: string; // current filters as a query string, without the page
+  className?: string;
+}
+
+export function OrderViewTabs({ page, basePath, filterQuery, className }: OrderViewTabsProps) {
+  const navigate = useNavigate();
+  const { data: views = [] } = useSavedOrderViews(page);
+  const createView = useCreateSavedOrderView();
+  const deleteView = useDeleteSavedOrderView();
+  const [isNaming, setIsNaming] = useState(false);
+  const [viewName, setViewName] = useState('');
+
+  const activeView = views.find((view) => view.query === filterQuery);
+  const canSave = filterQuery !== '' && !activeView;
+
+  const openQuery = (query: string) => {
+    navigate(query ? `${basePath}?${query}` : basePath);
+  };
+
+  const handleSave = async () => {
+    const name = viewName.trim();
+    if (!name) return;
+    try {
+      await createView.mutateAsync({ name, page, query: filterQuery });
+      setViewName('');
+      setIsNaming(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save view');
+    }
+  };
+
+  const handleRemove = async (view: SavedOrderView) => {
+    const wasActive = activeView?.id === view.id;
+    try {
+      await deleteView.mutateAsync(view);
+      if (wasActive) openQuery('');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to remove view');
+    }
+  };
+
+  const tabClass = (active: boolean) =>
+    cn(
+      'inline-flex items-center gap-1 px-3 py-2 text-sm border-b-2 -mb-px transition-colors whitespace-nowrap',
+      active
+        ? 'border-primary text-foreground font-medium'
+        : 'border-transparent text-muted-foreground hover:text-foreground'
+    );
+
+  return (
+    <div className={cn('flex items-center gap-1 border-b border-border overflow-x-auto', className)}>
+      <button onClick={() => openQuery('')} className={tabClass(filterQuery === '')}>
+        All
+      </button>
+
+      {views.map((view) => (
+        <div key={view.id} className={cn(tabClass(activeView?.id === view.id), 'group')}>
+          <button onClick={() => openQuery(view.query)}>{view.name}</button>
+          <button
+            onClick={() => handleRemove(view)}
+            className="opacity-0 group-hover:opacity-100 p-0.5 rounded hover:bg-muted"
+            title="Remove view"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+
+      {filterQuery !== '' && !activeView && (
+        <span className={tabClass(true)}>Custom</span>
+      )}
+
+      <div className="ml-auto pl-2 flex items-center">
+        {isNaming ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+            className="flex items-center gap-2 py-1"
+          >
+            <input
+              autoFocus
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              placeholder="View name"
+              className="px-2 py-1 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+            <button
+              type="submit"
+              disabled={!viewName.trim() || createView.isPending}
+              className="px-2 py-1 text-sm bg-primary text-primary-foreground rounded-lg disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsNaming(false)}
+              className="px-2 py-1 text-sm text-muted-foreground hover:text-foreground"
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          canSave && (
+            <button
+              onClick={() => setIsNaming(true)}
+              className="inline-flex items-center gap-1 px-2 py-1 text-sm text-primary hover:underline whitespace-nowrap"
+            >
+              <BookmarkPlus className="w-4 h-4" />
+              Save view
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { formatCurrency } from '@/lib/utils';
+import type { ApiOrderPriceSummary } from '@/types';
+
+const amount = (value: string | undefined) => parseFloat(value ?? '') || 0;
+
+interface OrderPriceSummaryProps {
+  summary: ApiOrderPriceSummary;
+  isUrgent?: boolean; // the urgent fee is only added when paying
+}
+
+/**
+ * Totals of a saved order as priced by the backend (step 3)
+ */
+export function OrderPriceSummary({ summary, isUrgent = false }: OrderPriceSummaryProps) {
+  const giftNote = amount(summary.giftNotePrice);
+  const urgent = amount(summary.urgentPrice);
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Products</span>
+        <span>{formatCurrency(amount(summary.subtotal))}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Shipping</span>
+        <span>{formatCurrency(amount(summary.shippingPrice))}</span>
+      </div>
+      {giftNote > 0 && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Gift note</span>
+          <span>{formatCurrency(giftNote)}</span>
+        </div>
+      )}
+      {urgent > 0 ? (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Urgent fee</span>
+          <span>{formatCurrency(urgent)}</span>
+        </div>
+      ) : (
+        isUrgent && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Urgent fee</span>
+            <span className="text-muted-foreground">Added at payment</span>
+          </div>
+        )
+      )}
+      <div className="flex justify-between pt-2 border-t border-border font-semibold">
+        <span>Total</span>
+        <span>{formatCurrency(amount(summary.totalPrice))}</span>
+      </div>
+    </div>
+  );
+}
@@ -1,296 +1,362 @@
-import { useState, useCallback } from 'react';
-import { useForm, FormProvider } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { Button, Card, CardContent } from '@/components/ui';
-import { Step1Products } from './Step1Products';
-import { Step2Designs } from './Step2Designs';
-import { Step3Shipping } from './Step3Shipping';
-import { Step4Payment } from './Step4Payment';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { CheckIcon, ChevronLeftIcon, ChevronRightIcon, Loader2 } from 'lucide-react';
 import {
-  orderWizardSchema,
-  wizardSteps,
-  type OrderWizardData,
-} from './types';
-import type { Product, Design } from '@/types';
+  useCalculateOrderPrice,
+  useConfirmOrder,
+  useCreateOrder,
+  useOrderConfirmation,
+  useOriginCountry,
+  usePayOrder,
+  useSaveCustomerAddress,
+  useSelectOrderShipping,
+  useUpdateOrderStep2,
+} from '@/api/hooks';
+import { Button } from '@/components/ui';
 import { cn } from '@/lib/utils';
-import { CheckIcon, ChevronLeftIcon, ChevronRightIcon } from 'lucide-react';
+import { isInternationalShipment, suggestCustomsLines, toCustomsInfo } from '../customs';
+import { getCustomsSourceLines, toOrderEditLine } from '../orderProductItem';
+import { Step1Products } from './Step1Products';
+import { Step2Designs } from './Step2Designs';
+import { Step3Address } from './Step3Address';
+import { Step4Shipping } from './Step4Shipping';
+import { Step5Payment } from './Step5Payment';
+import { getWizardStepError, wizardSteps, type OrderWizardValues } from './types';
+import type { ApiOrder, ApiOrderPriceSummary, ApiOrderStep3Price, ProductSelectionData } from '@/types';
 
 interface OrderWizardProps {
-  products: Product[];
-  designs: Design[];
-  productsLoading?: boolean;
-  designsLoading?: boolean;
-  onSubmit: (data: OrderWizardData) => void;
+  values: OrderWizardValues;
+  onChange: (update: (values: OrderWizardValues) => OrderWizardValues) => void;
+  selectionData: ProductSelectionData | undefined;
+  onOrderCreated?: (order: ApiOrder) => void; // from here on the order itself holds the entered data
+  onComplete: (orderId: number) => void;
   onCancel: () => void;
-  submitting?: boolean;
 }
 
+/**
+ * Manual order entry: products, designs and address are entered here, then the order is
+ * saved and priced, shipped, paid and sent to production through the backend order steps.
+ */
 export function OrderWizard({
-  products,
-  designs,
-  productsLoading = false,
-  designsLoading = false,
-  onSubmit,
+  values,
+  onChange,
+  selectionData,
+  onOrderCreated,
+  onComplete,
   onCancel,
-  submitting = false,
 }: OrderWizardProps) {
+  const createOrder = useCreateOrder();
+  const updateStep2 = useUpdateOrderStep2();
+  const calculatePrice = useCalculateOrderPrice();
+  const selectShipping = useSelectOrderShipping();
+  const payOrder = usePayOrder();
+  const confirmOrder = useConfirmOrder();
+  const saveCustomerAddress = useSaveCustomerAddress();
+  const { data: originCountry = 'US' } = useOriginCountry();
+
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
-  const [designPickerOpen, setDesignPickerOpen] = useState(false);
-  const [designPickerItemIndex, setDesignPickerItemIndex] = useState<number | null>(null);
+  const [stepError, setStepError] = useState<string | null>(null);
+  const [savedOrder, setSavedOrder] = useState<ApiOrder | null>(null);
+  const [pricing, setPricing] = useState<ApiOrderStep3Price | null>(null);
+  const [shippingIndex, setShippingIndex] = useState<number | null>(null);
+  const [summary, setSummary] = useState<ApiOrderPriceSummary | null>(null);
+  const [isPaid, setIsPaid] = useState(false);
+  // Address last written to the address book, so going back and forth doesn't save it twice
+  const savedAddressKeyRef = useRef('');
 
-  const methods = useForm<OrderWizardData>({
-    resolver: zodResolver(orderWizardSchema),
-    defaultValues: {
-      items: [{ productId: '', variantId: undefined, quantity: 1, price: 0 }],
-      assignments: [],
-      shippingAddress: {
-        firstName: '',
-        lastName: '',
-        company: '',
-        address1: '',
-        address2: '',
-        city: '',
-        state: '',
-        postalCode: '',
-        country: 'United States',
-        phone: '',
-      },
-      billingAddress: {
-        firstName: '',
-        lastName: '',
-        company: '',
-        address1: '',
-        address2: '',
-        city: '',
-        state: '',
-        postalCode: '',
-        country: 'United States',
-        phone: '',
-      },
-      sameAsBilling: true,
-      shippingMethod: '',
-      paymentMethod: 'card',
-      notes: '',
-    },
-    mode: 'onChange',
-  });
+  const confirmation = useOrderConfirmation(savedOrder?.id ?? '', isPaid);
 
   const currentStep = wizardSteps[currentStepIndex];
   const isFirstStep = currentStepIndex === 0;
-  const isLastStep = currentStepIndex === wizardSteps.length - 1;
+  const update = (changes: Partial<OrderWizardValues>) => onChange((current) => ({ ...current, ...changes }));
 
-  const handleOpenDesignPicker = useCallback((itemIndex: number) => {
-    setDesignPickerItemIndex(itemIndex);
-    setDesignPickerOpen(true);
-  }, []);
+  // Orders leaving the origin country carry a customs declaration, suggested from the products
+  const isInternational = isInternationalShipment(values.address.country, originCountry);
+  const customsSourceLines = useMemo(
+    () => getCustomsSourceLines(values.products, selectionData),
+    [values.products, selectionData]
+  );
+  useEffect(() => {
+    onChange((current) => {
+      const customsLines = isInternational
+        ? suggestCustomsLines(customsSourceLines, selectionData, current.customsLines)
+        : [];
+      const isUnchanged =
+        customsLines.length === current.customsLines.length &&
+        customsLines.every((line, index) => line === current.customsLines[index]);
+      return isUnchanged ? current : { ...current, customsLines };
+    });
+  }, [isInternational, customsSourceLines, selectionData, onChange]);
 
-  const handleSelectDesign = useCallback(
-    (designId: string) => {
-      if (designPickerItemIndex === null) return;
+  const handleSelectShipping = async (orderId: number, index: number) => {
+    setShippingIndex(index);
+    try {
+      setSummary(await selectShipping.mutateAsync({ id: orderId, shippingOptionIndex: index }));
+    } catch (error) {
+      setShippingIndex(null);
+      alert(error instanceof Error ? error.message : 'Failed to select shipping');
+    }
+  };
 
-      const currentAssignments = methods.getValues('assignments') || [];
-      const existingIndex = currentAssignments.findIndex(
-        (a) => a.itemIndex === designPickerItemIndex
-      );
+  // Creates the order on the first pass, later passes replace its lines, then prices it (step 3)
+  const saveAndPriceOrder = async (): Promise<boolean> => {
+    const { address } = values;
+    const customsInfo = isInternational ? toCustomsInfo(values.customsLines, originCountry, address.name) : undefined;
 
-      let newAssignments;
-      if (existingIndex >= 0) {
-        newAssignments = currentAssignments.map((a, i) =>
-          i === existingIndex ? { ...a, designId } : a
-        );
-      } else {
-        newAssignments = [
-          ...currentAssignments,
-          { itemIndex: designPickerItemIndex, designId, placement: 'front' },
-        ];
+    try {
+      let order = savedOrder;
+      if (!order) {
+        order = await createOrder.mutateAsync({
+          customerName: address.name,
+          shippingAddress: address,
+          customsInfo,
+        });
+        setSavedOrder(order);
+        onOrderCreated?.(order);
       }
 
-      methods.setValue('assignments', newAssignments);
-      setDesignPickerOpen(false);
-      setDesignPickerItemIndex(null);
-    },
-    [designPickerItemIndex, methods]
-  );
+      order = await updateStep2.mutateAsync({
+        id: order.id,
+        data: {
+          products: [],
+          newProducts: values.products.map((p) => toOrderEditLine(p, selectionData)),
+          removedOrderProductIds: (order.products ?? []).map((p) => p.id),
+          shippingAddress: address,
+          customsInfo,
+        },
+      });
+      setSavedOrder(order);
 
-  const validateCurrentStep = async (): Promise<boolean> => {
-    let fieldsToValidate: (keyof OrderWizardData)[] = [];
-
-    switch (currentStep.id) {
-      case 'products':
-        fieldsToValidate = ['items'];
-        break;
-      case 'designs':
-        fieldsToValidate = ['assignments'];
-        break;
-      case 'shipping':
-        fieldsToValidate = ['shippingAddress', 'billingAddress', 'shippingMethod'];
-        break;
-      case 'payment':
-        fieldsToValidate = ['paymentMethod'];
-        break;
+      const price = await calculatePrice.mutateAsync(order.id);
+      const selectedIndex = price.shippingOptions.findIndex(
+        (option) =>
+          (!!option.rateId && option.rateId === price.selectedShipping?.rateId) ||
+          option.methodName === price.selectedShipping?.methodName
+      );
+      setPricing(price);
+      if (selectedIndex >= 0) {
+        setShippingIndex(selectedIndex);
+        setSummary(price.summary);
+      } else if (price.shippingOptions.length > 0) {
+        await handleSelectShipping(order.id, 0);
+      } else {
+        setShippingIndex(null);
+        setSummary(null);
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save order');
+      return false;
     }
 
-    const result = await methods.trigger(fieldsToValidate);
-    return result;
+    const addressKey = JSON.stringify([values.customerId, address, values.makeDefaultAddress]);
+    if (values.saveToAddressBook && savedAddressKeyRef.current !== addressKey) {
+      try {
+        await saveCustomerAddress.mutateAsync({
+          customerId: values.customerId,
+          customerName: address.name,
+          address,
+          makeDefault: values.makeDefaultAddress,
+        });
+        savedAddressKeyRef.current = addressKey;
+      } catch (error) {
+        alert(`The order was saved, but the address wasn't: ${error instanceof Error ? error.message : 'unknown error'}`);
+      }
+    }
+    return true;
   };
 
-  const handleNext = async () => {
-    const isValid = await validateCurrentStep();
-    if (isValid && !isLastStep) {
-      setCurrentStepIndex((prev) => prev + 1);
+  const handlePay = async () => {
+    if (!savedOrder) return;
+    try {
+      const payment = await payOrder.mutateAsync({
+        id: savedOrder.id,
+        paymentMethod: values.paymentMethod,
+        isUrgent: values.isUrgent,
+      });
+      // Card payments finish on the Stripe checkout page
+      if (payment.stripeSessionUrl) {
+        window.location.href = payment.stripeSessionUrl;
+        return;
+      }
+      setIsPaid(true);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Payment failed');
     }
   };
 
-  const handleBack = () => {
-    if (!isFirstStep) {
-      setCurrentStepIndex((prev) => prev - 1);
+  const handleConfirm = async () => {
+    if (!savedOrder) return;
+    try {
+      await confirmOrder.mutateAsync({ id: savedOrder.id, notes: values.notes || undefined });
+      onComplete(savedOrder.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to send the order to production');
     }
   };
 
-  const handleSubmit = methods.handleSubmit((data) => {
-    onSubmit(data);
-  });
+  const handleNext = async () => {
+    const error =
+      currentStep.id === 'shipping'
+        ? summary && shippingIndex !== null
+          ? null
+          : 'Pick a shipping method'
+        : getWizardStepError(currentStep.id, values);
+    setStepError(error);
+    if (error) return;
 
-  const goToStep = async (stepIndex: number) => {
-    if (stepIndex < currentStepIndex) {
+    if (currentStep.id === 'address' && !(await saveAndPriceOrder())) return;
+    setCurrentStepIndex((prev) => prev + 1);
+  };
+
+  const goToStep = (stepIndex: number) => {
+    // A paid order is changed from its own page, not here
+    if (stepIndex < currentStepIndex && !isPaid) {
+      setStepError(null);
       setCurrentStepIndex(stepIndex);
-    } else if (stepIndex === currentStepIndex + 1) {
-      const isValid = await validateCurrentStep();
-      if (isValid) {
-        setCurrentStepIndex(stepIndex);
-      }
     }
   };
 
+  const isSaving = createOrder.isPending || updateStep2.isPending || calculatePrice.isPending;
+  const total = parseFloat(summary?.totalPrice ?? '') || 0;
+  const userBalance = parseFloat(pricing?.userBalance ?? '') || 0;
+  const canPay =
+    !!summary && !payOrder.isPending && (values.paymentMethod === 'stripe' || userBalance >= total);
+
   return (
-    <FormProvider {...methods}>
-      <form onSubmit={handleSubmit} className="space-y-6">
-        {/* Progress Steps */}
-        <nav className="flex items-center justify-center">
-          <ol className="flex items-center space-x-2 sm:space-x-4">
-            {wizardSteps.map((step, index) => {
-              const isCompleted = index < currentStepIndex;
-              const isCurrent = index === currentStepIndex;
+    <div className="space-y-6">
+      {/* Progress Steps */}
+      <nav className="flex items-center justify-center">
+        <ol className="flex items-center space-x-2 sm:space-x-4">
+          {wizardSteps.map((step, index) => {
+            const isCompleted = index < currentStepIndex;
+            const isCurrent = index === currentStepIndex;
 
-              return (
-                <li key={step.id} className="flex items-center">
-                  <button
-                    type="button"
-                    onClick={() => goToStep(index)}
+            return (
+              <li key={step.id} className="flex items-center">
+                <button
+                  type="button"
+                  onClick={() => goToStep(index)}
+                  title={step.description}
+                  className={cn(
+                    'flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium transition-colors',
+                    isCompleted && 'text-primary',
+                    isCurrent && 'bg-primary text-primary-foreground',
+                    !isCompleted && !isCurrent && 'text-muted-foreground'
+                  )}
+                  disabled={index >= currentStepIndex || isPaid}
+                >
+                  <span
                     className={cn(
-                      'flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium transition-colors',
-                      isCompleted && 'text-primary',
-                      isCurrent && 'bg-primary text-primary-foreground',
-                      !isCompleted && !isCurrent && 'text-muted-foreground'
+                      'flex h-6 w-6 items-center justify-center rounded-full border text-xs',
+                      isCompleted && 'border-primary bg-primary text-primary-foreground',
+                      isCurrent && 'border-primary-foreground',
+                      !isCompleted && !isCurrent && 'border-muted-foreground'
                     )}
-                    disabled={index > currentStepIndex + 1}
                   >
-                    <span
-                      className={cn(
-                        'flex h-6 w-6 items-center justify-center rounded-full border text-xs',
-                        isCompleted && 'border-primary bg-primary text-primary-foreground',
-                        isCurrent && 'border-primary-foreground',
-                        !isCompleted && !isCurrent && 'border-muted-foreground'
-                      )}
-                    >
-                      {isCompleted ? (
-                        <CheckIcon className="h-4 w-4" />
-                      ) : (
-                        index + 1
-                      )}
-                    </span>
-                    <span className="hidden sm:inline">{step.title}</span>
-                  </button>
-                  {index < wizardSteps.length - 1 && (
-                    <div
-                      className={cn(
-                        'ml-2 h-px w-8 sm:ml-4 sm:w-12',
-                        index < currentStepIndex ? 'bg-primary' : 'bg-muted'
-                      )}
-                    />
-                  )}
-                </li>
-              );
-            })}
-          </ol>
-        </nav>
+                    {isCompleted ? <CheckIcon className="h-4 w-4" /> : index + 1}
+                  </span>
+                  <span className="hidden sm:inline">{step.title}</span>
+                </button>
+                {index < wizardSteps.length - 1 && (
+                  <div
+                    className={cn(
+                      'ml-2 h-px w-8 sm:ml-4 sm:w-12',
+                      index < currentStepIndex ? 'bg-primary' : 'bg-muted'
+                    )}
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </nav>
 
-        {/* Step Content */}
-        <Card>
-          <CardContent className="p-6">
-            {currentStep.id === 'products' && (
-              <Step1Products products={products} loading={productsLoading} />
-            )}
-            {currentStep.id === 'designs' && (
-              <Step2Designs
-                designs={designs}
-                loading={designsLoading}
-                onOpenDesignPicker={handleOpenDesignPicker}
-              />
-            )}
-            {currentStep.id === 'shipping' && <Step3Shipping />}
-            {currentStep.id === 'payment' && <Step4Payment />}
-          </CardContent>
-        </Card>
+      {/* Step Content */}
+      {currentStep.id === 'products' && (
+        <Step1Products
+          products={values.products}
+          onChange={(products) => update({ products })}
+          selectionData={selectionData}
+        />
+      )}
+      {currentStep.id === 'designs' && (
+        <Step2Designs
+          products={values.products}
+          onChange={(products) => update({ products })}
+          selectionData={selectionData}
+        />
+      )}
+      {currentStep.id === 'address' && (
+        <Step3Address
+          values={values}
+          onChange={update}
+          selectionData={selectionData}
+          originCountry={originCountry}
+          isInternational={isInternational}
+        />
+      )}
+      {currentStep.id === 'shipping' && savedOrder && (
+        <Step4Shipping
+          options={pricing?.shippingOptions ?? []}
+          selectedIndex={shippingIndex}
+          onSelect={(index) => handleSelectShipping(savedOrder.id, index)}
+          selecting={selectShipping.isPending}
+          summary={summary}
+        />
+      )}
+      {currentStep.id === 'payment' && summary && (
+        <Step5Payment
+          values={values}
+          onChange={update}
+          summary={summary}
+          userBalance={userBalance}
+          isPaid={isPaid}
+          confirmation={confirmation.data}
+          confirmationLoading={confirmation.isLoading}
+        />
+      )}
+
+      {stepError && <p className="text-sm text-destructive text-right">{stepError}</p>}
 
-        {/* Navigation Buttons */}
-        <div className="flex items-center justify-between">
+      {/* Navigation Buttons */}
+      <div className="flex items-center justify-between">
+        {isPaid ? (
+          <Button type="button" variant="outline" onClick={() => savedOrder && onComplete(savedOrder.id)}>
+            Finish Later
+          </Button>
+        ) : (
           <Button
             type="button"
             variant="outline"
-            onClick={isFirstStep ? onCancel : handleBack}
+            onClick={isFirstStep ? onCancel : () => goToStep(currentStepIndex - 1)}
+            disabled={isSaving || payOrder.isPending}
           >
             <ChevronLeftIcon className="mr-2 h-4 w-4" />
             {isFirstStep ? 'Cancel' : 'Back'}
           </Button>
+        )}
 
-          {isLastStep ? (
-            <Button type="submit" disabled={submitting}>
-              {submitting ? 'Creating Order...' : 'Create Order'}
-            </Button>
-          ) : (
-            <Button type="button" onClick={handleNext}>
-              Next
-              <ChevronRightIcon className="ml-2 h-4 w-4" />
-            </Button>
-          )}
-        </div>
-      </form>
-
-      {/* Design Picker Modal - simplified inline version */}
-      {designPickerOpen && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
-          <div className="max-h-[80vh] w-full max-w-2xl overflow-y-auto rounded-lg border bg-background p-6">
-            <h3 className="mb-4 text-lg font-semibold">Select a Design</h3>
-            <div className="grid grid-cols-3 gap-4">
-              {designs.map((design) => (
-                <button
-                  key={design.id}
-                  type="button"
-                  onClick={() => handleSelectDesign(design.id)}
-                  className="overflow-hidden rounded-lg border p-2 transition-colors hover:border-primary"
-                >
-                  <img
-                    src={design.thumbnail}
-                    alt={design.name}
-                    className="aspect-square w-full object-cover"
-                  />
-                  <p className="mt-2 truncate text-sm font-medium">{design.name}</p>
-                </button>
-              ))}
-            </div>
-            <div className="mt-4 flex justify-end">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => setDesignPickerOpen(false)}
-              >
-                Cancel
-              </Button>
-            </div>
-          </div>
-        </div>
-      )}
-    </FormProvider>
+        {currentStep.id !== 'payment' ? (
+          <Button type="button" onClick={handleNext} disabled={isSaving || selectShipping.isPending}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {currentStep.id === 'address' ? 'Save & Price Order' : 'Next'}
+            <ChevronRightIcon className="ml-2 h-4 w-4" />
+          </Button>
+        ) : isPaid ? (
+          <Button
+            type="button"
+            onClick={handleConfirm}
+            disabled={confirmOrder.isPending || !confirmation.data?.canProceed}
+          >
+            {confirmOrder.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Send to Production
+          </Button>
+        ) : (
+          <Button type="button" onClick={handlePay} disabled={!canPay}>
+            {payOrder.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {values.paymentMethod === 'stripe' ? 'Continue to Card Payment' : 'Pay with Balance'}
+          </Button>
+        )}
+      </div>
+    </div>
   );
 }
@@ -1,178 +1,130 @@
-import { useFormContext } from 'react-hook-form';
-import { Button, Card, CardContent } from '@/components/ui';
-import type { Design } from '@/types';
-import type { OrderWizardData } from './types';
-import { ImageIcon, UploadIcon, XIcon } from 'lucide-react';
+import { useState } from 'react';
+import { ImageIcon, XIcon } from 'lucide-react';
+import { useDesigns, type ExtendedDesign } from '@/api/hooks';
+import { DesignPickerModal } from '@/components/designs';
+import { getOrderLineLabel } from './lines';
+import type { OrderProductItem } from '../orderProductItem';
+import type { ProductSelectionData } from '@/types';
 
 interface Step2DesignsProps {
-  designs: Design[];
-  loading?: boolean;
-  onOpenDesignPicker: (itemIndex: number) => void;
+  products: OrderProductItem[];
+  onChange: (products: OrderProductItem[]) => void;
+  selectionData: ProductSelectionData | undefined;
 }
 
-export function Step2Designs({
-  designs,
-  loading = false,
-  onOpenDesignPicker,
-}: Step2DesignsProps) {
-  const { watch, setValue } = useFormContext<OrderWizardData>();
-  const items = watch('items');
-  const assignments = watch('assignments') || [];
+// Print location a design is being picked for
+interface PickerTarget {
+  lineId: string;
+  modificationId: number;
+}
 
-  const getAssignment = (itemIndex: number) => {
-    return assignments.find((a) => a.itemIndex === itemIndex);
-  };
+// Production downloads the full file, the thumbnail is only a fallback
+const getDesignUrl = (design: ExtendedDesign) => design.fileUrl || design.thumbnail;
 
-  const getDesign = (designId?: string) => {
-    if (!designId) return null;
-    return designs.find((d) => d.id === designId);
-  };
+export function Step2Designs({ products, onChange, selectionData }: Step2DesignsProps) {
+  const { data: designs = [], isLoading } = useDesigns({ pageSize: 100 });
+  const [pickerTarget, setPickerTarget] = useState<PickerTarget | null>(null);
 
-  const handleRemoveDesign = (itemIndex: number) => {
-    const newAssignments = assignments.filter((a) => a.itemIndex !== itemIndex);
-    setValue('assignments', newAssignments);
+  const setDesignUrl = (lineId: string, modificationId: number, designUrl: string) => {
+    onChange(
+      products.map((p) =>
+        p.id === lineId
+          ? {
+              ...p,
+              modifications: p.modifications.map((m) =>
+                m.modificationId === modificationId ? { ...m, designUrl } : m
+              ),
+            }
+          : p
+      )
+    );
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center py-12">
-        <div className="animate-spin rounded-full h-8 w-8 border-2 border-primary border-t-transparent" />
-      </div>
-    );
-  }
+  const pickerLine = products.find((p) => p.id === pickerTarget?.lineId);
+  const pickerUrl = pickerLine?.modifications.find((m) => m.modificationId === pickerTarget?.modificationId)
+    ?.designUrl;
+  const pickerModification = selectionData?.modifications.find((m) => m.id === pickerTarget?.modificationId);
 
   return (
-    <div className="space-y-6">
+    <div className="space-y-4">
       <div>
-        <h2 className="text-xl font-semibold">Assign Designs</h2>
+        <h2 className="text-lg font-semibold">Assign Designs</h2>
         <p className="text-sm text-muted-foreground">
-          Select designs for each product in your order. You can skip this step if designs will be assigned later.
+          Pick a design for each print location. You can skip this step if designs will be assigned later.
         </p>
       </div>
 
-      <div className="space-y-4">
-        {items.map((item, index) => {
-          const assignment = getAssignment(index);
-          const design = getDesign(assignment?.designId);
-
-          return (
-            <Card key={index}>
-              <CardContent className="p-4">
-                <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
-                  {/* Product Info */}
-                  <div className="flex-1">
-                    <h3 className="font-medium">
-                      Product #{index + 1}
-                    </h3>
-                    <p className="text-sm text-muted-foreground">
-                      Quantity: {item.quantity}
-                    </p>
-                  </div>
+      {products.map((line, index) => (
+        <div key={line.id} className="bg-card border border-border rounded-xl p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">
+              {index + 1}. {getOrderLineLabel(line, selectionData)}
+            </span>
+            <span className="text-sm text-muted-foreground">Qty {line.quantity}</span>
+          </div>
 
-                  {/* Design Preview / Selection */}
-                  <div className="flex items-center gap-4">
-                    {design ? (
-                      <div className="flex items-center gap-3">
-                        <div className="relative h-16 w-16 overflow-hidden rounded-md border bg-muted">
-                          <img
-                            src={design.thumbnail}
-                            alt={design.name}
-                            className="h-full w-full object-cover"
-                          />
-                        </div>
-                        <div>
-                          <p className="font-medium">{design.name}</p>
-                          <p className="text-sm text-muted-foreground">
-                            {design.data.width} x {design.data.height}px
-                          </p>
-                        </div>
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleRemoveDesign(index)}
-                          className="text-muted-foreground hover:text-destructive"
-                        >
-                          <XIcon className="h-4 w-4" />
-                        </Button>
-                      </div>
+          {line.modifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No print locations picked. Go back to Products to add one.
+            </p>
+          ) : (
+            line.modifications.map((mod) => {
+              const modification = selectionData?.modifications.find((m) => m.id === mod.modificationId);
+              return (
+                <div key={mod.modificationId} className="flex items-center gap-3">
+                  <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center overflow-hidden rounded-md border border-border bg-muted">
+                    {mod.designUrl ? (
+                      <img src={mod.designUrl} alt="" className="h-full w-full object-contain" />
                     ) : (
-                      <Button
-                        type="button"
-                        variant="outline"
-                        onClick={() => onOpenDesignPicker(index)}
-                      >
-                        <ImageIcon className="mr-2 h-4 w-4" />
-                        Select Design
-                      </Button>
-                    )}
-
-                    {design && (
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        onClick={() => onOpenDesignPicker(index)}
-                      >
-                        Change
-                      </Button>
+                      <ImageIcon className="h-5 w-5 text-muted-foreground" />
                     )}
                   </div>
+                  <span className="w-24 text-sm">{modification?.name ?? 'Print location'}</span>
+                  <input
+                    type="text"
+                    placeholder="Design URL"
+                    value={mod.designUrl}
+                    onChange={(e) => setDesignUrl(line.id, mod.modificationId, e.target.value)}
+                    className="flex-1 px-3 py-1.5 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setPickerTarget({ lineId: line.id, modificationId: mod.modificationId })}
+                    className="px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted transition-colors"
+                  >
+                    {mod.designUrl ? 'Change' : 'Choose Design'}
+                  </button>
+                  {mod.designUrl && (
+                    <button
+                      type="button"
+                      onClick={() => setDesignUrl(line.id, mod.modificationId, '')}
+                      className="p-1 text-muted-foreground hover:text-destructive rounded transition-colors"
+                    >
+                      <XIcon className="h-4 w-4" />
+                    </button>
+                  )}
                 </div>
+              );
+            })
+          )}
+        </div>
+      ))}
 
-                {/* Placement Options */}
-                {design && (
-                  <div className="mt-4 border-t pt-4">
-                    <label className="text-sm font-medium">Placement</label>
-                    <div className="mt-2 flex flex-wrap gap-2">
-                      {['Front', 'Back', 'Left Sleeve', 'Right Sleeve', 'Pocket'].map(
-                        (placement) => (
-                          <Button
-                            key={placement}
-                            type="button"
-                            variant={
-                              assignment?.placement === placement.toLowerCase()
-                                ? 'default'
-                                : 'outline'
-                            }
-                            size="sm"
-                            onClick={() => {
-                              const newAssignments = assignments.map((a) =>
-                                a.itemIndex === index
-                                  ? { ...a, placement: placement.toLowerCase() }
-                                  : a
-                              );
-                              setValue('assignments', newAssignments);
-                            }}
-                          >
-                            {placement}
-                          </Button>
-                        )
-                      )}
-                    </div>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          );
-        })}
-      </div>
-
-      {/* Quick Upload Option */}
-      <Card className="border-dashed">
-        <CardContent className="p-6">
-          <div className="flex flex-col items-center justify-center text-center">
-            <UploadIcon className="h-10 w-10 text-muted-foreground" />
-            <h3 className="mt-4 font-medium">Need to upload a new design?</h3>
-            <p className="mt-1 text-sm text-muted-foreground">
-              You can upload new designs from the Design Library
-            </p>
-            <Button type="button" variant="outline" className="mt-4">
-              Go to Design Library
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+      <DesignPickerModal
+        key={pickerTarget ? `${pickerTarget.lineId}-${pickerTarget.modificationId}` : 'closed'}
+        open={!!pickerTarget}
+        onOpenChange={(open) => !open && setPickerTarget(null)}
+        designs={designs}
+        loading={isLoading}
+        selectedDesignId={designs.find((d) => pickerUrl && getDesignUrl(d) === pickerUrl)?.id}
+        title={pickerModification ? `Design for ${pickerModification.name}` : undefined}
+        onSelect={(design) => {
+          if (pickerTarget) {
+            setDesignUrl(pickerTarget.lineId, pickerTarget.modificationId, getDesignUrl(design));
+          }
+          setPickerTarget(null);
+        }}
+      />
     </div>
   );
 }
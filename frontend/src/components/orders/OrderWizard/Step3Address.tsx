@@ -0,0 +1,92 @@
+import type { AddressSuggestion } from '@/api/hooks';
+import { AddressBookSearch } from '../AddressBookSearch';
+import { AddressValidationNotice } from '../AddressValidationNotice';
+import { CustomsItemsEditor } from '../CustomsItemsEditor';
+import { OrderAddressFields } from '../OrderAddressFields';
+import { applySuggestedAddress } from '../addressValidation';
+import type { AddressStepValues } from './types';
+import type { ProductSelectionData } from '@/types';
+
+interface Step3AddressProps {
+  values: AddressStepValues;
+  onChange: (changes: Partial<AddressStepValues>) => void;
+  selectionData: ProductSelectionData | undefined;
+  originCountry: string;
+  isInternational: boolean;
+}
+
+export function Step3Address({ values, onChange, selectionData, originCountry, isInternational }: Step3AddressProps) {
+  const { address } = values;
+
+  const handleSelectSuggestion = (suggestion: AddressSuggestion) => {
+    const picked = suggestion.address;
+    onChange({
+      address: {
+        name: picked.name || suggestion.customerName,
+        street1: picked.street1 ?? '',
+        street2: picked.street2 ?? '',
+        city: picked.city ?? '',
+        state: picked.state ?? '',
+        postalCode: picked.postalCode ?? '',
+        country: picked.country || 'US',
+      },
+      customerId: suggestion.customerId,
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="bg-card border border-border rounded-xl p-6">
+        <h2 className="text-lg font-semibold mb-4">Shipping Address</h2>
+        <AddressBookSearch onSelect={handleSelectSuggestion} className="mb-4" />
+        <OrderAddressFields
+          value={address}
+          onChange={(next) =>
+            // Renaming the recipient means it's no longer the customer that was picked
+            onChange(next.name !== address.name ? { address: next, customerId: undefined } : { address: next })
+          }
+        />
+        <AddressValidationNotice
+          address={address}
+          onUseSuggestion={(suggested) => onChange({ address: applySuggestedAddress(address, suggested) })}
+          className="mt-4"
+        />
+        <div className="mt-4 space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={values.saveToAddressBook}
+              onChange={(e) => onChange({ saveToAddressBook: e.target.checked })}
+              className="rounded border-border"
+            />
+            Save this address to the address book
+          </label>
+          {values.saveToAddressBook && (
+            <label className="flex items-center gap-2 text-sm pl-6">
+              <input
+                type="checkbox"
+                checked={values.makeDefaultAddress}
+                onChange={(e) => onChange({ makeDefaultAddress: e.target.checked })}
+                className="rounded border-border"
+              />
+              Make it the customer's default address
+            </label>
+          )}
+        </div>
+      </div>
+
+      {isInternational && (
+        <div className="bg-card border border-border rounded-xl p-6 h-fit">
+          <h2 className="text-lg font-semibold mb-4">Customs Declaration</h2>
+          <CustomsItemsEditor
+            lines={values.customsLines}
+            onChange={(customsLines) => onChange({ customsLines })}
+            selectionData={selectionData}
+            destinationCountry={address.country}
+            originCountry={originCountry}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
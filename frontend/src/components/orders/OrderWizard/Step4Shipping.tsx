@@ -0,0 +1,62 @@
+import { cn, formatCurrency } from '@/lib/utils';
+import type { ApiOrderPriceSummary, ApiShippingOption } from '@/types';
+import { OrderPriceSummary } from './OrderPriceSummary';
+
+interface Step4ShippingProps {
+  options: ApiShippingOption[];
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+  selecting?: boolean;
+  summary: ApiOrderPriceSummary | null;
+}
+
+export function Step4Shipping({ options, selectedIndex, onSelect, selecting = false, summary }: Step4ShippingProps) {
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-card border border-border rounded-xl p-6 space-y-4">
+        <h2 className="text-lg font-semibold">Shipping Method</h2>
+        {options.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No shipping options are available for this address</p>
+        ) : (
+          <div className="space-y-2">
+            {options.map((option, index) => (
+              <label
+                key={`${option.rateId ?? option.shippingId ?? option.methodName}-${index}`}
+                className={cn(
+                  'flex items-center justify-between p-3 border rounded-lg cursor-pointer transition-colors',
+                  selectedIndex === index ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted'
+                )}
+              >
+                <span className="flex items-center gap-3">
+                  <input
+                    type="radio"
+                    name="shipping-option"
+                    checked={selectedIndex === index}
+                    disabled={selecting}
+                    onChange={() => onSelect(index)}
+                  />
+                  <span>
+                    <span className="font-medium">{option.methodName}</span>
+                    {option.estimatedDays && (
+                      <span className="text-sm text-muted-foreground ml-2">{option.estimatedDays}</span>
+                    )}
+                  </span>
+                </span>
+                <span className="font-medium">{formatCurrency(parseFloat(option.methodPrice) || 0)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-card border border-border rounded-xl p-6 h-fit">
+        <h2 className="text-lg font-semibold mb-4">Summary</h2>
+        {summary ? (
+          <OrderPriceSummary summary={summary} />
+        ) : (
+          <p className="text-sm text-muted-foreground">Pick a shipping method to see the total.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { AlertTriangle, CheckCircle2, CreditCardIcon, Loader2, WalletIcon } from 'lucide-react';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { ApiOrderPriceSummary, ApiOrderStep4 } from '@/types';
+import { OrderPriceSummary } from './OrderPriceSummary';
+import type { PaymentValues } from './types';
+
+interface PaymentMethodOption {
+  id: PaymentValues['paymentMethod'];
+  name: string;
+  description: string;
+  icon: React.ReactNode;
+}
+
+const paymentMethods: PaymentMethodOption[] = [
+  {
+    id: 'balance',
+    name: 'Account Balance',
+    description: 'Charge the order to your wallet balance',
+    icon: <WalletIcon className="h-5 w-5" />,
+  },
+  {
+    id: 'stripe',
+    name: 'Credit Card',
+    description: 'Pay on the secure Stripe checkout page',
+    icon: <CreditCardIcon className="h-5 w-5" />,
+  },
+];
+
+interface Step5PaymentProps {
+  values: PaymentValues;
+  onChange: (changes: Partial<PaymentValues>) => void;
+  summary: ApiOrderPriceSummary;
+  userBalance: number;
+  isPaid: boolean;
+  confirmation?: ApiOrderStep4;
+  confirmationLoading?: boolean;
+}
+
+export function Step5Payment({
+  values,
+  onChange,
+  summary,
+  userBalance,
+  isPaid,
+  confirmation,
+  confirmationLoading = false,
+}: Step5PaymentProps) {
+  const total = parseFloat(summary.totalPrice) || 0;
+  const isShortOnBalance = values.paymentMethod === 'balance' && userBalance < total;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-4">
+        {isPaid ? (
+          <div className="bg-card border border-border rounded-xl p-6 space-y-3">
+            <h2 className="flex items-center gap-2 text-lg font-semibold">
+              <CheckCircle2 className="w-5 h-5 text-green-600" />
+              Payment received
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Send the order to production now, or leave it pending and confirm it later from the order page.
+            </p>
+            {confirmationLoading && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Checking order...
+              </div>
+            )}
+            {confirmation?.issues.map((issue) => (
+              <p key={issue} className="flex items-center gap-2 text-sm text-yellow-600">
+                <AlertTriangle className="w-4 h-4" />
+                {issue}
+              </p>
+            ))}
+          </div>
+        ) : (
+          <div className="bg-card border border-border rounded-xl p-6 space-y-3">
+            <h2 className="text-lg font-semibold">Payment Method</h2>
+            {paymentMethods.map((method) => (
+              <label
+                key={method.id}
+                className={cn(
+                  'flex cursor-pointer items-start gap-4 rounded-lg border p-4 transition-colors hover:bg-muted/50',
+                  values.paymentMethod === method.id ? 'border-primary bg-primary/5' : 'border-border'
+                )}
+              >
+                <input
+                  type="radio"
+                  name="payment-method"
+                  checked={values.paymentMethod === method.id}
+                  onChange={() => onChange({ paymentMethod: method.id })}
+                  className="mt-1"
+                />
+                <div className="flex items-center gap-3">
+                  <div className="rounded-full bg-muted p-2">{method.icon}</div>
+                  <div>
+                    <p className="font-medium">{method.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {method.id === 'balance'
+                        ? `${method.description} (available: ${formatCurrency(userBalance)})`
+                        : method.description}
+                    </p>
+                  </div>
+                </div>
+              </label>
+            ))}
+            {isShortOnBalance && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertTriangle className="w-4 h-4" />
+                Your balance doesn't cover this order. Pay by card or top up the wallet first.
+              </p>
+            )}
+            <label className="flex items-center gap-2 pt-2 text-sm">
+              <input
+                type="checkbox"
+                checked={values.isUrgent}
+                onChange={(e) => onChange({ isUrgent: e.target.checked })}
+                className="rounded border-border"
+              />
+              Urgent order (produced first, extra fee)
+            </label>
+          </div>
+        )}
+
+        <div className="bg-card border border-border rounded-xl p-6">
+          <h2 className="text-lg font-semibold mb-4">Production Notes (Optional)</h2>
+          <textarea
+            value={values.notes ?? ''}
+            onChange={(e) => onChange({ notes: e.target.value })}
+            placeholder="Add any special instructions for production..."
+            className="min-h-[100px] w-full px-3 py-2 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+      </div>
+
+      <div className="bg-card border border-border rounded-xl p-6 h-fit">
+        <h2 className="text-lg font-semibold mb-4">Summary</h2>
+        <OrderPriceSummary summary={confirmation?.summary ?? summary} isUrgent={values.isUrgent && !isPaid} />
+      </div>
+    </div>
+  );
+}
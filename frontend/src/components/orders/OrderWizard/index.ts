@@ -1,6 +1,7 @@
 export { OrderWizard } from './OrderWizard';
 export { Step1Products } from './Step1Products';
 export { Step2Designs } from './Step2Designs';
-export { Step3Shipping } from './Step3Shipping';
-export { Step4Payment } from './Step4Payment';
+export { Step3Address } from './Step3Address';
+export { Step4Shipping } from './Step4Shipping';
+export { Step5Payment } from './Step5Payment';
 export * from './types';
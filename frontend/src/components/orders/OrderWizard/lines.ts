@@ -0,0 +1,29 @@
+import type { OrderProductItem } from '../orderProductItem';
+import type { OrderQuoteLine } from '../OrderQuotePanel';
+import type { ProductSelectionData } from '@/types';
+
+/**
+ * Product title with the picked size and color, e.g. "Classic Tee · M · Black"
+ */
+export function getOrderLineLabel(item: OrderProductItem, selectionData: ProductSelectionData | undefined): string {
+  const product = selectionData?.products.find((p) => p.id === item.productId);
+  const options = [
+    selectionData?.option1s.find((o) => o.id === item.option1Id)?.name,
+    selectionData?.option2s.find((o) => o.id === item.option2Id)?.name,
+  ].filter(Boolean);
+  return [product?.title ?? 'Product', ...options].join(' · ');
+}
+
+export function getOrderQuoteLines(
+  products: OrderProductItem[],
+  selectionData: ProductSelectionData | undefined
+): OrderQuoteLine[] {
+  return products
+    .filter((p) => p.variantId)
+    .map((p) => ({
+      label: getOrderLineLabel(p, selectionData),
+      variantId: p.variantId!,
+      quantity: p.quantity,
+      modificationIds: p.modifications.map((m) => m.modificationId),
+    }));
+}
@@ -1,85 +1,102 @@
 import { z } from 'zod';
+import { isValidHsCode } from '../customs';
 
 // Step 1: Products Schema
+// Lines of the product selection model, see OrderProductItem
+const modificationSchema = z.object({
+  modificationId: z.number(),
+  designUrl: z.string(),
+});
+
+export const orderLineSchema = z.object({
+  id: z.string(),
+  orderProductId: z.number().optional(),
+  categoryId: z.number().nullable(),
+  productId: z.number().nullable(),
+  option1Id: z.number().nullable(),
+  option2Id: z.number().nullable(),
+  variantId: z
+    .number()
+    .nullable()
+    .refine((variantId) => !!variantId, 'Pick a product, size and color'),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+  modifications: z.array(modificationSchema),
+});
+
 export const productSelectionSchema = z.object({
-  items: z
-    .array(
-      z.object({
-        productId: z.string().min(1, 'Product is required'),
-        variantId: z.string().optional(),
-        quantity: z.number().min(1, 'Quantity must be at least 1'),
-        price: z.number().min(0),
-      })
-    )
-    .min(1, 'At least one product is required'),
+  products: z.array(orderLineSchema).min(1, 'At least one product is required'),
 });
 
-export type ProductSelectionData = z.infer<typeof productSelectionSchema>;
+export type ProductSelectionValues = z.infer<typeof productSelectionSchema>;
 
 // Step 2: Designs Schema
+// Designs may be assigned later, but a given one has to be a link production can download
 export const designAssignmentSchema = z.object({
-  assignments: z.array(
+  products: z.array(
     z.object({
-      itemIndex: z.number(),
-      designId: z.string().optional(),
-      designUrl: z.string().optional(),
-      placement: z.string().optional(),
+      modifications: z.array(
+        z.object({
+          modificationId: z.number(),
+          designUrl: z
+            .string()
+            .trim()
+            .refine((url) => url === '' || /^https?:\/\//i.test(url), 'Design must be an http(s) link'),
+        })
+      ),
     })
   ),
 });
 
-export type DesignAssignmentData = z.infer<typeof designAssignmentSchema>;
-
-// Step 3: Shipping Schema
-export const shippingSchema = z.object({
-  shippingAddress: z.object({
-    firstName: z.string().min(1, 'First name is required'),
-    lastName: z.string().min(1, 'Last name is required'),
-    company: z.string().optional(),
-    address1: z.string().min(1, 'Address is required'),
-    address2: z.string().optional(),
-    city: z.string().min(1, 'City is required'),
-    state: z.string().min(1, 'State is required'),
-    postalCode: z.string().min(1, 'Postal code is required'),
-    country: z.string().min(1, 'Country is required'),
-    phone: z.string().optional(),
-  }),
-  billingAddress: z.object({
-    firstName: z.string().min(1, 'First name is required'),
-    lastName: z.string().min(1, 'Last name is required'),
-    company: z.string().optional(),
-    address1: z.string().min(1, 'Address is required'),
-    address2: z.string().optional(),
-    city: z.string().min(1, 'City is required'),
-    state: z.string().min(1, 'State is required'),
-    postalCode: z.string().min(1, 'Postal code is required'),
-    country: z.string().min(1, 'Country is required'),
-    phone: z.string().optional(),
-  }),
-  sameAsBilling: z.boolean().default(true),
-  shippingMethod: z.string().min(1, 'Shipping method is required'),
+// Step 3: Address Schema
+export const addressSchema = z.object({
+  name: z.string().trim().min(1, 'Recipient name is required'),
+  street1: z.string().trim().min(1, 'Address is required'),
+  street2: z.string(),
+  city: z.string().trim().min(1, 'City is required'),
+  state: z.string().trim().min(1, 'State is required'),
+  postalCode: z.string().trim().min(1, 'Postal code is required'),
+  country: z.string().trim().min(1, 'Country is required'),
+});
+
+// One line per product, only filled in when the order ships to another country
+export const customsLineSchema = z.object({
+  productId: z.number(),
+  label: z.string(),
+  description: z.string().trim().min(1, 'Customs description is required'),
+  hsTariffNumber: z.string().refine(isValidHsCode, 'Enter a 6 to 10 digit HS code'),
+  quantity: z.number().min(1),
+  value: z.number().positive('Declared value is required'),
+  weight: z.number().positive('Weight is required'),
+  sourceKey: z.string(),
+});
+
+export const addressStepSchema = z.object({
+  address: addressSchema,
+  customerId: z.number().optional(), // set when the address was picked from a saved customer
+  saveToAddressBook: z.boolean(),
+  makeDefaultAddress: z.boolean(),
+  customsLines: z.array(customsLineSchema),
 });
 
-export type ShippingData = z.infer<typeof shippingSchema>;
+export type AddressStepValues = z.infer<typeof addressStepSchema>;
 
-// Step 4: Payment Schema
+// Step 5: Payment Schema
+// Shipping (step 4) is picked from the options the backend prices for the saved order
 export const paymentSchema = z.object({
-  paymentMethod: z.enum(['card', 'invoice', 'cod']),
+  paymentMethod: z.enum(['balance', 'stripe']),
+  isUrgent: z.boolean(),
   notes: z.string().optional(),
 });
 
-export type PaymentData = z.infer<typeof paymentSchema>;
+export type PaymentValues = z.infer<typeof paymentSchema>;
 
 // Combined Order Data
-export const orderWizardSchema = productSelectionSchema
-  .merge(designAssignmentSchema)
-  .merge(shippingSchema)
-  .merge(paymentSchema);
+export const orderWizardSchema = productSelectionSchema.merge(addressStepSchema).merge(paymentSchema);
 
-export type OrderWizardData = z.infer<typeof orderWizardSchema>;
+export type OrderWizardValues = z.infer<typeof orderWizardSchema>;
 
 // Wizard Step type
-export type WizardStep = 'products' | 'designs' | 'shipping' | 'payment';
+export type WizardStep = 'products' | 'designs' | 'address' | 'shipping' | 'payment';
 
 export interface WizardStepConfig {
   id: WizardStep;
@@ -96,16 +113,47 @@ export const wizardSteps: WizardStepConfig[] = [
   {
     id: 'designs',
     title: 'Designs',
-    description: 'Assign designs to products',
+    description: 'Assign designs to print locations',
+  },
+  {
+    id: 'address',
+    title: 'Address',
+    description: 'Enter the shipping address',
   },
   {
     id: 'shipping',
     title: 'Shipping',
-    description: 'Enter shipping information',
+    description: 'Pick a shipping method',
   },
   {
     id: 'payment',
     title: 'Payment',
-    description: 'Select payment method',
+    description: 'Pay and send to production',
   },
 ];
+
+const stepSchemas: Partial<Record<WizardStep, z.ZodTypeAny>> = {
+  products: productSelectionSchema,
+  designs: designAssignmentSchema,
+  address: addressStepSchema,
+  payment: paymentSchema,
+};
+
+/**
+ * First problem that keeps a step from being completed, or null when its values are valid.
+ * Line errors are prefixed with the product number or customs line they belong to.
+ */
+export function getWizardStepError(step: WizardStep, values: OrderWizardValues): string | null {
+  const result = stepSchemas[step]?.safeParse(values);
+  if (!result || result.success) return null;
+
+  const issue = result.error.issues[0];
+  const [field, index] = issue.path;
+  if (field === 'products' && typeof index === 'number') {
+    return `Product ${index + 1}: ${issue.message}`;
+  }
+  if (field === 'customsLines' && typeof index === 'number') {
+    return `${values.customsLines[index]?.label ?? 'Customs'}: ${issue.message}`;
+  }
+  return issue.message;
+}
@@ -0,0 +1,104 @@
+import { Link } from 'react-router-dom';
+import * as Dialog from '@radix-ui/react-dialog';
+import { XIcon } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { cn } from '@/lib/utils';
+import type { SendTrackingResponse, SendTrackingResult } from '@/api/hooks';
+
+interface SendTrackingResultsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  response: SendTrackingResponse | null;
+}
+
+const statusLabels: Record<SendTrackingResult['status'], string> = {
+  sent: 'Sent',
+  already_sent: 'Already fulfilled',
+  skipped: 'Skipped',
+  error: 'Error',
+};
+
+const statusStyles: Record<SendTrackingResult['status'], string> = {
+  sent: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+  already_sent: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400',
+  skipped: 'bg-muted text-muted-foreground',
+  error: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+};
+
+export function SendTrackingResultsDialog({ open, onOpenChange, response }: SendTrackingResultsDialogProps) {
+  if (!response) return null;
+
+  const counts = response.results.reduce<Partial<Record<SendTrackingResult['status'], number>>>(
+    (acc, result) => ({ ...acc, [result.status]: (acc[result.status] ?? 0) + 1 }),
+    {}
+  );
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-black/50 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 flex max-h-[90vh] w-full max-w-2xl -translate-x-1/2 -translate-y-1/2 flex-col rounded-lg border bg-background shadow-lg">
+          {/* Header */}
+          <div className="flex items-center justify-between border-b p-4">
+            <div>
+              <Dialog.Title className="text-lg font-semibold">Send Tracking Results</Dialog.Title>
+              <Dialog.Description className="text-sm text-muted-foreground">{response.message}</Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <Button variant="ghost" size="icon">
+                <XIcon className="h-4 w-4" />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {/* Summary */}
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(statusLabels) as SendTrackingResult['status'][])
+                .filter((status) => counts[status])
+                .map((status) => (
+                  <span key={status} className={cn('px-2 py-1 text-xs rounded-full', statusStyles[status])}>
+                    {counts[status]} {statusLabels[status]}
+                  </span>
+                ))}
+            </div>
+
+            {/* Per-order results */}
+            <div className="divide-y divide-border border border-border rounded-lg">
+              {response.results.map((result, index) => (
+                <div key={`${result.orderId}-${index}`} className="flex items-start justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <Link
+                      to={`/orders/${result.orderId}`}
+                      onClick={() => onOpenChange(false)}
+                      className="text-sm font-medium hover:underline"
+                    >
+                      Order #{result.orderId}
+                    </Link>
+                    {result.trackingCode && (
+                      <p className="text-xs text-muted-foreground font-mono">{result.trackingCode}</p>
+                    )}
+                    <p className="text-sm text-muted-foreground break-words">{result.message}</p>
+                  </div>
+                  <span
+                    className={cn(
+                      'flex-shrink-0 px-2 py-0.5 text-xs rounded-full whitespace-nowrap',
+                      statusStyles[result.status]
+                    )}
+                  >
+                    {statusLabels[result.status]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end border-t p-4">
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { AlarmClock, Timer } from 'lucide-react';
+import { cn, formatDate } from '@/lib/utils';
+import type { OrderShipBy } from '@/types';
+
+interface ShipByBadgeProps {
+  shipBy: OrderShipBy;
+  className?: string;
+}
+
+const stateStyles: Record<OrderShipBy['state'], string> = {
+  on_track: 'bg-muted text-muted-foreground',
+  at_risk: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+  overdue: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+};
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(Math.abs(ms) / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+/**
+ * Countdown to an order's ship-by time, re-rendered every minute
+ */
+export function ShipByBadge({ shipBy, className }: ShipByBadgeProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = new Date(shipBy.shipByAt).getTime() - now;
+  // The server state can be a minute stale, so the clock decides overdue
+  const state = remaining < 0 ? 'overdue' : shipBy.state;
+  const Icon = state === 'overdue' ? AlarmClock : Timer;
+
+  return (
+    <span
+      title={`Ship by ${formatDate(shipBy.shipByAt, { hour: 'numeric', minute: '2-digit' })}`}
+      className={cn(
+        'inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap',
+        stateStyles[state],
+        className
+      )}
+    >
+      <Icon className="w-3 h-3" />
+      {state === 'overdue' ? `Overdue ${formatDuration(remaining)}` : `Ship in ${formatDuration(remaining)}`}
+      {shipBy.urgent && ' · Urgent'}
+    </span>
+  );
+}
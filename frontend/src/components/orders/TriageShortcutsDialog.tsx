@@ -0,0 +1,52 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import { XIcon } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { triageShortcuts } from '@/hooks/useOrderTriage';
+
+interface TriageShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TriageShortcutsDialog({ open, onOpenChange }: TriageShortcutsDialogProps) {
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-black/50 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 w-full max-w-md -translate-x-1/2 -translate-y-1/2 rounded-lg border bg-background shadow-lg">
+          <div className="flex items-center justify-between border-b p-4">
+            <div>
+              <Dialog.Title className="text-lg font-semibold">Keyboard Shortcuts</Dialog.Title>
+              <Dialog.Description className="text-sm text-muted-foreground">
+                Actions apply to the selected orders, or the focused one when none are selected.
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <Button variant="ghost" size="icon">
+                <XIcon className="h-4 w-4" />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <div className="divide-y divide-border p-4">
+            {triageShortcuts.map((shortcut) => (
+              <div key={shortcut.description} className="flex items-center justify-between py-2 text-sm">
+                <span>{shortcut.description}</span>
+                <span className="flex gap-1">
+                  {shortcut.keys.map((key) => (
+                    <kbd
+                      key={key}
+                      className="min-w-[1.75rem] rounded border border-border bg-muted px-1.5 py-0.5 text-center text-xs font-mono"
+                    >
+                      {key}
+                    </kbd>
+                  ))}
+                </span>
+              </div>
+            ))}
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
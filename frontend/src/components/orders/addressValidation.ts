@@ -0,0 +1,47 @@
+import type { CarrierAddress } from '@/api/hooks';
+import type { ApiAddress } from '@/types';
+
+/**
+ * Carrier form of an order address, or null while it is too incomplete to verify
+ */
+export function toCarrierAddress(address: ApiAddress): CarrierAddress | null {
+  if (!address.street1?.trim() || !address.city?.trim() || !address.state?.trim() || !address.postalCode?.trim()) {
+    return null;
+  }
+  return {
+    name: address.name ?? '',
+    company: address.company || undefined,
+    street1: address.street1.trim(),
+    street2: address.street2?.trim() || undefined,
+    city: address.city.trim(),
+    state: address.state.trim(),
+    zip: address.postalCode.trim(),
+    country: address.country || 'US',
+    phone: address.phone || undefined,
+  };
+}
+
+/**
+ * Applies the street, city, state and ZIP of a carrier suggestion onto an order address
+ */
+export function applySuggestedAddress<T extends ApiAddress>(address: T, suggested: CarrierAddress): T {
+  return {
+    ...address,
+    street1: suggested.street1,
+    street2: suggested.street2 ?? '',
+    city: suggested.city,
+    state: suggested.state,
+    postalCode: suggested.zip,
+  };
+}
+
+export function formatAddressLine(address: ApiAddress | CarrierAddress): string {
+  const postalCode = 'zip' in address ? address.zip : address.postalCode;
+  return [
+    [address.street1, address.street2].filter(Boolean).join(' '),
+    address.city,
+    [address.state, postalCode].filter(Boolean).join(' '),
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
@@ -0,0 +1,94 @@
+import type { CustomsInfo, ProductSelectionData } from '@/types';
+
+// Ounces per piece when a size has no weight set, same fallback the backend weighs orders with
+const DEFAULT_ITEM_WEIGHT = 4;
+
+/**
+ * One declared customs line per product; weight (oz) and value cover the whole quantity
+ */
+export interface CustomsLineValues {
+  productId: number;
+  label: string;
+  description: string;
+  hsTariffNumber: string;
+  quantity: number;
+  value: number;
+  weight: number;
+  sourceKey: string; // order lines the quantity, value and weight were suggested from
+}
+
+// Order line a customs declaration is suggested from
+export interface CustomsSourceLine {
+  productId: number;
+  option1Id: number | null;
+  variantId: number;
+  quantity: number;
+  unitPrice: number;
+}
+
+export function isInternationalShipment(country: string | undefined, originCountry: string): boolean {
+  return !!country?.trim() && country.trim().toUpperCase() !== originCountry.toUpperCase();
+}
+
+export function normalizeHsCode(code: string): string {
+  return code.replace(/[.\s]/g, '');
+}
+
+export function isValidHsCode(code: string): boolean {
+  return /^\d{6,10}$/.test(normalizeHsCode(code));
+}
+
+/**
+ * Customs lines for the products of an order. Description and HS code come from the product's
+ * defaults, weight from its size. Lines whose products didn't change keep what was typed into them.
+ */
+export function suggestCustomsLines(
+  lines: CustomsSourceLine[],
+  selectionData: ProductSelectionData | undefined,
+  previous: CustomsLineValues[] = []
+): CustomsLineValues[] {
+  const productIds = [...new Set(lines.map((line) => line.productId))];
+
+  return productIds.map((productId) => {
+    const productLines = lines.filter((line) => line.productId === productId);
+    const sourceKey = JSON.stringify(productLines);
+    const existing = previous.find((line) => line.productId === productId);
+    if (existing?.sourceKey === sourceKey) return existing;
+
+    const product = selectionData?.products.find((p) => p.id === productId);
+    const weight = productLines.reduce((sum, line) => {
+      const variantModification =
+        selectionData?.variantModifications.find(
+          (vm) => vm.productId === productId && vm.option1Id === line.option1Id
+        ) ?? selectionData?.variantModifications.find((vm) => vm.productId === productId);
+      return sum + (Number(variantModification?.weight) || DEFAULT_ITEM_WEIGHT) * line.quantity;
+    }, 0);
+
+    return {
+      productId,
+      label: product?.title ?? `Product ${productId}`,
+      description: existing?.description || product?.customsDescription || product?.title || '',
+      hsTariffNumber: existing?.hsTariffNumber || product?.hsTariffNumber || '',
+      quantity: productLines.reduce((sum, line) => sum + line.quantity, 0),
+      value: Math.round(productLines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0) * 100) / 100,
+      weight: Math.round(weight * 100) / 100,
+      sourceKey,
+    };
+  });
+}
+
+export function toCustomsInfo(lines: CustomsLineValues[], originCountry: string, signer?: string): CustomsInfo {
+  return {
+    customsSigner: signer?.trim() || undefined,
+    contentsType: 'merchandise',
+    nonDeliveryOption: 'return',
+    customsItems: lines.map((line) => ({
+      description: line.description.trim(),
+      quantity: line.quantity,
+      weight: line.weight.toFixed(2),
+      value: line.value.toFixed(2),
+      hsTariffNumber: normalizeHsCode(line.hsTariffNumber),
+      originCountry,
+    })),
+  };
+}
@@ -0,0 +1,82 @@
+import type { ExcelSheetPreview, ImportOrderField, ImportOrderRow } from '@/types';
+import type { ImportColumnMapping } from '@/stores/importMappingStore';
+
+export const importOrderFields: { field: ImportOrderField; label: string; required?: boolean }[] = [
+  { field: 'name', label: 'Customer name', required: true },
+  { field: 'street1', label: 'Street', required: true },
+  { field: 'street2', label: 'Apt / Suite' },
+  { field: 'city', label: 'City', required: true },
+  { field: 'state', label: 'State', required: true },
+  { field: 'zip', label: 'ZIP code', required: true },
+  { field: 'country', label: 'Country' },
+  { field: 'sku', label: 'SKU' },
+  { field: 'product', label: 'Product' },
+  { field: 'category', label: 'Category' },
+  { field: 'option1', label: 'Option 1 (e.g. size)' },
+  { field: 'option2', label: 'Option 2 (e.g. color)' },
+  { field: 'quantity', label: 'Quantity' },
+  { field: 'modification', label: 'Print location' },
+  { field: 'modificationUrl', label: 'Design URL' },
+];
+
+// Header spellings recognised without a saved mapping, compared lowercase without spaces or punctuation
+const headerAliases: Record<ImportOrderField, string[]> = {
+  name: ['name', 'customername', 'customer', 'recipient', 'shiptoname', 'fullname'],
+  street1: ['street1', 'street', 'address', 'address1', 'addressline1', 'shiptoaddress'],
+  street2: ['street2', 'address2', 'addressline2', 'apt', 'suite'],
+  city: ['city', 'town'],
+  state: ['state', 'province', 'region', 'stateprovince'],
+  zip: ['zip', 'zipcode', 'postalcode', 'postcode'],
+  country: ['country', 'countrycode'],
+  sku: ['sku', 'variantsku', 'itemsku'],
+  product: ['product', 'productname', 'item', 'itemname', 'title'],
+  category: ['category', 'productcategory'],
+  option1: ['option1', 'size'],
+  option2: ['option2', 'color', 'colour'],
+  quantity: ['quantity', 'qty', 'count'],
+  modification: ['modification1', 'modification', 'printlocation', 'location', 'placement'],
+  modificationUrl: ['modification1url', 'modificationurl', 'designurl', 'design', 'artwork', 'imageurl'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Best-effort mapping from the spreadsheet's own header names
+ */
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  importOrderFields.forEach(({ field }) => {
+    const header = headers.find((h) => headerAliases[field].includes(normalizeHeader(h)));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+}
+
+/**
+ * Saved mapping narrowed to the headers this file actually has
+ */
+export function applySavedMapping(headers: string[], saved: ImportColumnMapping): ImportColumnMapping {
+  return Object.fromEntries(
+    Object.entries(saved).filter(([, header]) => header && headers.includes(header))
+  ) as ImportColumnMapping;
+}
+
+export function getMissingRequiredFields(mapping: ImportColumnMapping): string[] {
+  const missing = importOrderFields.filter(({ field, required }) => required && !mapping[field]).map(({ label }) => label);
+  if (!mapping.sku && !mapping.product) missing.push('SKU or Product');
+  return missing;
+}
+
+export function toImportRows(preview: ExcelSheetPreview, mapping: ImportColumnMapping): ImportOrderRow[] {
+  const columnIndex = Object.fromEntries(
+    importOrderFields.map(({ field }) => [field, mapping[field] ? preview.headers.indexOf(mapping[field]!) : -1])
+  ) as Record<ImportOrderField, number>;
+
+  return preview.rows.map(({ rowNumber, cells }) => {
+    const row = { rowNumber } as ImportOrderRow;
+    importOrderFields.forEach(({ field }) => {
+      row[field] = columnIndex[field] >= 0 ? cells[columnIndex[field]] ?? '' : '';
+    });
+    return row;
+  });
+}
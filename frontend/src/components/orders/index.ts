@@ -5,3 +5,42 @@ export { OrderFilters } from './OrderFilters';
 export type { OrderFilterValues } from './OrderFilters';
 export { OrderDetailModal } from './OrderDetailModal';
 export { OrderWizard } from './OrderWizard';
+export type { OrderWizardValues } from './OrderWizard';
+export { OrderTimeline } from './OrderTimeline';
+export type { OrderTimelineEvent, OrderTimelineEventKind } from './OrderTimeline';
+export { OrderStatusActions } from './OrderStatusActions';
+export { OrderViewTabs } from './OrderViewTabs';
+export { CombineOrdersDialog } from './CombineOrdersDialog';
+export { OrderRefundPanel } from './OrderRefundPanel';
+export { OrderProductPicker } from './OrderProductPicker';
+export {
+  createOrderProductItem,
+  findVariant,
+  getCustomsSourceLines,
+  getOrderProductItemPrice,
+  toOrderEditLine,
+  toOrderProductItem,
+} from './orderProductItem';
+export type { OrderProductItem } from './orderProductItem';
+export { OrderAddressFields } from './OrderAddressFields';
+export type { OrderAddressValues } from './OrderAddressFields';
+export { OrderQuotePanel } from './OrderQuotePanel';
+export type { OrderQuoteLine } from './OrderQuotePanel';
+export { AddressValidationNotice } from './AddressValidationNotice';
+export { AddressBookSearch } from './AddressBookSearch';
+export { applySuggestedAddress, formatAddressLine, toCarrierAddress } from './addressValidation';
+export { DuplicateOrdersDialog } from './DuplicateOrdersDialog';
+export { ExcelImportDialog } from './ExcelImportDialog';
+export { OrderMatrixDialog } from './OrderMatrixDialog';
+export { CustomsItemsEditor } from './CustomsItemsEditor';
+export {
+  isInternationalShipment,
+  isValidHsCode,
+  suggestCustomsLines,
+  toCustomsInfo,
+} from './customs';
+export type { CustomsLineValues, CustomsSourceLine } from './customs';
+export { ShipByBadge } from './ShipByBadge';
+export { OrderNotesThread } from './OrderNotesThread';
+export { SendTrackingResultsDialog } from './SendTrackingResultsDialog';
+export { TriageShortcutsDialog } from './TriageShortcutsDialog';
@@ -0,0 +1,125 @@
+import type { OrderEditLine } from '@/api/hooks';
+import type { CustomsSourceLine } from './customs';
+import type { ApiOrderProduct, ProductSelectionData, VariantForSelection } from '@/types';
+
+export interface OrderProductItem {
+  id: string;
+  orderProductId?: number; // set when the line already exists on an order
+  categoryId: number | null;
+  productId: number | null;
+  option1Id: number | null;
+  option2Id: number | null;
+  variantId: number | null;
+  quantity: number;
+  modifications: { modificationId: number; designUrl: string }[];
+}
+
+export function createOrderProductItem(): OrderProductItem {
+  return {
+    id: Date.now().toString(),
+    categoryId: null,
+    productId: null,
+    option1Id: null,
+    option2Id: null,
+    variantId: null,
+    quantity: 1,
+    modifications: [],
+  };
+}
+
+/**
+ * Variant of a product for a size and color; products without one of the options match on null
+ */
+export function findVariant(
+  selectionData: ProductSelectionData | undefined,
+  productId: number | null,
+  option1Id: number | null,
+  option2Id: number | null
+): VariantForSelection | undefined {
+  if (!selectionData || !productId) return undefined;
+  return selectionData.variants.find(
+    (v) =>
+      v.productId === productId &&
+      (v.option1Id === option1Id || (!v.option1Id && !option1Id)) &&
+      (v.option2Id === option2Id || (!v.option2Id && !option2Id))
+  );
+}
+
+/**
+ * Picker line for a product already on an order
+ */
+export function toOrderProductItem(product: ApiOrderProduct): OrderProductItem {
+  return {
+    id: `line-${product.id}`,
+    orderProductId: product.id,
+    categoryId: product.productDetail?.productCategoryId ?? null,
+    productId: product.productDetail?.productId ?? product.productId ?? null,
+    option1Id: product.productDetail?.option1Id ?? null,
+    option2Id: product.productDetail?.option2Id ?? null,
+    variantId: product.variantId ?? null,
+    quantity: product.quantity,
+    modifications: (product.modificationDetail ?? []).map((mod) => ({
+      modificationId: mod.modificationId,
+      designUrl: mod.modificationDesign ?? '',
+    })),
+  };
+}
+
+/**
+ * Unit price of a picked line (variant price plus selected print locations)
+ */
+export function getOrderProductItemPrice(
+  item: OrderProductItem,
+  selectionData: ProductSelectionData | undefined
+): number {
+  if (!selectionData) return 0;
+  const variantPrice = selectionData.variants.find((v) => v.id === item.variantId)?.price || 0;
+  const modificationPrices = item.modifications.reduce((sum, mod) => {
+    const modification = selectionData.modifications.find((m) => m.id === mod.modificationId);
+    return sum + (modification?.priceDifference || 0);
+  }, 0);
+  return variantPrice + modificationPrices;
+}
+
+/**
+ * Order line as saved through step 2 of the order flow
+ */
+export function toOrderEditLine(
+  item: OrderProductItem,
+  selectionData: ProductSelectionData | undefined
+): OrderEditLine {
+  return {
+    productId: item.productId ?? undefined,
+    variantId: item.variantId ?? undefined,
+    categoryId: item.categoryId ?? undefined,
+    option1Id: item.option1Id ?? undefined,
+    option2Id: item.option2Id ?? undefined,
+    quantity: item.quantity,
+    modificationDetail: item.modifications.map((mod) => {
+      const modification = selectionData?.modifications.find((m) => m.id === mod.modificationId);
+      return {
+        modificationId: mod.modificationId,
+        modificationName: modification?.name ?? '',
+        modificationDesign: mod.designUrl.trim() || undefined,
+        modificationUseWidth: modification?.useWidth,
+        priceDifference: String(modification?.priceDifference ?? 0),
+      };
+    }),
+  };
+}
+
+// Lines a customs declaration is suggested from when the order ships abroad
+export function getCustomsSourceLines(
+  products: OrderProductItem[],
+  selectionData: ProductSelectionData | undefined
+): CustomsSourceLine[] {
+  return products
+    .filter((p) => p.productId && p.variantId)
+    .map((p) => ({
+      productId: p.productId!,
+      option1Id: p.option1Id,
+      variantId: p.variantId!,
+      quantity: p.quantity,
+      unitPrice: getOrderProductItemPrice(p, selectionData),
+    }));
+}
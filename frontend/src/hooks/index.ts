@@ -1,7 +1,23 @@
 // Hook exports
 export { useTenantFromSubdomain, useTenantBranding, useTenantUrl, useIsMultiTenant, getTenantSlug } from './useTenant';
 export { useProducts, useProduct, useCreateProduct, useUpdateProduct, useDeleteProduct } from './useProducts';
-export { useOrders, useOrder, useUpdateOrder, useCancelOrder, useOrderFulfillment } from './useOrders';
+export {
+  useOrders,
+  useInfiniteOrders,
+  useFetchMatchingOrderIds,
+  useOrder,
+  useUpdateOrder,
+  useCancelOrder,
+  useOrderFulfillment,
+} from './useOrders';
+export { useOrderFilterParams, parseOrderFilterParams, toOrderFilterParams } from './useOrderFilterParams';
+export { useOrderDraftAutosave } from './useOrderDraftAutosave';
+export { useVirtualRows } from './useVirtualRows';
+export { useOrderSelection } from './useOrderSelection';
+export { useOrderTriage, triageShortcuts } from './useOrderTriage';
+export type { OrderSelectionState } from './useOrderSelection';
+export type { TriageShortcut } from './useOrderTriage';
+export type { OrderDraftSaveStatus } from './useOrderDraftAutosave';
 
 // Re-export API hooks for convenience
 export * from '@/api/hooks';
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSaveOrderDraft, useDiscardOrderDraft } from '@/api/hooks';
+import { useUser } from '@/stores/authStore';
+import { useOrderDraftStore, type ManualOrderDraftPayload } from '@/stores/orderDraftStore';
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+// 'local' means the backend save failed and the draft only lives on this device
+export type OrderDraftSaveStatus = 'idle' | 'saving' | 'saved' | 'local';
+
+interface UseOrderDraftAutosaveOptions {
+  payload: ManualOrderDraftPayload;
+  enabled: boolean; // false until the form is hydrated and has something worth saving
+}
+
+/**
+ * Autosaves the manual order form to this device and to a backend draft order,
+ * so it can be resumed after a refresh or from another device
+ */
+export function useOrderDraftAutosave({ payload, enabled }: UseOrderDraftAutosaveOptions) {
+  const userId = useUser()?.id;
+  const saveLocalDraft = useOrderDraftStore((state) => state.saveLocalDraft);
+  const clearLocalDraft = useOrderDraftStore((state) => state.clearLocalDraft);
+  const saveDraft = useSaveOrderDraft();
+  const discardDraft = useDiscardOrderDraft();
+
+  const [draftId, setDraftIdState] = useState<number>();
+  const [status, setStatus] = useState<OrderDraftSaveStatus>('idle');
+  const [savedAt, setSavedAt] = useState<string>();
+
+  // Saves run one after another so the first save's draft id is reused
+  const draftIdRef = useRef<number>();
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const setDraftId = useCallback((id: number | undefined) => {
+    draftIdRef.current = id;
+    setDraftIdState(id);
+  }, []);
+
+  const payloadKey = JSON.stringify(payload);
+  const { mutateAsync: saveDraftAsync } = saveDraft;
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+
+    const timeout = setTimeout(() => {
+      const draftPayload = JSON.parse(payloadKey) as ManualOrderDraftPayload;
+      const now = new Date().toISOString();
+      saveLocalDraft(userId, { draftId: draftIdRef.current, payload: draftPayload, savedAt: now });
+      setSavedAt(now);
+      setStatus('saving');
+
+      queueRef.current = queueRef.current.then(async () => {
+        const { address } = draftPayload;
+        try {
+          const draft = await saveDraftAsync({
+            id: draftIdRef.current,
+            source: 'manual',
+            customerName: address.name || undefined,
+            shippingAddress: address,
+            payload: draftPayload,
+          });
+          setDraftId(draft.id);
+          saveLocalDraft(userId, { draftId: draft.id, payload: draftPayload, savedAt: now });
+          setStatus('saved');
+        } catch {
+          setStatus('local');
+        }
+      });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [enabled, userId, payloadKey, saveLocalDraft, saveDraftAsync, setDraftId]);
+
+  // Drop the draft everywhere, e.g. once the order has been submitted
+  const discard = useCallback(async () => {
+    await queueRef.current;
+    const id = draftIdRef.current;
+    if (userId) clearLocalDraft(userId);
+    setDraftId(undefined);
+    setStatus('idle');
+    setSavedAt(undefined);
+    if (id) {
+      await discardDraft.mutateAsync(id).catch(() => undefined);
+    }
+  }, [userId, clearLocalDraft, setDraftId, discardDraft]);
+
+  return { draftId, setDraftId, status, savedAt, discard };
+}
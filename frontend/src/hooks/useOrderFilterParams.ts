@@ -0,0 +1,86 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { OrderFilterValues } from '@/components/orders';
+
+// Query string keys, in the order they are written so equal filters give equal strings
+const PARAM_KEYS = {
+  search: 'q',
+  statuses: 'status',
+  storeId: 'store',
+  startDate: 'from',
+  endDate: 'to',
+  sortBy: 'sort',
+  sortOrder: 'order',
+  page: 'page',
+} as const;
+
+/**
+ * Reads order filters from a query string
+ */
+export function parseOrderFilterParams(params: URLSearchParams): OrderFilterValues {
+  const statuses = params
+    .get(PARAM_KEYS.statuses)
+    ?.split(',')
+    .map(Number)
+    .filter((code) => !Number.isNaN(code));
+  const sortOrder = params.get(PARAM_KEYS.sortOrder);
+
+  return {
+    search: params.get(PARAM_KEYS.search) || undefined,
+    statuses: statuses && statuses.length > 0 ? statuses : undefined,
+    storeId: params.get(PARAM_KEYS.storeId) || undefined,
+    startDate: params.get(PARAM_KEYS.startDate) || undefined,
+    endDate: params.get(PARAM_KEYS.endDate) || undefined,
+    sortBy: params.get(PARAM_KEYS.sortBy) || undefined,
+    sortOrder: sortOrder === 'asc' || sortOrder === 'desc' ? sortOrder : undefined,
+  };
+}
+
+/**
+ * Writes order filters to a query string (empty values are left out)
+ */
+export function toOrderFilterParams(filters: OrderFilterValues): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.search) params.set(PARAM_KEYS.search, filters.search);
+  if (filters.statuses && filters.statuses.length > 0) {
+    params.set(PARAM_KEYS.statuses, [...filters.statuses].sort((a, b) => a - b).join(','));
+  }
+  if (filters.storeId) params.set(PARAM_KEYS.storeId, filters.storeId);
+  if (filters.startDate) params.set(PARAM_KEYS.startDate, filters.startDate);
+  if (filters.endDate) params.set(PARAM_KEYS.endDate, filters.endDate);
+  if (filters.sortBy) params.set(PARAM_KEYS.sortBy, filters.sortBy);
+  if (filters.sortOrder) params.set(PARAM_KEYS.sortOrder, filters.sortOrder);
+  return params;
+}
+
+/**
+ * Hook to keep order list filters and page in the URL so links can be shared
+ */
+export function useOrderFilterParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = useMemo(() => parseOrderFilterParams(searchParams), [searchParams]);
+  const page = Math.max(1, Number(searchParams.get(PARAM_KEYS.page)) || 1);
+
+  // Filter query without the page, used to match saved views
+  const filterQuery = useMemo(() => toOrderFilterParams(filters).toString(), [filters]);
+
+  const setFilters = useCallback(
+    (next: OrderFilterValues) => {
+      // Changing filters always starts from the first page
+      setSearchParams(toOrderFilterParams(next), { replace: true });
+    },
+    [setSearchParams]
+  );
+
+  const setPage = useCallback(
+    (nextPage: number) => {
+      const params = toOrderFilterParams(filters);
+      if (nextPage > 1) params.set(PARAM_KEYS.page, String(nextPage));
+      setSearchParams(params);
+    },
+    [filters, setSearchParams]
+  );
+
+  return { filters, filterQuery, page, setFilters, setPage };
+}
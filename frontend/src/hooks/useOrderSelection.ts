@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+// Either a list of picked orders, or every order matching the filter minus the ones unticked
+type Selection =
+  | { mode: 'ids'; ids: Set<number> }
+  | { mode: 'matching'; excludedIds: Set<number> };
+
+const emptySelection: Selection = { mode: 'ids', ids: new Set() };
+
+export interface OrderSelectionState {
+  isMatching: boolean;
+  selectedIds: number[]; // picked orders; empty when isMatching
+  excludedIds: number[]; // unticked orders; only used when isMatching
+  count: number;
+  isSelected: (orderId: number) => boolean;
+  toggle: (orderId: number, selected: boolean) => void;
+  setMany: (orderIds: number[], selected: boolean) => void;
+  selectMatching: () => void;
+  clear: () => void;
+}
+
+/**
+ * Hook to keep an order selection while more rows load, including "all orders matching the filter".
+ * The selection is cleared when resetKey (usually the filter query) changes.
+ */
+export function useOrderSelection(totalMatching: number, resetKey: string): OrderSelectionState {
+  const [selection, setSelection] = useState<Selection>(emptySelection);
+
+  useEffect(() => {
+    setSelection(emptySelection);
+  }, [resetKey]);
+
+  const setMany = useCallback((orderIds: number[], selected: boolean) => {
+    setSelection((current) => {
+      // Ticking adds to a list; in matching mode it removes from the exclusions, and the other way round
+      const adding = current.mode === 'ids' ? selected : !selected;
+      const next = new Set(current.mode === 'ids' ? current.ids : current.excludedIds);
+      orderIds.forEach((id) => (adding ? next.add(id) : next.delete(id)));
+      return current.mode === 'ids' ? { mode: 'ids', ids: next } : { mode: 'matching', excludedIds: next };
+    });
+  }, []);
+
+  const toggle = useCallback((orderId: number, selected: boolean) => setMany([orderId], selected), [setMany]);
+  const selectMatching = useCallback(() => setSelection({ mode: 'matching', excludedIds: new Set() }), []);
+  const clear = useCallback(() => setSelection(emptySelection), []);
+
+  return useMemo(() => {
+    const isMatching = selection.mode === 'matching';
+    return {
+      isMatching,
+      selectedIds: selection.mode === 'ids' ? Array.from(selection.ids) : [],
+      excludedIds: selection.mode === 'matching' ? Array.from(selection.excludedIds) : [],
+      count: selection.mode === 'ids' ? selection.ids.size : Math.max(0, totalMatching - selection.excludedIds.size),
+      isSelected: (orderId: number) =>
+        selection.mode === 'ids' ? selection.ids.has(orderId) : !selection.excludedIds.has(orderId),
+      toggle,
+      setMany,
+      selectMatching,
+      clear,
+    };
+  }, [selection, totalMatching, toggle, setMany, selectMatching, clear]);
+}
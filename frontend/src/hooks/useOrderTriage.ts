@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCancelOrder, useMapOrder, useUpdateOrderStatus } from '@/api/hooks';
+import {
+  OrderStatusCodes,
+  RefundableCancelStatuses,
+  canTransitionOrderStatus,
+  getOrderStatusActionLabel,
+  type ApiOrder,
+} from '@/types';
+
+export interface TriageShortcut {
+  keys: string[];
+  description: string;
+}
+
+export const triageShortcuts: TriageShortcut[] = [
+  { keys: ['j', '↓'], description: 'Next order' },
+  { keys: ['k', '↑'], description: 'Previous order' },
+  { keys: ['x'], description: 'Select or unselect order' },
+  { keys: ['o', 'Enter'], description: 'Open order detail' },
+  { keys: ['m'], description: 'Map products' },
+  { keys: ['a'], description: 'Approve (move to the next step)' },
+  { keys: ['u'], description: 'Mark as urgent' },
+  { keys: ['c'], description: 'Cancel order' },
+  { keys: ['Esc'], description: 'Clear selection' },
+  { keys: ['?'], description: 'Show shortcuts' },
+];
+
+// Where approving moves an order; payment pending orders wait for payment instead
+const S = OrderStatusCodes;
+const approveStatuses: Partial<Record<number, number>> = {
+  [S.NEW_ORDER]: S.PAYMENT_PENDING,
+  [S.EDITING]: S.PAYMENT_PENDING,
+  [S.PENDING]: S.IN_PRODUCTION,
+  [S.URGENT]: S.IN_PRODUCTION,
+  [S.AWAITING_RESPONSE]: S.IN_PRODUCTION,
+};
+
+interface UseOrderTriageOptions {
+  orders: ApiOrder[];
+  enabled: boolean;
+  // Selection and focus start over when this changes (page or filters)
+  resetKey: string;
+  onOpenOrder: (order: ApiOrder) => void;
+  // j past the last order or k before the first one; returns whether another page was opened
+  onPageEdge?: (direction: 'next' | 'previous') => boolean;
+}
+
+function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Hook for keyboard triage of an order list: j/k focus, x selection and single-key status actions.
+ * Actions apply to the selected orders, or to the focused one when nothing is selected.
+ */
+export function useOrderTriage({ orders, enabled, resetKey, onOpenOrder, onPageEdge }: UseOrderTriageOptions) {
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [pendingCancel, setPendingCancel] = useState<ApiOrder[] | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const updateStatus = useUpdateOrderStatus();
+  const cancelOrder = useCancelOrder();
+  const mapOrder = useMapOrder();
+
+  // focusedIndex can run past the end (k onto the previous page asks for its last order), so clamp it
+  const focused = orders.length > 0 ? Math.min(focusedIndex, orders.length - 1) : -1;
+  const focusedOrder = focused >= 0 ? orders[focused] : undefined;
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [resetKey]);
+
+  useEffect(() => {
+    if (!enabled || focused < 0) return;
+    containerRef.current
+      ?.querySelector(`[data-triage-index="${focused}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [enabled, focused]);
+
+  const getTargets = useCallback(() => {
+    const selected = orders.filter((order) => selectedIds.has(order.id));
+    if (selected.length > 0) return selected;
+    return focusedOrder ? [focusedOrder] : [];
+  }, [orders, selectedIds, focusedOrder]);
+
+  const toggleSelected = useCallback((orderId: number) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(orderId)) next.delete(orderId);
+      else next.add(orderId);
+      return next;
+    });
+  }, []);
+
+  // Runs the action for each order in turn so one failure doesn't stop the rest
+  const runForEach = async (targets: ApiOrder[], action: (order: ApiOrder) => Promise<unknown>, failureMessage: string) => {
+    setIsWorking(true);
+    const errors: string[] = [];
+    for (const order of targets) {
+      try {
+        await action(order);
+      } catch (error) {
+        errors.push(`#${order.intOrderId || order.id}: ${error instanceof Error ? error.message : failureMessage}`);
+      }
+    }
+    setIsWorking(false);
+    setSelectedIds(new Set());
+    if (errors.length > 0) alert(errors.join('\n'));
+  };
+
+  // Paid orders are cancelled through the refunding endpoint, as in OrderStatusActions
+  const applyStatus = (order: ApiOrder, status: number) =>
+    status === S.CANCELLED && RefundableCancelStatuses.includes(order.orderStatus)
+      ? cancelOrder.mutateAsync(order.id)
+      : updateStatus.mutateAsync({ id: order.id, currentStatus: order.orderStatus, status });
+
+  // Only orders that can make the move are sent; the rest are reported
+  const changeStatus = (getStatus: (order: ApiOrder) => number | undefined, label: string) => {
+    const targets = getTargets();
+    const eligible = targets.filter((order) => {
+      const status = getStatus(order);
+      return status !== undefined && canTransitionOrderStatus(order.orderStatus, status);
+    });
+    const skipped = targets.length - eligible.length;
+    if (skipped > 0) {
+      alert(`${skipped} order${skipped !== 1 ? 's' : ''} can't be changed with "${label}" from ${skipped !== 1 ? 'their' : 'its'} current status.`);
+    }
+    if (eligible.length === 0) return;
+
+    runForEach(eligible, (order) => applyStatus(order, getStatus(order)!), 'Failed to update order status');
+  };
+
+  const requestCancel = () => {
+    const targets = getTargets().filter((order) => canTransitionOrderStatus(order.orderStatus, S.CANCELLED));
+    if (targets.length === 0) {
+      alert('The selected orders cannot be cancelled from their current status.');
+      return;
+    }
+    setPendingCancel(targets);
+  };
+
+  const confirmCancel = async () => {
+    if (!pendingCancel) return;
+    await runForEach(pendingCancel, (order) => applyStatus(order, S.CANCELLED), 'Failed to cancel order');
+    setPendingCancel(null);
+  };
+
+  const handleKey = (e: KeyboardEvent) => {
+    const move = (delta: number) => {
+      e.preventDefault();
+      const next = focused + delta;
+      if (next >= orders.length) {
+        if (onPageEdge?.('next')) setFocusedIndex(0);
+      } else if (next < 0) {
+        if (onPageEdge?.('previous')) setFocusedIndex(Number.MAX_SAFE_INTEGER);
+      } else {
+        setFocusedIndex(next);
+      }
+    };
+
+    switch (e.key) {
+      case 'j':
+      case 'ArrowDown':
+        move(1);
+        break;
+      case 'k':
+      case 'ArrowUp':
+        move(-1);
+        break;
+      case 'x':
+        if (focusedOrder) toggleSelected(focusedOrder.id);
+        break;
+      case 'o':
+      case 'Enter':
+        if (focusedOrder) onOpenOrder(focusedOrder);
+        break;
+      case 'm':
+        if (getTargets().length > 0) {
+          runForEach(getTargets(), (order) => mapOrder.mutateAsync(order.id), 'Failed to map order');
+        }
+        break;
+      case 'a':
+        changeStatus((order) => approveStatuses[order.orderStatus], 'Approve');
+        break;
+      case 'u':
+        changeStatus(() => S.URGENT, getOrderStatusActionLabel(S.URGENT));
+        break;
+      case 'c':
+        requestCancel();
+        break;
+      case 'Escape':
+        setSelectedIds(new Set());
+        break;
+      case '?':
+        setShowShortcuts(true);
+        break;
+    }
+  };
+
+  // Read through a ref so the listener sees the latest orders without re-subscribing on every render
+  const handleKeyRef = useRef(handleKey);
+  handleKeyRef.current = handleKey;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) return;
+      // Enter on a focused button or link already activates it
+      if (e.key === 'Enter' && e.target instanceof HTMLElement && e.target.closest('button, a')) return;
+      // Dialogs (shortcuts, cancel confirmation) handle their own keys
+      if (document.querySelector('[role="dialog"], [role="alertdialog"]')) return;
+      if (isWorking && e.key !== '?' && !['j', 'k', 'ArrowDown', 'ArrowUp'].includes(e.key)) return;
+      handleKeyRef.current(e);
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled, isWorking]);
+
+  return {
+    containerRef,
+    focusedIndex: focused,
+    setFocusedIndex,
+    isSelected: (orderId: number) => selectedIds.has(orderId),
+    toggleSelected,
+    selectedCount: orders.filter((order) => selectedIds.has(order.id)).length,
+    clearSelection: () => setSelectedIds(new Set()),
+    pendingCancel,
+    confirmCancel,
+    dismissCancel: () => setPendingCancel(null),
+    showShortcuts,
+    setShowShortcuts,
+    isWorking,
+  };
+}
@@ -1,4 +1,5 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/api/client';
 import { queryKeys } from '@/api/queryKeys';
 import type { ApiOrder } from '@/types';
@@ -10,6 +11,12 @@ interface OrderListResponse {
   page: number;
   limit: number;
   totalPages: number;
+  nextCursor?: string | null;
+}
+
+interface OrderIdsResponse {
+  orderIds: number[];
+  truncated: boolean;
 }
 
 interface OrderFilters {
@@ -19,6 +26,8 @@ interface OrderFilters {
   statuses?: number[];
   storeId?: number;
   search?: string;
+  startDate?: string; // yyyy-MM-dd, inclusive
+  endDate?: string;   // yyyy-MM-dd, inclusive
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
 }
@@ -29,6 +38,36 @@ interface UpdateOrderData {
   notes?: string;
 }
 
+// Map frontend filters to backend list params
+function toOrderListParams(filters: OrderFilters): Record<string, unknown> {
+  const params: Record<string, unknown> = {
+    page: filters.page || 1,
+    limit: filters.pageSize || 20,
+    sortBy: filters.sortBy || 'createdAt',
+    sortOrder: filters.sortOrder?.toUpperCase() || 'DESC',
+  };
+
+  if (filters.status !== undefined) {
+    params.status = filters.status;
+  }
+  if (filters.statuses && filters.statuses.length > 0) {
+    params.statuses = filters.statuses.join(',');
+  }
+  if (filters.storeId) {
+    params.storeId = filters.storeId;
+  }
+  if (filters.search) {
+    params.search = filters.search;
+  }
+  if (filters.startDate) {
+    params.startDate = filters.startDate;
+  }
+  if (filters.endDate) {
+    params.endDate = filters.endDate;
+  }
+  return params;
+}
+
 /**
  * Hook to fetch paginated orders list
  */
@@ -36,28 +75,7 @@ export function useOrders(filters: OrderFilters = {}) {
   return useQuery({
     queryKey: queryKeys.orders.list(filters),
     queryFn: async () => {
-      // Map frontend params to backend params
-      const params: Record<string, unknown> = {
-        page: filters.page || 1,
-        limit: filters.pageSize || 20,
-        sortBy: filters.sortBy || 'createdAt',
-        sortOrder: filters.sortOrder?.toUpperCase() || 'DESC',
-      };
-
-      if (filters.status !== undefined) {
-        params.status = filters.status;
-      }
-      if (filters.statuses && filters.statuses.length > 0) {
-        params.statuses = filters.statuses.join(',');
-      }
-      if (filters.storeId) {
-        params.storeId = filters.storeId;
-      }
-      if (filters.search) {
-        params.search = filters.search;
-      }
-
-      const response = await api.get<OrderListResponse>('/orders', params);
+      const response = await api.get<OrderListResponse>('/orders', toOrderListParams(filters));
 
       // Backend returns data directly (not wrapped in { data: ... })
       // api.get returns res.data, so response IS the OrderListResponse
@@ -76,6 +94,51 @@ export function useOrders(filters: OrderFilters = {}) {
   });
 }
 
+/**
+ * Hook to load orders page after page for an infinite list.
+ * Pages are read after the backend's cursor; sorts without one (ship-by) fall back to page numbers.
+ */
+export function useInfiniteOrders(filters: Omit<OrderFilters, 'page'> = {}) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.orders.infinite(filters),
+    queryFn: async ({ pageParam }) => {
+      const params = toOrderListParams({ ...filters, page: pageParam.page });
+      if (pageParam.cursor) {
+        params.cursor = pageParam.cursor;
+      }
+      const response = await api.get<OrderListResponse>('/orders', params);
+      return response as unknown as OrderListResponse;
+    },
+    initialPageParam: { page: 1, cursor: undefined } as { page: number; cursor?: string },
+    getNextPageParam: (lastPage) => {
+      if (lastPage.page >= lastPage.totalPages || lastPage.orders.length === 0) return undefined;
+      return { page: lastPage.page + 1, cursor: lastPage.nextCursor ?? undefined };
+    },
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * Hook returning a function that fetches the ids of every order matching the filters,
+ * for bulk actions on a whole filter rather than the loaded rows
+ */
+export function useFetchMatchingOrderIds() {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    (filters: Omit<OrderFilters, 'page' | 'pageSize'>) =>
+      queryClient.fetchQuery({
+        queryKey: queryKeys.orders.ids(filters),
+        queryFn: async () => {
+          const response = await api.get<OrderIdsResponse>('/orders/ids', toOrderListParams(filters));
+          return response as unknown as OrderIdsResponse;
+        },
+        staleTime: 30 * 1000,
+      }),
+    [queryClient]
+  );
+}
+
 /**
  * Hook to fetch a single order by ID
  */
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface UseVirtualRowsOptions {
+  count: number;
+  rowHeight: number;
+  // Rows rendered above and below the visible ones so fast scrolling doesn't show gaps
+  overscan?: number;
+}
+
+/**
+ * Hook to render only the rows of a fixed-row-height list that are in view.
+ * Attach scrollRef to the scrolling container and offset the rows by paddingTop/paddingBottom.
+ */
+export function useVirtualRows({ count, rowHeight, overscan = 10 }: UseVirtualRowsOptions) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const handleScroll = () => setScrollTop(element.scrollTop);
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+
+    setViewportHeight(element.clientHeight);
+    element.addEventListener('scroll', handleScroll, { passive: true });
+    observer.observe(element);
+    return () => {
+      element.removeEventListener('scroll', handleScroll);
+      observer.disconnect();
+    };
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  const scrollToTop = useCallback(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, []);
+
+  return {
+    scrollRef,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, (count - end) * rowHeight),
+    scrollToTop,
+  };
+}
@@ -1,6 +1,10 @@
-import { BarChart3, DollarSign, Package, ShoppingCart, TrendingUp, TrendingDown, Users, Loader2, RefreshCw } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { AlarmClock, BarChart3, DollarSign, Package, ShoppingCart, TrendingUp, TrendingDown, Users, Loader2, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useDashboard } from '@/api/hooks/useDashboard';
+import { useOrderSlaSummary } from '@/api/hooks';
+import { toOrderFilterParams } from '@/hooks/useOrderFilterParams';
+import { OrderStatusCodes } from '@/types';
 import { useTenant } from '@/stores/tenantStore';
 import { useIsSubdealer, useAssignedStoreIds } from '@/stores/authStore';
 import { useState, useEffect } from 'react';
@@ -94,6 +98,57 @@ function RecentOrder({ customer, product, amount, status }: RecentOrderProps) {
   );
 }
 
+// Open orders, soonest ship-by first
+const shipByQueueLink = `/orders/list?${toOrderFilterParams({
+  statuses: [
+    OrderStatusCodes.PENDING,
+    OrderStatusCodes.URGENT,
+    OrderStatusCodes.AWAITING_RESPONSE,
+    OrderStatusCodes.IN_PRODUCTION,
+  ],
+  sortBy: 'shipBy',
+  sortOrder: 'asc',
+}).toString()}`;
+
+function ShippingSlaPanel() {
+  const { data: summary, isLoading } = useOrderSlaSummary();
+
+  if (isLoading || !summary || summary.openOrders === 0) return null;
+
+  const needsAttention = summary.atRisk + summary.overdue > 0;
+
+  return (
+    <Link
+      to={shipByQueueLink}
+      className={cn(
+        'flex items-center justify-between gap-4 rounded-xl border p-4 transition-colors',
+        summary.overdue > 0
+          ? 'border-red-200 bg-red-50 hover:bg-red-100 dark:border-red-900/50 dark:bg-red-900/20'
+          : needsAttention
+            ? 'border-yellow-200 bg-yellow-50 hover:bg-yellow-100 dark:border-yellow-900/50 dark:bg-yellow-900/20'
+            : 'border-border bg-card hover:bg-muted/50'
+      )}
+    >
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+          <AlarmClock className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <p className="font-medium">
+            {needsAttention
+              ? `${summary.atRisk} at risk, ${summary.overdue} overdue`
+              : 'All open orders on track'}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {summary.openOrders.toLocaleString()} open orders against your shipping SLA
+          </p>
+        </div>
+      </div>
+      <span className="text-sm text-primary whitespace-nowrap">View queue</span>
+    </Link>
+  );
+}
+
 interface EmptyStateProps {
   isShipStationConnected: boolean;
   isSubdealer: boolean;
@@ -282,6 +337,9 @@ export default function Dashboard() {
         />
       </div>
 
+      {/* Shipping SLA */}
+      <ShippingSlaPanel />
+
       {/* Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Recent Orders */}
@@ -0,0 +1,406 @@
+import { useEffect, useState } from 'react';
+import {
+  CheckCircle,
+  Clock,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  Play,
+  RefreshCw,
+  XCircle,
+} from 'lucide-react';
+import { cn, formatDate } from '@/lib/utils';
+import {
+  useExportColumns,
+  useExportHistory,
+  useRunExport,
+  useDownloadExport,
+  ExportStatusCodes,
+  type ExportFilters,
+  type ExportFormat,
+  type ExportHistoryEntry,
+  type ExportType,
+} from '@/api/hooks';
+import { OrderStatusCodes, getOrderStatusLabel } from '@/types';
+
+const exportTypes: { type: ExportType; label: string; description: string }[] = [
+  { type: 'orders', label: 'Orders', description: 'One row per ordered product' },
+  { type: 'out_of_stock', label: 'Out of Stock', description: 'Products on matching orders that are out of stock' },
+  { type: 'products', label: 'Products', description: 'Catalog products with variant stock counts' },
+  { type: 'transactions', label: 'Transactions', description: 'Wallet transactions and balances' },
+  { type: 'designs', label: 'Designs', description: 'Uploaded designs and their usage' },
+];
+
+const exportTypeLabels = Object.fromEntries(exportTypes.map(({ type, label }) => [type, label])) as Record<
+  ExportType,
+  string
+>;
+
+// Which filters apply to which export type
+const orderFilterTypes: ExportType[] = ['orders', 'out_of_stock'];
+const dateFilterTypes: ExportType[] = ['orders', 'out_of_stock', 'transactions'];
+
+const exportableStatuses = [
+  OrderStatusCodes.NEW_ORDER,
+  OrderStatusCodes.PAYMENT_PENDING,
+  OrderStatusCodes.PENDING,
+  OrderStatusCodes.URGENT,
+  OrderStatusCodes.IN_PRODUCTION,
+  OrderStatusCodes.SHIPPED,
+  OrderStatusCodes.COMPLETED,
+  OrderStatusCodes.CANCELLED,
+  OrderStatusCodes.INVALID_ADDRESS,
+];
+
+function ExportStatusBadge({ entry }: { entry: ExportHistoryEntry }) {
+  if (entry.status === ExportStatusCodes.COMPLETED) {
+    return (
+      <span className="inline-flex items-center gap-1.5 px-2 py-1 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+        <CheckCircle className="w-4 h-4" />
+        Completed
+      </span>
+    );
+  }
+  if (entry.status === ExportStatusCodes.FAILED) {
+    return (
+      <span
+        title={entry.errorMessage}
+        className="inline-flex items-center gap-1.5 px-2 py-1 text-xs rounded-full bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400"
+      >
+        <XCircle className="w-4 h-4" />
+        Failed
+      </span>
+    );
+  }
+  return (
+    <span className="inline-flex items-center gap-1.5 px-2 py-1 text-xs rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400">
+      <Clock className="w-4 h-4 animate-pulse" />
+      {entry.status === ExportStatusCodes.PROCESSING ? 'Processing' : 'Queued'}
+    </span>
+  );
+}
+
+function ExportHistoryTable() {
+  const [page, setPage] = useState(1);
+  const { data, isLoading, error, refetch, isFetching } = useExportHistory({ page, limit: 20 });
+  const downloadExport = useDownloadExport();
+
+  const exports = data?.exports || [];
+  const totalPages = data?.totalPages || 1;
+
+  // Links expire, so ask for a fresh one on every download
+  const handleDownload = async (exportId: number) => {
+    try {
+      const { downloadUrl } = await downloadExport.mutateAsync(exportId);
+      window.open(downloadUrl, '_blank', 'noopener,noreferrer');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to download export');
+    }
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-border">
+        <h2 className="font-semibold">Export History</h2>
+        <button
+          onClick={() => refetch()}
+          className="inline-flex items-center gap-2 px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted transition-colors"
+        >
+          <RefreshCw className={cn('w-4 h-4', isFetching && 'animate-spin')} />
+          Refresh
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <p className="text-destructive">Failed to load export history</p>
+        </div>
+      ) : exports.length === 0 ? (
+        <div className="text-center py-12">
+          <FileSpreadsheet className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No exports yet</p>
+        </div>
+      ) : (
+        <>
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border bg-muted/50">
+                <th className="text-left p-4 font-medium text-sm">File</th>
+                <th className="text-left p-4 font-medium text-sm">Type</th>
+                <th className="text-left p-4 font-medium text-sm">Status</th>
+                <th className="text-left p-4 font-medium text-sm">Records</th>
+                <th className="text-left p-4 font-medium text-sm">Created</th>
+                <th className="p-4" />
+              </tr>
+            </thead>
+            <tbody>
+              {exports.map((entry) => (
+                <tr key={entry.id} className="border-b border-border hover:bg-muted/50 transition-colors">
+                  <td className="p-4 font-medium">{entry.fileName}</td>
+                  <td className="p-4 text-muted-foreground">{exportTypeLabels[entry.exportType] ?? entry.exportType}</td>
+                  <td className="p-4">
+                    <ExportStatusBadge entry={entry} />
+                  </td>
+                  <td className="p-4 text-muted-foreground">{entry.recordCount}</td>
+                  <td className="p-4 text-muted-foreground">
+                    {formatDate(entry.createdAt, { hour: 'numeric', minute: '2-digit' })}
+                  </td>
+                  <td className="p-4 text-right">
+                    {entry.status === ExportStatusCodes.COMPLETED && (
+                      <button
+                        onClick={() => handleDownload(entry.id)}
+                        disabled={downloadExport.isPending}
+                        className="p-2 hover:bg-muted rounded-lg transition-colors text-primary disabled:opacity-50"
+                        title="Download"
+                      >
+                        {downloadExport.isPending && downloadExport.variables === entry.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Download className="w-4 h-4" />
+                        )}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between p-4">
+              <button
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page === 1}
+                className="px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page === totalPages}
+                className="px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function Exports() {
+  const [type, setType] = useState<ExportType>('orders');
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [filters, setFilters] = useState<ExportFilters>({});
+  const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
+
+  const { data: columnsData, isLoading: columnsLoading } = useExportColumns(type);
+  const columns = columnsData ?? [];
+  const runExport = useRunExport();
+
+  // Every column is picked by default whenever the type changes
+  useEffect(() => {
+    setSelectedColumns(columnsData?.map((column) => column.key) ?? []);
+  }, [columnsData]);
+
+  const toggleColumn = (key: string) => {
+    // Keep the backend's column order rather than the click order
+    setSelectedColumns((current) =>
+      current.includes(key)
+        ? current.filter((k) => k !== key)
+        : columns.map((column) => column.key).filter((k) => k === key || current.includes(k))
+    );
+  };
+
+  const toggleStatus = (status: number) => {
+    setFilters((current) => {
+      const statuses = current.statuses ?? [];
+      return {
+        ...current,
+        statuses: statuses.includes(status) ? statuses.filter((s) => s !== status) : [...statuses, status],
+      };
+    });
+  };
+
+  const handleRun = async () => {
+    const appliedFilters: ExportFilters = {
+      ...(dateFilterTypes.includes(type) && { startDate: filters.startDate, endDate: filters.endDate }),
+      ...(orderFilterTypes.includes(type) && { statuses: filters.statuses, search: filters.search?.trim() || undefined }),
+    };
+    try {
+      await runExport.mutateAsync({ type, format, filters: appliedFilters, columns: selectedColumns });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to start export');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Exports</h1>
+        <p className="text-muted-foreground">
+          Build a CSV or Excel export in the background and download it again later
+        </p>
+      </div>
+
+      <div className="bg-card border border-border rounded-xl p-6 space-y-6">
+        {/* Export type */}
+        <div>
+          <h2 className="font-semibold mb-3">What to export</h2>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+            {exportTypes.map((option) => (
+              <button
+                key={option.type}
+                onClick={() => setType(option.type)}
+                className={cn(
+                  'text-left p-3 border rounded-lg transition-colors',
+                  type === option.type ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted'
+                )}
+              >
+                <p className="font-medium">{option.label}</p>
+                <p className="text-xs text-muted-foreground">{option.description}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Filters */}
+        {dateFilterTypes.includes(type) && (
+          <div className="space-y-4">
+            <h2 className="font-semibold">Filters</h2>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <label className="space-y-1 text-sm">
+                <span className="text-muted-foreground">From</span>
+                <input
+                  type="date"
+                  value={filters.startDate ?? ''}
+                  onChange={(e) => setFilters({ ...filters, startDate: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-border rounded-lg bg-background"
+                />
+              </label>
+              <label className="space-y-1 text-sm">
+                <span className="text-muted-foreground">To</span>
+                <input
+                  type="date"
+                  value={filters.endDate ?? ''}
+                  onChange={(e) => setFilters({ ...filters, endDate: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-border rounded-lg bg-background"
+                />
+              </label>
+              {orderFilterTypes.includes(type) && (
+                <label className="space-y-1 text-sm">
+                  <span className="text-muted-foreground">Search</span>
+                  <input
+                    type="text"
+                    value={filters.search ?? ''}
+                    onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+                    placeholder="Order ID or customer"
+                    className="w-full px-3 py-2 border border-border rounded-lg bg-background"
+                  />
+                </label>
+              )}
+            </div>
+            {orderFilterTypes.includes(type) && (
+              <div className="flex flex-wrap gap-2">
+                {exportableStatuses.map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => toggleStatus(status)}
+                    className={cn(
+                      'px-3 py-1 text-sm rounded-full border transition-colors',
+                      filters.statuses?.includes(status)
+                        ? 'border-primary bg-primary text-primary-foreground'
+                        : 'border-border hover:bg-muted'
+                    )}
+                  >
+                    {getOrderStatusLabel(status)}
+                  </button>
+                ))}
+                {!filters.statuses?.length && (
+                  <span className="self-center text-xs text-muted-foreground">All statuses</span>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Columns */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="font-semibold">Columns</h2>
+            <div className="flex gap-3 text-sm">
+              <button
+                onClick={() => setSelectedColumns(columns.map((column) => column.key))}
+                className="text-primary hover:underline"
+              >
+                Select all
+              </button>
+              <button onClick={() => setSelectedColumns([])} className="text-primary hover:underline">
+                Clear
+              </button>
+            </div>
+          </div>
+          {columnsLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          ) : (
+            <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+              {columns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedColumns.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Format and run */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pt-4 border-t border-border">
+          <div className="flex items-center gap-4 text-sm">
+            <span className="text-muted-foreground">Format</span>
+            {(['xlsx', 'csv'] as const).map((option) => (
+              <label key={option} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="export-format"
+                  checked={format === option}
+                  onChange={() => setFormat(option)}
+                />
+                {option === 'xlsx' ? 'Excel (.xlsx)' : 'CSV'}
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={handleRun}
+            disabled={selectedColumns.length === 0 || runExport.isPending}
+            className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {runExport.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            Run Export
+          </button>
+        </div>
+        {runExport.isSuccess && (
+          <p className="text-sm text-green-600">
+            Export started. It will appear below and can be downloaded once it completes.
+          </p>
+        )}
+      </div>
+
+      <ExportHistoryTable />
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 import { useState } from 'react';
-import { Package, Truck, CheckCircle, Clock, AlertCircle, MapPin } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Package, Truck, CheckCircle, Clock, AlertCircle, MapPin, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useOrders } from '@/api/hooks';
+import { ShipByBadge } from '@/components/orders';
+import { OrderStatusCodes } from '@/types';
+import type { ApiOrder, OrderShipBy } from '@/types';
 
 interface FulfillmentOrder {
   id: string;
@@ -12,10 +17,43 @@ interface FulfillmentOrder {
   }[];
   customer: string;
   destination: string;
-  estimatedDelivery: string;
+  shipBy?: OrderShipBy;
   trackingNumber?: string;
 }
 
+const FULFILLMENT_STATUSES = [
+  OrderStatusCodes.PENDING,
+  OrderStatusCodes.URGENT,
+  OrderStatusCodes.AWAITING_RESPONSE,
+  OrderStatusCodes.IN_PRODUCTION,
+  OrderStatusCodes.SHIPPED,
+];
+
+function getFulfillmentStatus(orderStatus: number): FulfillmentOrder['status'] {
+  switch (orderStatus) {
+    case OrderStatusCodes.IN_PRODUCTION: return 'printing';
+    case OrderStatusCodes.SHIPPED: return 'shipping';
+    default: return 'pending';
+  }
+}
+
+function toFulfillmentOrder(order: ApiOrder): FulfillmentOrder {
+  const address = order.orderInfo?.toAddress || order.shippingAddress;
+  return {
+    id: String(order.id),
+    orderNumber: order.externalOrderId || order.intOrderId || `#${order.id}`,
+    status: getFulfillmentStatus(order.orderStatus),
+    items: (order.products || []).map((product) => ({
+      name: product.productTitle,
+      quantity: product.quantity,
+    })),
+    customer: order.customerName || address?.name || '-',
+    destination: [address?.city, address?.state, address?.country].filter(Boolean).join(', ') || '-',
+    shipBy: order.shipBy,
+    trackingNumber: order.trackingNumber,
+  };
+}
+
 const statusConfig = {
   pending: {
     label: 'Pending',
@@ -47,8 +85,14 @@ const statusConfig = {
 export default function Fulfillment() {
   const [statusFilter, setStatusFilter] = useState<string>('all');
 
-  // TODO: Replace with API call when backend endpoint is ready
-  const orders: FulfillmentOrder[] = [];
+  // Soonest ship-by first; shipped orders have no ship-by and sort last
+  const { data, isLoading } = useOrders({
+    statuses: FULFILLMENT_STATUSES,
+    sortBy: 'shipBy',
+    sortOrder: 'asc',
+    pageSize: 100,
+  });
+  const orders = (data?.data || []).map(toFulfillmentOrder);
 
   const filteredOrders = orders.filter(
     (order) => statusFilter === 'all' || order.status === statusFilter
@@ -125,7 +169,11 @@ export default function Fulfillment() {
       </div>
 
       {/* Orders List or Empty State */}
-      {filteredOrders.length > 0 ? (
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : filteredOrders.length > 0 ? (
         <div className="space-y-4">
           {filteredOrders.map((order) => {
             const config = statusConfig[order.status];
@@ -148,7 +196,9 @@ export default function Fulfillment() {
                       <StatusIcon className="w-6 h-6" />
                     </div>
                     <div>
-                      <p className="font-semibold">{order.orderNumber}</p>
+                      <Link to={`/orders/${order.id}`} className="font-semibold hover:underline">
+                        {order.orderNumber}
+                      </Link>
                       <p className="text-sm text-muted-foreground">
                         {order.customer}
                       </p>
@@ -183,9 +233,11 @@ export default function Fulfillment() {
                         Tracking: {order.trackingNumber}
                       </p>
                     )}
-                    <p className="text-sm text-muted-foreground mt-1">
-                      Est. Delivery: {order.estimatedDelivery}
-                    </p>
+                    {order.shipBy && (
+                      <div className="mt-2">
+                        <ShipByBadge shipBy={order.shipBy} />
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -1,13 +1,45 @@
-import { useState, useEffect } from 'react';
-import { Routes, Route, Navigate } from 'react-router-dom';
-import { Search, Package, CheckCircle, Clock, XCircle, Loader2, Truck, AlertCircle, Edit2, RefreshCw, Store } from 'lucide-react';
-import { cn } from '@/lib/utils';
-import { useOrders } from '@/hooks/useOrders';
+import { useCallback, useMemo, useState } from 'react';
+import { Routes, Route, Navigate, useNavigate } from 'react-router-dom';
+import { Package, CheckCircle, Clock, XCircle, Loader2, Truck, AlertCircle, AlertTriangle, Edit2, RefreshCw, Merge, Plus, FileText, Trash2, Send, Keyboard, Check } from 'lucide-react';
+import { cn, formatDate } from '@/lib/utils';
+import { useFetchMatchingOrderIds, useInfiniteOrders, useOrders } from '@/hooks/useOrders';
+import { useOrderSelection } from '@/hooks/useOrderSelection';
+import { useOrderTriage } from '@/hooks/useOrderTriage';
+import { useOrderFilterParams } from '@/hooks/useOrderFilterParams';
 import { useIsSubdealer, useAssignedStoreIds } from '@/stores/authStore';
 import { OrderStatusCodes, getOrderStatusLabel, getOrderStatusColor, ApiOrder } from '@/types';
 import { useQueryClient, useQuery } from '@tanstack/react-query';
 import apiClient from '@/api/client';
 import { Link } from 'react-router-dom';
+import OrderDetail from './orders/OrderDetail';
+import EditOrder from './orders/EditOrder';
+import NewOrder from './orders/NewOrder';
+import AddressQueue from './orders/AddressQueue';
+import AcknowledgmentQueue from './orders/AcknowledgmentQueue';
+import {
+  CombineOrdersDialog,
+  DuplicateOrdersDialog,
+  OrderFilters,
+  OrderStatusActions,
+  OrderTable,
+  OrderViewTabs,
+  SendTrackingResultsDialog,
+  ShipByBadge,
+  TriageShortcutsDialog,
+} from '@/components/orders';
+import {
+  useBulkSendTracking,
+  useBulkUpdateOrderStatus,
+  useCombineCandidates,
+  useCreateGangsheet,
+  useExportOrders,
+  useDuplicateOrders,
+  useOrderDrafts,
+  useDiscardOrderDraft,
+  type SendTrackingResponse,
+} from '@/api/hooks';
+import { ConfirmDialog } from '@/components/common';
+import type { ManualOrderDraftPayload } from '@/stores/orderDraftStore';
 
 interface StoreInfo {
   id: number;
@@ -18,7 +50,7 @@ interface StoreInfo {
 }
 
 // Shared order card component
-function OrderCard({ order }: { order: ApiOrder }) {
+function OrderCard({ order, combinable = false }: { order: ApiOrder; combinable?: boolean }) {
   const orderNumber = order.externalOrderId || order.intOrderId || `#${order.id}`;
   const statusColor = getOrderStatusColor(order.orderStatus);
   const statusLabel = getOrderStatusLabel(order.orderStatus);
@@ -65,7 +97,21 @@ function OrderCard({ order }: { order: ApiOrder }) {
             {getStatusIcon(order.orderStatus)}
           </div>
           <div>
-            <p className="font-semibold">{orderNumber}</p>
+            <p className="font-semibold flex items-center gap-2">
+              {orderNumber}
+              {combinable && (
+                <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400">
+                  <Merge className="w-3 h-3" />
+                  Combinable
+                </span>
+              )}
+              {order.orderInfo?.shipping?.sent_to_marketplace && (
+                <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+                  <Send className="w-3 h-3" />
+                  Tracking sent
+                </span>
+              )}
+            </p>
             <p className="text-sm text-muted-foreground">
               {order.customerName || 'No customer'}
               {order.customerEmail && ` - ${order.customerEmail}`}
@@ -86,74 +132,107 @@ function OrderCard({ order }: { order: ApiOrder }) {
             >
               {statusLabel}
             </span>
+            {order.shipBy && <ShipByBadge shipBy={order.shipBy} className="mt-1 flex w-fit ml-auto" />}
           </div>
+          <OrderStatusActions order={order} />
         </div>
       </div>
     </Link>
   );
 }
 
-// Store filter component
-function StoreFilter({
-  stores,
-  storeFilter,
-  setStoreFilter,
-  isSubdealer
+// Store list shared by the order pages, shaped for OrderFilters
+function useStoreOptions() {
+  const isSubdealer = useIsSubdealer();
+  const assignedStoreIds = useAssignedStoreIds();
+
+  const { data: stores = [] } = useQuery({
+    queryKey: ['shipstation-stores'],
+    queryFn: async () => {
+      const response = await apiClient.get('/shipstation/stores');
+      return response.data as StoreInfo[];
+    },
+  });
+
+  // Sub-dealers only see their own store, so they get no store picker
+  const storeOptions = isSubdealer
+    ? []
+    : stores.map((store) => ({ id: String(store.id), name: store.storeName }));
+  const defaultStoreId = isSubdealer && assignedStoreIds.length > 0 ? assignedStoreIds[0] : undefined;
+
+  return { storeOptions, defaultStoreId };
+}
+
+function OrderPagination({
+  page,
+  totalPages,
+  total,
+  onPageChange,
 }: {
-  stores: StoreInfo[];
-  storeFilter: number | 'all';
-  setStoreFilter: (v: number | 'all') => void;
-  isSubdealer: boolean;
+  page: number;
+  totalPages: number;
+  total: number;
+  onPageChange: (page: number) => void;
 }) {
-  if (isSubdealer || stores.length === 0) return null;
+  if (totalPages <= 1) return null;
 
   return (
-    <div className="flex items-center gap-2">
-      <Store className="w-4 h-4 text-muted-foreground" />
-      <select
-        value={storeFilter}
-        onChange={(e) => setStoreFilter(e.target.value === 'all' ? 'all' : Number(e.target.value))}
-        className="px-3 py-2 bg-background border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+    <div className="flex items-center justify-center gap-2 pt-4">
+      <button
+        onClick={() => onPageChange(Math.max(1, page - 1))}
+        disabled={page === 1}
+        className="px-3 py-1 rounded border border-border disabled:opacity-50 hover:bg-muted"
       >
-        <option value="all">All Stores</option>
-        {stores.map((store) => (
-          <option key={store.id} value={store.id}>
-            {store.storeName}
-          </option>
-        ))}
-      </select>
+        Previous
+      </button>
+      <span className="text-sm text-muted-foreground">
+        Page {page} of {totalPages} ({total} orders)
+      </span>
+      <button
+        onClick={() => onPageChange(Math.min(totalPages, page + 1))}
+        disabled={page === totalPages}
+        className="px-3 py-1 rounded border border-border disabled:opacity-50 hover:bg-muted"
+      >
+        Next
+      </button>
     </div>
   );
 }
 
+// Statuses shown on each order page; the status filter narrows within these
+const newOrderStatuses: number[] = [
+  OrderStatusCodes.NEW_ORDER,
+  OrderStatusCodes.PENDING,
+  OrderStatusCodes.URGENT,
+  OrderStatusCodes.IN_PRODUCTION,
+  OrderStatusCodes.PAYMENT_PENDING,
+];
+
+const completedOrderStatuses: number[] = [
+  OrderStatusCodes.SHIPPED,
+  OrderStatusCodes.COMPLETED,
+];
+
 // New Orders page - awaiting shipment orders
 function NewOrdersPage() {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [storeFilter, setStoreFilter] = useState<number | 'all'>('all');
-  const [page, setPage] = useState(1);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [isCombineOpen, setIsCombineOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [isTriageMode, setIsTriageMode] = useState(false);
   const pageSize = 20;
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
 
   const isSubdealer = useIsSubdealer();
   const assignedStoreIds = useAssignedStoreIds();
+  const { storeOptions, defaultStoreId } = useStoreOptions();
+  const { filters, filterQuery, page, setFilters, setPage } = useOrderFilterParams();
 
-  const { data: stores = [] } = useQuery({
-    queryKey: ['shipstation-stores'],
-    queryFn: async () => {
-      const response = await apiClient.get('/shipstation/stores');
-      return response.data as StoreInfo[];
-    },
+  // Orders that look like the same purchase, e.g. synced from Etsy and uploaded from Excel
+  const { data: duplicateGroups = [], refetch: refetchDuplicates } = useDuplicateOrders({
+    storeId: filters.storeId ? Number(filters.storeId) : defaultStoreId,
   });
 
-  useEffect(() => {
-    if (isSubdealer && assignedStoreIds.length > 0 && storeFilter === 'all') {
-      setStoreFilter(assignedStoreIds[0]);
-    }
-  }, [isSubdealer, assignedStoreIds, storeFilter]);
-
-  const effectiveStoreFilter = storeFilter === 'all' ? undefined : storeFilter;
-
   const handleSyncOrders = async () => {
     setIsSyncing(true);
     try {
@@ -165,6 +244,9 @@ function NewOrdersPage() {
         await apiClient.post('/shipstation/sync-orders', {});
       }
       queryClient.invalidateQueries({ queryKey: ['orders'] });
+      // Synced orders may repeat ones that were uploaded or entered by hand
+      const { data: groups } = await refetchDuplicates();
+      if (groups && groups.length > 0) setIsDuplicatesOpen(true);
     } catch (err) {
       console.error('Failed to sync orders:', err);
     } finally {
@@ -176,37 +258,38 @@ function NewOrdersPage() {
   const { data, isLoading, error } = useOrders({
     page,
     pageSize,
-    search: searchQuery || undefined,
-    statuses: [
-      OrderStatusCodes.NEW_ORDER,
-      OrderStatusCodes.PENDING,
-      OrderStatusCodes.URGENT,
-      OrderStatusCodes.IN_PRODUCTION,
-      OrderStatusCodes.PAYMENT_PENDING,
-    ],
-    storeId: effectiveStoreFilter,
+    search: filters.search,
+    statuses: filters.statuses?.length ? filters.statuses : newOrderStatuses,
+    storeId: filters.storeId ? Number(filters.storeId) : defaultStoreId,
+    startDate: filters.startDate,
+    endDate: filters.endDate,
+    sortBy: filters.sortBy,
+    sortOrder: filters.sortOrder,
+  });
+
+  // New orders shipping to the same address, across all pages
+  const { data: combineGroups = [] } = useCombineCandidates({
+    storeId: filters.storeId ? Number(filters.storeId) : defaultStoreId,
   });
+  const combinableIds = new Set(combineGroups.flatMap((group) => group.orders.map((order) => order.id)));
 
   const orders = data?.data || [];
   const total = data?.total || 0;
   const totalPages = data?.totalPages || 1;
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <Loader2 className="w-8 h-8 animate-spin text-primary" />
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <div className="text-center py-12">
-        <AlertCircle className="w-12 h-12 mx-auto text-destructive mb-4" />
-        <p className="text-destructive">Failed to load orders</p>
-      </div>
-    );
-  }
+  // j/k carry on to the neighbouring page at either end of this one
+  const triage = useOrderTriage({
+    orders,
+    enabled: isTriageMode,
+    resetKey: `${filterQuery}|${page}`,
+    onOpenOrder: (order) => navigate(`/orders/${order.id}`),
+    onPageEdge: (direction) => {
+      const nextPage = direction === 'next' ? page + 1 : page - 1;
+      if (nextPage < 1 || nextPage > totalPages) return false;
+      setPage(nextPage);
+      return true;
+    },
+  });
 
   return (
     <div className="space-y-6">
@@ -216,137 +299,295 @@ function NewOrdersPage() {
           <h1 className="text-2xl font-bold">New Orders</h1>
           <p className="text-muted-foreground">Orders awaiting processing</p>
         </div>
-        <button
-          onClick={handleSyncOrders}
-          disabled={isSyncing}
-          className="inline-flex items-center gap-2 px-4 py-2 border border-border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
-        >
-          <RefreshCw className={cn("w-4 h-4", isSyncing && "animate-spin")} />
-          {isSyncing ? 'Syncing...' : 'Sync Orders'}
-        </button>
-      </div>
-
-      {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4 justify-between">
-        <div className="relative flex-1 max-w-md">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <input
-            type="text"
-            placeholder="Search orders..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full pl-10 pr-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
-          />
+        <div className="flex gap-2">
+          <button
+            onClick={() => setIsTriageMode(!isTriageMode)}
+            className={cn(
+              'inline-flex items-center gap-2 px-4 py-2 border rounded-lg transition-colors',
+              isTriageMode ? 'border-primary bg-primary/10 text-primary' : 'border-border hover:bg-muted'
+            )}
+            title="Process orders from the keyboard"
+          >
+            <Keyboard className="w-4 h-4" />
+            {isTriageMode ? 'Exit Triage' : 'Triage'}
+          </button>
+          <button
+            onClick={handleSyncOrders}
+            disabled={isSyncing}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={cn("w-4 h-4", isSyncing && "animate-spin")} />
+            {isSyncing ? 'Syncing...' : 'Sync Orders'}
+          </button>
+          <Link
+            to="/orders/create"
+            className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New Order
+          </Link>
         </div>
-        <StoreFilter
-          stores={stores}
-          storeFilter={storeFilter}
-          setStoreFilter={(v) => { setStoreFilter(v); setPage(1); }}
-          isSubdealer={isSubdealer}
-        />
       </div>
 
-      {/* Orders List */}
-      <div className="space-y-4">
-        {orders.map((order) => (
-          <OrderCard key={order.id} order={order} />
-        ))}
-
-        {orders.length === 0 && (
-          <div className="text-center py-12">
-            <Package className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
-            <p className="text-muted-foreground">No pending orders</p>
-            <p className="text-sm text-muted-foreground mt-2">
-              New orders from ShipStation will appear here
+      {/* Saved views and filters */}
+      <OrderViewTabs page="new-orders" basePath="/orders/new-orders" filterQuery={filterQuery} />
+      <OrderFilters
+        filters={filters}
+        onFiltersChange={setFilters}
+        stores={storeOptions}
+        statusOptions={newOrderStatuses}
+      />
+
+      {/* Possible duplicates */}
+      {duplicateGroups.length > 0 && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl">
+          <div className="flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-yellow-600" />
+            <p className="text-sm">
+              {duplicateGroups.length} group{duplicateGroups.length !== 1 ? 's' : ''} of orders look like duplicates
             </p>
           </div>
-        )}
-      </div>
-
-      {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="flex items-center justify-center gap-2 pt-4">
           <button
-            onClick={() => setPage(p => Math.max(1, p - 1))}
-            disabled={page === 1}
-            className="px-3 py-1 rounded border border-border disabled:opacity-50 hover:bg-muted"
+            onClick={() => setIsDuplicatesOpen(true)}
+            className="px-4 py-2 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90"
           >
-            Previous
+            Review Duplicates
           </button>
-          <span className="text-sm text-muted-foreground">
-            Page {page} of {totalPages} ({total} orders)
-          </span>
+        </div>
+      )}
+      <DuplicateOrdersDialog open={isDuplicatesOpen} onOpenChange={setIsDuplicatesOpen} groups={duplicateGroups} />
+
+      {/* Combine candidates */}
+      {combineGroups.length > 0 && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl">
+          <div className="flex items-center gap-3">
+            <Merge className="w-5 h-5 text-blue-600" />
+            <p className="text-sm">
+              {combineGroups.length} group{combineGroups.length !== 1 ? 's' : ''} of new orders ship to the same address
+            </p>
+          </div>
           <button
-            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-            disabled={page === totalPages}
-            className="px-3 py-1 rounded border border-border disabled:opacity-50 hover:bg-muted"
+            onClick={() => setIsCombineOpen(true)}
+            className="px-4 py-2 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90"
           >
-            Next
+            Review &amp; Combine
           </button>
         </div>
       )}
+      <CombineOrdersDialog open={isCombineOpen} onOpenChange={setIsCombineOpen} groups={combineGroups} />
+
+      {/* Orders List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <AlertCircle className="w-12 h-12 mx-auto text-destructive mb-4" />
+          <p className="text-destructive">Failed to load orders</p>
+        </div>
+      ) : (
+        <div ref={triage.containerRef} className="space-y-4">
+          {isTriageMode && (
+            <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 text-sm bg-muted rounded-lg">
+              <span className="text-muted-foreground">
+                <kbd className="font-mono">j</kbd>/<kbd className="font-mono">k</kbd> to move,{' '}
+                <kbd className="font-mono">x</kbd> to select,{' '}
+                <kbd className="font-mono">?</kbd> for all shortcuts
+              </span>
+              <span className="flex items-center gap-2">
+                {triage.isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+                {triage.selectedCount > 0 && (
+                  <>
+                    <span className="font-medium">{triage.selectedCount} selected</span>
+                    <button onClick={triage.clearSelection} className="text-primary hover:underline">
+                      Clear
+                    </button>
+                  </>
+                )}
+              </span>
+            </div>
+          )}
+
+          {orders.map((order, index) =>
+            isTriageMode ? (
+              <div
+                key={order.id}
+                data-triage-index={index}
+                onMouseDown={() => triage.setFocusedIndex(index)}
+                className={cn(
+                  'flex items-center gap-3 rounded-xl',
+                  index === triage.focusedIndex && 'ring-2 ring-primary ring-offset-2 ring-offset-background'
+                )}
+              >
+                <button
+                  onClick={() => triage.toggleSelected(order.id)}
+                  className={cn(
+                    'flex h-5 w-5 flex-shrink-0 items-center justify-center rounded border border-primary',
+                    triage.isSelected(order.id) && 'bg-primary text-primary-foreground'
+                  )}
+                  aria-label={`Select order ${order.intOrderId || order.id}`}
+                >
+                  {triage.isSelected(order.id) && <Check className="h-3.5 w-3.5" />}
+                </button>
+                <div className="min-w-0 flex-1">
+                  <OrderCard order={order} combinable={combinableIds.has(order.id)} />
+                </div>
+              </div>
+            ) : (
+              <OrderCard key={order.id} order={order} combinable={combinableIds.has(order.id)} />
+            )
+          )}
+
+          {orders.length === 0 && (
+            <div className="text-center py-12">
+              <Package className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No pending orders</p>
+              <p className="text-sm text-muted-foreground mt-2">
+                New orders from ShipStation will appear here
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <OrderPagination page={page} totalPages={totalPages} total={total} onPageChange={setPage} />
+
+      <TriageShortcutsDialog open={triage.showShortcuts} onOpenChange={triage.setShowShortcuts} />
+      <ConfirmDialog
+        open={triage.pendingCancel !== null}
+        onOpenChange={(open) => !open && triage.dismissCancel()}
+        title={`Cancel ${triage.pendingCancel?.length ?? 0} order${triage.pendingCancel?.length === 1 ? '' : 's'}?`}
+        description="Paid orders are refunded to the wallet. This cannot be undone."
+        confirmLabel="Cancel Orders"
+        variant="destructive"
+        loading={triage.isWorking}
+        onConfirm={triage.confirmCancel}
+      />
     </div>
   );
 }
 
-// Order List page - completed/shipped orders
+// Order List page - completed/shipped orders, loaded as the table is scrolled
 function OrderListPage() {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [storeFilter, setStoreFilter] = useState<number | 'all'>('all');
-  const [page, setPage] = useState(1);
-  const pageSize = 20;
+  const pageSize = 100;
+  const navigate = useNavigate();
 
-  const isSubdealer = useIsSubdealer();
-  const assignedStoreIds = useAssignedStoreIds();
+  const { storeOptions, defaultStoreId } = useStoreOptions();
+  const { filters, filterQuery, setFilters } = useOrderFilterParams();
 
-  const { data: stores = [] } = useQuery({
-    queryKey: ['shipstation-stores'],
-    queryFn: async () => {
-      const response = await apiClient.get('/shipstation/stores');
-      return response.data as StoreInfo[];
-    },
-  });
+  // Fetch completed/shipped orders
+  const listFilters = {
+    pageSize,
+    search: filters.search,
+    statuses: filters.statuses?.length ? filters.statuses : completedOrderStatuses,
+    storeId: filters.storeId ? Number(filters.storeId) : defaultStoreId,
+    startDate: filters.startDate,
+    endDate: filters.endDate,
+    sortBy: filters.sortBy,
+    sortOrder: filters.sortOrder,
+  };
+  const { data, isLoading, error, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteOrders(listFilters);
+
+  const orders = useMemo(() => data?.pages.flatMap((page) => page.orders) ?? [], [data]);
+  const total = data?.pages[0]?.total ?? 0;
+
+  // Selection survives loading more rows, and is cleared when the filters change
+  const selection = useOrderSelection(total, filterQuery);
+  const fetchMatchingOrderIds = useFetchMatchingOrderIds();
+  const [isResolvingSelection, setIsResolvingSelection] = useState(false);
+
+  const bulkSendTracking = useBulkSendTracking();
+  const [trackingResponse, setTrackingResponse] = useState<SendTrackingResponse | null>(null);
+  const bulkUpdateStatus = useBulkUpdateOrderStatus();
+  const exportOrders = useExportOrders();
+  const createGangsheet = useCreateGangsheet();
+
+  const handleLoadMore = useCallback(() => {
+    fetchNextPage();
+  }, [fetchNextPage]);
+
+  // Ids the bulk action should cover; "all matching" is looked up on the server
+  const resolveSelectedIds = async (): Promise<number[]> => {
+    if (!selection.isMatching) return selection.selectedIds;
+    const { pageSize: _pageSize, ...matchingFilters } = listFilters;
+    const { orderIds, truncated } = await fetchMatchingOrderIds(matchingFilters);
+    if (truncated && !confirm(`Only the first ${orderIds.length.toLocaleString()} matching orders can be included. Continue?`)) {
+      return [];
+    }
+    const excluded = new Set(selection.excludedIds);
+    return orderIds.filter((id) => !excluded.has(id));
+  };
 
-  useEffect(() => {
-    if (isSubdealer && assignedStoreIds.length > 0 && storeFilter === 'all') {
-      setStoreFilter(assignedStoreIds[0]);
+  const handleSendTracking = async () => {
+    setIsResolvingSelection(true);
+    try {
+      const orderIds = await resolveSelectedIds();
+      if (orderIds.length === 0) return;
+      setTrackingResponse(await bulkSendTracking.mutateAsync(orderIds));
+      selection.clear();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to send tracking');
+    } finally {
+      setIsResolvingSelection(false);
     }
-  }, [isSubdealer, assignedStoreIds, storeFilter]);
+  };
 
-  const effectiveStoreFilter = storeFilter === 'all' ? undefined : storeFilter;
+  const handleBulkStatusChange = async (selectedOrders: ApiOrder[], status: number) => {
+    if (!confirm(`Move ${selectedOrders.length} order(s) to ${getOrderStatusLabel(status)}?`)) return;
+    try {
+      await bulkUpdateStatus.mutateAsync({ orders: selectedOrders, status });
+      selection.clear();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update orders');
+    }
+  };
 
-  // Fetch completed/shipped orders
-  const { data, isLoading, error } = useOrders({
-    page,
-    pageSize,
-    search: searchQuery || undefined,
-    statuses: [
-      OrderStatusCodes.SHIPPED,
-      OrderStatusCodes.COMPLETED,
-    ],
-    storeId: effectiveStoreFilter,
-  });
+  const handleBulkExport = async () => {
+    setIsResolvingSelection(true);
+    try {
+      const orderIds = await resolveSelectedIds();
+      if (orderIds.length === 0) return;
+      const result = await exportOrders.mutateAsync(orderIds);
+      if (!result.fileUrl) {
+        alert(result.message || 'Nothing to export');
+        return;
+      }
+      window.open(result.fileUrl, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to export orders');
+    } finally {
+      setIsResolvingSelection(false);
+    }
+  };
 
-  const orders = data?.data || [];
-  const total = data?.total || 0;
-  const totalPages = data?.totalPages || 1;
+  const handleCreateGangsheet = async () => {
+    const name = prompt('Gangsheet name', `Orders ${formatDate(new Date())}`)?.trim();
+    if (!name) return;
+    setIsResolvingSelection(true);
+    try {
+      const orderIds = await resolveSelectedIds();
+      if (orderIds.length === 0) return;
+      await createGangsheet.mutateAsync({ name, orderIds });
+      selection.clear();
+      navigate('/gangsheet');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create gangsheet');
+    } finally {
+      setIsResolvingSelection(false);
+    }
+  };
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <Loader2 className="w-8 h-8 animate-spin text-primary" />
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <div className="text-center py-12">
-        <AlertCircle className="w-12 h-12 mx-auto text-destructive mb-4" />
-        <p className="text-destructive">Failed to load orders</p>
-      </div>
-    );
-  }
+  const toolbar = (
+    <button
+      onClick={handleSendTracking}
+      disabled={isResolvingSelection}
+      className="inline-flex items-center gap-2 px-3 py-1.5 text-sm border border-border rounded-lg bg-background hover:bg-muted transition-colors disabled:opacity-50"
+    >
+      {isResolvingSelection ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+      Send Tracking to Marketplace
+    </button>
+  );
 
   return (
     <div className="space-y-6">
@@ -356,63 +597,141 @@ function OrderListPage() {
         <p className="text-muted-foreground">Completed and shipped orders</p>
       </div>
 
-      {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4 justify-between">
-        <div className="relative flex-1 max-w-md">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <input
-            type="text"
-            placeholder="Search orders..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full pl-10 pr-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
-          />
+      {/* Saved views and filters */}
+      <OrderViewTabs page="list" basePath="/orders/list" filterQuery={filterQuery} />
+      <OrderFilters
+        filters={filters}
+        onFiltersChange={setFilters}
+        stores={storeOptions}
+        statusOptions={completedOrderStatuses}
+      />
+
+      <SendTrackingResultsDialog
+        open={trackingResponse !== null}
+        onOpenChange={(open) => !open && setTrackingResponse(null)}
+        response={trackingResponse}
+      />
+
+      {/* Orders List */}
+      {error ? (
+        <div className="text-center py-12">
+          <AlertCircle className="w-12 h-12 mx-auto text-destructive mb-4" />
+          <p className="text-destructive">Failed to load orders</p>
         </div>
-        <StoreFilter
-          stores={stores}
-          storeFilter={storeFilter}
-          setStoreFilter={(v) => { setStoreFilter(v); setPage(1); }}
-          isSubdealer={isSubdealer}
+      ) : (
+        <OrderTable
+          orders={orders}
+          totalCount={total}
+          loading={isLoading}
+          hasMore={hasNextPage}
+          loadingMore={isFetchingNextPage}
+          onLoadMore={handleLoadMore}
+          selection={selection}
+          stores={storeOptions}
+          onViewOrder={(order) => navigate(`/orders/${order.id}`)}
+          onBulkStatusChange={handleBulkStatusChange}
+          onBulkExport={handleBulkExport}
+          onCreateGangsheet={handleCreateGangsheet}
+          bulkActionPending={isResolvingSelection || bulkUpdateStatus.isPending}
+          toolbar={toolbar}
         />
-      </div>
+      )}
+    </div>
+  );
+}
 
-      {/* Orders List */}
-      <div className="space-y-4">
-        {orders.map((order) => (
-          <OrderCard key={order.id} order={order} />
-        ))}
-
-        {orders.length === 0 && (
-          <div className="text-center py-12">
-            <CheckCircle className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
-            <p className="text-muted-foreground">No completed orders yet</p>
-            <p className="text-sm text-muted-foreground mt-2">
-              Shipped and completed orders will appear here
-            </p>
-          </div>
-        )}
+// Drafts page - manual orders that were started but not submitted
+function DraftsPage() {
+  const { data: drafts = [], isLoading, error } = useOrderDrafts();
+  const discardDraft = useDiscardOrderDraft();
+
+  const handleDiscard = async (id: number) => {
+    if (!confirm('Discard this draft?')) return;
+    try {
+      await discardDraft.mutateAsync(id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to discard draft');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Drafts</h1>
+          <p className="text-muted-foreground">Manual orders you started but have not submitted</p>
+        </div>
+        <Link
+          to="/orders/create"
+          className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          New Order
+        </Link>
       </div>
 
-      {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="flex items-center justify-center gap-2 pt-4">
-          <button
-            onClick={() => setPage(p => Math.max(1, p - 1))}
-            disabled={page === 1}
-            className="px-3 py-1 rounded border border-border disabled:opacity-50 hover:bg-muted"
-          >
-            Previous
-          </button>
-          <span className="text-sm text-muted-foreground">
-            Page {page} of {totalPages} ({total} orders)
-          </span>
-          <button
-            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-            disabled={page === totalPages}
-            className="px-3 py-1 rounded border border-border disabled:opacity-50 hover:bg-muted"
-          >
-            Next
-          </button>
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <AlertCircle className="w-12 h-12 mx-auto text-destructive mb-4" />
+          <p className="text-destructive">Failed to load drafts</p>
+        </div>
+      ) : drafts.length === 0 ? (
+        <div className="text-center py-12">
+          <FileText className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No drafts</p>
+          <p className="text-sm text-muted-foreground mt-2">
+            Orders you start are saved here automatically until you submit them
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {drafts.map((order) => {
+            const draft = order.orderInfo?.draft;
+            const payload = draft?.source === 'manual' ? (draft.payload as ManualOrderDraftPayload) : undefined;
+            const productCount = payload?.products.filter((p) => p.productId !== null).length ?? 0;
+            const address = payload?.address ?? order.orderInfo?.toAddress;
+            return (
+              <div
+                key={order.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 bg-card border border-border rounded-xl p-4"
+              >
+                <div className="flex items-start gap-4">
+                  <div className="w-10 h-10 rounded-lg flex items-center justify-center bg-muted">
+                    <FileText className="w-4 h-4" />
+                  </div>
+                  <div>
+                    <p className="font-semibold">{address?.name || order.customerName || 'Untitled draft'}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {productCount} product{productCount !== 1 ? 's' : ''}
+                      {address?.city && ` · ${address.city}, ${address.state}`}
+                      {draft?.savedAt && ` · Saved ${formatDate(draft.savedAt, { hour: 'numeric', minute: '2-digit' })}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleDiscard(order.id)}
+                    disabled={discardDraft.isPending}
+                    className="inline-flex items-center gap-2 px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Discard
+                  </button>
+                  <Link
+                    to={`/orders/create?draft=${order.id}`}
+                    className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+                  >
+                    Resume
+                  </Link>
+                </div>
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
@@ -425,7 +744,12 @@ export default function Orders() {
       <Route index element={<Navigate to="/orders/new-orders" replace />} />
       <Route path="new-orders" element={<NewOrdersPage />} />
       <Route path="list" element={<OrderListPage />} />
-      <Route path=":id" element={<NewOrdersPage />} />
+      <Route path="drafts" element={<DraftsPage />} />
+      <Route path="create" element={<NewOrder />} />
+      <Route path="invalid-addresses" element={<AddressQueue />} />
+      <Route path="acknowledgments" element={<AcknowledgmentQueue />} />
+      <Route path=":id" element={<OrderDetail />} />
+      <Route path=":id/edit" element={<EditOrder />} />
     </Routes>
   );
 }
@@ -1,5 +1,5 @@
 import { Routes, Route, NavLink, Navigate } from 'react-router-dom';
-import { Store, CreditCard, Bell, User, Shield, Palette, Truck, Users, RefreshCw, CheckCircle, XCircle, Eye, EyeOff, Plus, Settings2, Cloud, Package, ShoppingBag, FolderTree, UserCircle } from 'lucide-react';
+import { Store, CreditCard, Bell, User, Shield, Palette, Truck, Users, RefreshCw, CheckCircle, XCircle, Eye, EyeOff, Plus, Settings2, Cloud, Package, ShoppingBag, FolderTree, UserCircle, Timer } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useState, useEffect, lazy, Suspense } from 'react';
 import apiClient from '@/api/client';
@@ -16,6 +16,7 @@ const settingsNav = [
   { title: 'Categories', href: '/settings/categories', icon: FolderTree, section: 'business' },
   { title: 'Customers', href: '/settings/customers', icon: UserCircle, section: 'business' },
   { title: 'Sub-dealers', href: '/settings/subdealers', icon: Users, section: 'business' },
+  { title: 'Order SLA', href: '/settings/sla', icon: Timer, section: 'business' },
 
   // Integrations
   { title: 'ShipStation', href: '/settings/shipstation', icon: Truck, section: 'integrations' },
@@ -781,6 +782,8 @@ function AwsSettings() {
 function ShippingSettingsPage() {
   const [nestshipperClientId, setNestshipperClientId] = useState('');
   const [showClientId, setShowClientId] = useState(false);
+  const [autoSendTracking, setAutoSendTracking] = useState(false);
+  const [autoAcknowledge, setAutoAcknowledge] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -792,6 +795,8 @@ function ShippingSettingsPage() {
         if (settings.shippingSettings) {
           setNestshipperClientId(settings.shippingSettings.nestshipperClientId || '');
         }
+        setAutoSendTracking(settings.trackingSettings?.autoSendToMarketplace ?? false);
+        setAutoAcknowledge(settings.acknowledgmentSettings?.autoAcknowledgeOnImport ?? false);
       } catch (err) {
         console.error('Failed to fetch settings:', err);
       } finally {
@@ -808,6 +813,12 @@ function ShippingSettingsPage() {
         shippingSettings: {
           nestshipperClientId: nestshipperClientId || null,
         },
+        trackingSettings: {
+          autoSendToMarketplace: autoSendTracking,
+        },
+        acknowledgmentSettings: {
+          autoAcknowledgeOnImport: autoAcknowledge,
+        },
       });
     } catch (err) {
       console.error('Failed to save settings:', err);
@@ -859,6 +870,171 @@ function ShippingSettingsPage() {
         </div>
       </div>
 
+      <div className="space-y-4">
+        <h3 className="font-medium">Marketplace Tracking</h3>
+        <label className="flex items-start gap-3">
+          <input
+            type="checkbox"
+            checked={autoSendTracking}
+            onChange={(e) => setAutoSendTracking(e.target.checked)}
+            className="mt-1 rounded border-border"
+          />
+          <span>
+            <span className="block text-sm font-medium">Send tracking automatically</span>
+            <span className="block text-xs text-muted-foreground">
+              Push the tracking code to the order's marketplace as soon as a label is bought
+            </span>
+          </span>
+        </label>
+        <label className="flex items-start gap-3">
+          <input
+            type="checkbox"
+            checked={autoAcknowledge}
+            onChange={(e) => setAutoAcknowledge(e.target.checked)}
+            className="mt-1 rounded border-border"
+          />
+          <span>
+            <span className="block text-sm font-medium">Acknowledge orders on import</span>
+            <span className="block text-xs text-muted-foreground">
+              Acknowledge Walmart orders as soon as they're synced; failures show up under Orders, Acknowledgments
+            </span>
+          </span>
+        </label>
+      </div>
+
+      <div className="pt-4 border-t border-border">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// =====================================================
+// ORDER SLA SETTINGS
+// =====================================================
+
+interface SlaSettings {
+  urgentShipWithinHours: number;
+  standardShipWithinBusinessDays: number;
+  atRiskWithinHours: number;
+  useShippingMethodProcessing: boolean;
+}
+
+const defaultSlaSettings: SlaSettings = {
+  urgentShipWithinHours: 24,
+  standardShipWithinBusinessDays: 3,
+  atRiskWithinHours: 4,
+  useShippingMethodProcessing: true,
+};
+
+function SlaSettingsPage() {
+  const [sla, setSla] = useState<SlaSettings>(defaultSlaSettings);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await apiClient.get('/settings');
+        const settings = response.data;
+        if (settings.slaSettings) {
+          setSla({ ...defaultSlaSettings, ...settings.slaSettings });
+        }
+      } catch (err) {
+        console.error('Failed to fetch settings:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchSettings();
+  }, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await apiClient.put('/settings', { slaSettings: sla });
+    } catch (err) {
+      console.error('Failed to save settings:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setNumber = (key: Exclude<keyof SlaSettings, 'useShippingMethodProcessing'>, value: string) => {
+    setSla({ ...sla, [key]: Math.max(0, Number(value) || 0) });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-card border border-border rounded-xl p-6 flex items-center justify-center h-64">
+        <RefreshCw className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Order SLA</h2>
+        <p className="text-sm text-muted-foreground">
+          How long paid orders have before they must ship. The clock starts when the order is placed.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">Urgent orders ship within (hours)</label>
+          <input
+            type="number"
+            min={1}
+            value={sla.urgentShipWithinHours}
+            onChange={(e) => setNumber('urgentShipWithinHours', e.target.value)}
+            className="w-full px-3 py-2 border border-border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Standard orders ship within (business days)</label>
+          <input
+            type="number"
+            min={1}
+            value={sla.standardShipWithinBusinessDays}
+            onChange={(e) => setNumber('standardShipWithinBusinessDays', e.target.value)}
+            className="w-full px-3 py-2 border border-border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Flag as at risk within (hours)</label>
+          <input
+            type="number"
+            min={0}
+            value={sla.atRiskWithinHours}
+            onChange={(e) => setNumber('atRiskWithinHours', e.target.value)}
+            className="w-full px-3 py-2 border border-border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={sla.useShippingMethodProcessing}
+          onChange={(e) => setSla({ ...sla, useShippingMethodProcessing: e.target.checked })}
+          className="mt-1 rounded border-border"
+        />
+        <span>
+          <span className="block text-sm font-medium">Use shipping method processing times</span>
+          <span className="block text-xs text-muted-foreground">
+            Standard orders use the max processing days of their shipping method when it has one
+          </span>
+        </span>
+      </label>
+
       <div className="pt-4 border-t border-border">
         <button
           onClick={handleSave}
@@ -1328,6 +1504,7 @@ export default function Settings() {
           </Suspense>
         } />
         <Route path="subdealers" element={<SubdealersSettings />} />
+        <Route path="sla" element={<SlaSettingsPage />} />
         {/* Integrations */}
         <Route path="shipstation" element={<ShipStationSettings />} />
         <Route path="stripe" element={<StripeSettings />} />
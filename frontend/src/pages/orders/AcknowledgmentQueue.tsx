@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, CheckCircle, Loader2, RefreshCw, Store, XCircle } from 'lucide-react';
+import { cn, formatDate } from '@/lib/utils';
+import {
+  useAcknowledgmentQueue,
+  useAcknowledgeOrders,
+  type UnacknowledgedOrder,
+} from '@/api/hooks';
+
+// Walmart expects orders acknowledged within a few hours and may cancel them after a day
+function getAgeColor(ageHours: number) {
+  if (ageHours >= 24) return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400';
+  if (ageHours >= 4) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400';
+  return 'bg-muted text-muted-foreground';
+}
+
+function formatAge(ageHours: number) {
+  if (ageHours < 1) return '<1h';
+  if (ageHours < 48) return `${ageHours}h`;
+  return `${Math.floor(ageHours / 24)}d ${ageHours % 24}h`;
+}
+
+function AgeBadge({ ageHours }: { ageHours: number }) {
+  return (
+    <span className={cn('inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium', getAgeColor(ageHours))}>
+      {formatAge(ageHours)}
+    </span>
+  );
+}
+
+function OrderLink({ order }: { order: UnacknowledgedOrder }) {
+  return (
+    <Link to={`/orders/${order.orderId}`} className="font-medium text-primary hover:underline">
+      #{order.intOrderId || order.externalOrderId || order.orderId}
+    </Link>
+  );
+}
+
+export default function AcknowledgmentQueue() {
+  const { data, isLoading, error } = useAcknowledgmentQueue();
+  const acknowledgeOrders = useAcknowledgeOrders();
+
+  const [storeId, setStoreId] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [retryingIds, setRetryingIds] = useState<number[]>([]);
+
+  const stores = data?.stores || [];
+  const orders = (data?.orders || []).filter((order) => storeId === null || order.storeId === storeId);
+  const pending = orders.filter((order) => !order.lastError);
+  const failed = orders.filter((order) => order.lastError);
+
+  const selectedPending = pending.filter((order) => selectedIds.includes(order.orderId));
+  const allSelected = pending.length > 0 && selectedPending.length === pending.length;
+
+  const toggleSelected = (orderId: number) => {
+    setSelectedIds((ids) => (ids.includes(orderId) ? ids.filter((id) => id !== orderId) : [...ids, orderId]));
+  };
+
+  const acknowledge = async (orderIds: number[]) => {
+    if (orderIds.length === 0) return;
+    setRetryingIds(orderIds);
+    try {
+      const result = await acknowledgeOrders.mutateAsync(orderIds);
+      setSelectedIds((ids) => ids.filter((id) => !orderIds.includes(id)));
+      if (result.failed > 0) {
+        alert(
+          `${result.acknowledged} acknowledged, ${result.failed} failed:\n` +
+            result.results
+              .filter((r) => !r.success)
+              .map((r) => `Order ${r.orderId}: ${r.message}`)
+              .join('\n')
+        );
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to acknowledge orders');
+    } finally {
+      setRetryingIds([]);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Order Acknowledgments</h1>
+          <p className="text-muted-foreground">
+            Marketplace orders that haven't been acknowledged yet, oldest first
+          </p>
+        </div>
+        <button
+          onClick={() => acknowledge(selectedPending.map((order) => order.orderId))}
+          disabled={selectedPending.length === 0 || acknowledgeOrders.isPending}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {acknowledgeOrders.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+          Acknowledge ({selectedPending.length})
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <AlertCircle className="w-12 h-12 mx-auto text-destructive mb-4" />
+          <p className="text-destructive">Failed to load acknowledgments</p>
+        </div>
+      ) : stores.length === 0 ? (
+        <div className="text-center py-12">
+          <CheckCircle className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">Every marketplace order has been acknowledged</p>
+        </div>
+      ) : (
+        <>
+          {/* Stores */}
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {stores.map((store) => (
+              <button
+                key={store.storeId}
+                onClick={() => setStoreId(storeId === store.storeId ? null : store.storeId)}
+                className={cn(
+                  'bg-card border rounded-xl p-4 text-left transition-colors hover:bg-muted/50',
+                  storeId === store.storeId ? 'border-primary' : 'border-border'
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="flex items-center gap-2 font-semibold truncate">
+                    <Store className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+                    {store.storeName}
+                  </p>
+                  <AgeBadge ageHours={store.oldestAgeHours} />
+                </div>
+                <p className="mt-2 text-sm text-muted-foreground">
+                  {store.pending} pending
+                  {store.failed > 0 && <span className="text-destructive">, {store.failed} failed</span>}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          {data?.truncated && (
+            <p className="text-sm text-yellow-600">
+              Only the oldest {data.orders.length.toLocaleString()} orders are shown, acknowledge them to see the rest
+            </p>
+          )}
+
+          {/* Failures */}
+          {failed.length > 0 && (
+            <div className="bg-card border border-destructive/50 rounded-xl">
+              <div className="flex items-center justify-between gap-4 p-4 border-b border-border">
+                <h2 className="flex items-center gap-2 font-semibold">
+                  <XCircle className="w-5 h-5 text-destructive" />
+                  Failed ({failed.length})
+                </h2>
+                <button
+                  onClick={() => acknowledge(failed.map((order) => order.orderId))}
+                  disabled={acknowledgeOrders.isPending}
+                  className="inline-flex items-center gap-2 px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  Retry All
+                </button>
+              </div>
+              <div className="divide-y divide-border">
+                {failed.map((order) => (
+                  <div key={order.orderId} className="flex items-center gap-4 p-4 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <OrderLink order={order} />
+                        <span className="text-muted-foreground">{order.storeName}</span>
+                        <AgeBadge ageHours={order.ageHours} />
+                      </div>
+                      <p className="mt-1 text-destructive break-words">{order.lastError}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {order.attempts} attempt{order.attempts !== 1 ? 's' : ''}
+                        {order.lastAttemptAt && `, last ${formatDate(order.lastAttemptAt)}`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => acknowledge([order.orderId])}
+                      disabled={acknowledgeOrders.isPending}
+                      className="inline-flex items-center gap-2 px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+                    >
+                      {retryingIds.includes(order.orderId) ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <RefreshCw className="w-4 h-4" />
+                      )}
+                      Retry
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Pending */}
+          <div className="bg-card border border-border rounded-xl overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border bg-muted/50 text-left text-xs font-medium text-muted-foreground">
+                  <th className="p-3 w-10">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={() => setSelectedIds(allSelected ? [] : pending.map((order) => order.orderId))}
+                      disabled={pending.length === 0}
+                      aria-label="Select all pending orders"
+                    />
+                  </th>
+                  <th className="p-3">Order</th>
+                  <th className="p-3">Customer</th>
+                  <th className="p-3">Store</th>
+                  <th className="p-3">Ordered</th>
+                  <th className="p-3">Age</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pending.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="p-6 text-center text-muted-foreground">
+                      No orders waiting, only failures are left
+                    </td>
+                  </tr>
+                ) : (
+                  pending.map((order) => (
+                    <tr key={order.orderId} className="border-b border-border last:border-0 hover:bg-muted/50">
+                      <td className="p-3">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(order.orderId)}
+                          onChange={() => toggleSelected(order.orderId)}
+                          aria-label={`Select order ${order.intOrderId || order.orderId}`}
+                        />
+                      </td>
+                      <td className="p-3">
+                        <OrderLink order={order} />
+                      </td>
+                      <td className="p-3">{order.customerName || '-'}</td>
+                      <td className="p-3">{order.storeName}</td>
+                      <td className="p-3 text-muted-foreground">{formatDate(order.orderedAt)}</td>
+                      <td className="p-3">
+                        <AgeBadge ageHours={order.ageHours} />
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, CheckCircle, Loader2, MapPin, Pencil } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  useOrders,
+  useAddressValidations,
+  useCorrectOrderAddresses,
+  type AddressValidationResult,
+  type OrderAddressCorrection,
+} from '@/api/hooks';
+import {
+  AddressValidationNotice,
+  OrderAddressFields,
+  applySuggestedAddress,
+  formatAddressLine,
+  toCarrierAddress,
+  type OrderAddressValues,
+} from '@/components/orders';
+import { OrderStatusCodes, type ApiAddress, type ApiOrder } from '@/types';
+
+function getOrderAddress(order: ApiOrder): ApiAddress {
+  return order.orderInfo?.toAddress || order.shippingAddress || {};
+}
+
+function toAddressValues(order: ApiOrder): OrderAddressValues {
+  const address = getOrderAddress(order);
+  return {
+    name: address.name ?? order.customerName ?? '',
+    street1: address.street1 ?? '',
+    street2: address.street2 ?? '',
+    city: address.city ?? '',
+    state: address.state ?? '',
+    postalCode: address.postalCode ?? '',
+    country: address.country ?? 'US',
+  };
+}
+
+interface AddressCorrectionRowProps {
+  order: ApiOrder;
+  validation: { data?: AddressValidationResult; isLoading: boolean; isError: boolean };
+  edit?: OrderAddressValues;
+  selected: boolean;
+  onToggle: () => void;
+  onEdit: (address: OrderAddressValues | undefined) => void;
+}
+
+function AddressCorrectionRow({ order, validation, edit, selected, onToggle, onEdit }: AddressCorrectionRowProps) {
+  const address = getOrderAddress(order);
+  const suggested = validation.data?.suggestedAddress;
+
+  return (
+    <div className={cn('bg-card border rounded-xl p-4', selected ? 'border-primary' : 'border-border')}>
+      <div className="flex items-start gap-4">
+        <input type="checkbox" checked={selected} onChange={onToggle} className="mt-1" />
+        <div className="flex-1 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Link to={`/orders/${order.id}`} className="font-semibold hover:underline">
+                #{order.intOrderId || order.externalOrderId || order.id}
+              </Link>
+              <p className="text-sm text-muted-foreground">{address.name || order.customerName || 'Unknown customer'}</p>
+            </div>
+            <button
+              onClick={() => onEdit(edit ? undefined : toAddressValues(order))}
+              className="inline-flex items-center gap-2 px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted transition-colors"
+            >
+              <Pencil className="w-4 h-4" />
+              {edit ? 'Cancel Edit' : 'Edit'}
+            </button>
+          </div>
+
+          {edit ? (
+            <div className="grid gap-4 md:grid-cols-2">
+              <OrderAddressFields value={edit} onChange={onEdit} />
+              <AddressValidationNotice
+                address={edit}
+                onUseSuggestion={(suggestion) => onEdit(applySuggestedAddress(edit, suggestion))}
+                className="self-start"
+              />
+            </div>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2 text-sm">
+              {/* Current address */}
+              <div className="rounded-lg bg-muted/50 p-3">
+                <p className="text-xs font-medium uppercase text-muted-foreground mb-1">Current</p>
+                <p>{formatAddressLine(address) || 'No address'}</p>
+                {validation.data?.errors.map((error) => (
+                  <p key={error} className="text-xs text-destructive mt-1">{error}</p>
+                ))}
+              </div>
+
+              {/* Carrier suggestion */}
+              <div className="rounded-lg border border-border p-3">
+                <p className="text-xs font-medium uppercase text-muted-foreground mb-1">Suggested</p>
+                {validation.isLoading ? (
+                  <p className="flex items-center gap-2 text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Verifying...
+                  </p>
+                ) : suggested ? (
+                  <p className="text-green-600">{formatAddressLine(suggested)}</p>
+                ) : validation.data?.isValid ? (
+                  <p className="text-green-600">Address verifies as is</p>
+                ) : (
+                  <p className="text-muted-foreground">
+                    {validation.isError ? 'Address could not be verified' : 'No suggestion, edit the address'}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AddressQueue() {
+  const { data, isLoading, error } = useOrders({
+    status: OrderStatusCodes.INVALID_ADDRESS,
+    pageSize: 100,
+    sortBy: 'createdAt',
+    sortOrder: 'asc',
+  });
+  const orders = data?.data || [];
+
+  const validations = useAddressValidations(orders.map((order) => toCarrierAddress(getOrderAddress(order))));
+  const correctAddresses = useCorrectOrderAddresses();
+
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [edits, setEdits] = useState<Record<number, OrderAddressValues>>({});
+
+  // An edited address wins; otherwise the carrier suggestion, or the address itself when it already verifies
+  const getCorrection = (order: ApiOrder, index: number): ApiAddress | null => {
+    const address = getOrderAddress(order);
+    const edit = edits[order.id];
+    if (edit) return { ...address, ...edit };
+    const validation = validations[index]?.data;
+    if (validation?.suggestedAddress) return applySuggestedAddress(address, validation.suggestedAddress);
+    if (validation?.isValid) return address;
+    return null;
+  };
+
+  const corrections: OrderAddressCorrection[] = orders.flatMap((order, index) => {
+    const address = selectedIds.includes(order.id) ? getCorrection(order, index) : null;
+    return address ? [{ orderId: order.id, address }] : [];
+  });
+  const unresolvedCount = selectedIds.filter((id) => orders.some((order) => order.id === id)).length - corrections.length;
+
+  const handleEdit = (orderId: number, address: OrderAddressValues | undefined) => {
+    setEdits((current) => {
+      const next = { ...current };
+      if (address) next[orderId] = address;
+      else delete next[orderId];
+      return next;
+    });
+    if (address) setSelectedIds((ids) => (ids.includes(orderId) ? ids : [...ids, orderId]));
+  };
+
+  const toggleSelected = (orderId: number) => {
+    setSelectedIds((ids) => (ids.includes(orderId) ? ids.filter((id) => id !== orderId) : [...ids, orderId]));
+  };
+
+  const selectResolvable = () => {
+    setSelectedIds(orders.filter((order, index) => getCorrection(order, index)).map((order) => order.id));
+  };
+
+  const handleAccept = async () => {
+    if (corrections.length === 0) return;
+    try {
+      const result = await correctAddresses.mutateAsync(corrections);
+      setSelectedIds([]);
+      setEdits((current) => {
+        const next = { ...current };
+        result.correctedOrderIds.forEach((id) => delete next[id]);
+        return next;
+      });
+      if (result.errors.length > 0) {
+        alert(result.errors.map((e) => `Order ${e.orderId}: ${e.message}`).join('\n'));
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to correct addresses');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Invalid Addresses</h1>
+          <p className="text-muted-foreground">
+            Orders held because their shipping address failed validation
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={selectResolvable}
+            disabled={orders.length === 0}
+            className="px-4 py-2 border border-border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+          >
+            Select Resolvable
+          </button>
+          <button
+            onClick={handleAccept}
+            disabled={corrections.length === 0 || correctAddresses.isPending}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {correctAddresses.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            Accept & Return ({corrections.length})
+          </button>
+        </div>
+      </div>
+
+      {unresolvedCount > 0 && (
+        <p className="text-sm text-yellow-600">
+          {unresolvedCount} selected order{unresolvedCount !== 1 ? 's have' : ' has'} no suggestion yet, edit the
+          address to include {unresolvedCount !== 1 ? 'them' : 'it'}
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <AlertCircle className="w-12 h-12 mx-auto text-destructive mb-4" />
+          <p className="text-destructive">Failed to load orders</p>
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="text-center py-12">
+          <CheckCircle className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No orders with invalid addresses</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <MapPin className="w-4 h-4" />
+            {orders.length} order{orders.length !== 1 ? 's' : ''} waiting for a valid address
+          </p>
+          {orders.map((order, index) => (
+            <AddressCorrectionRow
+              key={order.id}
+              order={order}
+              validation={validations[index] ?? { isLoading: false, isError: false }}
+              edit={edits[order.id]}
+              selected={selectedIds.includes(order.id)}
+              onToggle={() => toggleSelected(order.id)}
+              onEdit={(address) => handleEdit(order.id, address)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,499 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, AlertCircle, AlertTriangle, Loader2, Plus } from 'lucide-react';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  useOrder,
+  useProductSelectionData,
+  useUpdateOrderStep2,
+  useCalculateOrderPrice,
+  useSelectOrderShipping,
+  useOrderConfirmation,
+  useConfirmOrder,
+  useOriginCountry,
+} from '@/api/hooks';
+import {
+  CustomsItemsEditor,
+  OrderAddressFields,
+  OrderProductPicker,
+  createOrderProductItem,
+  getCustomsSourceLines,
+  isInternationalShipment,
+  isValidHsCode,
+  suggestCustomsLines,
+  toCustomsInfo,
+  toOrderEditLine,
+  toOrderProductItem,
+  type CustomsLineValues,
+  type OrderAddressValues,
+  type OrderProductItem,
+} from '@/components/orders';
+import {
+  EditableOrderStatuses,
+  RefundableCancelStatuses,
+  type ApiOrder,
+  type ApiOrderPriceSummary,
+  type ApiOrderStep3Price,
+  type ApiPriceDetailItem,
+  type ProductSelectionData,
+} from '@/types';
+
+type EditStage = 'lines' | 'shipping' | 'review';
+
+const stageTitles: Record<EditStage, string> = {
+  lines: 'Products & Address',
+  shipping: 'Shipping',
+  review: 'Review Changes',
+};
+
+function lineTotal(item?: ApiPriceDetailItem): number {
+  return item ? parseFloat(item.lineTotal) || 0 : 0;
+}
+
+interface EditOrderFormProps {
+  order: ApiOrder;
+  selectionData: ProductSelectionData | undefined;
+}
+
+function EditOrderForm({ order, selectionData }: EditOrderFormProps) {
+  const navigate = useNavigate();
+  const updateStep2 = useUpdateOrderStep2();
+  const calculatePrice = useCalculateOrderPrice();
+  const selectShipping = useSelectOrderShipping();
+  const confirmOrder = useConfirmOrder();
+  const { data: originCountry = 'US' } = useOriginCountry();
+
+  // Paid orders keep what was charged in the edit snapshot; the difference is settled on re-confirm
+  const needsReconfirm =
+    RefundableCancelStatuses.includes(order.orderStatus) || !!order.orderInfo?.editSnapshot;
+  const [original] = useState(() => ({
+    total: parseFloat(order.orderInfo?.editSnapshot?.previousTotal ?? order.totalAmount) || 0,
+    priceDetail: order.orderInfo?.editSnapshot?.previousPriceDetail ?? order.priceDetail ?? [],
+  }));
+
+  const [stage, setStage] = useState<EditStage>('lines');
+  const [products, setProducts] = useState<OrderProductItem[]>(() => {
+    const lines = (order.products ?? []).map(toOrderProductItem);
+    return lines.length > 0 ? lines : [createOrderProductItem()];
+  });
+  const [address, setAddress] = useState<OrderAddressValues>(() => {
+    const current = order.orderInfo?.toAddress || order.shippingAddress;
+    return {
+      name: current?.name ?? order.customerName ?? '',
+      street1: current?.street1 ?? '',
+      street2: current?.street2 ?? '',
+      city: current?.city ?? '',
+      state: current?.state ?? '',
+      postalCode: current?.postalCode ?? '',
+      country: current?.country ?? 'US',
+    };
+  });
+  const [customsLines, setCustomsLines] = useState<CustomsLineValues[]>([]);
+  const [savedOrder, setSavedOrder] = useState<ApiOrder>(order);
+  const [pricing, setPricing] = useState<ApiOrderStep3Price | null>(null);
+  const [shippingIndex, setShippingIndex] = useState(0);
+  const [summary, setSummary] = useState<ApiOrderPriceSummary | null>(null);
+
+  const confirmation = useOrderConfirmation(order.id, stage === 'review' && needsReconfirm);
+
+  // Same customs declaration as the order wizard when the address is abroad
+  const isInternational = isInternationalShipment(address.country, originCountry);
+  const customsSourceLines = useMemo(
+    () => getCustomsSourceLines(products, selectionData),
+    [products, selectionData]
+  );
+  useEffect(() => {
+    setCustomsLines((current) => {
+      const next = isInternational ? suggestCustomsLines(customsSourceLines, selectionData, current) : [];
+      const isUnchanged = next.length === current.length && next.every((line, index) => line === current[index]);
+      return isUnchanged ? current : next;
+    });
+  }, [isInternational, customsSourceLines, selectionData]);
+
+  const handleSaveLines = async () => {
+    if (!address.name || !address.street1 || !address.city || !address.state || !address.postalCode) {
+      alert('Please fill in all required address fields');
+      return;
+    }
+    if (products.some((p) => !p.orderProductId && !p.variantId)) {
+      alert('Please pick a size and color for every new product');
+      return;
+    }
+    if (isInternational && customsLines.some((line) => !line.description.trim() || !isValidHsCode(line.hsTariffNumber))) {
+      alert('Please enter a description and a 6 to 10 digit HS code for every customs line');
+      return;
+    }
+
+    const keptIds = products.flatMap((p) => (p.orderProductId ? [p.orderProductId] : []));
+    const currentAddress = order.orderInfo?.toAddress || order.shippingAddress;
+
+    try {
+      const updated = await updateStep2.mutateAsync({
+        id: order.id,
+        data: {
+          // Existing lines without a variant (unmapped) are left as they are
+          products: products
+            .filter((p) => p.orderProductId && p.variantId)
+            .map((p) => ({ ...toOrderEditLine(p, selectionData), orderProductId: p.orderProductId! })),
+          newProducts: products.filter((p) => !p.orderProductId).map((p) => toOrderEditLine(p, selectionData)),
+          removedOrderProductIds: (order.products ?? [])
+            .map((p) => p.id)
+            .filter((productId) => !keptIds.includes(productId)),
+          shippingAddress: { ...currentAddress, ...address },
+          customsInfo: isInternational ? toCustomsInfo(customsLines, originCountry, address.name) : undefined,
+        },
+      });
+      setSavedOrder(updated);
+
+      const price = await calculatePrice.mutateAsync(order.id);
+      const selectedIndex = price.shippingOptions.findIndex(
+        (option) =>
+          (!!option.rateId && option.rateId === price.selectedShipping?.rateId) ||
+          option.methodName === price.selectedShipping?.methodName
+      );
+      setPricing(price);
+      setShippingIndex(Math.max(0, selectedIndex));
+      setSummary(price.summary);
+      setStage('shipping');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save order changes');
+    }
+  };
+
+  const handleSelectShipping = async (index: number) => {
+    setShippingIndex(index);
+    try {
+      setSummary(await selectShipping.mutateAsync({ id: order.id, shippingOptionIndex: index }));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to select shipping');
+    }
+  };
+
+  const handleConfirm = async () => {
+    try {
+      if (needsReconfirm) {
+        await confirmOrder.mutateAsync({ id: order.id });
+      }
+      navigate(`/orders/${order.id}`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to confirm order changes');
+    }
+  };
+
+  // Line-level price changes, matched by order product id
+  const newPriceDetail = pricing?.products ?? [];
+  const productTitle = (orderProductId?: number) => {
+    const product = [...(savedOrder.products ?? []), ...(order.products ?? [])].find(
+      (p) => p.id === orderProductId
+    );
+    const options = [product?.productDetail?.option1, product?.productDetail?.option2].filter(Boolean).join(' / ');
+    const title = product?.productDetail?.product || product?.productTitle || `Product #${orderProductId}`;
+    return options ? `${title} (${options})` : title;
+  };
+  const lineIds = Array.from(
+    new Set([...original.priceDetail, ...newPriceDetail].map((item) => item.orderProductId))
+  );
+  const lineChanges = lineIds.map((orderProductId) => {
+    const before = original.priceDetail.find((item) => item.orderProductId === orderProductId);
+    const after = newPriceDetail.find((item) => item.orderProductId === orderProductId);
+    return {
+      orderProductId,
+      before,
+      after,
+      difference: lineTotal(after) - lineTotal(before),
+    };
+  });
+
+  const newTotal = parseFloat(summary?.totalPrice ?? '') || 0;
+  const priceDifference = confirmation.data?.priceDifference !== undefined
+    ? parseFloat(confirmation.data.priceDifference) || 0
+    : newTotal - original.total;
+  const isWorking = updateStep2.isPending || calculatePrice.isPending;
+
+  return (
+    <div className="space-y-6">
+      {/* Stage indicator */}
+      <div className="flex items-center gap-2 text-sm">
+        {(Object.keys(stageTitles) as EditStage[]).map((key, index) => (
+          <span
+            key={key}
+            className={cn(
+              'px-3 py-1 rounded-full',
+              stage === key ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'
+            )}
+          >
+            {index + 1}. {stageTitles[key]}
+          </span>
+        ))}
+      </div>
+
+      {stage === 'lines' && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-card border border-border rounded-xl p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold">Products</h2>
+              <button
+                onClick={() => setProducts((prev) => [...prev, createOrderProductItem()])}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Add Product
+              </button>
+            </div>
+            <OrderProductPicker selectionData={selectionData} products={products} onChange={setProducts} />
+          </div>
+
+          <div className="space-y-4">
+            <div className="bg-card border border-border rounded-xl p-6">
+              <h2 className="text-lg font-semibold mb-4">Shipping Address</h2>
+              <OrderAddressFields value={address} onChange={setAddress} />
+            </div>
+            {isInternational && (
+              <div className="bg-card border border-border rounded-xl p-6">
+                <h2 className="text-lg font-semibold mb-4">Customs Declaration</h2>
+                <CustomsItemsEditor
+                  lines={customsLines}
+                  onChange={setCustomsLines}
+                  selectionData={selectionData}
+                  destinationCountry={address.country}
+                  originCountry={originCountry}
+                />
+              </div>
+            )}
+            <button
+              onClick={handleSaveLines}
+              disabled={isWorking}
+              className="w-full px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save &amp; Recalculate
+            </button>
+          </div>
+        </div>
+      )}
+
+      {stage === 'shipping' && pricing && (
+        <div className="bg-card border border-border rounded-xl p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Shipping Method</h2>
+          {pricing.shippingOptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No shipping options are available for this address</p>
+          ) : (
+            <div className="space-y-2">
+              {pricing.shippingOptions.map((option, index) => (
+                <label
+                  key={`${option.rateId ?? option.shippingId ?? option.methodName}-${index}`}
+                  className={cn(
+                    'flex items-center justify-between p-3 border rounded-lg cursor-pointer transition-colors',
+                    shippingIndex === index ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted'
+                  )}
+                >
+                  <span className="flex items-center gap-3">
+                    <input
+                      type="radio"
+                      name="shipping-option"
+                      checked={shippingIndex === index}
+                      disabled={selectShipping.isPending}
+                      onChange={() => handleSelectShipping(index)}
+                    />
+                    <span>
+                      <span className="font-medium">{option.methodName}</span>
+                      {option.estimatedDays && (
+                        <span className="text-sm text-muted-foreground ml-2">{option.estimatedDays}</span>
+                      )}
+                    </span>
+                  </span>
+                  <span className="font-medium">{formatCurrency(parseFloat(option.methodPrice) || 0)}</span>
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-between">
+            <button
+              onClick={() => setStage('lines')}
+              className="px-4 py-2 border border-border rounded-lg hover:bg-muted transition-colors"
+            >
+              Back
+            </button>
+            <button
+              onClick={() => setStage('review')}
+              disabled={selectShipping.isPending}
+              className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              Review Changes
+            </button>
+          </div>
+        </div>
+      )}
+
+      {stage === 'review' && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-card border border-border rounded-xl p-6">
+            <h2 className="text-lg font-semibold mb-4">Price Changes</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2 font-medium">Product</th>
+                  <th className="py-2 font-medium text-right">Before</th>
+                  <th className="py-2 font-medium text-right">After</th>
+                  <th className="py-2 font-medium text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {lineChanges.map(({ orderProductId, before, after, difference }) => (
+                  <tr key={orderProductId ?? 'unknown'}>
+                    <td className="py-2">
+                      {productTitle(orderProductId)}
+                      {!before && <span className="ml-2 text-xs text-green-600">Added</span>}
+                      {!after && <span className="ml-2 text-xs text-red-600">Removed</span>}
+                    </td>
+                    <td className="py-2 text-right">
+                      {before ? `${before.quantity} × ${formatCurrency(lineTotal(before) / (before.quantity || 1))}` : '—'}
+                    </td>
+                    <td className="py-2 text-right">
+                      {after ? `${after.quantity} × ${formatCurrency(lineTotal(after) / (after.quantity || 1))}` : '—'}
+                    </td>
+                    <td
+                      className={cn(
+                        'py-2 text-right font-medium',
+                        difference > 0 && 'text-red-600',
+                        difference < 0 && 'text-green-600'
+                      )}
+                    >
+                      {difference === 0 ? '—' : `${difference > 0 ? '+' : '-'}${formatCurrency(Math.abs(difference))}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-4">
+            <div className="bg-card border border-border rounded-xl p-6">
+              <h2 className="text-lg font-semibold mb-4">Summary</h2>
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Products</span>
+                  <span>{formatCurrency(parseFloat(summary?.subtotal ?? '') || 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Shipping</span>
+                  <span>{formatCurrency(parseFloat(summary?.shippingPrice ?? '') || 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Previous total</span>
+                  <span>{formatCurrency(original.total)}</span>
+                </div>
+                <div className="flex justify-between pt-2 border-t border-border font-semibold">
+                  <span>New total</span>
+                  <span>{formatCurrency(newTotal)}</span>
+                </div>
+                <div
+                  className={cn(
+                    'flex justify-between font-semibold',
+                    priceDifference > 0 && 'text-red-600',
+                    priceDifference < 0 && 'text-green-600'
+                  )}
+                >
+                  <span>
+                    {needsReconfirm
+                      ? priceDifference >= 0
+                        ? 'Charged to balance'
+                        : 'Refunded to balance'
+                      : 'Difference'}
+                  </span>
+                  <span>{formatCurrency(Math.abs(priceDifference))}</span>
+                </div>
+              </div>
+
+              {confirmation.isLoading && (
+                <div className="flex items-center gap-2 mt-4 text-sm text-muted-foreground">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Checking order...
+                </div>
+              )}
+              {(confirmation.data?.issues.length ?? 0) > 0 && (
+                <div className="mt-4 space-y-1">
+                  {confirmation.data!.issues.map((issue) => (
+                    <p key={issue} className="flex items-center gap-2 text-sm text-yellow-600">
+                      <AlertTriangle className="w-4 h-4" />
+                      {issue}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => setStage('shipping')}
+                className="flex-1 px-4 py-2 border border-border rounded-lg hover:bg-muted transition-colors"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={confirmOrder.isPending || confirmation.isLoading}
+                className="flex-1 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {confirmOrder.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                {needsReconfirm ? 'Confirm Changes' : 'Done'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function EditOrder() {
+  const { id = '' } = useParams<{ id: string }>();
+  const { data: order, isLoading, error } = useOrder(id);
+  const { data: selectionData, isLoading: isLoadingData } = useProductSelectionData();
+
+  if (isLoading || isLoadingData) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <AlertCircle className="w-12 h-12 text-red-500 mb-4" />
+        <h3 className="font-semibold mb-2">Order not found</h3>
+        <Link to="/orders/list" className="text-sm text-primary hover:underline">
+          Back to orders
+        </Link>
+      </div>
+    );
+  }
+
+  const orderNumber = order.externalOrderId || order.intOrderId || `#${order.id}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link to={`/orders/${order.id}`} className="p-2 hover:bg-accent rounded-lg transition-colors">
+          <ArrowLeft className="w-5 h-5" />
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold">Edit Order {orderNumber}</h1>
+          <p className="text-muted-foreground">Change products, address and shipping</p>
+        </div>
+      </div>
+
+      {EditableOrderStatuses.includes(order.orderStatus) ? (
+        <EditOrderForm order={order} selectionData={selectionData} />
+      ) : (
+        <div className="flex items-center gap-2 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl text-sm">
+          <AlertTriangle className="w-4 h-4 text-yellow-600" />
+          This order can no longer be edited.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,520 @@
+import { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, AlertCircle, ImageOff, ExternalLink, MapPin, Merge, Pencil, Send, CheckCircle, RotateCcw } from 'lucide-react';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { useOrder, useOrderHistory, useOrderPayments, useOrderLabels, useSendTracking, type SendTrackingResponse } from '@/api/hooks';
+import {
+  OrderNotesThread,
+  OrderRefundPanel,
+  OrderStatusActions,
+  OrderTimeline,
+  SendTrackingResultsDialog,
+  type OrderTimelineEvent,
+} from '@/components/orders';
+import {
+  EditableOrderStatuses,
+  OrderMapStatusCodes,
+  OrderStatusCodes,
+  TransactionTypeCodes,
+  getOrderMapStatusLabel,
+  getOrderStatusColor,
+  getOrderStatusLabel,
+  type ApiOrderHistoryItem,
+  type ApiOrderProduct,
+} from '@/types';
+
+function getMapStatusColor(code: number): string {
+  switch (code) {
+    case OrderMapStatusCodes.COMPLETELY_MAPPED:
+      return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
+    case OrderMapStatusCodes.PARTIALLY_MAPPED:
+      return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400';
+    default:
+      return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400';
+  }
+}
+
+function describeHistoryItem(item: ApiOrderHistoryItem): string {
+  if (item.previousStatus !== undefined && item.previousStatus !== null && item.previousStatus !== item.newStatus) {
+    return `${getOrderStatusLabel(item.previousStatus)} → ${getOrderStatusLabel(item.newStatus)}`;
+  }
+  if (item.action) {
+    const action = item.action.replace(/_/g, ' ');
+    return action.charAt(0).toUpperCase() + action.slice(1);
+  }
+  return getOrderStatusLabel(item.newStatus);
+}
+
+function ProductRow({ product }: { product: ApiOrderProduct }) {
+  const title = product.productDetail?.product || product.productTitle || `Product #${product.productId ?? product.id}`;
+  const options = [product.productDetail?.option1, product.productDetail?.option2].filter(Boolean).join(' / ');
+  const unitPrice = parseFloat(product.unitPrice ?? product.price) || 0;
+  const designs = (product.modificationDetail ?? []).filter((m) => m.modificationDesign);
+  const isMapped = !!product.mappingId || !!product.variantId;
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-4 py-4 border-b border-border last:border-0">
+      <div className="flex gap-2 flex-shrink-0">
+        {designs.length > 0 ? (
+          designs.map((design) => (
+            <a
+              key={design.modificationId}
+              href={design.modificationDesign}
+              target="_blank"
+              rel="noreferrer"
+              className="block"
+              title={design.modificationName}
+            >
+              <img
+                src={design.modificationDesign}
+                alt={design.modificationName}
+                className="w-16 h-16 object-contain rounded-lg border border-border bg-muted"
+              />
+              <span className="block text-[10px] text-center text-muted-foreground mt-0.5">
+                {design.modificationName}
+              </span>
+            </a>
+          ))
+        ) : product.listingImageUrl ? (
+          <img
+            src={product.listingImageUrl}
+            alt={title}
+            className="w-16 h-16 object-contain rounded-lg border border-border bg-muted"
+          />
+        ) : (
+          <div className="w-16 h-16 rounded-lg border border-border bg-muted flex items-center justify-center">
+            <ImageOff className="w-5 h-5 text-muted-foreground" />
+          </div>
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium">{title}</p>
+        {options && <p className="text-sm text-muted-foreground">{options}</p>}
+        {product.listingId && (
+          <p className="text-xs text-muted-foreground mt-1">Listing: {product.listingId}</p>
+        )}
+        <span
+          className={cn(
+            'inline-block mt-2 px-2 py-0.5 text-xs rounded-full',
+            isMapped
+              ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400'
+              : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400'
+          )}
+        >
+          {isMapped ? 'Mapped' : 'Not mapped'}
+        </span>
+      </div>
+      <div className="text-right text-sm">
+        <p>
+          {product.quantity} × {formatCurrency(unitPrice)}
+        </p>
+        <p className="font-semibold">{formatCurrency(unitPrice * product.quantity)}</p>
+      </div>
+    </div>
+  );
+}
+
+export default function OrderDetail() {
+  const { id = '' } = useParams<{ id: string }>();
+  const { data: order, isLoading, error } = useOrder(id);
+  const { data: history = [] } = useOrderHistory(id);
+  const { data: payments } = useOrderPayments(id);
+  const { data: labels = [] } = useOrderLabels(id);
+  const sendTracking = useSendTracking();
+  const [trackingResponse, setTrackingResponse] = useState<SendTrackingResponse | null>(null);
+
+  const refunds = useMemo(
+    () => (payments?.transactions ?? []).filter((t) => t.type === TransactionTypeCodes.ORDER_REFUND),
+    [payments]
+  );
+
+  const timelineEvents = useMemo<OrderTimelineEvent[]>(() => {
+    const events: OrderTimelineEvent[] = history.map((item) => ({
+      id: `history-${item.id}`,
+      kind: item.action?.startsWith('refund_') ? 'refund' : 'status',
+      title: describeHistoryItem(item),
+      description: item.notes,
+      createdAt: item.createdAt,
+    }));
+
+    (payments?.payments ?? []).forEach((payment) => {
+      events.push({
+        id: `payment-${payment.id}`,
+        kind: 'payment',
+        title: `Payment ${payment.status} (${payment.paymentMethod})`,
+        description: formatCurrency(parseFloat(payment.amount) || 0),
+        createdAt: payment.completedAt || payment.createdAt,
+      });
+    });
+
+    refunds.forEach((refund) => {
+      events.push({
+        id: `refund-${refund.id}`,
+        kind: 'refund',
+        title: `Refunded ${formatCurrency(Math.abs(parseFloat(refund.amount) || 0))} to wallet`,
+        description: refund.description,
+        createdAt: refund.createdAt,
+      });
+    });
+
+    labels.forEach((label) => {
+      events.push({
+        id: `label-${label.id}`,
+        kind: 'label',
+        title: `Label purchased${label.carrier ? ` (${label.carrier} ${label.service ?? ''})` : ''}`.trim(),
+        description: label.trackingNumber,
+        createdAt: label.createdAt,
+      });
+      if (label.voidedAt) {
+        events.push({
+          id: `label-void-${label.id}`,
+          kind: 'label',
+          title: 'Label voided',
+          description: label.trackingNumber,
+          createdAt: label.voidedAt,
+        });
+      }
+    });
+
+    return events;
+  }, [history, payments, refunds, labels]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <AlertCircle className="w-12 h-12 text-red-500 mb-4" />
+        <h3 className="font-semibold mb-2">Order not found</h3>
+        <Link to="/orders/list" className="text-sm text-primary hover:underline">
+          Back to orders
+        </Link>
+      </div>
+    );
+  }
+
+  const orderNumber = order.externalOrderId || order.intOrderId || `#${order.id}`;
+  const address = order.orderInfo?.toAddress || order.shippingAddress;
+  const products = order.products ?? [];
+  const subtotal = products.reduce(
+    (sum, p) => sum + (parseFloat(p.unitPrice ?? p.price) || 0) * p.quantity,
+    0
+  );
+  const shipping = parseFloat(order.shippingAmount) || 0;
+  const tax = parseFloat(order.taxAmount) || 0;
+  const urgent = parseFloat(order.urgentAmount ?? '0') || 0;
+  const total = parseFloat(order.totalAmount) || 0;
+  const refundedTotal = refunds.reduce((sum, r) => sum + Math.abs(parseFloat(r.amount) || 0), 0);
+
+  const handleSendTracking = async () => {
+    try {
+      setTrackingResponse(await sendTracking.mutateAsync(order.id));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to send tracking');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link to="/orders/list" className="p-2 hover:bg-accent rounded-lg transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">Order {orderNumber}</h1>
+            <p className="text-muted-foreground">
+              Created {formatDate(order.createdAt, { hour: 'numeric', minute: '2-digit' })}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={cn('px-3 py-1 text-sm rounded-full', getOrderStatusColor(order.orderStatus))}>
+            {getOrderStatusLabel(order.orderStatus)}
+          </span>
+          <span className={cn('px-3 py-1 text-sm rounded-full', getMapStatusColor(order.orderMapStatus))}>
+            {getOrderMapStatusLabel(order.orderMapStatus)}
+          </span>
+          {EditableOrderStatuses.includes(order.orderStatus) && (
+            <Link
+              to={`/orders/${order.id}/edit`}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm border border-border rounded-lg hover:bg-muted transition-colors"
+            >
+              <Pencil className="w-4 h-4" />
+              Edit
+            </Link>
+          )}
+          {products.some((product) => product.variantId) && (
+            <Link
+              to={`/orders/create?reorder=${order.id}`}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm border border-border rounded-lg hover:bg-muted transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reorder
+            </Link>
+          )}
+          <OrderStatusActions order={order} size="default" />
+        </div>
+      </div>
+
+      {/* Unfinished edit of a paid order */}
+      {order.orderStatus === OrderStatusCodes.EDITING && order.orderInfo?.editSnapshot && (
+        <div className="flex items-center gap-2 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl text-sm">
+          <AlertCircle className="w-4 h-4 text-yellow-600" />
+          Changes to this order have not been confirmed yet. Confirm them, or cancel the order to refund what was paid.
+          <Link to={`/orders/${order.id}/edit`} className="font-medium text-primary hover:underline">
+            Continue editing
+          </Link>
+        </div>
+      )}
+
+      {/* Combine links */}
+      {order.orderInfo?.combinedIntoOrderId && (
+        <div className="flex items-center gap-2 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl text-sm">
+          <Merge className="w-4 h-4 text-blue-600" />
+          This order was combined into{' '}
+          <Link to={`/orders/${order.orderInfo.combinedIntoOrderId}`} className="font-medium text-primary hover:underline">
+            order #{order.orderInfo.combinedIntoOrderId}
+          </Link>
+        </div>
+      )}
+      {(order.orderInfo?.combinedOrderIds?.length ?? 0) > 0 && (
+        <div className="flex flex-wrap items-center gap-2 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl text-sm">
+          <Merge className="w-4 h-4 text-blue-600" />
+          Combined from
+          {order.orderInfo!.combinedOrderIds!.map((childId) => (
+            <Link
+              key={childId}
+              to={`/orders/${childId}`}
+              className="px-2 py-0.5 rounded-full bg-background border border-border font-medium text-primary hover:underline"
+            >
+              #{childId}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Products */}
+          <div className="bg-card border border-border rounded-xl p-6">
+            <h2 className="text-lg font-semibold mb-2">Products ({products.length})</h2>
+            {products.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No products on this order</p>
+            ) : (
+              products.map((product) => <ProductRow key={product.id} product={product} />)
+            )}
+          </div>
+
+          {/* Shipping labels */}
+          <div className="bg-card border border-border rounded-xl p-6">
+            <h2 className="text-lg font-semibold mb-4">Shipping Labels</h2>
+            {labels.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No labels purchased</p>
+            ) : (
+              <div className="space-y-3">
+                {labels.map((label) => (
+                  <div
+                    key={label.id}
+                    className={cn(
+                      'flex items-center justify-between p-3 border border-border rounded-lg',
+                      !label.isActive && 'opacity-60'
+                    )}
+                  >
+                    <div>
+                      <p className="font-medium">
+                        {label.carrier || 'Carrier'} {label.service}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {label.trackingNumber || 'No tracking number'}
+                      </p>
+                    </div>
+                    <div className="text-right text-sm">
+                      <p>{formatCurrency(parseFloat(label.cost ?? '0') || 0)}</p>
+                      <p className={label.isActive ? 'text-green-600' : 'text-muted-foreground'}>
+                        {label.isActive ? 'Active' : 'Voided'}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {order.orderInfo?.shipping?.labelUrl && (
+              <a
+                href={order.orderInfo.shipping.labelUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center gap-1 mt-4 text-sm text-primary hover:underline"
+              >
+                <ExternalLink className="w-4 h-4" />
+                Open current label
+              </a>
+            )}
+            {order.orderInfo?.shipping?.trackingCode && (
+              <div className="flex items-center justify-between gap-3 mt-4 pt-4 border-t border-border">
+                {order.orderInfo.shipping.sent_to_marketplace ? (
+                  <p className="inline-flex items-center gap-1 text-sm text-green-600">
+                    <CheckCircle className="w-4 h-4" />
+                    Tracking sent to marketplace
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-sm text-muted-foreground">Tracking not sent to marketplace yet</p>
+                    <button
+                      onClick={handleSendTracking}
+                      disabled={sendTracking.isPending}
+                      className="inline-flex items-center gap-2 px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+                    >
+                      {sendTracking.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                      Send Tracking
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+            <SendTrackingResultsDialog
+              open={trackingResponse !== null}
+              onOpenChange={(open) => !open && setTrackingResponse(null)}
+              response={trackingResponse}
+            />
+          </div>
+
+          {/* Payments and refunds */}
+          <div className="bg-card border border-border rounded-xl p-6">
+            <h2 className="text-lg font-semibold mb-4">Payments &amp; Refunds</h2>
+            {(payments?.payments.length ?? 0) === 0 && refunds.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No payments recorded</p>
+            ) : (
+              <div className="divide-y divide-border">
+                {payments?.payments.map((payment) => (
+                  <div key={`payment-${payment.id}`} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium capitalize">{payment.paymentMethod} payment</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatDate(payment.completedAt || payment.createdAt)} · {payment.status}
+                      </p>
+                    </div>
+                    <p className="font-semibold">{formatCurrency(parseFloat(payment.amount) || 0)}</p>
+                  </div>
+                ))}
+                {refunds.map((refund) => (
+                  <div key={`refund-${refund.id}`} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium">Refund</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatDate(refund.createdAt)}
+                        {refund.description && ` · ${refund.description}`}
+                      </p>
+                    </div>
+                    <p className="font-semibold text-green-600">
+                      +{formatCurrency(Math.abs(parseFloat(refund.amount) || 0))}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Refund requests */}
+          <OrderRefundPanel order={order} />
+
+          {/* Internal notes */}
+          <OrderNotesThread orderId={order.id} />
+        </div>
+
+        <div className="space-y-6">
+          {/* Ship to */}
+          <div className="bg-card border border-border rounded-xl p-6">
+            <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <MapPin className="w-5 h-5" />
+              Ship To
+            </h2>
+            {address ? (
+              <div className="text-sm space-y-0.5">
+                <p className="font-medium">{address.name || order.customerName}</p>
+                {address.company && <p>{address.company}</p>}
+                <p>{address.street1}</p>
+                {address.street2 && <p>{address.street2}</p>}
+                <p>
+                  {address.city}, {address.state} {address.postalCode}
+                </p>
+                <p>{address.country}</p>
+                {address.phone && <p className="text-muted-foreground">{address.phone}</p>}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No address</p>
+            )}
+            {order.customerEmail && (
+              <p className="text-sm text-muted-foreground mt-3">{order.customerEmail}</p>
+            )}
+            {order.orderInfo?.shipping?.methodName && (
+              <p className="text-sm mt-3">
+                <span className="text-muted-foreground">Method:</span> {order.orderInfo.shipping.methodName}
+              </p>
+            )}
+            {order.trackingNumber && (
+              <p className="text-sm">
+                <span className="text-muted-foreground">Tracking:</span>{' '}
+                {order.trackingUrl ? (
+                  <a href={order.trackingUrl} target="_blank" rel="noreferrer" className="text-primary hover:underline">
+                    {order.trackingNumber}
+                  </a>
+                ) : (
+                  order.trackingNumber
+                )}
+              </p>
+            )}
+          </div>
+
+          {/* Summary */}
+          <div className="bg-card border border-border rounded-xl p-6">
+            <h2 className="text-lg font-semibold mb-4">Summary</h2>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Products</span>
+                <span>{formatCurrency(subtotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Shipping</span>
+                <span>{formatCurrency(shipping)}</span>
+              </div>
+              {urgent > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Urgent</span>
+                  <span>{formatCurrency(urgent)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Tax</span>
+                <span>{formatCurrency(tax)}</span>
+              </div>
+              <div className="flex justify-between pt-2 border-t border-border font-semibold">
+                <span>Total</span>
+                <span>{formatCurrency(total)}</span>
+              </div>
+              {refundedTotal > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Refunded</span>
+                  <span>-{formatCurrency(refundedTotal)}</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Timeline */}
+          <div className="bg-card border border-border rounded-xl p-6">
+            <h2 className="text-lg font-semibold mb-4">Timeline</h2>
+            <OrderTimeline events={timelineEvents} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { ImportOrderField } from '@/types';
+import { useUser } from './authStore';
+
+// Spreadsheet column header picked for each order field; headers rather than positions so moved columns still map
+export type ImportColumnMapping = Partial<Record<ImportOrderField, string>>;
+
+interface ImportMappingState {
+  // Mappings keyed by user id, then by source (e.g. the wholesale customer who sends the file)
+  mappingsByUser: Record<string, Record<string, ImportColumnMapping>>;
+
+  saveMapping: (userId: string, source: string, mapping: ImportColumnMapping) => void;
+  removeMapping: (userId: string, source: string) => void;
+}
+
+export const useImportMappingStore = create<ImportMappingState>()(
+  persist(
+    (set, get) => ({
+      mappingsByUser: {},
+
+      saveMapping: (userId, source, mapping) => {
+        const current = get().mappingsByUser[userId] ?? {};
+        set({
+          mappingsByUser: { ...get().mappingsByUser, [userId]: { ...current, [source]: mapping } },
+        });
+      },
+
+      removeMapping: (userId, source) => {
+        const { [source]: _removed, ...rest } = get().mappingsByUser[userId] ?? {};
+        set({
+          mappingsByUser: { ...get().mappingsByUser, [userId]: rest },
+        });
+      },
+    }),
+    {
+      name: 'printnest-import-mappings',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
+
+const noMappings: Record<string, ImportColumnMapping> = {};
+
+// Saved column mappings of the current user, by source
+export const useImportMappings = () => {
+  const userId = useUser()?.id;
+  return useImportMappingStore((state) => (userId ? state.mappingsByUser[userId] : undefined)) ?? noMappings;
+};
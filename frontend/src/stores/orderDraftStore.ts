@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { CustomsLineValues, OrderAddressValues, OrderProductItem } from '@/components/orders';
+import { useUser } from './authStore';
+
+// Entered part of the order wizard, also stored as the backend draft payload
+export interface ManualOrderDraftPayload {
+  products: OrderProductItem[];
+  address: OrderAddressValues;
+  customsLines?: CustomsLineValues[];
+}
+
+// Last autosave on this device; survives refreshes and failed backend saves
+export interface LocalOrderDraft {
+  draftId?: number; // backend draft order, once it has been saved there
+  payload: ManualOrderDraftPayload;
+  savedAt: string;
+}
+
+interface OrderDraftState {
+  // Keyed by user id so people sharing a browser keep their own draft
+  draftsByUser: Record<string, LocalOrderDraft>;
+
+  saveLocalDraft: (userId: string, draft: LocalOrderDraft) => void;
+  clearLocalDraft: (userId: string) => void;
+}
+
+export const useOrderDraftStore = create<OrderDraftState>()(
+  persist(
+    (set, get) => ({
+      draftsByUser: {},
+
+      saveLocalDraft: (userId, draft) => {
+        set({ draftsByUser: { ...get().draftsByUser, [userId]: draft } });
+      },
+
+      clearLocalDraft: (userId) => {
+        const { [userId]: _removed, ...rest } = get().draftsByUser;
+        set({ draftsByUser: rest });
+      },
+    }),
+    {
+      name: 'printnest-order-drafts',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
+
+// Local draft of the current user
+export const useLocalOrderDraft = () => {
+  const userId = useUser()?.id;
+  return useOrderDraftStore((state) => (userId ? state.draftsByUser[userId] : undefined));
+};
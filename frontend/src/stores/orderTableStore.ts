@@ -0,0 +1,44 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+// Columns of the order table that can be hidden; selection and order number always show
+export type OrderTableColumnId =
+  | 'externalId'
+  | 'customer'
+  | 'store'
+  | 'total'
+  | 'status'
+  | 'shipBy'
+  | 'tracking'
+  | 'createdAt';
+
+interface OrderTableState {
+  // Dense rows fit about twice as many orders on screen
+  dense: boolean;
+  hiddenColumns: OrderTableColumnId[];
+
+  setDense: (dense: boolean) => void;
+  toggleColumn: (column: OrderTableColumnId) => void;
+}
+
+export const useOrderTableStore = create<OrderTableState>()(
+  persist(
+    (set, get) => ({
+      dense: false,
+      hiddenColumns: ['store', 'tracking'],
+
+      setDense: (dense) => set({ dense }),
+
+      toggleColumn: (column) => {
+        const hidden = get().hiddenColumns;
+        set({
+          hiddenColumns: hidden.includes(column) ? hidden.filter((c) => c !== column) : [...hidden, column],
+        });
+      },
+    }),
+    {
+      name: 'printnest-order-table',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
@@ -0,0 +1,29 @@
+import { create } from 'zustand';
+
+export interface SyncProgress {
+  source: string;
+  status: 'running' | 'completed' | 'failed';
+  processed: number;
+  total: number;
+  message?: string;
+}
+
+interface RealtimeState {
+  // While connected, queries rely on pushed events instead of polling
+  connected: boolean;
+  // Latest marketplace sync started by the current user, cleared a while after it ends
+  sync: SyncProgress | null;
+
+  setConnected: (connected: boolean) => void;
+  setSync: (sync: SyncProgress | null) => void;
+}
+
+export const useRealtimeStore = create<RealtimeState>()((set) => ({
+  connected: false,
+  sync: null,
+
+  setConnected: (connected) => set({ connected }),
+  setSync: (sync) => set({ sync }),
+}));
+
+export const useRealtimeConnected = () => useRealtimeStore((state) => state.connected);
@@ -163,8 +163,8 @@ export interface ApiOrder {
   giftNote?: string;
   customerEmail?: string;
   customerName?: string;
-  shippingAddress?: Address;
-  billingAddress?: Address;
+  shippingAddress?: ApiAddress;
+  billingAddress?: ApiAddress;
   trackingNumber?: string;
   trackingUrl?: string;
   paymentMethod?: string;
@@ -173,13 +173,69 @@ export interface ApiOrder {
   shippedAt?: string;
   createdAt: string;
   updatedAt: string;
+  shipBy?: OrderShipBy; // Set on paid orders that have not shipped yet
+  priceDetail?: ApiPriceDetailItem[];
   products?: ApiOrderProduct[];
+  history?: ApiOrderHistoryItem[];
+}
+
+// Matches backend OrderShipBy, computed from the tenant's SLA settings
+export interface OrderShipBy {
+  shipByAt: string;
+  state: 'on_track' | 'at_risk' | 'overdue';
+  urgent: boolean;
+}
+
+// Matches backend Address
+export interface ApiAddress {
+  name?: string;
+  company?: string;
+  street1?: string;
+  street2?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+  phone?: string;
 }
 
 export interface ApiOrderInfo {
-  toAddress?: Address;
+  toAddress?: ApiAddress;
+  shipping?: ApiShippingSelection;
   orderNote?: string;
   giftNote?: string;
+  combinedOrderIds?: number[]; // set on the parent of a combine
+  combinedIntoOrderId?: number; // set on each combined child
+  refundRequests?: ApiRefundRequest[];
+  editSnapshot?: ApiOrderEditSnapshot; // set while a paid order is being edited
+  draft?: ApiOrderDraft; // set on unsubmitted manual orders
+  notDuplicateOfIds?: number[]; // orders staff reviewed and kept next to this one
+}
+
+// Autosaved form state of a manual order; the order stays in EDITING until submitted
+export interface ApiOrderDraft {
+  source: 'manual' | 'wizard';
+  payload: unknown;
+  savedAt: string;
+}
+
+export interface ApiOrderEditSnapshot {
+  previousStatus: number;
+  previousTotal: string;
+  previousUrgentAmount: string;
+  previousPriceDetail: ApiPriceDetailItem[];
+}
+
+export interface ApiShippingSelection {
+  rateId?: string;
+  shipmentId?: string;
+  methodName?: string;
+  methodPrice: string;
+  shippingId?: number;
+  isInternational: boolean;
+  labelUrl?: string;
+  trackingCode?: string;
+  sent_to_marketplace?: boolean; // tracking was pushed back to the marketplace
 }
 
 export interface ApiOrderProduct {
@@ -187,12 +243,231 @@ export interface ApiOrderProduct {
   orderId: number;
   productId?: number;
   variantId?: number;
+  listingId?: string;
   productTitle: string;
   quantity: number;
   price: string;
+  unitPrice?: string;
   designUrl?: string;
+  designId?: number;
+  mappingId?: number;
+  listingImageUrl?: string;
   sku?: string;
   status: number;
+  productDetail?: ApiProductDetail;
+  modificationDetail?: ApiModificationDetail[];
+}
+
+export interface ApiProductDetail {
+  productId?: number;
+  product?: string;
+  productCategoryId?: number;
+  productCategories?: string;
+  option1Id?: number;
+  option1?: string;
+  option2Id?: number;
+  option2?: string;
+  quantity: number;
+}
+
+export interface ApiModificationDetail {
+  modificationId: number;
+  modificationName: string;
+  modificationDesign?: string;
+  modificationDesignId?: number;
+  priceDifference: string;
+}
+
+export interface ApiPriceDetailItem {
+  orderProductId?: number;
+  price: string;
+  modifications: Record<string, string>;
+  afterDiscountPrice: string;
+  quantity: number;
+  lineTotal: string;
+}
+
+export interface ApiOrderPriceSummary {
+  subtotal: string;
+  shippingPrice: string;
+  giftNotePrice: string;
+  urgentPrice: string;
+  totalPrice: string;
+}
+
+export interface ApiShippingOption {
+  rateId?: string;
+  shipmentId?: string;
+  methodName: string;
+  methodPrice: string;
+  apiPrice?: string;
+  service?: string;
+  description?: string;
+  shippingId?: number;
+  isInternational: boolean;
+  estimatedDays?: string;
+}
+
+// GET /orders/{id}/step3
+export interface ApiOrderStep3Price {
+  orderId: number;
+  products: ApiPriceDetailItem[];
+  shippingOptions: ApiShippingOption[];
+  selectedShipping?: ApiShippingSelection;
+  summary: ApiOrderPriceSummary;
+  userBalance: string;
+}
+
+// POST /orders/{id}/step3/pay
+export interface ApiOrderPayment {
+  success: boolean;
+  orderId: number;
+  newStatus: number;
+  paymentId?: number;
+  stripeSessionUrl?: string; // set when paying by card, redirect there to finish
+  message?: string;
+}
+
+// GET /orders/{id}/step4
+export interface ApiOrderStep4 {
+  orderId: number;
+  orderStatus: number;
+  orderMapStatus: number;
+  summary: ApiOrderPriceSummary;
+  shippingInfo?: ApiShippingSelection;
+  products: ApiOrderProduct[];
+  address?: ApiAddress;
+  canProceed: boolean;
+  issues: string[];
+  previousTotal?: string; // only set when re-confirming an edit
+  priceDifference?: string;
+  previousPriceDetail: ApiPriceDetailItem[];
+  priceDetail: ApiPriceDetailItem[];
+}
+
+export interface ApiOrderHistoryItem {
+  id: number;
+  orderId: number;
+  userId?: number;
+  previousStatus?: number;
+  newStatus: number;
+  action?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+// Matches backend OrderNote; subdealers only get notes marked shared
+export interface ApiOrderNote {
+  id: number;
+  orderId: number;
+  userId?: number;
+  authorName?: string;
+  note: string;
+  shared: boolean;
+  mentionedUserIds: number[];
+  attachments: ApiOrderNoteAttachment[];
+  createdAt: string;
+}
+
+export interface ApiOrderNoteAttachment {
+  fileName: string;
+  fileUrl: string;
+  fileType?: string;
+  fileSize?: number;
+}
+
+// Staff member that can be @mentioned in order notes
+export interface ApiMentionableUser {
+  id: number;
+  name: string;
+  email: string;
+}
+
+export interface ApiPayment {
+  id: number;
+  orderId?: number;
+  paymentMethod: string;
+  amount: string;
+  status: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export interface ApiTransaction {
+  id: number;
+  userId: number;
+  type: number;
+  amount: string;
+  description?: string;
+  referenceId?: string;
+  balanceBefore: string;
+  balanceAfter: string;
+  createdAt: string;
+}
+
+export interface ApiShippingLabelHistory {
+  id: number;
+  orderId: number;
+  carrier?: string;
+  service?: string;
+  trackingNumber?: string;
+  cost?: string;
+  createdAt: string;
+  voidedAt?: string;
+  isActive: boolean;
+}
+
+export type RefundRequestStatus = 'pending' | 'approved' | 'denied';
+
+export interface ApiRefundRequestItem {
+  orderProductId: number;
+  quantity: number;
+  amount?: string; // priced by the backend
+}
+
+export interface ApiRefundRequest {
+  id: string;
+  requestedBy: number;
+  items: ApiRefundRequestItem[]; // empty = full order refund
+  amount: string;
+  reason: string;
+  status: RefundRequestStatus;
+  reviewedBy?: number;
+  reviewNote?: string;
+  createdAt: string;
+  reviewedAt?: string;
+}
+
+export interface ApiOrderRefunds {
+  refunds: { refundAmount: string }[];
+  requests: ApiRefundRequest[];
+  refundableAmount: string;
+}
+
+// Wallet transaction type codes from backend
+export const TransactionTypeCodes = {
+  PURCHASE: 0,
+  ADD_FUNDS: 1,
+  PROMOTIONAL_CREDIT: 2,
+  CC_PAYMENT: 3,
+  REFERRAL_CREDIT: 4,
+  ORDER_REFUND: 5,
+  MULTI_PURCHASE: 6,
+} as const;
+
+// Order map status codes from backend
+export const OrderMapStatusCodes = {
+  UNMAPPED: 0,
+  COMPLETELY_MAPPED: 1,
+  PARTIALLY_MAPPED: 2,
+} as const;
+
+export function getOrderMapStatusLabel(code: number): string {
+  switch (code) {
+    case OrderMapStatusCodes.COMPLETELY_MAPPED: return 'Mapped';
+    case OrderMapStatusCodes.PARTIALLY_MAPPED: return 'Partially Mapped';
+    default: return 'Unmapped';
+  }
 }
 
 // Order status codes from backend
@@ -253,6 +528,90 @@ export function getOrderStatusColor(code: number): string {
   }
 }
 
+// Allowed order status transitions. Any move not listed here is rejected
+// before it reaches the API; COMBINED, DELETED and COMPLETED are terminal.
+// COMBINED is only reachable through the combine flow, never as a manual move.
+const S = OrderStatusCodes;
+export const OrderStatusTransitions: Record<OrderStatusCode, readonly OrderStatusCode[]> = {
+  [S.NEW_ORDER]: [S.EDITING, S.PAYMENT_PENDING, S.CANCELLED, S.DELETED],
+  [S.INVALID_ADDRESS]: [S.NEW_ORDER, S.EDITING, S.CANCELLED, S.DELETED],
+  // Edited paid orders leave EDITING through confirm, which charges or refunds the difference
+  [S.EDITING]: [S.NEW_ORDER, S.DELETED],
+  [S.PAYMENT_PENDING]: [S.EDITING, S.PENDING, S.URGENT, S.CANCELLED],
+  [S.PENDING]: [S.URGENT, S.AWAITING_RESPONSE, S.IN_PRODUCTION, S.CANCELLED],
+  [S.URGENT]: [S.PENDING, S.AWAITING_RESPONSE, S.IN_PRODUCTION, S.CANCELLED],
+  [S.AWAITING_RESPONSE]: [S.PENDING, S.URGENT, S.IN_PRODUCTION],
+  [S.IN_PRODUCTION]: [S.AWAITING_RESPONSE, S.SHIPPED],
+  [S.SHIPPED]: [S.COMPLETED],
+  [S.CANCELLED]: [S.DELETED],
+  [S.COMPLETED]: [],
+  [S.COMBINED]: [],
+  [S.DELETED]: [],
+};
+
+// Paid statuses: cancelling from here goes through /orders/{id}/cancel so the wallet is refunded
+export const RefundableCancelStatuses: readonly number[] = [S.PENDING, S.URGENT];
+
+// Paid statuses a refund can be requested in; EDITING settles its own price difference on confirm
+export const RefundRequestOrderStatuses: readonly number[] = [
+  S.PENDING,
+  S.URGENT,
+  S.AWAITING_RESPONSE,
+  S.IN_PRODUCTION,
+  S.SHIPPED,
+  S.COMPLETED,
+];
+
+// Statuses the backend lets step 2 edit; paid ones move to EDITING and must be re-confirmed
+export const EditableOrderStatuses: readonly number[] = [
+  S.NEW_ORDER,
+  S.PAYMENT_PENDING,
+  S.PENDING,
+  S.URGENT,
+  S.EDITING,
+];
+
+export function getAllowedStatusTransitions(from: number): OrderStatusCode[] {
+  return [...(OrderStatusTransitions[from as OrderStatusCode] ?? [])];
+}
+
+export function canTransitionOrderStatus(from: number, to: number): boolean {
+  return getAllowedStatusTransitions(from).includes(to as OrderStatusCode);
+}
+
+// Transitions allowed for every one of the given statuses (used by bulk actions)
+export function getCommonStatusTransitions(froms: number[]): OrderStatusCode[] {
+  if (froms.length === 0) return [];
+  return froms
+    .map(getAllowedStatusTransitions)
+    .reduce((common, allowed) => common.filter((to) => allowed.includes(to)));
+}
+
+export function assertOrderStatusTransition(from: number, to: number): void {
+  if (!canTransitionOrderStatus(from, to)) {
+    throw new Error(
+      `Cannot move an order from ${getOrderStatusLabel(from)} to ${getOrderStatusLabel(to)}`
+    );
+  }
+}
+
+export function getOrderStatusActionLabel(to: number): string {
+  switch (to) {
+    case S.NEW_ORDER: return 'Move to New';
+    case S.EDITING: return 'Edit Order';
+    case S.PAYMENT_PENDING: return 'Send to Payment';
+    case S.PENDING: return 'Mark as Pending';
+    case S.URGENT: return 'Mark as Urgent';
+    case S.AWAITING_RESPONSE: return 'Await Response';
+    case S.IN_PRODUCTION: return 'Start Production';
+    case S.SHIPPED: return 'Mark as Shipped';
+    case S.COMPLETED: return 'Complete';
+    case S.CANCELLED: return 'Cancel Order';
+    case S.DELETED: return 'Delete Order';
+    default: return getOrderStatusLabel(to);
+  }
+}
+
 // Customer types
 export interface Customer {
   id: string;
@@ -335,6 +694,9 @@ export interface ProductForSelection {
   categoryId: number;
   title: string;
   designType: number;
+  // Default customs declaration for international orders
+  customsDescription?: string | null;
+  hsTariffNumber?: string | null;
 }
 
 export interface Option1ForSelection {
@@ -380,6 +742,25 @@ export interface ModificationForSelection {
   useWidth: number;
 }
 
+// Matches backend CustomsItem; weight is in ounces, weight and value cover the whole quantity
+export interface CustomsItem {
+  description: string;
+  quantity: number;
+  weight: string;
+  value: string;
+  hsTariffNumber?: string;
+  originCountry: string;
+}
+
+// Matches backend CustomsInfoFull
+export interface CustomsInfo {
+  customsSigner?: string;
+  contentsType: 'merchandise' | 'gift' | 'documents' | 'returned_goods' | 'sample' | 'other';
+  contentsExplanation?: string;
+  nonDeliveryOption: 'return' | 'abandon';
+  customsItems: CustomsItem[];
+}
+
 // Excel Import Types
 export interface ExcelImportResult {
   success: boolean;
@@ -394,3 +775,38 @@ export interface ExcelImportError {
   customerName?: string;
   errorMessage: string;
 }
+
+// Raw first sheet of an uploaded spreadsheet, before its columns are mapped
+export interface ExcelSheetPreview {
+  headers: string[];
+  rows: { rowNumber: number; cells: string[] }[];
+}
+
+// Matches backend ImportOrderRow - a spreadsheet row mapped to order fields
+export interface ImportOrderRow {
+  rowNumber: number;
+  name: string;
+  street1: string;
+  street2: string;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+  sku: string;
+  product: string;
+  category: string;
+  option1: string;
+  option2: string;
+  quantity: string;
+  modification: string;
+  modificationUrl: string;
+}
+
+export type ImportOrderField = Exclude<keyof ImportOrderRow, 'rowNumber'>;
+
+export interface ImportRowValidation {
+  rowNumber: number;
+  productId?: number;
+  variantId?: number;
+  errors: string[];
+}